@@ -14,6 +14,7 @@ import { AnimeTabs } from "@/components/anime/details/anime-tabs"
 import { useTranslation } from "@/hooks/use-translation"
 import { BackButton } from "@/components/ui/back-button"
 import { useLogger } from "@/hooks/use-logger"
+import { useAuth } from "@/hooks/use-auth"
 
 function LoadingSkeleton() {
   return (
@@ -69,6 +70,7 @@ function ErrorState({ message }: { message: string }) {
 export default function AnimePage() {
   const params = useParams()
   const { addLog } = useLogger()
+  const { findTrackedMedia } = useAuth()
   const { t } = useTranslation()
   const idParam = params.id
   const id = Array.isArray(idParam) ? idParam[0] : idParam
@@ -83,6 +85,8 @@ export default function AnimePage() {
     if (!id) return
 
     let isMounted = true
+    // Cancels the requests still queued or running when the page is left.
+    const controller = new AbortController()
 
     async function fetchAllData() {
       if (!id) {
@@ -105,7 +109,10 @@ export default function AnimePage() {
         }
 
         addLog(`Fetching primary data for anime AniList ID: ${id}`)
-        const animeData = await getMediaByAniListId(animeIdNumber, addLog)
+        const animeData = await getMediaByAniListId(animeIdNumber, addLog, {
+          signal: controller.signal,
+          onRevalidate: (fresh) => isMounted && setAnime(fresh),
+        }) ?? findTrackedMedia(animeIdNumber)
 
         if (!isMounted) return
 
@@ -122,7 +129,7 @@ export default function AnimePage() {
         // Fetch secondary data
         try {
           addLog(`Fetching recommendations for anime: "${animeData.title}" (AniList ID: ${animeData.id})`)
-          const recs = await getAnimeRecommendations(animeData.id, addLog)
+          const recs = await getAnimeRecommendations(animeData.id, addLog, { signal: controller.signal })
           if (isMounted && recs) setRecommendations(recs)
         } catch (err: any) {
           addLog(`Could not fetch recommendations for AniList ID ${animeData.id}: ${err.message}`, "warn")
@@ -140,8 +147,9 @@ export default function AnimePage() {
 
     return () => {
       isMounted = false
+      controller.abort()
     }
-  }, [id, addLog, notFound])
+  }, [id, addLog, notFound, findTrackedMedia])
 
   if (isLoading) {
     return <LoadingSkeleton />
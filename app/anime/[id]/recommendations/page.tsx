@@ -56,6 +56,7 @@ export default function RecommendationsPage() {
       notFound()
       return
     }
+    const controller = new AbortController()
 
     async function fetchData() {
       setIsLoading(true)
@@ -64,7 +65,8 @@ export default function RecommendationsPage() {
 
       try {
         // First get the base anime's data
-        const animeData = await getMediaByAniListId(anilistId)
+        const animeData = await getMediaByAniListId(anilistId, undefined, { signal: controller.signal })
+        if (controller.signal.aborted) return
 
         if (!animeData) {
           notFound()
@@ -74,7 +76,8 @@ export default function RecommendationsPage() {
         setAnime(animeData)
 
         // Then fetch recommendations using the anilistId
-        const recsData = await getAnimeRecommendations(anilistId)
+        const recsData = await getAnimeRecommendations(anilistId, undefined, { signal: controller.signal })
+        if (controller.signal.aborted) return
         setRecommendations(recsData)
       } catch (err) {
         console.error("Failed to fetch recommendations data:", err)
@@ -90,6 +93,7 @@ export default function RecommendationsPage() {
     }
 
     fetchData()
+    return () => controller.abort()
   }, [id, t, toast])
 
   if (isLoading) {
@@ -1,31 +1,68 @@
 import { type NextRequest, NextResponse } from "next/server"
+import {
+  CACHE_STATUS_HEADER,
+  getProxyTtl,
+  proxyCacheKey,
+  withProxyCache,
+  type ProxyResponse,
+} from "@/lib/anilist/proxy-cache"
+
+// Passed back to the client, whose request scheduler paces itself by them.
+const RATE_LIMIT_HEADERS = ["Retry-After", "X-RateLimit-Limit", "X-RateLimit-Remaining", "X-RateLimit-Reset"]
+
+function rateLimitHeaders(res: Response) {
+  const headers: Record<string, string> = {}
+  RATE_LIMIT_HEADERS.forEach((name) => {
+    const value = res.headers.get(name)
+    if (value !== null) headers[name] = value
+  })
+  return headers
+}
+
+// Sends the request to AniList. Only successful answers without GraphQL errors may be cached.
+async function forward(body: unknown): Promise<ProxyResponse & { cacheable: boolean }> {
+  const res = await fetch("https://graphql.anilist.co", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Accept: "application/json",
+    },
+    body: JSON.stringify(body),
+  })
+
+  if (!res.ok) {
+    const errorBody = await res.text()
+    console.error("Anilist API Error:", res.status, errorBody)
+    return {
+      status: res.status,
+      body: JSON.stringify({ error: `Anilist API error: ${res.statusText}`, details: errorBody }),
+      headers: rateLimitHeaders(res),
+      cacheable: false,
+    }
+  }
+
+  const data = await res.json()
+  return { status: res.status, body: JSON.stringify(data), headers: rateLimitHeaders(res), cacheable: !data.errors }
+}
 
 // This route acts as a proxy to the AniList API
 // to avoid client-side CORS issues and hide potential API keys.
+// Responses are cached and identical requests coalesced (see lib/anilist/proxy-cache.ts).
 export async function POST(req: NextRequest) {
   try {
     const body = await req.json()
+    const query = typeof body?.query === "string" ? body.query : ""
+    const ttl = getProxyTtl(query)
 
-    const res = await fetch("https://graphql.anilist.co", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Accept: "application/json",
-      },
-      body: JSON.stringify(body),
-    })
-
-    if (!res.ok) {
-      const errorBody = await res.text()
-      console.error("Anilist API Error:", res.status, errorBody)
-      return NextResponse.json(
-        { error: `Anilist API error: ${res.statusText}`, details: errorBody },
-        { status: res.status },
-      )
-    }
+    const { response, cacheStatus } =
+      ttl === null
+        ? { response: await forward(body), cacheStatus: "BYPASS" }
+        : await withProxyCache(proxyCacheKey(query, body.variables), ttl, () => forward(body))
 
-    const data = await res.json()
-    return NextResponse.json(data)
+    return new NextResponse(response.body, {
+      status: response.status,
+      headers: { ...response.headers, "Content-Type": "application/json", [CACHE_STATUS_HEADER]: cacheStatus },
+    })
   } catch (error: any) {
     console.error("API Route Error:", error)
     return NextResponse.json({ error: "Internal Server Error", details: error.message }, { status: 500 })
@@ -10,12 +10,19 @@ export async function GET(req: NextRequest) {
   }
 
   try {
+    const ifNoneMatch = req.headers.get("if-none-match")
     const response = await fetch(targetUrl, {
       headers: {
         Accept: "application/json, text/plain, */*",
+        ...(ifNoneMatch ? { "If-None-Match": ifNoneMatch } : {}),
       },
+      cache: "no-store",
     })
 
+    if (response.status === 304) {
+      return new NextResponse(null, { status: 304, headers: { ETag: response.headers.get("etag") || ifNoneMatch || "" } })
+    }
+
     if (!response.ok) {
       const errorText = await response.text()
       return NextResponse.json(
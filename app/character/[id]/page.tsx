@@ -152,6 +152,7 @@ export default function CharacterPage() {
       notFound()
       return
     }
+    const controller = new AbortController()
 
     async function fetchData() {
       addLog(`Fetching character details for ID: ${id}`)
@@ -161,7 +162,8 @@ export default function CharacterPage() {
       setTranslatedAbout(null)
       setShowTranslation(false)
       try {
-        const data = await getCharacterDetails(Number(id), addLog)
+        const data = await getCharacterDetails(Number(id), addLog, { signal: controller.signal })
+        if (controller.signal.aborted) return
         if (!data) {
           addLog(`Character with ID ${id} not found.`, "warn")
           notFound()
@@ -170,6 +172,7 @@ export default function CharacterPage() {
         setCharacter(data)
         addLog(`Successfully fetched character details for "${data.name}"`)
       } catch (error) {
+        if (controller.signal.aborted) return
         addLog(`Failed to fetch character details for ID ${id}`, "error", { error })
         console.error(`Failed to fetch character details for ID ${id}:`, error)
         toast({
@@ -184,6 +187,7 @@ export default function CharacterPage() {
     }
 
     fetchData()
+    return () => controller.abort()
   }, [id, toast, t, addLog])
 
   const handleTabChange = useCallback(
@@ -0,0 +1,243 @@
+"use client"
+
+import Image from "next/image"
+import Link from "next/link"
+import { useMemo, useState } from "react"
+import { format } from "date-fns"
+import { ar } from "date-fns/locale"
+import { useAuth } from "@/hooks/use-auth"
+import { useHydration } from "@/hooks/use-hydration"
+import { useTranslation } from "@/hooks/use-translation"
+import type { Anime } from "@/lib/types"
+import { History, Pencil, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { BackButton } from "@/components/ui/back-button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { buildHistory, groupHistoryByDay, type HistoryEntry } from "@/lib/data/progress"
+import type { MediaKind } from "@/lib/data/media-status"
+
+// Entries rendered at first; "show more" adds the same number again.
+const HISTORY_PAGE_SIZE = 100
+
+type KindFilter = "all" | MediaKind
+
+const toInputValue = (at: string | null) => (at ? format(new Date(at), "yyyy-MM-dd'T'HH:mm") : "")
+
+function LoadingSkeleton() {
+  return (
+    <div className="space-y-4">
+      {Array.from({ length: 3 }).map((_, i) => (
+        <Card key={i}>
+          <CardHeader>
+            <Skeleton className="h-6 w-1/4" />
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {Array.from({ length: 3 }).map((_, j) => (
+              <Skeleton key={j} className="h-12 w-full" />
+            ))}
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  )
+}
+
+// Changes or clears the date of one history entry.
+function EditDateDialog({ entry, title, onOpenChange }: { entry: HistoryEntry | null; title: string; onOpenChange: (open: boolean) => void }) {
+  const { t } = useTranslation()
+  const { setProgressDate } = useAuth()
+  const [value, setValue] = useState("")
+  const [editedEntry, setEditedEntry] = useState<HistoryEntry | null>(null)
+
+  // Start from the entry's own date each time the dialog opens on a different entry.
+  if (entry && entry !== editedEntry) {
+    setEditedEntry(entry)
+    setValue(toInputValue(entry.at))
+  }
+
+  const save = (at: string | null) => {
+    if (entry) setProgressDate(entry, at)
+    onOpenChange(false)
+  }
+
+  return (
+    <Dialog open={!!entry} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{t("watch_history_edit_date")}</DialogTitle>
+          <DialogDescription>{title}</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="history-date">{t("watch_history_date_label")}</Label>
+          <Input id="history-date" type="datetime-local" value={value} max={toInputValue(new Date().toISOString())} onChange={(e) => setValue(e.target.value)} />
+        </div>
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => save(null)}>
+            {t("watch_history_clear_date")}
+          </Button>
+          <Button disabled={!value} onClick={() => save(new Date(value).toISOString())}>
+            {t("watch_history_save")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+const UNIT_LABELS = {
+  watchedEpisodes: "watch_history_episode",
+  readChapters: "watch_history_chapter",
+  readVolumes: "watch_history_volume",
+} as const
+
+function HistoryRow({ entry, media, onEdit }: { entry: HistoryEntry; media?: Anime; onEdit: () => void }) {
+  const { t } = useTranslation()
+  const { removeProgressEntry } = useAuth()
+  const imageUrl = media?.images.webp?.large_image_url || media?.images.jpg?.large_image_url
+  const unit = t(UNIT_LABELS[entry.field], { unit: entry.unitId })
+
+  return (
+    <div className="flex items-center gap-3 rounded-md border p-2">
+      <span className="w-12 text-center font-mono text-sm text-muted-foreground">{entry.at ? format(new Date(entry.at), "HH:mm") : "—"}</span>
+      <div className="relative h-14 w-10 shrink-0 overflow-hidden rounded bg-muted">
+        {imageUrl && <Image src={imageUrl} alt={media?.title || ""} fill className="object-cover" sizes="40px" />}
+      </div>
+      <div className="min-w-0 flex-grow">
+        <Link href={`/${entry.kind === "MANGA" ? "manga" : "anime"}/${entry.mediaId}`} className="block truncate font-medium hover:text-primary">
+          {media?.title || `#${entry.mediaId}`}
+        </Link>
+        <p className="text-sm text-muted-foreground">{unit}</p>
+      </div>
+      <Button variant="ghost" size="icon" onClick={onEdit} aria-label={t("watch_history_edit_date")}>
+        <Pencil className="h-4 w-4" />
+      </Button>
+      <Button variant="ghost" size="icon" className="text-destructive" onClick={() => removeProgressEntry(entry)} aria-label={t("watch_history_remove")}>
+        <Trash2 className="h-4 w-4" />
+      </Button>
+    </div>
+  )
+}
+
+export default function HistoryPage() {
+  const { authMode, listData, trackedMedia } = useAuth()
+  const { t, lang } = useTranslation()
+  const isHydrated = useHydration()
+  const [kind, setKind] = useState<KindFilter>("all")
+  const [visible, setVisible] = useState(HISTORY_PAGE_SIZE)
+  const [editing, setEditing] = useState<HistoryEntry | null>(null)
+
+  const { watchedEpisodes, readChapters, readVolumes } = listData
+  const entries = useMemo(
+    () => buildHistory({ watchedEpisodes, readChapters, readVolumes }, kind === "all" ? undefined : kind),
+    [watchedEpisodes, readChapters, readVolumes, kind],
+  )
+  const days = useMemo(() => groupHistoryByDay(entries.slice(0, visible)), [entries, visible])
+  const mediaById = useMemo(() => new Map(trackedMedia.map((item) => [item.id, item])), [trackedMedia])
+  const titleOf = (entry: HistoryEntry) => mediaById.get(entry.mediaId)?.title || `#${entry.mediaId}`
+
+  const header = (
+    <>
+      <BackButton />
+      <div className="my-6">
+        <h1 className="text-3xl font-bold font-headline flex items-center gap-2">
+          <History className="w-8 h-8 text-primary" />
+          {t("watch_history")}
+        </h1>
+        <p className="mt-1 text-muted-foreground">{t("watch_history_desc")}</p>
+      </div>
+    </>
+  )
+
+  if (!isHydrated) {
+    return (
+      <main className="container mx-auto px-4 py-8">
+        {header}
+        <LoadingSkeleton />
+      </main>
+    )
+  }
+
+  if (authMode === "none") {
+    return (
+      <main className="container mx-auto px-4 py-8 text-center">
+        <div className="py-16">
+          <History className="mx-auto h-12 w-12 text-muted-foreground" />
+          <h2 className="mt-4 text-2xl font-bold">{t("sign_in_to_see_list")}</h2>
+          <p className="mt-2 text-muted-foreground">{t("watch_history_prompt")}</p>
+        </div>
+      </main>
+    )
+  }
+
+  return (
+    <main className="container mx-auto px-4 py-8">
+      {header}
+      <Tabs
+        value={kind}
+        onValueChange={(value) => {
+          setKind(value as KindFilter)
+          setVisible(HISTORY_PAGE_SIZE)
+        }}
+        className="mb-6"
+      >
+        <TabsList>
+          <TabsTrigger value="all">{t("all")}</TabsTrigger>
+          <TabsTrigger value="ANIME">{t("anime")}</TabsTrigger>
+          <TabsTrigger value="MANGA">{t("manga")}</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      {entries.length === 0 ? (
+        <div className="text-center py-16">
+          <History className="mx-auto h-12 w-12 text-muted-foreground" />
+          <h2 className="mt-4 text-2xl font-bold">{t("nothing_here_yet")}</h2>
+          <p className="mt-2 text-muted-foreground">{t("watch_history_empty")}</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {days.map(({ day, entries: dayEntries }) => (
+            <Card key={day ?? "undated"}>
+              <CardHeader className="pb-3">
+                <h2 className="text-lg font-semibold">
+                  {day ? format(new Date(`${day}T00:00`), "EEEE, d MMMM yyyy", { locale: lang === "ar" ? ar : undefined }) : t("watch_history_undated")}
+                </h2>
+                {!day && <p className="text-sm text-muted-foreground">{t("watch_history_undated_desc")}</p>}
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {dayEntries.map((entry) => (
+                  <HistoryRow
+                    key={`${entry.field}:${entry.mediaId}:${entry.unitId}`}
+                    entry={entry}
+                    media={mediaById.get(entry.mediaId)}
+                    onEdit={() => setEditing(entry)}
+                  />
+                ))}
+              </CardContent>
+            </Card>
+          ))}
+          {entries.length > visible && (
+            <div className="text-center">
+              <Button variant="outline" onClick={() => setVisible(visible + HISTORY_PAGE_SIZE)}>
+                {t("show_more")}
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+
+      <EditDateDialog entry={editing} title={editing ? titleOf(editing) : ""} onOpenChange={(open) => !open && setEditing(null)} />
+    </main>
+  )
+}
@@ -16,6 +16,7 @@ import {
   getUpcomingManga,
   getLatestAdditions,
 } from "@/lib/anilist"
+import type { CachedRequestOptions } from "@/lib/anilist/cache"
 import type { Anime } from "@/lib/types"
 import { PaginatedAnimeGrid } from "@/components/anime/paginated-anime-grid"
 import { notFound, useParams, useSearchParams } from "next/navigation"
@@ -50,6 +51,7 @@ type FetcherFunction = (
   page: number,
   perPage: number,
   addLog: (message: string, type?: any, details?: any) => void,
+  options?: CachedRequestOptions<{ data: Anime[]; hasNextPage: boolean }>,
 ) => Promise<{ data: Anime[]; hasNextPage: boolean }>
 
 const listConfig: Record<ListType, { titleKey: keyof typeof translations.ar; fetcher: FetcherFunction }> = {
@@ -128,14 +130,19 @@ function ListPageClient() {
     setPageNumber(currentPage)
     setBasePath(`/list/${currentType}`)
 
+    const controller = new AbortController()
+    const showPage = ({ data, hasNextPage }: { data: Anime[]; hasNextPage: boolean }) => {
+      setAnimes(deduplicateAnime(data))
+      setHasNextPage(hasNextPage)
+    }
+
     async function fetchData() {
       setIsLoading(true)
       const config = listConfig[currentType]
       try {
-        const { data, hasNextPage } = await config.fetcher(currentPage, PAGE_SIZE, addLog)
-        setAnimes(deduplicateAnime(data))
-        setHasNextPage(hasNextPage)
+        showPage(await config.fetcher(currentPage, PAGE_SIZE, addLog, { signal: controller.signal, onRevalidate: showPage }))
       } catch (e) {
+        if (controller.signal.aborted) return
         console.error(e)
         setAnimes([])
         setHasNextPage(false)
@@ -145,6 +152,7 @@ function ListPageClient() {
     }
 
     fetchData()
+    return () => controller.abort()
   }, [params, addLog])
 
   if (isLoading && !animes) {
@@ -1,6 +1,6 @@
 "use client"
 
-import { useEffect, useState, useCallback } from "react"
+import { useEffect, useState, useCallback, useMemo } from "react"
 import { useAuth } from "@/hooks/use-auth"
 import type { Anime } from "@/lib/types"
 import { Card, CardContent, CardHeader } from "@/components/ui/card"
@@ -22,6 +22,8 @@ import {
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog"
 import { BackButton } from "@/components/ui/back-button"
+import { ListSortSelect } from "@/components/anime/list/list-sort-select"
+import { sortListMedia, type ListSortKey } from "@/lib/data/list-entries"
 
 function LoadingSkeleton() {
   return (
@@ -42,24 +44,20 @@ function LoadingSkeleton() {
 }
 
 export default function CompletedListPage() {
-  const { authMode, getAllWatchedAnime, removeItemFromList, clearCompletedList } = useAuth()
-  const [animeList, setAnimeList] = useState<(Anime & { watchedEpisodeCount: number })[]>([])
+  const { authMode, listData, getListMedia, removeItemFromList, clearCompletedList } = useAuth()
+  const [animeList, setAnimeList] = useState<Anime[]>([])
+  const [sortKey, setSortKey] = useState<ListSortKey>("added")
+  const sortedAnimeList = useMemo(() => sortListMedia(animeList, listData.listEntries, sortKey), [animeList, listData.listEntries, sortKey])
   const [isLoading, setIsLoading] = useState(true)
   const isHydrated = useHydration()
   const { t } = useTranslation()
 
   const fetchCompletedAnime = useCallback(async () => {
     setIsLoading(true)
-    const allWatched = await getAllWatchedAnime()
-
-    // An anime is "completed" if all its episodes have been watched.
-    const completed = allWatched.filter(
-      (anime) => anime.episodes && anime.episodes > 0 && anime.watchedEpisodeCount >= anime.episodes,
-    )
-
-    setAnimeList(completed)
+    const list = await getListMedia("completed")
+    setAnimeList(list)
     setIsLoading(false)
-  }, [getAllWatchedAnime])
+  }, [getListMedia])
 
   useEffect(() => {
     if (!isHydrated || authMode === "none") {
@@ -70,9 +68,8 @@ export default function CompletedListPage() {
   }, [authMode, isHydrated, fetchCompletedAnime])
 
   const handleRemove = (itemId: number) => {
-    // To remove from "completed", we essentially unwatch all episodes.
+    // Leaving "completed" also clears the watched episodes.
     removeItemFromList(itemId, "completed")
-    // Refetch or filter locally
     setAnimeList((prev) => prev.filter((item) => item.id !== itemId))
   }
 
@@ -115,24 +112,27 @@ export default function CompletedListPage() {
           {t("completed")}
         </h1>
         {animeList.length > 0 && (
-          <AlertDialog>
-            <AlertDialogTrigger asChild>
-              <Button variant="destructive">
-                <Trash2 className="mr-2 h-4 w-4" />
-                {t("unwatch_all")}
-              </Button>
-            </AlertDialogTrigger>
-            <AlertDialogContent>
-              <AlertDialogHeader>
-                <AlertDialogTitle>{t("are_you_sure")}</AlertDialogTitle>
-                <AlertDialogDescription>{t("clear_completed_warning")}</AlertDialogDescription>
-              </AlertDialogHeader>
-              <AlertDialogFooter>
-                <AlertDialogCancel>{t("cancel")}</AlertDialogCancel>
-                <AlertDialogAction onClick={handleClearAll}>{t("delete_everything")}</AlertDialogAction>
-              </AlertDialogFooter>
-            </AlertDialogContent>
-          </AlertDialog>
+          <div className="flex items-center gap-2">
+            <ListSortSelect value={sortKey} onChange={setSortKey} />
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="destructive">
+                  <Trash2 className="mr-2 h-4 w-4" />
+                  {t("unwatch_all")}
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>{t("are_you_sure")}</AlertDialogTitle>
+                  <AlertDialogDescription>{t("clear_completed_warning")}</AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>{t("cancel")}</AlertDialogCancel>
+                  <AlertDialogAction onClick={handleClearAll}>{t("delete_everything")}</AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </div>
         )}
       </div>
 
@@ -140,7 +140,7 @@ export default function CompletedListPage() {
         <LoadingSkeleton />
       ) : animeList.length > 0 ? (
         <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4 md:gap-6">
-          {animeList.map((anime) => (
+          {sortedAnimeList.map((anime) => (
             <AnimeCard key={anime.id} anime={anime} listType="completed" onRemove={handleRemove} />
           ))}
         </div>
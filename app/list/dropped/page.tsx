@@ -0,0 +1,110 @@
+"use client"
+
+import { useEffect, useState, useCallback, useMemo } from "react"
+import { useAuth } from "@/hooks/use-auth"
+import type { Anime } from "@/lib/types"
+import { Card, CardContent, CardHeader } from "@/components/ui/card"
+import { XCircle } from "lucide-react"
+import { Skeleton } from "@/components/ui/skeleton"
+import { useHydration } from "@/hooks/use-hydration"
+import { AnimeCard } from "@/components/anime/anime-card"
+import { useTranslation } from "@/hooks/use-translation"
+import { BackButton } from "@/components/ui/back-button"
+import { ListSortSelect } from "@/components/anime/list/list-sort-select"
+import { sortListMedia, type ListSortKey } from "@/lib/data/list-entries"
+
+function LoadingSkeleton() {
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4 md:gap-6">
+      {Array.from({ length: 10 }).map((_, i) => (
+        <Card key={i}>
+          <CardHeader className="p-0">
+            <Skeleton className="aspect-[2/3] w-full" />
+          </CardHeader>
+          <CardContent className="p-3 space-y-2">
+            <Skeleton className="h-5 w-4/5" />
+            <Skeleton className="h-4 w-3/5" />
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  )
+}
+
+export default function DroppedListPage() {
+  const { authMode, listData, getListMedia, removeItemFromList } = useAuth()
+  const { t } = useTranslation()
+  const [mediaList, setMediaList] = useState<Anime[]>([])
+  const [sortKey, setSortKey] = useState<ListSortKey>("added")
+  const sortedMediaList = useMemo(() => sortListMedia(mediaList, listData.listEntries, sortKey), [mediaList, listData.listEntries, sortKey])
+  const [isLoading, setIsLoading] = useState(true)
+  const isHydrated = useHydration()
+
+  const fetchDroppedMedia = useCallback(async () => {
+    setIsLoading(true)
+    const list = await getListMedia("dropped")
+    setMediaList(list)
+    setIsLoading(false)
+  }, [getListMedia])
+
+  useEffect(() => {
+    if (!isHydrated || authMode === "none") {
+      setIsLoading(false)
+      return
+    }
+    fetchDroppedMedia()
+  }, [authMode, isHydrated, fetchDroppedMedia])
+
+  if (!isHydrated) {
+    return (
+      <main className="container mx-auto px-4 py-8">
+        <BackButton />
+        <h1 className="text-3xl font-bold font-headline my-6">{t("status_dropped")}</h1>
+        <LoadingSkeleton />
+      </main>
+    )
+  }
+
+  const handleRemove = (itemId: number) => {
+    removeItemFromList(itemId, "dropped")
+    setMediaList((prev) => prev.filter((item) => item.id !== itemId))
+  }
+
+  if (authMode === "none") {
+    return (
+      <main className="container mx-auto px-4 py-8 text-center">
+        <div className="py-16">
+          <XCircle className="mx-auto h-12 w-12 text-muted-foreground" />
+          <h2 className="mt-4 text-2xl font-bold">{t("sign_in_to_see_list")}</h2>
+          <p className="mt-2 text-muted-foreground">{t("dropped_list_prompt")}</p>
+        </div>
+      </main>
+    )
+  }
+
+  return (
+    <main className="container mx-auto px-4 py-8">
+      <BackButton />
+      <div className="flex justify-between items-center my-6">
+        <h1 className="text-3xl font-bold font-headline">{t("status_dropped")}</h1>
+        {mediaList.length > 0 && <ListSortSelect value={sortKey} onChange={setSortKey} />}
+      </div>
+
+      {isLoading ? (
+        <LoadingSkeleton />
+      ) : mediaList.length > 0 ? (
+        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4 md:gap-6">
+          {sortedMediaList.map((media) => (
+            <AnimeCard key={media.id} anime={media} listType="dropped" onRemove={handleRemove} />
+          ))}
+        </div>
+      ) : (
+        <div className="text-center py-16">
+          <XCircle className="mx-auto h-12 w-12 text-muted-foreground" />
+          <h2 className="mt-4 text-2xl font-bold">{t("nothing_here_yet")}</h2>
+          <p className="mt-2 text-muted-foreground">{t("dropped_empty_prompt")}</p>
+        </div>
+      )}
+    </main>
+  )
+}
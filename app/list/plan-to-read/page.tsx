@@ -1,6 +1,6 @@
 "use client"
 
-import { useEffect, useState } from "react"
+import { useEffect, useState, useMemo } from "react"
 import { useAuth } from "@/hooks/use-auth"
 import type { Anime } from "@/lib/types"
 import { Card, CardContent, CardHeader } from "@/components/ui/card"
@@ -10,6 +10,8 @@ import { useHydration } from "@/hooks/use-hydration"
 import { AnimeCard } from "@/components/anime/anime-card"
 import { useTranslation } from "@/hooks/use-translation"
 import { BackButton } from "@/components/ui/back-button"
+import { ListSortSelect } from "@/components/anime/list/list-sort-select"
+import { sortListMedia, type ListSortKey } from "@/lib/data/list-entries"
 
 function LoadingSkeleton() {
   return (
@@ -30,8 +32,10 @@ function LoadingSkeleton() {
 }
 
 export default function PlanToReadListPage() {
-  const { authMode, getPlanToReadManga, removeItemFromList } = useAuth()
+  const { authMode, listData, getListMedia, removeItemFromList } = useAuth()
   const [mangaList, setMangaList] = useState<Anime[]>([])
+  const [sortKey, setSortKey] = useState<ListSortKey>("added")
+  const sortedMangaList = useMemo(() => sortListMedia(mangaList, listData.listEntries, sortKey), [mangaList, listData.listEntries, sortKey])
   const [isLoading, setIsLoading] = useState(true)
   const isHydrated = useHydration()
   const { t } = useTranslation()
@@ -47,13 +51,13 @@ export default function PlanToReadListPage() {
 
     const fetchPlanToReadManga = async () => {
       setIsLoading(true)
-      const list = await getPlanToReadManga()
+      const list = await getListMedia("plan-to-read")
       setMangaList(list)
       setIsLoading(false)
     }
 
     fetchPlanToReadManga()
-  }, [authMode, getPlanToReadManga, isHydrated])
+  }, [authMode, getListMedia, isHydrated])
 
   const handleRemove = (itemId: number) => {
     removeItemFromList(itemId, "plan-to-read")
@@ -85,13 +89,16 @@ export default function PlanToReadListPage() {
   return (
     <main className="container mx-auto px-4 py-8">
       <BackButton />
-      <h1 className="text-3xl font-bold font-headline my-6">{t("plan_to_read_manga")}</h1>
+      <div className="flex justify-between items-center my-6">
+        <h1 className="text-3xl font-bold font-headline">{t("plan_to_read_manga")}</h1>
+        {mangaList.length > 0 && <ListSortSelect value={sortKey} onChange={setSortKey} />}
+      </div>
 
       {isLoading ? (
         <LoadingSkeleton />
       ) : mangaList.length > 0 ? (
         <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4 md:gap-6">
-          {mangaList.map((manga) => (
+          {sortedMangaList.map((manga) => (
             <AnimeCard key={manga.id} anime={manga} listType="plan-to-read" onRemove={handleRemove} />
           ))}
         </div>
@@ -1,6 +1,6 @@
 "use client"
 
-import { useEffect, useState } from "react"
+import { useEffect, useState, useMemo } from "react"
 import { useAuth } from "@/hooks/use-auth"
 import type { Anime } from "@/lib/types"
 import { Card, CardContent, CardHeader } from "@/components/ui/card"
@@ -10,6 +10,8 @@ import { useHydration } from "@/hooks/use-hydration"
 import { AnimeCard } from "@/components/anime/anime-card"
 import { useTranslation } from "@/hooks/use-translation"
 import { BackButton } from "@/components/ui/back-button"
+import { ListSortSelect } from "@/components/anime/list/list-sort-select"
+import { sortListMedia, type ListSortKey } from "@/lib/data/list-entries"
 
 function LoadingSkeleton() {
   return (
@@ -30,8 +32,10 @@ function LoadingSkeleton() {
 }
 
 export default function PlanToWatchListPage() {
-  const { authMode, getPlanToWatchAnime, removeItemFromList } = useAuth()
+  const { authMode, listData, getListMedia, removeItemFromList } = useAuth()
   const [animeList, setAnimeList] = useState<Anime[]>([])
+  const [sortKey, setSortKey] = useState<ListSortKey>("added")
+  const sortedAnimeList = useMemo(() => sortListMedia(animeList, listData.listEntries, sortKey), [animeList, listData.listEntries, sortKey])
   const [isLoading, setIsLoading] = useState(true)
   const isHydrated = useHydration()
   const { t } = useTranslation()
@@ -44,13 +48,13 @@ export default function PlanToWatchListPage() {
 
     const fetchPlanToWatchAnime = async () => {
       setIsLoading(true)
-      const list = await getPlanToWatchAnime()
+      const list = await getListMedia("plan-to-watch")
       setAnimeList(list)
       setIsLoading(false)
     }
 
     fetchPlanToWatchAnime()
-  }, [authMode, getPlanToWatchAnime, isHydrated])
+  }, [authMode, getListMedia, isHydrated])
 
   const handleRemove = (itemId: number) => {
     removeItemFromList(itemId, "plan-to-watch")
@@ -82,13 +86,16 @@ export default function PlanToWatchListPage() {
   return (
     <main className="container mx-auto px-4 py-8">
       <BackButton />
-      <h1 className="text-3xl font-bold font-headline my-6">{t("plan_to_watch")}</h1>
+      <div className="flex justify-between items-center my-6">
+        <h1 className="text-3xl font-bold font-headline">{t("plan_to_watch")}</h1>
+        {animeList.length > 0 && <ListSortSelect value={sortKey} onChange={setSortKey} />}
+      </div>
 
       {isLoading ? (
         <LoadingSkeleton />
       ) : animeList.length > 0 ? (
         <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4 md:gap-6">
-          {animeList.map((anime) => (
+          {sortedAnimeList.map((anime) => (
             <AnimeCard key={anime.id} anime={anime} listType="plan-to-watch" onRemove={handleRemove} />
           ))}
         </div>
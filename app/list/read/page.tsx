@@ -1,6 +1,6 @@
 "use client"
 
-import { useEffect, useState, useCallback } from "react"
+import { useEffect, useState, useCallback, useMemo } from "react"
 import { useAuth } from "@/hooks/use-auth"
 import type { Anime } from "@/lib/types"
 import { Card, CardContent, CardHeader } from "@/components/ui/card"
@@ -22,6 +22,8 @@ import {
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog"
 import { BackButton } from "@/components/ui/back-button"
+import { ListSortSelect } from "@/components/anime/list/list-sort-select"
+import { sortListMedia, type ListSortKey } from "@/lib/data/list-entries"
 
 function LoadingSkeleton() {
   return (
@@ -42,24 +44,20 @@ function LoadingSkeleton() {
 }
 
 export default function ReadListPage() {
-  const { authMode, getAllReadManga, removeItemFromList, clearReadList } = useAuth()
-  const [mangaList, setMangaList] = useState<(Anime & { readChapterCount: number })[]>([])
+  const { authMode, listData, getListMedia, removeItemFromList, clearReadList } = useAuth()
+  const [mangaList, setMangaList] = useState<Anime[]>([])
+  const [sortKey, setSortKey] = useState<ListSortKey>("added")
+  const sortedMangaList = useMemo(() => sortListMedia(mangaList, listData.listEntries, sortKey), [mangaList, listData.listEntries, sortKey])
   const [isLoading, setIsLoading] = useState(true)
   const isHydrated = useHydration()
   const { t } = useTranslation()
 
   const fetchReadManga = useCallback(async () => {
     setIsLoading(true)
-    const allRead = await getAllReadManga()
-
-    const completed = allRead.filter((manga) => {
-      const total = manga.chapters || manga.volumes
-      return total && manga.readChapterCount >= total
-    })
-
-    setMangaList(completed)
+    const list = await getListMedia("read")
+    setMangaList(list)
     setIsLoading(false)
-  }, [getAllReadManga])
+  }, [getListMedia])
 
   useEffect(() => {
     if (!isHydrated || authMode === "none") {
@@ -113,24 +111,27 @@ export default function ReadListPage() {
           {t("read")}
         </h1>
         {mangaList.length > 0 && (
-          <AlertDialog>
-            <AlertDialogTrigger asChild>
-              <Button variant="destructive">
-                <Trash2 className="mr-2 h-4 w-4" />
-                {t("unmark_all_as_read")}
-              </Button>
-            </AlertDialogTrigger>
-            <AlertDialogContent>
-              <AlertDialogHeader>
-                <AlertDialogTitle>{t("are_you_sure")}</AlertDialogTitle>
-                <AlertDialogDescription>{t("clear_read_list_warning")}</AlertDialogDescription>
-              </AlertDialogHeader>
-              <AlertDialogFooter>
-                <AlertDialogCancel>{t("cancel")}</AlertDialogCancel>
-                <AlertDialogAction onClick={handleClearAll}>{t("delete_everything")}</AlertDialogAction>
-              </AlertDialogFooter>
-            </AlertDialogContent>
-          </AlertDialog>
+          <div className="flex items-center gap-2">
+            <ListSortSelect value={sortKey} onChange={setSortKey} />
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="destructive">
+                  <Trash2 className="mr-2 h-4 w-4" />
+                  {t("unmark_all_as_read")}
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>{t("are_you_sure")}</AlertDialogTitle>
+                  <AlertDialogDescription>{t("clear_read_list_warning")}</AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>{t("cancel")}</AlertDialogCancel>
+                  <AlertDialogAction onClick={handleClearAll}>{t("delete_everything")}</AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </div>
         )}
       </div>
 
@@ -138,7 +139,7 @@ export default function ReadListPage() {
         <LoadingSkeleton />
       ) : mangaList.length > 0 ? (
         <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4 md:gap-6">
-          {mangaList.map((manga) => (
+          {sortedMangaList.map((manga) => (
             <AnimeCard key={manga.id} anime={manga} listType="read" onRemove={handleRemove} />
           ))}
         </div>
@@ -1,6 +1,6 @@
 "use client"
 
-import { useEffect, useState, useCallback } from "react"
+import { useEffect, useState, useCallback, useMemo } from "react"
 import { useAuth } from "@/hooks/use-auth"
 import type { Anime } from "@/lib/types"
 import { Card, CardContent, CardHeader } from "@/components/ui/card"
@@ -10,6 +10,8 @@ import { useHydration } from "@/hooks/use-hydration"
 import { AnimeCard } from "@/components/anime/anime-card"
 import { useTranslation } from "@/hooks/use-translation"
 import { BackButton } from "@/components/ui/back-button"
+import { ListSortSelect } from "@/components/anime/list/list-sort-select"
+import { sortListMedia, type ListSortKey } from "@/lib/data/list-entries"
 
 function LoadingSkeleton() {
   return (
@@ -30,18 +32,20 @@ function LoadingSkeleton() {
 }
 
 export default function ReadingListPage() {
-  const { authMode, getCurrentlyReadingManga, removeItemFromList } = useAuth()
+  const { authMode, listData, getListMedia, removeItemFromList } = useAuth()
   const { t } = useTranslation()
   const [mangaList, setMangaList] = useState<Anime[]>([])
+  const [sortKey, setSortKey] = useState<ListSortKey>("added")
+  const sortedMangaList = useMemo(() => sortListMedia(mangaList, listData.listEntries, sortKey), [mangaList, listData.listEntries, sortKey])
   const [isLoading, setIsLoading] = useState(true)
   const isHydrated = useHydration()
 
   const fetchReadingManga = useCallback(async () => {
     setIsLoading(true)
-    const list = await getCurrentlyReadingManga()
+    const list = await getListMedia("reading")
     setMangaList(list)
     setIsLoading(false)
-  }, [getCurrentlyReadingManga])
+  }, [getListMedia])
 
   useEffect(() => {
     if (!isHydrated || authMode === "none") {
@@ -83,13 +87,14 @@ export default function ReadingListPage() {
       <BackButton />
       <div className="flex justify-between items-center my-6">
         <h1 className="text-3xl font-bold font-headline">{t("currently_reading")}</h1>
+        {mangaList.length > 0 && <ListSortSelect value={sortKey} onChange={setSortKey} />}
       </div>
 
       {isLoading ? (
         <LoadingSkeleton />
       ) : mangaList.length > 0 ? (
         <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4 md:gap-6">
-          {mangaList.map((manga) => (
+          {sortedMangaList.map((manga) => (
             <AnimeCard key={manga.id} anime={manga} listType="reading" onRemove={handleRemove} />
           ))}
         </div>
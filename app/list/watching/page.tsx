@@ -1,6 +1,6 @@
 "use client"
 
-import { useEffect, useState, useCallback } from "react"
+import { useEffect, useState, useCallback, useMemo } from "react"
 import { useAuth } from "@/hooks/use-auth"
 import type { Anime } from "@/lib/types"
 import { Card, CardContent, CardHeader } from "@/components/ui/card"
@@ -10,6 +10,8 @@ import { useHydration } from "@/hooks/use-hydration"
 import { AnimeCard } from "@/components/anime/anime-card"
 import { useTranslation } from "@/hooks/use-translation"
 import { BackButton } from "@/components/ui/back-button"
+import { ListSortSelect } from "@/components/anime/list/list-sort-select"
+import { sortListMedia, type ListSortKey } from "@/lib/data/list-entries"
 
 type FilterStatus = "all" | "in-progress" | "watched"
 
@@ -32,18 +34,20 @@ function LoadingSkeleton() {
 }
 
 export default function WatchingListPage() {
-  const { authMode, getCurrentlyWatchingAnime, removeItemFromList } = useAuth()
+  const { authMode, listData, getListMedia, removeItemFromList } = useAuth()
   const { t } = useTranslation()
   const [animeList, setAnimeList] = useState<Anime[]>([])
+  const [sortKey, setSortKey] = useState<ListSortKey>("added")
+  const sortedAnimeList = useMemo(() => sortListMedia(animeList, listData.listEntries, sortKey), [animeList, listData.listEntries, sortKey])
   const [isLoading, setIsLoading] = useState(true)
   const isHydrated = useHydration()
 
   const fetchWatchingAnime = useCallback(async () => {
     setIsLoading(true)
-    const list = await getCurrentlyWatchingAnime()
+    const list = await getListMedia("watching")
     setAnimeList(list)
     setIsLoading(false)
-  }, [getCurrentlyWatchingAnime])
+  }, [getListMedia])
 
   useEffect(() => {
     if (!isHydrated || authMode === "none") {
@@ -85,13 +89,14 @@ export default function WatchingListPage() {
       <BackButton />
       <div className="flex justify-between items-center my-6">
         <h1 className="text-3xl font-bold font-headline">{t("watching")}</h1>
+        {animeList.length > 0 && <ListSortSelect value={sortKey} onChange={setSortKey} />}
       </div>
 
       {isLoading ? (
         <LoadingSkeleton />
       ) : animeList.length > 0 ? (
         <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4 md:gap-6">
-          {animeList.map((anime) => (
+          {sortedAnimeList.map((anime) => (
             <AnimeCard key={anime.id} anime={anime} listType="watching" onRemove={handleRemove} />
           ))}
         </div>
@@ -0,0 +1,243 @@
+"use client"
+
+import Image from "next/image"
+import Link from "next/link"
+import { notFound, useParams, useSearchParams } from "next/navigation"
+import { useEffect, useMemo, useRef, useState, Suspense } from "react"
+import { useAuth } from "@/hooks/use-auth"
+import type { Anime } from "@/lib/types"
+import { ArrowDown, ArrowUp, Check, ListOrdered, ListPlus, Pencil, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader } from "@/components/ui/card"
+import { Skeleton } from "@/components/ui/skeleton"
+import { BackButton } from "@/components/ui/back-button"
+import { PaginatedAnimeGrid } from "@/components/anime/paginated-anime-grid"
+import { PaginationControls } from "@/components/ui/pagination-controls"
+import { CustomListDialog } from "@/components/anime/list/custom-list-dialog"
+import { useHydration } from "@/hooks/use-hydration"
+import { useTranslation } from "@/hooks/use-translation"
+import { CUSTOM_LIST_PAGE_SIZE, findCustomList } from "@/lib/data/custom-lists"
+import { getMediaKind } from "@/lib/data/media-status"
+
+function LoadingSkeleton() {
+  const gridClass = "grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4 md:gap-6"
+  return (
+    <main className="container mx-auto px-4 py-8">
+      <div className="w-24 h-10 mb-4">
+        <Skeleton className="w-full h-full" />
+      </div>
+      <Skeleton className="h-9 w-1/3 my-6" />
+      <div className={gridClass}>
+        {Array.from({ length: 10 }).map((_, i) => (
+          <Card key={i}>
+            <CardHeader className="p-0">
+              <Skeleton className="aspect-[2/3] w-full" />
+            </CardHeader>
+            <CardContent className="p-3 space-y-2">
+              <Skeleton className="h-5 w-4/5" />
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </main>
+  )
+}
+
+// One title in arrange mode: its position, and buttons to move it or take it off the list.
+function ArrangeRow({ media, position, isFirst, isLast, onMove, onRemove }: {
+  media: Anime
+  position: number
+  isFirst: boolean
+  isLast: boolean
+  onMove: (offset: number) => void
+  onRemove: () => void
+}) {
+  const { t } = useTranslation()
+  const imageUrl = media.images.webp?.large_image_url || media.images.jpg?.large_image_url
+
+  return (
+    <div className="flex items-center gap-3 rounded-md border p-2">
+      <span className="w-8 text-center font-mono text-sm text-muted-foreground">{position}</span>
+      <div className="relative h-16 w-11 shrink-0 overflow-hidden rounded bg-muted">
+        {imageUrl && <Image src={imageUrl} alt={media.title} fill className="object-cover" sizes="44px" />}
+      </div>
+      <Link href={`/${getMediaKind(media) === "MANGA" ? "manga" : "anime"}/${media.id}`} className="flex-grow truncate font-medium hover:text-primary">
+        {media.title}
+      </Link>
+      <Button variant="ghost" size="icon" disabled={isFirst} onClick={() => onMove(-1)} aria-label={t("custom_list_move_up")}>
+        <ArrowUp className="h-4 w-4" />
+      </Button>
+      <Button variant="ghost" size="icon" disabled={isLast} onClick={() => onMove(1)} aria-label={t("custom_list_move_down")}>
+        <ArrowDown className="h-4 w-4" />
+      </Button>
+      <Button variant="ghost" size="icon" className="text-destructive" onClick={onRemove} aria-label={t("custom_list_remove_item")}>
+        <Trash2 className="h-4 w-4" />
+      </Button>
+    </div>
+  )
+}
+
+function CustomListPageClient() {
+  const params = useParams()
+  const searchParams = useSearchParams()
+  const { t } = useTranslation()
+  const isHydrated = useHydration()
+  const { authMode, listData, getCustomListMedia, moveCustomListMedia, toggleCustomListMedia } = useAuth()
+
+  const listId = String(Array.isArray(params.id) ? params.id[0] : params.id)
+  const pageNumber = Number.parseInt(String(Array.isArray(params.page) ? params.page[0] : params.page || "1"), 10)
+  if (isNaN(pageNumber) || pageNumber < 1) notFound()
+
+  const list = findCustomList(listData.customLists, listId)
+  const hasList = !!list
+  const [media, setMedia] = useState<Anime[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isArranging, setIsArranging] = useState(false)
+
+  const pageIds = useMemo(
+    () => (list?.mediaIds || []).slice((pageNumber - 1) * CUSTOM_LIST_PAGE_SIZE, pageNumber * CUSTOM_LIST_PAGE_SIZE),
+    [list, pageNumber],
+  )
+  // Reordering within the page keeps the same titles, so it doesn't refetch them. The ref keeps
+  // the fetch from rerunning every time getCustomListMedia changes with the lists.
+  const pageKey = [...pageIds].sort((a, b) => a - b).join(",")
+  const getCustomListMediaRef = useRef(getCustomListMedia)
+  getCustomListMediaRef.current = getCustomListMedia
+
+  useEffect(() => {
+    if (!isHydrated || authMode === "none" || !hasList) {
+      setIsLoading(false)
+      return
+    }
+    let cancelled = false
+    setIsLoading(true)
+    getCustomListMediaRef.current(listId, pageNumber, CUSTOM_LIST_PAGE_SIZE)
+      .then(({ data }) => {
+        if (cancelled) return
+        setMedia(data)
+        setIsLoading(false)
+      })
+      .catch(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [isHydrated, authMode, listId, pageNumber, pageKey, hasList])
+
+  // The fetched media, in the list's current order.
+  const orderedMedia = useMemo(() => {
+    const byId = new Map(media.map((item) => [item.id, item]))
+    return pageIds.map((id) => byId.get(id)).filter((item): item is Anime => !!item)
+  }, [media, pageIds])
+
+  if (!isHydrated) {
+    return <LoadingSkeleton />
+  }
+
+  if (authMode === "none") {
+    return (
+      <main className="container mx-auto px-4 py-8 text-center">
+        <div className="py-16">
+          <ListPlus className="mx-auto h-12 w-12 text-muted-foreground" />
+          <h2 className="mt-4 text-2xl font-bold">{t("sign_in_to_see_list")}</h2>
+          <p className="mt-2 text-muted-foreground">{t("custom_lists_prompt")}</p>
+        </div>
+      </main>
+    )
+  }
+
+  if (!list) {
+    return (
+      <main className="container mx-auto px-4 py-8 text-center">
+        <div className="py-16">
+          <ListPlus className="mx-auto h-12 w-12 text-muted-foreground" />
+          <h2 className="mt-4 text-2xl font-bold">{t("custom_list_not_found")}</h2>
+          <Button asChild variant="link" className="mt-2">
+            <Link href="/lists">{t("custom_lists_manage")}</Link>
+          </Button>
+        </div>
+      </main>
+    )
+  }
+
+  const hasNextPage = list.mediaIds.length > pageNumber * CUSTOM_LIST_PAGE_SIZE
+  const firstPosition = (pageNumber - 1) * CUSTOM_LIST_PAGE_SIZE + 1
+
+  return (
+    <main>
+      <div className="container mx-auto px-4 py-8">
+        <BackButton />
+        <div className="flex flex-wrap justify-between items-start gap-4 my-6">
+          <div className="min-w-0">
+            <h1 className="text-3xl font-bold font-headline truncate">{list.name}</h1>
+            {list.description && <p className="mt-1 text-muted-foreground">{list.description}</p>}
+            <p className="mt-1 text-sm text-muted-foreground">{t("custom_list_count", { count: String(list.mediaIds.length) })}</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <CustomListDialog list={list}>
+              <Button variant="outline">
+                <Pencil className="mr-2 h-4 w-4" />
+                {t("custom_list_edit")}
+              </Button>
+            </CustomListDialog>
+            {list.mediaIds.length > 1 && (
+              <Button variant={isArranging ? "default" : "outline"} onClick={() => setIsArranging(!isArranging)}>
+                {isArranging ? <Check className="mr-2 h-4 w-4" /> : <ListOrdered className="mr-2 h-4 w-4" />}
+                {t(isArranging ? "custom_list_done" : "custom_list_arrange")}
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {list.mediaIds.length === 0 ? (
+          <div className="text-center py-16">
+            <ListPlus className="mx-auto h-12 w-12 text-muted-foreground" />
+            <h2 className="mt-4 text-2xl font-bold">{t("nothing_here_yet")}</h2>
+            <p className="mt-2 text-muted-foreground">{t("custom_list_empty_prompt")}</p>
+          </div>
+        ) : isArranging && !isLoading ? (
+          <>
+            <div className="space-y-2">
+              {orderedMedia.map((item, index) => (
+                <ArrangeRow
+                  key={item.id}
+                  media={item}
+                  position={firstPosition + index}
+                  isFirst={firstPosition + index === 1}
+                  isLast={firstPosition + index === list.mediaIds.length}
+                  onMove={(offset) => moveCustomListMedia(list.id, item.id, offset)}
+                  onRemove={() => toggleCustomListMedia(list.id, item)}
+                />
+              ))}
+            </div>
+            <PaginationControls
+              basePath={`/lists/${list.id}`}
+              currentPage={pageNumber}
+              hasNextPage={hasNextPage}
+              searchParams={searchParams.toString()}
+            />
+          </>
+        ) : (
+          <PaginatedAnimeGrid
+            animes={orderedMedia}
+            title={list.name}
+            basePath={`/lists/${list.id}`}
+            currentPage={pageNumber}
+            hasNextPage={hasNextPage}
+            isLoading={isLoading}
+            searchParams={searchParams.toString()}
+          />
+        )}
+      </div>
+    </main>
+  )
+}
+
+export default function CustomListPage() {
+  return (
+    <Suspense fallback={<LoadingSkeleton />}>
+      <CustomListPageClient />
+    </Suspense>
+  )
+}
@@ -0,0 +1,6 @@
+// Custom lists are paginated; this sends the bare list URL to its first page.
+import { redirect } from "next/navigation"
+
+export default function CustomListRedirectPage({ params }: { params: { id: string } }) {
+  redirect(`/lists/${params.id}/1`)
+}
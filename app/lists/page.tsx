@@ -0,0 +1,146 @@
+"use client"
+
+import Link from "next/link"
+import { useAuth } from "@/hooks/use-auth"
+import type { CustomList } from "@/lib/types"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { ListPlus, Pencil, Plus, Trash2 } from "lucide-react"
+import { Skeleton } from "@/components/ui/skeleton"
+import { useHydration } from "@/hooks/use-hydration"
+import { useTranslation } from "@/hooks/use-translation"
+import { Button } from "@/components/ui/button"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog"
+import { BackButton } from "@/components/ui/back-button"
+import { CustomListDialog } from "@/components/anime/list/custom-list-dialog"
+import { getCustomListPath } from "@/lib/data/custom-lists"
+
+function LoadingSkeleton() {
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+      {Array.from({ length: 6 }).map((_, i) => (
+        <Card key={i}>
+          <CardHeader className="space-y-2">
+            <Skeleton className="h-6 w-3/5" />
+            <Skeleton className="h-4 w-4/5" />
+          </CardHeader>
+        </Card>
+      ))}
+    </div>
+  )
+}
+
+function CustomListCard({ list }: { list: CustomList }) {
+  const { t } = useTranslation()
+  const { deleteCustomList } = useAuth()
+
+  return (
+    <Card className="flex flex-col transition-shadow hover:shadow-lg hover:shadow-primary/20">
+      <Link href={getCustomListPath(list.id)} className="flex-grow">
+        <CardHeader>
+          <CardTitle className="truncate text-xl">{list.name}</CardTitle>
+          {list.description && <CardDescription className="line-clamp-2">{list.description}</CardDescription>}
+        </CardHeader>
+        <CardContent>
+          <p className="text-sm text-muted-foreground">{t("custom_list_count", { count: String(list.mediaIds.length) })}</p>
+        </CardContent>
+      </Link>
+      <CardFooter className="justify-end gap-2">
+        <CustomListDialog list={list}>
+          <Button variant="outline" size="sm">
+            <Pencil className="mr-2 h-4 w-4" />
+            {t("custom_list_edit")}
+          </Button>
+        </CustomListDialog>
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button variant="ghost" size="sm" className="text-destructive">
+              <Trash2 className="mr-2 h-4 w-4" />
+              {t("custom_list_delete")}
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>{t("are_you_sure")}</AlertDialogTitle>
+              <AlertDialogDescription>{t("custom_list_delete_warning", { name: list.name })}</AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>{t("cancel")}</AlertDialogCancel>
+              <AlertDialogAction onClick={() => deleteCustomList(list.id)}>{t("custom_list_delete")}</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </CardFooter>
+    </Card>
+  )
+}
+
+export default function CustomListsPage() {
+  const { authMode, listData } = useAuth()
+  const { t } = useTranslation()
+  const isHydrated = useHydration()
+  const lists = listData.customLists || []
+
+  if (!isHydrated) {
+    return (
+      <main className="container mx-auto px-4 py-8">
+        <BackButton />
+        <h1 className="text-3xl font-bold font-headline my-6">{t("custom_lists")}</h1>
+        <LoadingSkeleton />
+      </main>
+    )
+  }
+
+  if (authMode === "none") {
+    return (
+      <main className="container mx-auto px-4 py-8 text-center">
+        <div className="py-16">
+          <ListPlus className="mx-auto h-12 w-12 text-muted-foreground" />
+          <h2 className="mt-4 text-2xl font-bold">{t("sign_in_to_see_list")}</h2>
+          <p className="mt-2 text-muted-foreground">{t("custom_lists_prompt")}</p>
+        </div>
+      </main>
+    )
+  }
+
+  return (
+    <main className="container mx-auto px-4 py-8">
+      <BackButton />
+      <div className="flex justify-between items-center my-6">
+        <h1 className="text-3xl font-bold font-headline flex items-center gap-2">
+          <ListPlus className="w-8 h-8 text-primary" />
+          {t("custom_lists")}
+        </h1>
+        <CustomListDialog>
+          <Button>
+            <Plus className="mr-2 h-4 w-4" />
+            {t("custom_list_new")}
+          </Button>
+        </CustomListDialog>
+      </div>
+
+      {lists.length > 0 ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {lists.map((list) => (
+            <CustomListCard key={list.id} list={list} />
+          ))}
+        </div>
+      ) : (
+        <div className="text-center py-16">
+          <ListPlus className="mx-auto h-12 w-12 text-muted-foreground" />
+          <h2 className="mt-4 text-2xl font-bold">{t("nothing_here_yet")}</h2>
+          <p className="mt-2 text-muted-foreground">{t("custom_lists_empty_prompt")}</p>
+        </div>
+      )}
+    </main>
+  )
+}
@@ -22,11 +22,9 @@ import {
   Star,
   BookOpen,
   Layers,
-  Bookmark,
   UserCog,
   MessageSquare,
   Heart,
-  BookUser,
   Check,
   ListVideo,
   Trash2,
@@ -34,19 +32,31 @@ import {
   ArrowUp,
   ArrowDown,
   Bell,
+  NotebookPen,
+  Library,
 } from "lucide-react"
 import { cn } from "@/lib/utils"
 import { translateTextServer } from "@/lib/translation"
 import { useToast } from "@/hooks/use-toast"
 import { useAuth } from "@/hooks/use-auth"
+import { useUnmountSignal } from "@/hooks/use-unmount-signal"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Badge } from "@/components/ui/badge"
+import { Switch } from "@/components/ui/switch"
+import { Label } from "@/components/ui/label"
 import { format } from "date-fns"
 import { RecommendedAnimeList } from "@/components/anime/recommended-anime-list"
 import { ScrollArea } from "@/components/ui/scroll-area"
 import { CustomLinksDialog } from "@/components/anime/details/tabs/CustomLinksDialog"
+import { VolumeRangesDialog } from "@/components/anime/details/tabs/VolumeRangesDialog"
 import { SceneSearchDialog } from "@/components/anime/details/scene-search-dialog"
 import { ReminderDialog } from "@/components/notifications/reminder-dialog"
+import { ListEntryDialog } from "@/components/anime/list-entry-dialog"
+import { MediaStatusMenu } from "@/components/anime/media-status-menu"
+import { CustomListMenu } from "@/components/anime/list/custom-list-menu"
+import { DEFAULT_SCORE_FORMAT, formatScore } from "@/lib/data/list-entries"
+import { getVolumeIds, getVolumeTracking } from "@/lib/data/volumes"
+import { getProgressLog } from "@/lib/data/progress"
 
 function TabLoading() {
   return (
@@ -347,14 +357,10 @@ function ChaptersTab({ manga, listData }: { manga: Anime; listData: any }) {
     return []
   }, [manga, listData])
 
+  // During a reread, the chapters marked in it.
   useEffect(() => {
-    if (listData?.readChapters?.[mangaIdStr]) {
-      const chapterIds = listData.readChapters[mangaIdStr].read || []
-      setReadSet(new Set(chapterIds.map(String)))
-    } else {
-      setReadSet(new Set())
-    }
-  }, [listData.readChapters, mangaIdStr])
+    setReadSet(new Set(Object.keys(getProgressLog(listData, "readChapters", mangaIdStr) || {})))
+  }, [listData, mangaIdStr])
 
   const handleItemClick = useCallback(
     (chapterId: string) => {
@@ -471,6 +477,101 @@ function ChaptersTab({ manga, listData }: { manga: Anime; listData: any }) {
   )
 }
 
+function VolumesTab({ manga }: { manga: Anime }) {
+  const { authMode, listData, toggleVolumeRead, markAllVolumesRead, unmarkAllVolumesRead, setVolumeTracking } = useAuth()
+  const { t } = useTranslation()
+
+  const tracking = getVolumeTracking(listData, manga.id)
+  const volumeIds = useMemo(() => getVolumeIds(listData, manga), [listData, manga])
+  const readLog = getProgressLog(listData, "readVolumes", manga.id) || {}
+  const readCount = volumeIds.filter((volumeId) => volumeId in readLog).length
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex flex-wrap items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <Library className="w-6 h-6 text-primary" />
+            <span>{t("volumes")}</span>
+            {volumeIds.length > 0 && (
+              <Badge variant="secondary" className="text-sm">
+                {readCount} / {volumeIds.length}
+              </Badge>
+            )}
+          </div>
+          {volumeIds.length > 0 && authMode !== "none" && (
+            <div className="flex items-center gap-2">
+              {readCount < volumeIds.length && (
+                <Button variant="outline" size="sm" onClick={() => markAllVolumesRead(manga, volumeIds)}>
+                  <CheckCheck className="mr-2 h-4 w-4" /> {t("mark_all_as_read")}
+                </Button>
+              )}
+              {readCount > 0 && (
+                <Button variant="destructive" size="sm" onClick={() => unmarkAllVolumesRead(manga)}>
+                  <Trash2 className="mr-2 h-4 w-4" /> {t("unmark_all_as_read")}
+                </Button>
+              )}
+            </div>
+          )}
+        </CardTitle>
+        {authMode !== "none" && (
+          <div className="flex items-center gap-3 pt-2">
+            <Switch
+              id="track-by-volumes"
+              checked={tracking.trackBy === "volumes"}
+              onCheckedChange={(checked) => setVolumeTracking(manga, { trackBy: checked ? "volumes" : "chapters" })}
+            />
+            <div>
+              <Label htmlFor="track-by-volumes">{t("track_by_volumes")}</Label>
+              <p className="text-sm text-muted-foreground">{t("track_by_volumes_desc")}</p>
+            </div>
+          </div>
+        )}
+      </CardHeader>
+      <CardContent>
+        {volumeIds.length > 0 ? (
+          <ScrollArea className="h-96">
+            <div className="space-y-2 pr-4">
+              {volumeIds.map((volumeId) => {
+                const isRead = authMode !== "none" && volumeId in readLog
+                const range = tracking.ranges[volumeId]
+                return (
+                  <div
+                    key={volumeId}
+                    className={cn(
+                      "flex items-center justify-between p-3 rounded-md transition-colors",
+                      isRead ? "bg-muted/50 text-muted-foreground" : "",
+                    )}
+                  >
+                    <div className="min-w-0">
+                      <p className="font-semibold truncate">{t("volume_number", { volume: volumeId })}</p>
+                      {range && (
+                        <p className="text-sm text-muted-foreground">{t("volume_chapter_range", { first: String(range[0]), last: String(range[1]) })}</p>
+                      )}
+                    </div>
+                    {authMode !== "none" && (
+                      <Button variant="ghost" size="icon" className="shrink-0" onClick={() => toggleVolumeRead(manga, volumeId)}>
+                        <Check className={cn("h-5 w-5", isRead ? "text-primary" : "text-muted-foreground")} />
+                      </Button>
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+          </ScrollArea>
+        ) : (
+          <div className="text-center py-8 text-muted-foreground">{t("no_volume_info_available")}</div>
+        )}
+        {authMode !== "none" && (
+          <div className="mt-4 text-center">
+            <VolumeRangesDialog manga={manga} />
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
 function LoadingSkeleton() {
   return (
     <div className="container mx-auto px-4 py-8 space-y-8">
@@ -509,8 +610,7 @@ export default function MangaPage() {
   const id = Array.isArray(params.id) ? params.id[0] : params.id
 
   const { t } = useTranslation()
-  const { authMode, listData, isPlannedToRead, togglePlanToRead, isCurrentlyReading, toggleCurrentlyReading } =
-    useAuth()
+  const { authMode, listData, findTrackedMedia } = useAuth()
   const { toast } = useToast()
 
   const [media, setMedia] = useState<Anime | null>(null)
@@ -518,9 +618,9 @@ export default function MangaPage() {
   const [error, setError] = useState<string | null>(null)
   const [activeTab, setActiveTab] = useState("about")
 
-  const planned = media ? isPlannedToRead(media.id) : false
-  const reading = media ? isCurrentlyReading(media.id) : false
+  const userScore = media ? listData.listEntries?.[media.id]?.score : null
 
+  const getSignal = useUnmountSignal()
   const [additionalData, setAdditionalData] = useState({
     staff: null as JikanStaff[] | null,
     reviews: null as JikanReview[] | null,
@@ -534,11 +634,16 @@ export default function MangaPage() {
       notFound()
       return
     }
+    const controller = new AbortController()
 
     async function fetchData() {
       setIsLoading(true)
       try {
-        const data = await getMediaByAniListId(anilistId)
+        const data = await getMediaByAniListId(anilistId, undefined, {
+          signal: controller.signal,
+          onRevalidate: (fresh) => !controller.signal.aborted && setMedia(fresh),
+        }) ?? findTrackedMedia(anilistId)
+        if (controller.signal.aborted) return
         if (!data || (data.type !== "MANGA" && data.type !== "NOVEL" && data.type !== "ONE_SHOT")) {
           notFound()
           return
@@ -551,7 +656,8 @@ export default function MangaPage() {
       }
     }
     fetchData()
-  }, [id, notFound])
+    return () => controller.abort()
+  }, [id, notFound, findTrackedMedia])
 
   const handleTabChange = useCallback(
     async (tab: string) => {
@@ -570,13 +676,13 @@ export default function MangaPage() {
         let data
         switch (key) {
           case "staff":
-            data = await getMangaStaff(anilistId)
+            data = await getMangaStaff(anilistId, undefined, { signal: getSignal() })
             break
           case "reviews":
-            data = await getMangaReviews(anilistId)
+            data = await getMangaReviews(anilistId, undefined, { signal: getSignal() })
             break
           case "recommendations":
-            data = await getMangaRecommendations(anilistId)
+            data = await getMangaRecommendations(anilistId, undefined, { signal: getSignal() })
             break
         }
         setAdditionalData((prev) => ({ ...prev, [key]: data || [] }))
@@ -590,7 +696,7 @@ export default function MangaPage() {
         })
       }
     },
-    [id, media, additionalData, toast, t],
+    [id, media, additionalData, toast, t, getSignal],
   )
 
   if (isLoading) {
@@ -632,22 +738,8 @@ export default function MangaPage() {
               <div className="flex flex-col gap-2 pt-2">
                 {authMode !== "none" && (
                   <>
-                    <Button
-                      className="w-full flex-wrap"
-                      variant={reading ? "secondary" : "outline"}
-                      onClick={() => toggleCurrentlyReading(media)}
-                    >
-                      <BookUser className={cn("w-4 h-4 mr-2", reading ? "text-green-400" : "text-muted-foreground")} />
-                      {t("currently_reading")}
-                    </Button>
-                    <Button
-                      className="w-full flex-wrap"
-                      variant={planned ? "secondary" : "outline"}
-                      onClick={() => togglePlanToRead(media)}
-                    >
-                      <Bookmark className={cn("w-4 h-4 mr-2", planned ? "text-yellow-400" : "text-muted-foreground")} />
-                      {t("plan_to_read_manga")}
-                    </Button>
+                    <MediaStatusMenu media={media} />
+                    <CustomListMenu media={media} />
 
                     <SceneSearchDialog animeId={media.id} animeTitle={media.title} posterImage={posterImage} />
 
@@ -657,6 +749,15 @@ export default function MangaPage() {
                         {t("add_reminder")}
                       </Button>
                     </ReminderDialog>
+
+                    <ListEntryDialog media={media}>
+                      <Button variant="outline" className="w-full flex-wrap bg-transparent">
+                        <NotebookPen className="text-sky-400" />
+                        {userScore != null
+                          ? t("list_entry_your_score", { score: formatScore(userScore, listData.scoreFormat || DEFAULT_SCORE_FORMAT) })
+                          : t("list_entry_edit")}
+                      </Button>
+                    </ListEntryDialog>
                   </>
                 )}
               </div>
@@ -693,10 +794,11 @@ export default function MangaPage() {
           </div>
 
           <Tabs value={activeTab} onValueChange={handleTabChange} className="w-full">
-            <TabsList className="grid w-full grid-cols-6">
+            <TabsList className="grid w-full grid-cols-7">
               <TabsTrigger value="about">{t("about")}</TabsTrigger>
               <TabsTrigger value="overview">{t("overview")}</TabsTrigger>
               <TabsTrigger value="chapters">{t("chapters")}</TabsTrigger>
+              <TabsTrigger value="volumes">{t("volumes")}</TabsTrigger>
               <TabsTrigger value="staff">
                 <UserCog className="w-4 h-4 md:mr-2" />
                 <span className="hidden md:inline">{t("staff")}</span>
@@ -740,6 +842,9 @@ export default function MangaPage() {
             <TabsContent value="chapters" className="py-4">
               <ChaptersTab manga={media} listData={listData} />
             </TabsContent>
+            <TabsContent value="volumes" className="py-4">
+              <VolumesTab manga={media} />
+            </TabsContent>
             <TabsContent value="staff" className="py-4">
               <StaffTab staff={additionalData.staff} />
             </TabsContent>
@@ -0,0 +1,20 @@
+import type { MetadataRoute } from "next"
+
+// Makes the app installable. The service worker (public/sw.js) keeps it usable offline.
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: "AnimeSync",
+    short_name: "AnimeSync",
+    description: "Your World of Anime, Synced.",
+    start_url: "/",
+    display: "standalone",
+    dir: "rtl",
+    lang: "ar",
+    background_color: "#09090b",
+    theme_color: "#09090b",
+    icons: [
+      { src: "/icon.svg", sizes: "any", type: "image/svg+xml" },
+      { src: "/apple-icon.png", sizes: "180x180", type: "image/png" },
+    ],
+  }
+}
@@ -64,7 +64,9 @@ export default function Home() {
   useEffect(() => {
     if (authMode !== "none") {
       setIsLoading(true)
-      getHomePageData(addLog)
+      const controller = new AbortController()
+      // Cached sections render at once; fresher ones replace them when they arrive.
+      getHomePageData(addLog, { signal: controller.signal, onRevalidate: setHomePageData })
         .then((data) => {
           setHomePageData(data)
           setIsLoading(false)
@@ -73,6 +75,7 @@ export default function Home() {
           addLog("Failed to fetch home page data", "error", err)
           setIsLoading(false)
         })
+      return () => controller.abort()
     } else {
       setIsLoading(false)
     }
@@ -175,6 +175,7 @@ export default function PersonPage() {
       notFound()
       return
     }
+    const controller = new AbortController()
 
     async function fetchData() {
       setIsLoading(true)
@@ -183,13 +184,15 @@ export default function PersonPage() {
       setTranslatedAbout(null)
       setShowTranslation(false)
       try {
-        const data = await getPersonDetails(id, addLog)
+        const data = await getPersonDetails(id, addLog, { signal: controller.signal })
+        if (controller.signal.aborted) return
         if (!data) {
           notFound()
           return
         }
         setPerson(data)
       } catch (error) {
+        if (controller.signal.aborted) return
         console.error(`Failed to fetch person details for ID ${id}:`, error)
         toast({ variant: "destructive", title: "Error", description: "Could not load person details." })
         notFound()
@@ -199,6 +202,7 @@ export default function PersonPage() {
     }
 
     fetchData()
+    return () => controller.abort()
   }, [id, toast, addLog])
 
   const handleTabChange = useCallback(
@@ -8,7 +8,6 @@ import {
   IDB_PROFILE_KEY,
   IDB_LAYOUT_CONFIG_KEY,
   IDB_TRACKED_MEDIA_KEY,
-  IDB_LIST_DATA_KEY,
 } from "@/hooks/use-auth"
 import type { ListData } from "@/hooks/use-auth"
 import { useToast } from "@/hooks/use-toast"
@@ -49,8 +48,8 @@ import {
   Bookmark,
   ListVideo,
   Link as LinkIcon,
-  BookOpen,
-  BookUser,
+  NotebookPen,
+  ListPlus,
   BookCheck,
   Pencil,
   Bell,
@@ -78,6 +77,13 @@ import {
   ArrowDown,
   ArrowUp,
   Copy,
+  Redo2,
+  History,
+  GitMerge,
+  Camera,
+  ArchiveRestore,
+  GitCompare,
+  Library,
 } from "lucide-react"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle, CardFooter } from "@/components/ui/card"
 import { ScrollArea } from "@/components/ui/scroll-area"
@@ -85,12 +91,46 @@ import { Progress } from "@/components/ui/progress"
 import { Label } from "@/components/ui/label"
 import { Input } from "@/components/ui/input"
 import { get } from "@/lib/idb-keyval"
+import { clearQueryCache, getQueryCacheStats } from "@/lib/anilist/cache"
+import { loadListData } from "@/lib/data/list-store"
 import { genres_list } from "@/i18n"
 import { cn } from "@/lib/utils"
 import { Loader2 } from "lucide-react"
+import { formatDistanceToNow } from "date-fns"
+import { ar } from "date-fns/locale"
+import type { JournalEntry } from "@/lib/data/list-journal"
+import { MalImportButton } from "@/components/data/mal-import-dialog"
+import { MergeImportButton, MergeImportDialog } from "@/components/data/merge-import-dialog"
+import { ValidationReportCard } from "@/components/data/validation-report-card"
+import type { DataBundle } from "@/lib/data/migrations"
+import type { SharedPushConfig } from "@/hooks/auth/types"
+import {
+  deleteSnapshot,
+  diffSnapshot,
+  getSnapshotRetention,
+  listSnapshots,
+  loadSnapshot,
+  setSnapshotRetention,
+  SNAPSHOT_RETENTION_OPTIONS,
+  type SnapshotDiff,
+  type SnapshotMeta,
+} from "@/lib/data/snapshots"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { EXPORT_FORMATS, EXPORT_LISTS, type ExportFormat, type ExportListName } from "@/lib/data/list-export"
+import { STATUS_LIST_LABELS } from "@/lib/data/media-status"
+import { DEFAULT_SCORE_FORMAT, SCORE_FORMATS } from "@/lib/data/list-entries"
+import type { ScoreFormat } from "@/lib/types"
 import { SENSITIVE_GENRES, SENSITIVE_PASSWORD } from "@/lib/config"
 import { Textarea } from "@/components/ui/textarea"
 import { Slider } from "@/components/ui/slider"
+import { Switch } from "@/components/ui/switch"
+import {
+  disableBackgroundNotifications,
+  enableBackgroundNotifications,
+  hasPeriodicSync,
+  isBackgroundCheckSupported,
+  isBackgroundNotificationsEnabled,
+} from "@/lib/background-checks"
 import {
   Dialog,
   DialogHeader,
@@ -209,7 +249,7 @@ function GeneralSettingsTab() {
   const { t } = useTranslation()
   const { addLog } = useLogger()
   const { toggleLanguage } = useTranslation()
-  const { localProfile, updateLocalProfile } = useAuth()
+  const { localProfile, updateLocalProfile, listData, setScoreFormat } = useAuth()
   const { toast } = useToast()
 
   const [bio, setBio] = useState(localProfile?.bio || "")
@@ -296,10 +336,80 @@ function GeneralSettingsTab() {
           </Button>
         </CardContent>
       </Card>
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">{t("score_format")}</CardTitle>
+          <CardDescription>{t("score_format_desc")}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Select
+            value={listData.scoreFormat || DEFAULT_SCORE_FORMAT}
+            onValueChange={(value) => setScoreFormat(value as ScoreFormat)}
+          >
+            <SelectTrigger aria-label={t("score_format")}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SCORE_FORMATS.map((format) => (
+                <SelectItem key={format} value={format}>
+                  {t(`score_format_${format.toLowerCase()}`)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardContent>
+      </Card>
+      <BackgroundNotificationsCard />
     </div>
   )
 }
 
+function BackgroundNotificationsCard() {
+  const { t } = useTranslation()
+  const { toast } = useToast()
+  const [enabled, setEnabled] = useState(false)
+  const [periodicSync, setPeriodicSync] = useState(true)
+  const supported = isBackgroundCheckSupported()
+
+  useEffect(() => {
+    isBackgroundNotificationsEnabled().then(setEnabled)
+    hasPeriodicSync().then(setPeriodicSync)
+  }, [])
+
+  const handleToggle = async (checked: boolean) => {
+    if (!checked) {
+      await disableBackgroundNotifications()
+      setEnabled(false)
+      return
+    }
+    const result = await enableBackgroundNotifications()
+    setEnabled(result === "enabled")
+    if (result !== "enabled") {
+      toast({ variant: "destructive", title: t(result === "denied" ? "background_notifications_denied" : "background_notifications_unsupported") })
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">{t("background_notifications")}</CardTitle>
+        <CardDescription>{t("background_notifications_desc")}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="background-notifications">{t("background_notifications_toggle")}</Label>
+          <Switch id="background-notifications" checked={enabled} onCheckedChange={handleToggle} disabled={!supported} />
+        </div>
+        {!supported ? (
+          <p className="text-xs text-muted-foreground">{t("background_notifications_unsupported")}</p>
+        ) : (
+          !periodicSync && <p className="text-xs text-muted-foreground">{t("background_notifications_no_periodic_sync")}</p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
 function DestructiveActionDialog({
   onConfirm,
   children,
@@ -363,11 +473,127 @@ function DestructiveActionDialog({
   )
 }
 
+function ProfilesCard() {
+  const { t } = useTranslation()
+  const { profiles, activeProfileId, exportData, deleteProfile } = useAuth()
+  const { addLog } = useLogger()
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">{t("profiles")}</CardTitle>
+        <CardDescription>{t("profiles_desc")}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {profiles.map((profile) => (
+          <div key={profile.id} className="flex items-center gap-3 rounded-md border p-3">
+            <Avatar className="h-8 w-8">
+              <AvatarImage src={profile.avatar_url} alt={profile.username} />
+              <AvatarFallback>
+                <User className="h-4 w-4" />
+              </AvatarFallback>
+            </Avatar>
+            <span className="flex-1 truncate font-medium">{profile.username}</span>
+            {profile.id === activeProfileId && <Badge variant="secondary">{t("current_profile")}</Badge>}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => {
+                addLog(`Exporting profile: ${profile.username}`)
+                exportData(profile.id)
+              }}
+            >
+              <Download className="mr-2 h-4 w-4" />
+              {t("export_profile")}
+            </Button>
+            <DestructiveActionDialog
+              title={t("delete_profile")}
+              description={t("delete_profile_confirm", { name: profile.username })}
+              confirmText={t("delete_word")}
+              confirmCta={t("delete_profile")}
+              onConfirm={() => {
+                addLog(`Deleting profile: ${profile.username}`)
+                deleteProfile(profile.id)
+              }}
+            >
+              <Button variant="ghost" size="icon" className="text-destructive hover:text-destructive">
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </DestructiveActionDialog>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  )
+}
+
+function ListExportCard() {
+  const { t } = useTranslation()
+  const { exportLists } = useAuth()
+  const { addLog } = useLogger()
+  const [list, setList] = useState<ExportListName | "all">("all")
+  const [format, setFormat] = useState<ExportFormat>("csv")
+  const [isExporting, setIsExporting] = useState(false)
+
+  const handleExport = async () => {
+    addLog(`Exporting list "${list}" as ${format}.`)
+    setIsExporting(true)
+    await exportLists(list, format)
+    setIsExporting(false)
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">{t("export_lists_title")}</CardTitle>
+        <CardDescription>{t("export_lists_desc")}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <Select value={list} onValueChange={(value) => setList(value as ExportListName | "all")}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">{t("export_all_lists")}</SelectItem>
+              {EXPORT_LISTS.map((name) => (
+                <SelectItem key={name} value={name}>
+                  {t(STATUS_LIST_LABELS[name] as any)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={format} onValueChange={(value) => setFormat(value as ExportFormat)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {EXPORT_FORMATS.map((name) => (
+                <SelectItem key={name} value={name}>
+                  {t(`export_format_${name.replace("-", "_")}` as any)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button onClick={handleExport} variant="outline" className="w-full bg-transparent" disabled={isExporting}>
+          {isExporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+          {t("export_lists_btn")}
+        </Button>
+      </CardContent>
+    </Card>
+  )
+}
+
 function DataManagementTab() {
   const { t } = useTranslation()
   const { exportData, importData, resetLocalData } = useAuth()
   const { addLog } = useLogger()
   const fileInputRef = useRef<HTMLInputElement>(null)
+  const [encryptExport, setEncryptExport] = useState(false)
+  const [passphrase, setPassphrase] = useState("")
+  const [confirmPassphrase, setConfirmPassphrase] = useState("")
+  const passphraseMismatch = encryptExport && confirmPassphrase !== "" && passphrase !== confirmPassphrase
 
   const handleImportClick = () => {
     fileInputRef.current?.click()
@@ -382,8 +608,8 @@ function DataManagementTab() {
   }
 
   const handleExport = () => {
-    addLog("Exporting user data.")
-    exportData()
+    addLog(encryptExport ? "Exporting encrypted user data." : "Exporting user data.")
+    exportData(undefined, encryptExport ? passphrase : undefined)
   }
 
   const handleReset = () => {
@@ -393,18 +619,47 @@ function DataManagementTab() {
 
   return (
     <div className="space-y-6">
+      <ValidationReportCard />
+      <ProfilesCard />
       <Card>
         <CardHeader>
           <CardTitle className="text-lg">{t("export_data_title")}</CardTitle>
           <CardDescription>{t("export_data_desc")}</CardDescription>
         </CardHeader>
-        <CardContent>
-          <Button onClick={handleExport} className="w-full">
+        <CardContent className="space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="encrypt-export">{t("encrypt_export")}</Label>
+              <p className="text-xs text-muted-foreground">{t("encrypt_export_desc")}</p>
+            </div>
+            <Switch id="encrypt-export" checked={encryptExport} onCheckedChange={setEncryptExport} />
+          </div>
+          {encryptExport && (
+            <div className="grid gap-2 sm:grid-cols-2">
+              <Input
+                type="password"
+                autoComplete="new-password"
+                placeholder={t("passphrase")}
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+              />
+              <Input
+                type="password"
+                autoComplete="new-password"
+                placeholder={t("passphrase_confirm")}
+                value={confirmPassphrase}
+                onChange={(e) => setConfirmPassphrase(e.target.value)}
+              />
+              {passphraseMismatch && <p className="text-sm text-destructive sm:col-span-2">{t("passphrase_mismatch")}</p>}
+            </div>
+          )}
+          <Button onClick={handleExport} className="w-full" disabled={encryptExport && (!passphrase || passphrase !== confirmPassphrase)}>
             <Download className="mr-2 h-4 w-4" />
             {t("export_data_btn")}
           </Button>
         </CardContent>
       </Card>
+      <ListExportCard />
       <Card>
         <CardHeader>
           <CardTitle className="text-lg">{t("import_data_title")}</CardTitle>
@@ -418,6 +673,24 @@ function DataManagementTab() {
           </Button>
         </CardContent>
       </Card>
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">{t("merge_import_title")}</CardTitle>
+          <CardDescription>{t("merge_import_desc")}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <MergeImportButton />
+        </CardContent>
+      </Card>
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">{t("mal_import_title")}</CardTitle>
+          <CardDescription>{t("mal_import_desc")}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <MalImportButton />
+        </CardContent>
+      </Card>
       <Card className="border-destructive">
         <CardHeader>
           <CardTitle className="text-lg text-destructive">{t("reset_data_title")}</CardTitle>
@@ -442,6 +715,90 @@ function DataManagementTab() {
   )
 }
 
+function HistoryEntryRow({ entry, action }: { entry: JournalEntry; action: React.ReactNode }) {
+  const { t, lang } = useTranslation()
+
+  return (
+    <div className="flex items-center justify-between gap-4 rounded-md border p-3">
+      <div className="min-w-0 space-y-1">
+        <p className="text-sm font-medium truncate">
+          {t(entry.label as any)}
+          {entry.subject && <span className="text-muted-foreground"> · {entry.subject}</span>}
+        </p>
+        <div className="flex flex-wrap items-center gap-1 text-xs text-muted-foreground">
+          <span>{formatDistanceToNow(new Date(entry.timestamp), { addSuffix: true, locale: lang === "ar" ? ar : undefined })}</span>
+          {entry.fields.map((field) => (
+            <Badge key={field} variant="secondary" className="font-mono text-[10px]">
+              {field}
+            </Badge>
+          ))}
+        </div>
+      </div>
+      {action}
+    </div>
+  )
+}
+
+function HistoryTab() {
+  const { t } = useTranslation()
+  const { listJournal, undoListChange, redoListChange } = useAuth()
+  const { past, future } = listJournal
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">{t("history_title")}</CardTitle>
+        <CardDescription>{t("history_desc")}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex gap-2">
+          <Button variant="outline" className="flex-1" disabled={past.length === 0} onClick={() => undoListChange()}>
+            <Undo2 className="mr-2 h-4 w-4" />
+            {t("undo")}
+          </Button>
+          <Button variant="outline" className="flex-1" disabled={future.length === 0} onClick={() => redoListChange()}>
+            <Redo2 className="mr-2 h-4 w-4" />
+            {t("redo")}
+          </Button>
+        </div>
+        {past.length === 0 && future.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">{t("history_empty")}</p>
+        ) : (
+          <ScrollArea className="h-96 pr-3">
+            <div className="space-y-2">
+              {[...future].reverse().map((entry) => (
+                <div key={entry.id} className="opacity-60">
+                  <HistoryEntryRow
+                    entry={entry}
+                    action={
+                      <Button variant="ghost" size="sm" onClick={() => redoListChange(entry.id)}>
+                        <Redo2 className="mr-2 h-4 w-4" />
+                        {t("redo_to_here")}
+                      </Button>
+                    }
+                  />
+                </div>
+              ))}
+              {[...past].reverse().map((entry) => (
+                <HistoryEntryRow
+                  key={entry.id}
+                  entry={entry}
+                  action={
+                    <Button variant="ghost" size="sm" onClick={() => undoListChange(entry.id)}>
+                      <Undo2 className="mr-2 h-4 w-4" />
+                      {t("undo_to_here")}
+                    </Button>
+                  }
+                />
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
 function DataViewerDialog({ trigger, title, data }: { trigger: React.ReactNode; title: string; data: any }) {
   const { t } = useTranslation()
   const { toast } = useToast()
@@ -529,10 +886,177 @@ function formatBytes(bytes: number, decimals = 2) {
   return Number.parseFloat((bytes / Math.pow(k, i)).toFixed(dm)) + " " + sizes[i]
 }
 
+const SNAPSHOT_DIFF_LABELS: Record<SnapshotDiff["section"], string> = {
+  statuses: "list_statuses",
+  episodes: "episodes",
+  chapters: "chapters",
+  volumes: "volumes",
+  reminders: "reminders",
+  customLists: "custom_lists",
+  tracked: "tracked_media",
+}
+
+function SnapshotRow({ snapshot, onDeleted }: { snapshot: SnapshotMeta; onDeleted: () => void }) {
+  const { t, lang } = useTranslation()
+  const { listData, trackedMedia, restoreSnapshot } = useAuth()
+  const [diff, setDiff] = useState<SnapshotDiff[] | null>(null)
+  const [isRestoring, setIsRestoring] = useState(false)
+
+  const handleCompare = async () => {
+    if (diff) return setDiff(null)
+    const bundle = await loadSnapshot(snapshot.id)
+    if (bundle) setDiff(diffSnapshot(bundle, { lists: listData, tracked: trackedMedia }))
+  }
+
+  const handleRestore = async () => {
+    setIsRestoring(true)
+    await restoreSnapshot(snapshot.id)
+    setIsRestoring(false)
+  }
+
+  const handleDelete = async () => {
+    await deleteSnapshot(snapshot.id)
+    onDeleted()
+  }
+
+  return (
+    <div className="space-y-2 rounded-md border p-3">
+      <div className="flex items-center justify-between gap-4">
+        <div className="min-w-0 space-y-1">
+          <p className="text-sm font-medium">
+            {new Date(snapshot.createdAt).toLocaleString()}
+            <Badge variant="secondary" className="ms-2">{t(`snapshot_reason_${snapshot.reason.replace("-", "_")}` as any)}</Badge>
+          </p>
+          <p className="text-xs text-muted-foreground">
+            {formatDistanceToNow(new Date(snapshot.createdAt), { addSuffix: true, locale: lang === "ar" ? ar : undefined })}
+            {" · "}
+            {formatBytes(snapshot.size)}
+            {" · "}
+            {t("snapshot_counts", {
+              lists: String(snapshot.counts.lists),
+              episodes: String(snapshot.counts.episodes),
+              chapters: String(snapshot.counts.chapters),
+            })}
+          </p>
+        </div>
+        <div className="flex shrink-0 gap-1">
+          <Button variant="ghost" size="icon" onClick={handleCompare} title={t("snapshot_compare")}>
+            <GitCompare className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="sm" onClick={handleRestore} disabled={isRestoring}>
+            {isRestoring ? <Loader2 className="h-4 w-4 animate-spin" /> : <ArchiveRestore className="h-4 w-4" />}
+            <span className="ms-2 hidden sm:inline">{t("snapshot_restore")}</span>
+          </Button>
+          <Button variant="ghost" size="icon" onClick={handleDelete} title={t("delete_word")}>
+            <Trash2 className="h-4 w-4 text-destructive" />
+          </Button>
+        </div>
+      </div>
+      {diff && (
+        <div className="rounded-md bg-muted/50 p-2 text-xs">
+          {diff.length === 0 ? (
+            <p className="text-muted-foreground">{t("snapshot_no_diff")}</p>
+          ) : (
+            <>
+              <p className="mb-1 text-muted-foreground">{t("snapshot_diff_desc")}</p>
+              <ul className="grid grid-cols-2 gap-1">
+                {diff.map((item) => (
+                  <li key={item.section} className="flex justify-between gap-2">
+                    <span>{t(SNAPSHOT_DIFF_LABELS[item.section] as any)}</span>
+                    <span className="font-mono">
+                      {item.removed > 0 && <span className="text-green-500">+{item.removed} </span>}
+                      {item.added > 0 && <span className="text-destructive">-{item.added}</span>}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+function SnapshotsCard() {
+  const { t } = useTranslation()
+  const { activeProfileId, takeSnapshot } = useAuth()
+  const [snapshots, setSnapshots] = useState<SnapshotMeta[]>([])
+  const [retention, setRetention] = useState<number | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const refresh = useCallback(async () => {
+    if (!activeProfileId) return
+    setSnapshots(await listSnapshots(activeProfileId))
+    setRetention(await getSnapshotRetention())
+  }, [activeProfileId])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  const handleTakeSnapshot = async () => {
+    setIsSaving(true)
+    await takeSnapshot("manual")
+    await refresh()
+    setIsSaving(false)
+  }
+
+  const handleRetentionChange = async (value: string) => {
+    if (!activeProfileId) return
+    await setSnapshotRetention(Number(value), activeProfileId)
+    await refresh()
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t("snapshots_title")}</CardTitle>
+        <CardDescription>{t("snapshots_desc")}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-end gap-2">
+          <div className="flex-1 space-y-2">
+            <Label>{t("snapshot_retention")}</Label>
+            <Select value={retention ? String(retention) : undefined} onValueChange={handleRetentionChange}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SNAPSHOT_RETENTION_OPTIONS.map((option) => (
+                  <SelectItem key={option} value={String(option)}>
+                    {t("snapshot_retention_option", { count: String(option) })}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button onClick={handleTakeSnapshot} disabled={isSaving}>
+            {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Camera className="mr-2 h-4 w-4" />}
+            {t("snapshot_take")}
+          </Button>
+        </div>
+        {snapshots.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t("snapshots_empty")}</p>
+        ) : (
+          <ScrollArea className="max-h-96">
+            <div className="space-y-2">
+              {snapshots.map((snapshot) => (
+                <SnapshotRow key={snapshot.id} snapshot={snapshot} onDeleted={refresh} />
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
 function DatabaseTab() {
   const { t } = useTranslation()
   const { listData, clearDataSection, resetLocalData, setStorageQuota } = useAuth()
   const [storageUsage, setStorageUsage] = useState({ usage: 0, quota: 0 })
+  const [queryCache, setQueryCache] = useState({ entries: 0, size: 0 })
   const [allData, setAllData] = useState<Partial<ListData & { profile: any; layout: any; trackedMedia: any }>>({})
   const [isLoading, setIsLoading] = useState(true)
   const [quotaGB, setQuotaGB] = useState(listData.storageQuota / 1024 ** 3)
@@ -543,7 +1067,7 @@ function DatabaseTab() {
     async (showLoader = true) => {
       if (showLoader) setIsLoading(true)
       try {
-        const data = (await get<ListData>(IDB_LIST_DATA_KEY)) || ({} as ListData)
+        const data = (await loadListData()) || ({} as ListData)
         const dataToSet = {
           profile: await get(IDB_PROFILE_KEY),
           layout: await get(IDB_LAYOUT_CONFIG_KEY),
@@ -552,6 +1076,7 @@ function DatabaseTab() {
         }
         setAllData(dataToSet)
         setQuotaGB((data.storageQuota || 1024 ** 3) / 1024 ** 3)
+        setQueryCache(await getQueryCacheStats())
 
         if (navigator.storage && navigator.storage.estimate) {
           const estimate = await navigator.storage.estimate()
@@ -584,6 +1109,12 @@ function DatabaseTab() {
     toast({ title: "Storage Limit Updated", description: `New limit is ${value[0]} GB` })
   }
 
+  const handleClearQueryCache = async () => {
+    await clearQueryCache()
+    setQueryCache({ entries: 0, size: 0 })
+    toast({ title: t("query_cache_cleared") })
+  }
+
   const handleRefresh = useCallback(() => {
     fetchAllData(false).finally(() => {
       toast({ title: "Data Refreshed" })
@@ -594,13 +1125,14 @@ function DatabaseTab() {
     { key: "profile", title: "profile", icon: User, data: allData.profile },
     { key: "layout", title: "layout", icon: LayoutDashboard, data: allData.layout },
     { key: "trackedMedia", title: "tracked_media", icon: Users, data: allData.trackedMedia },
-    { key: "planToWatch", title: "plan_to_watch", icon: Bookmark, data: allData.planToWatch },
-    { key: "currentlyWatching", title: "watching", icon: Tv, data: allData.currentlyWatching },
+    { key: "statuses", title: "list_statuses", icon: Bookmark, data: allData.statuses },
     { key: "watchedEpisodes", title: "episodes", icon: ListVideo, data: allData.watchedEpisodes },
-    { key: "planToRead", title: "plan_to_read_manga", icon: BookUser, data: allData.planToRead },
-    { key: "currentlyReading", title: "currently_reading", icon: BookOpen, data: allData.currentlyReading },
     { key: "readChapters", title: "chapters", icon: BookCheck, data: allData.readChapters },
+    { key: "readVolumes", title: "volumes", icon: Library, data: allData.readVolumes },
+    { key: "volumeTracking", title: "volume_tracking", icon: Library, data: allData.volumeTracking },
     { key: "customEpisodeLinks", title: "custom_links", icon: LinkIcon, data: allData.customEpisodeLinks },
+    { key: "listEntries", title: "merge_section_entries", icon: NotebookPen, data: allData.listEntries },
+    { key: "customLists", title: "custom_lists", icon: ListPlus, data: allData.customLists },
     { key: "reminders", title: "reminders", icon: Bell, data: allData.reminders },
     { key: "readActivityIds", title: "read_activity_ids", icon: Check, data: allData.readActivityIds },
     { key: "excludedItems", title: "excluded_items", icon: EyeOff, data: allData.excludedItems },
@@ -673,6 +1205,18 @@ function DatabaseTab() {
             />
             <p className="text-xs text-muted-foreground">{t("storage_limit_desc")}</p>
           </div>
+          <div className="flex items-center justify-between gap-4 pt-4">
+            <div className="space-y-1">
+              <Label>{t("query_cache")}</Label>
+              <p className="text-xs text-muted-foreground">{t("query_cache_desc")}</p>
+              <p className="text-sm text-muted-foreground">
+                {t("query_cache_entries", { count: String(queryCache.entries) })} · {formatBytes(queryCache.size)}
+              </p>
+            </div>
+            <Button variant="outline" size="sm" onClick={handleClearQueryCache} disabled={queryCache.entries === 0}>
+              <Trash2 className="mr-2 h-4 w-4" /> {t("clear_query_cache")}
+            </Button>
+          </div>
         </CardContent>
         <CardFooter className="flex gap-2">
           <DataViewerDialog
@@ -698,6 +1242,8 @@ function DatabaseTab() {
         </CardFooter>
       </Card>
 
+      <SnapshotsCard />
+
       <Card>
         <CardHeader>
           <div className="flex items-center justify-between">
@@ -918,10 +1464,96 @@ function GenrePanel() {
   )
 }
 
+function SharedPushCard() {
+  const { t } = useTranslation()
+  const { sharedDataConfig, configureSharedPush, isSyncing } = useAuth()
+  const [enabled, setEnabled] = useState(!!sharedDataConfig.push)
+  const [target, setTarget] = useState<SharedPushConfig["target"]>(sharedDataConfig.push?.target || "put")
+  const [pushUrl, setPushUrl] = useState(sharedDataConfig.push?.url || "")
+  const [filename, setFilename] = useState(sharedDataConfig.push?.filename || "")
+  const [token, setToken] = useState(sharedDataConfig.push?.token || "")
+
+  useEffect(() => {
+    setEnabled(!!sharedDataConfig.push)
+  }, [sharedDataConfig.push])
+
+  const handleToggle = (checked: boolean) => {
+    setEnabled(checked)
+    if (!checked && sharedDataConfig.push) configureSharedPush(null)
+  }
+
+  const handleSave = () => {
+    configureSharedPush({
+      target,
+      url: pushUrl || sharedDataConfig.url || "",
+      token: token || null,
+      filename: target === "gist" && filename ? filename : undefined,
+    })
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t("two_way_sync_title")}</CardTitle>
+        <CardDescription>{t("two_way_sync_desc")}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="two-way-sync">{t("two_way_sync_enabled")}</Label>
+          <Switch id="two-way-sync" checked={enabled} onCheckedChange={handleToggle} disabled={isSyncing} />
+        </div>
+        {enabled && (
+          <>
+            <div className="space-y-2">
+              <Label>{t("push_target")}</Label>
+              <Select value={target} onValueChange={(value) => setTarget(value as SharedPushConfig["target"])}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="put">{t("push_target_put")}</SelectItem>
+                  <SelectItem value="gist">{t("push_target_gist")}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="push-url">{t(target === "gist" ? "push_gist_url" : "push_url")}</Label>
+              <Input
+                id="push-url"
+                placeholder={sharedDataConfig.url || ""}
+                value={pushUrl}
+                onChange={(e) => setPushUrl(e.target.value)}
+              />
+            </div>
+            {target === "gist" && (
+              <div className="space-y-2">
+                <Label htmlFor="push-filename">{t("push_filename")}</Label>
+                <Input id="push-filename" placeholder="animesync.json" value={filename} onChange={(e) => setFilename(e.target.value)} />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="push-token">{t("push_token")}</Label>
+              <Input id="push-token" type="password" autoComplete="off" value={token} onChange={(e) => setToken(e.target.value)} />
+              <p className="text-xs text-muted-foreground">{t("push_token_desc")}</p>
+            </div>
+            <Button onClick={handleSave} className="w-full" disabled={isSyncing || (target === "gist" && !token)}>
+              {isSyncing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCcw className="mr-2 h-4 w-4" />}
+              {t("push_save")}
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
 function SharingTab() {
   const { t } = useTranslation()
-  const { sharedDataConfig, connectToSharedData, disconnectFromSharedData, syncSharedData, isSyncing } = useAuth()
+  const { sharedDataConfig, connectToSharedData, disconnectFromSharedData, syncSharedData, fetchSharedBundle, isSyncing, validationReport } = useAuth()
+  const { toast } = useToast()
   const [url, setUrl] = useState("")
+  const [mergeBundle, setMergeBundle] = useState<DataBundle | null>(null)
+  const [isFetchingMerge, setIsFetchingMerge] = useState(false)
   const message = "" // Broadcast message feature removed for simplification
 
   useEffect(() => {
@@ -938,6 +1570,17 @@ function SharingTab() {
     }
   }
 
+  const handleMerge = async () => {
+    setIsFetchingMerge(true)
+    try {
+      setMergeBundle(await fetchSharedBundle())
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Sync Failed", description: error.message })
+    } finally {
+      setIsFetchingMerge(false)
+    }
+  }
+
   return (
     <div className="space-y-6">
       <Collapsible>
@@ -1012,8 +1655,17 @@ function SharingTab() {
               </p>
             </div>
           )}
+          {sharedDataConfig.url && (
+            <Button onClick={handleMerge} variant="outline" className="w-full bg-transparent" disabled={isSyncing || isFetchingMerge}>
+              {isFetchingMerge ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <GitMerge className="mr-2 h-4 w-4" />}
+              {t("merge_shared_btn")}
+            </Button>
+          )}
+          <MergeImportDialog bundle={mergeBundle} onClose={() => setMergeBundle(null)} />
         </CardContent>
       </Card>
+      {sharedDataConfig.url && <SharedPushCard />}
+      {validationReport?.source === "sync" && <ValidationReportCard />}
     </div>
   )
 }
@@ -1133,6 +1785,7 @@ export default function SettingsPage() {
     { value: "sharing", label: "sharing_tab_title", icon: Share2, component: <SharingTab /> },
     { value: "data", label: "data_management", icon: HardDrive, component: <DataManagementTab /> },
     { value: "database", label: "database", icon: Database, component: <DatabaseTab /> },
+    { value: "history", label: "history_title", icon: History, component: <HistoryTab /> },
     { value: "genres", label: "genre_panel_title", icon: Tags, component: <GenrePanel /> },
     { value: "about", label: "about", icon: Info, component: <AboutTab /> },
   ]
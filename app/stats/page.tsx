@@ -0,0 +1,201 @@
+"use client"
+
+import Link from "next/link"
+import { useEffect, useMemo, useState } from "react"
+import { useAuth } from "@/hooks/use-auth"
+import { useHydration } from "@/hooks/use-hydration"
+import { useTranslation } from "@/hooks/use-translation"
+import { useToast } from "@/hooks/use-toast"
+import type { Anime } from "@/lib/types"
+import { BarChart3, Loader2, Sparkles } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { BackButton } from "@/components/ui/back-button"
+import { DistributionChart, SplitChart, StatCard } from "@/components/stats/stats-charts"
+import { buildMediaStats, topEntries, type MediaStats } from "@/lib/data/stats"
+import { getStatusLabelKey, MEDIA_STATUSES, type MediaKind } from "@/lib/data/media-status"
+
+const formatName = (format: string) => format.replace(/_/g, " ")
+
+function MediaStatsView({ stats, isLoadingDetails }: { stats: MediaStats; isLoadingDetails: boolean }) {
+  const { t, lang } = useTranslation()
+  const number = (value: number) => value.toLocaleString(lang)
+  const isAnime = stats.kind === "ANIME"
+  const labelOf = (name: string) => (name === "other" ? t("stats_other") : name)
+
+  if (stats.titles === 0 && stats.units === 0) {
+    return (
+      <div className="text-center py-16">
+        <BarChart3 className="mx-auto h-12 w-12 text-muted-foreground" />
+        <h2 className="mt-4 text-2xl font-bold">{t("nothing_here_yet")}</h2>
+        <p className="mt-2 text-muted-foreground">{t("stats_empty")}</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        <StatCard title={t("stats_titles")} value={number(stats.titles)} />
+        <StatCard title={t(isAnime ? "stats_episodes_watched" : "stats_chapters_read")} value={number(stats.units)} />
+        {isAnime ? (
+          <StatCard title={t("stats_hours_watched")} value={number(Math.round(stats.minutes / 60))} />
+        ) : (
+          <StatCard title={t("stats_volumes_read")} value={number(stats.volumes)} />
+        )}
+        <StatCard
+          title={t("stats_completion_rate")}
+          value={stats.completionRate === null ? "—" : `${Math.round(stats.completionRate * 100)}%`}
+          description={t("stats_completion_rate_desc")}
+        />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <SplitChart
+          title={t("stats_status_split")}
+          entries={MEDIA_STATUSES.map((status) => ({ name: status, count: stats.byStatus[status] }))}
+          labelOf={(status) => t(getStatusLabelKey(status as (typeof MEDIA_STATUSES)[number], stats.kind) as any)}
+        />
+        <SplitChart
+          title={t("stats_backlog")}
+          entries={[
+            { name: "current", count: stats.byStatus.current + stats.byStatus.repeating },
+            { name: "planning", count: stats.byStatus.planning },
+          ]}
+          labelOf={(name) => t(name === "current" ? "stats_backlog_current" : "stats_backlog_planning")}
+        />
+      </div>
+
+      {isLoadingDetails ? (
+        <div className="flex items-center justify-center gap-2 py-8 text-muted-foreground">
+          <Loader2 className="h-5 w-5 animate-spin" />
+          {t("stats_loading_details", { count: String(stats.titles) })}
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <DistributionChart title={t("stats_genres")} entries={topEntries(stats.genres)} labelOf={labelOf} />
+          <DistributionChart title={t("stats_formats")} entries={stats.formats} labelOf={formatName} />
+          <DistributionChart title={t(isAnime ? "stats_studios" : "stats_authors")} entries={topEntries(stats.creators)} labelOf={labelOf} />
+          {isAnime && (
+            <DistributionChart title={t("stats_seasons")} entries={stats.seasons} labelOf={(season) => t(season.toLowerCase() as any)} vertical />
+          )}
+          <DistributionChart title={t("stats_start_years")} entries={stats.startYears} vertical />
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default function StatsPage() {
+  const { authMode, listData, getMediaDetails } = useAuth()
+  const { t } = useTranslation()
+  const { toast } = useToast()
+  const isHydrated = useHydration()
+  const [kind, setKind] = useState<MediaKind>("ANIME")
+  const [media, setMedia] = useState<Map<number, Anime>>(new Map())
+  const [isLoadingDetails, setIsLoadingDetails] = useState(true)
+
+  // Titles on the lists; their details are needed for the distributions.
+  // Keyed on the sorted ids, so a status change alone doesn't refetch.
+  const listedKey = useMemo(
+    () =>
+      Object.keys(listData.statuses || {})
+        .map(Number)
+        .sort((a, b) => a - b)
+        .join(","),
+    [listData.statuses],
+  )
+  const listedIds = useMemo(() => (listedKey ? listedKey.split(",").map(Number) : []), [listedKey])
+
+  useEffect(() => {
+    if (!isHydrated || authMode === "none") return
+    let cancelled = false
+    setIsLoadingDetails(true)
+    getMediaDetails(listedIds)
+      .then((details) => {
+        if (cancelled) return
+        setMedia(details)
+        setIsLoadingDetails(false)
+      })
+      .catch((error) => {
+        if (cancelled) return
+        setIsLoadingDetails(false)
+        toast({ variant: "destructive", title: t("stats_load_failed"), description: error.message })
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [isHydrated, authMode, listedIds, getMediaDetails, toast, t])
+
+  const stats = useMemo(
+    () => ({ ANIME: buildMediaStats(listData, media, "ANIME"), MANGA: buildMediaStats(listData, media, "MANGA") }),
+    [listData, media],
+  )
+
+  const header = (
+    <>
+      <BackButton />
+      <div className="flex flex-wrap justify-between items-start gap-4 my-6">
+        <div>
+          <h1 className="text-3xl font-bold font-headline flex items-center gap-2">
+            <BarChart3 className="w-8 h-8 text-primary" />
+            {t("stats")}
+          </h1>
+          <p className="mt-1 text-muted-foreground">{t("stats_desc")}</p>
+        </div>
+        {authMode !== "none" && (
+          <Button asChild variant="outline">
+            <Link href="/year-in-review">
+              <Sparkles className="mr-2 h-4 w-4" />
+              {t("year_review")}
+            </Link>
+          </Button>
+        )}
+      </div>
+    </>
+  )
+
+  if (!isHydrated) {
+    return (
+      <main className="container mx-auto px-4 py-8">
+        {header}
+        <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+          {Array.from({ length: 4 }).map((_, i) => (
+            <Skeleton key={i} className="h-28 w-full" />
+          ))}
+        </div>
+      </main>
+    )
+  }
+
+  if (authMode === "none") {
+    return (
+      <main className="container mx-auto px-4 py-8 text-center">
+        <div className="py-16">
+          <BarChart3 className="mx-auto h-12 w-12 text-muted-foreground" />
+          <h2 className="mt-4 text-2xl font-bold">{t("sign_in_to_see_list")}</h2>
+          <p className="mt-2 text-muted-foreground">{t("stats_prompt")}</p>
+        </div>
+      </main>
+    )
+  }
+
+  return (
+    <main className="container mx-auto px-4 py-8">
+      {header}
+      <Tabs value={kind} onValueChange={(value) => setKind(value as MediaKind)}>
+        <TabsList className="mb-6">
+          <TabsTrigger value="ANIME">{t("anime")}</TabsTrigger>
+          <TabsTrigger value="MANGA">{t("manga")}</TabsTrigger>
+        </TabsList>
+        <TabsContent value="ANIME">
+          <MediaStatsView stats={stats.ANIME} isLoadingDetails={isLoadingDetails} />
+        </TabsContent>
+        <TabsContent value="MANGA">
+          <MediaStatsView stats={stats.MANGA} isLoadingDetails={isLoadingDetails} />
+        </TabsContent>
+      </Tabs>
+    </main>
+  )
+}
@@ -0,0 +1,278 @@
+"use client"
+
+import Image from "next/image"
+import Link from "next/link"
+import { useEffect, useMemo, useState } from "react"
+import { format } from "date-fns"
+import { ar } from "date-fns/locale"
+import { useAuth } from "@/hooks/use-auth"
+import { useHydration } from "@/hooks/use-hydration"
+import { useTranslation } from "@/hooks/use-translation"
+import { useToast } from "@/hooks/use-toast"
+import type { Anime } from "@/lib/types"
+import { Download, FileCode, Loader2, Sparkles } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Skeleton } from "@/components/ui/skeleton"
+import { BackButton } from "@/components/ui/back-button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { StatCard } from "@/components/stats/stats-charts"
+import { buildYearReview, getReviewYears, type YearReview, type YearReviewTitle } from "@/lib/data/year-review"
+import { formatReportHtml, renderReportImage, type ShareableReport } from "@/lib/data/year-review-export"
+import { downloadBlob, downloadFile } from "@/lib/data/list-export"
+
+// Titles listed per section in the exports; the rest are summed up as "and N more".
+const EXPORT_LIST_LIMIT = 10
+
+function TitleGrid({ titles }: { titles: YearReviewTitle[] }) {
+  return (
+    <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-6 gap-3">
+      {titles.map((item) => (
+        <Link key={item.mediaId} href={`/${item.kind === "MANGA" ? "manga" : "anime"}/${item.mediaId}`} className="group space-y-1">
+          <div className="relative aspect-[2/3] overflow-hidden rounded-md bg-muted">
+            {item.imageUrl && <Image src={item.imageUrl} alt={item.title} fill className="object-cover transition-transform group-hover:scale-105" sizes="160px" />}
+          </div>
+          <p className="truncate text-xs">{item.title}</p>
+        </Link>
+      ))}
+    </div>
+  )
+}
+
+export default function YearInReviewPage() {
+  const { authMode, listData, localProfile, getMediaDetails } = useAuth()
+  const { t, lang } = useTranslation()
+  const { toast } = useToast()
+  const isHydrated = useHydration()
+  const years = useMemo(() => getReviewYears(listData), [listData])
+  const [year, setYear] = useState(() => new Date().getFullYear())
+  const [media, setMedia] = useState<Map<number, Anime>>(new Map())
+  const [isLoadingDetails, setIsLoadingDetails] = useState(true)
+  const [isExporting, setIsExporting] = useState(false)
+
+  // Keyed on the sorted ids, so marking progress of a title already loaded doesn't refetch.
+  const mediaKey = useMemo(
+    () =>
+      Array.from(
+        new Set(
+          [listData.statuses, listData.watchedEpisodes, listData.readChapters, listData.readVolumes].flatMap((record) => Object.keys(record || {}).map(Number)),
+        ),
+      )
+        .sort((a, b) => a - b)
+        .join(","),
+    [listData.statuses, listData.watchedEpisodes, listData.readChapters, listData.readVolumes],
+  )
+  const mediaIds = useMemo(() => (mediaKey ? mediaKey.split(",").map(Number) : []), [mediaKey])
+
+  useEffect(() => {
+    if (!isHydrated || authMode === "none") return
+    let cancelled = false
+    setIsLoadingDetails(true)
+    getMediaDetails(mediaIds)
+      .then((details) => {
+        if (cancelled) return
+        setMedia(details)
+        setIsLoadingDetails(false)
+      })
+      .catch((error) => {
+        if (cancelled) return
+        setIsLoadingDetails(false)
+        toast({ variant: "destructive", title: t("stats_load_failed"), description: error.message })
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [isHydrated, authMode, mediaIds, getMediaDetails, toast, t])
+
+  const review = useMemo(() => buildYearReview(listData, media, year), [listData, media, year])
+  const locale = lang === "ar" ? ar : undefined
+  const number = (value: number) => value.toLocaleString(lang)
+  const day = (value: string) => format(new Date(`${value}T00:00`), "d MMM", { locale })
+  const hasActivity = review.finished.length > 0 || review.episodes > 0 || review.chapters > 0 || review.volumes > 0
+
+  const statCards = (data: YearReview) => [
+    { label: t("year_review_finished"), value: number(data.finished.length) },
+    { label: t("year_review_episodes"), value: number(data.episodes) },
+    { label: t("year_review_hours"), value: number(Math.round(data.minutes / 60)) },
+    { label: t("year_review_chapters"), value: number(data.chapters) },
+    ...(data.volumes > 0 ? [{ label: t("year_review_volumes"), value: number(data.volumes) }] : []),
+    ...(data.longestStreak
+      ? [{ label: `${t("year_review_streak")} (${day(data.longestStreak.start)} – ${day(data.longestStreak.end)})`, value: t("year_review_streak_value", { days: number(data.longestStreak.days) }) }]
+      : []),
+    ...(data.busiestMonth
+      ? [{ label: t("year_review_busiest_month"), value: format(new Date(data.year, data.busiestMonth.month, 1), "LLLL", { locale }) }]
+      : []),
+  ]
+
+  const toReport = (data: YearReview): ShareableReport => {
+    const limited = (items: string[]) =>
+      items.length > EXPORT_LIST_LIMIT ? [...items.slice(0, EXPORT_LIST_LIMIT), t("year_review_more", { count: number(items.length - EXPORT_LIST_LIMIT) })] : items
+    return {
+      lang,
+      dir: lang === "ar" ? "rtl" : "ltr",
+      title: t("year_review_heading", { year: String(data.year) }),
+      subtitle: t("year_review_subtitle", { name: localProfile?.username || "" }),
+      stats: statCards(data),
+      lists: [
+        { label: t("year_review_top_genres"), items: data.topGenres.map((entry) => entry.name) },
+        { label: t("year_review_top_studios"), items: data.topStudios.map((entry) => entry.name) },
+        { label: t("year_review_kept_up"), items: limited(data.keptUp.map((item) => item.title)) },
+        { label: t("year_review_finished_titles"), items: limited(data.finished.map((item) => item.title)) },
+      ],
+      footer: t("year_review_footer", { app: t("app_title") }),
+    }
+  }
+
+  const exportReport = async (kind: "image" | "html") => {
+    const filename = `animesync_year_in_review_${review.year}`
+    setIsExporting(true)
+    try {
+      if (kind === "image") downloadBlob(await renderReportImage(toReport(review)), `${filename}.png`)
+      else downloadFile(formatReportHtml(toReport(review), `${filename}.html`))
+    } catch (error: any) {
+      toast({ variant: "destructive", title: t("year_review_export_failed"), description: error.message })
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  if (!isHydrated) {
+    return (
+      <main className="container mx-auto px-4 py-8">
+        <BackButton />
+        <Skeleton className="h-9 w-1/3 my-6" />
+        <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+          {Array.from({ length: 4 }).map((_, i) => (
+            <Skeleton key={i} className="h-28 w-full" />
+          ))}
+        </div>
+      </main>
+    )
+  }
+
+  if (authMode === "none") {
+    return (
+      <main className="container mx-auto px-4 py-8 text-center">
+        <div className="py-16">
+          <Sparkles className="mx-auto h-12 w-12 text-muted-foreground" />
+          <h2 className="mt-4 text-2xl font-bold">{t("sign_in_to_see_list")}</h2>
+          <p className="mt-2 text-muted-foreground">{t("year_review_prompt")}</p>
+        </div>
+      </main>
+    )
+  }
+
+  return (
+    <main className="container mx-auto px-4 py-8">
+      <BackButton />
+      <div className="flex flex-wrap justify-between items-start gap-4 my-6">
+        <div>
+          <h1 className="text-3xl font-bold font-headline flex items-center gap-2">
+            <Sparkles className="w-8 h-8 text-primary" />
+            {t("year_review_heading", { year: String(year) })}
+          </h1>
+          <p className="mt-1 text-muted-foreground">{t("year_review_desc")}</p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={String(year)} onValueChange={(value) => setYear(Number(value))}>
+            <SelectTrigger className="w-28" aria-label={t("year_review_year")}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {years.map((option) => (
+                <SelectItem key={option} value={String(option)}>
+                  {option}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" disabled={!hasActivity || isLoadingDetails || isExporting} onClick={() => exportReport("image")}>
+            <Download className="mr-2 h-4 w-4" />
+            {t("year_review_export_image")}
+          </Button>
+          <Button variant="outline" disabled={!hasActivity || isLoadingDetails || isExporting} onClick={() => exportReport("html")}>
+            <FileCode className="mr-2 h-4 w-4" />
+            {t("year_review_export_html")}
+          </Button>
+        </div>
+      </div>
+
+      {!hasActivity ? (
+        <div className="text-center py-16">
+          <Sparkles className="mx-auto h-12 w-12 text-muted-foreground" />
+          <h2 className="mt-4 text-2xl font-bold">{t("nothing_here_yet")}</h2>
+          <p className="mt-2 text-muted-foreground">{t("year_review_empty")}</p>
+          <p className="mt-1 text-sm text-muted-foreground">{t("year_review_undated_note")}</p>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          <div className="grid grid-cols-2 lg:grid-cols-3 gap-4">
+            {statCards(review).map((stat) => (
+              <StatCard key={stat.label} title={stat.label} value={stat.value} />
+            ))}
+          </div>
+
+          {isLoadingDetails ? (
+            <div className="flex items-center justify-center gap-2 py-8 text-muted-foreground">
+              <Loader2 className="h-5 w-5 animate-spin" />
+              {t("stats_loading_details", { count: String(mediaIds.length) })}
+            </div>
+          ) : (
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {[
+                  { title: t("year_review_top_genres"), entries: review.topGenres },
+                  { title: t("year_review_top_studios"), entries: review.topStudios },
+                ].map(({ title, entries }) => (
+                  <Card key={title}>
+                    <CardHeader>
+                      <CardTitle className="text-lg">{title}</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      {entries.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">{t("stats_no_data")}</p>
+                      ) : (
+                        <ol className="space-y-1">
+                          {entries.map((entry, index) => (
+                            <li key={entry.name} className="flex justify-between gap-2">
+                              <span className="truncate">{index + 1}. {entry.name}</span>
+                              <span className="text-muted-foreground">{number(entry.count)}</span>
+                            </li>
+                          ))}
+                        </ol>
+                      )}
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+
+              {review.keptUp.length > 0 && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-lg">{t("year_review_kept_up")}</CardTitle>
+                    <p className="text-sm text-muted-foreground">{t("year_review_kept_up_desc")}</p>
+                  </CardHeader>
+                  <CardContent>
+                    <TitleGrid titles={review.keptUp} />
+                  </CardContent>
+                </Card>
+              )}
+
+              {review.finished.length > 0 && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-lg">{t("year_review_finished_titles")}</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <TitleGrid titles={review.finished} />
+                  </CardContent>
+                </Card>
+              )}
+            </>
+          )}
+          <p className="text-sm text-muted-foreground">{t("year_review_undated_note")}</p>
+        </div>
+      )}
+    </main>
+  )
+}
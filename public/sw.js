@@ -0,0 +1,366 @@
+// AnimeSync service worker: offline support and background update checks.
+// Offline: the app shell is precached, visited pages and build assets are kept as they load, and
+// the app asks for the pages and covers of tracked titles to be cached ahead (see
+// src/hooks/use-offline-cache.ts). The data itself comes from the app's own databases.
+// Update checks, shown as system notifications, work from the summary the app writes with
+// src/lib/background-checks.ts (the watching and reading lists and pending reminders) and keep
+// what they have already announced next to it. They run on periodic background sync, or when an
+// open but hidden tab asks for a check.
+
+const DATABASE_NAME = 'animesync-background';
+const STORE_NAME = 'keyval';
+const STATE_KEY = 'state';
+const ENABLED_KEY = 'enabled';
+const PROGRESS_KEY = 'worker_progress';
+const SYNC_TAG = 'animesync-updates';
+// Episodes that aired longer ago than this are not announced (mirrors MAX_AIRING_LOOKBACK in use-auth).
+const MAX_AIRING_LOOKBACK = 7 * 24 * 60 * 60;
+const PAGE_SIZE = 50;
+
+// Bump CACHE_VERSION when the shell changes; older caches are dropped on activation.
+const CACHE_VERSION = 'v1';
+const SHELL_CACHE = `animesync-shell-${CACHE_VERSION}`;
+const STATIC_CACHE = `animesync-static-${CACHE_VERSION}`;
+const PAGES_CACHE = `animesync-pages-${CACHE_VERSION}`;
+const IMAGES_CACHE = `animesync-images-${CACHE_VERSION}`;
+const ASSETS_CACHE = `animesync-assets-${CACHE_VERSION}`;
+const CACHES = [SHELL_CACHE, STATIC_CACHE, PAGES_CACHE, IMAGES_CACHE, ASSETS_CACHE];
+const APP_SHELL = [
+  '/',
+  '/list/watching',
+  '/list/completed',
+  '/list/plan-to-watch',
+  '/list/on-hold',
+  '/list/dropped',
+  '/list/reading',
+  '/list/read',
+  '/list/plan-to-read',
+  '/lists',
+  '/history',
+  '/stats',
+  '/settings',
+  '/manifest.webmanifest',
+  '/icon.svg',
+  '/apple-icon.png',
+];
+// Hosts of cover and banner images.
+const IMAGE_HOSTS = ['s4.anilist.co', 'cdn.myanimelist.net', 'media.kitsu.app', 'media.kitsu.io'];
+const MAX_PAGES = 300;
+const MAX_IMAGES = 600;
+const MAX_STATIC = 400;
+const MAX_ASSETS = 100;
+const DEV_HOSTS = ['localhost', '127.0.0.1'];
+
+const AIRED_EPISODES_QUERY = `
+    query AiredEpisodesQuery($ids: [Int], $since: Int, $until: Int, $page: Int) {
+      Page(page: $page, perPage: 50) {
+        pageInfo { hasNextPage }
+        airingSchedules(mediaId_in: $ids, airingAt_greater: $since, airingAt_lesser: $until, sort: TIME) {
+          mediaId
+          episode
+          airingAt
+        }
+      }
+    }
+`;
+
+const MEDIA_COUNTS_QUERY = `
+    query MediaCountsQuery($ids: [Int]) {
+      Page(page: 1, perPage: 50) {
+        media(id_in: $ids) {
+          id
+          chapters
+        }
+      }
+    }
+`;
+
+self.addEventListener('install', event => {
+  event.waitUntil(precacheShell().then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(names.filter(name => name.startsWith('animesync-') && !CACHES.includes(name)).map(name => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+self.addEventListener('fetch', event => {
+  const response = handleFetch(event);
+  if (response) event.respondWith(response);
+});
+
+self.addEventListener('periodicsync', event => {
+  if (event.tag === SYNC_TAG) event.waitUntil(runChecks());
+});
+
+self.addEventListener('message', event => {
+  if (event.data && event.data.type === 'run-checks') event.waitUntil(runChecks());
+  if (event.data && event.data.type === 'cache-media') event.waitUntil(cacheMedia(event.data.pages, event.data.images));
+});
+
+self.addEventListener('notificationclick', event => {
+  event.notification.close();
+  const url = new URL((event.notification.data && event.notification.data.url) || '/', self.location.origin).href;
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    const client = windows.find(item => new URL(item.url).origin === self.location.origin);
+    if (client) {
+      await client.focus();
+      if ('navigate' in client) return client.navigate(url).catch(() => self.clients.openWindow(url));
+    }
+    return self.clients.openWindow(url);
+  })());
+});
+
+// --- OFFLINE ---
+// One page failing (or not existing in this build) shouldn't stop the worker from installing.
+async function precacheShell() {
+  const cache = await caches.open(SHELL_CACHE);
+  await Promise.all(APP_SHELL.map(url => cache.add(url).catch(() => {})));
+}
+
+// Drops the oldest entries beyond `max` (caches keep insertion order).
+async function trimCache(name, max) {
+  const cache = await caches.open(name);
+  const keys = await cache.keys();
+  await Promise.all(keys.slice(0, Math.max(keys.length - max, 0)).map(key => cache.delete(key)));
+}
+
+// Returns the response to use, or undefined to let the browser handle the request.
+function handleFetch(event) {
+  const { request } = event;
+  // Development builds have unhashed, hot-reloaded assets that must never come from a cache.
+  if (request.method !== 'GET' || DEV_HOSTS.includes(self.location.hostname)) return undefined;
+  const url = new URL(request.url);
+
+  if (url.origin !== self.location.origin) {
+    return request.destination === 'image' && IMAGE_HOSTS.includes(url.hostname) ? cacheFirst(request, IMAGES_CACHE, MAX_IMAGES) : undefined;
+  }
+  // AniList responses are cached by the app (src/lib/anilist/cache.ts).
+  if (url.pathname.startsWith('/api/')) return undefined;
+  // Build assets have hashed names, so a cached copy is always right.
+  if (url.pathname.startsWith('/_next/static/')) return cacheFirst(request, STATIC_CACHE, MAX_STATIC);
+  if (url.pathname.startsWith('/_next/image')) return cacheFirst(request, IMAGES_CACHE, MAX_IMAGES);
+  // Pages and the React Server Component payloads of client-side navigations.
+  if (request.mode === 'navigate' || request.headers.get('RSC') === '1') return networkFirst(request);
+  // Everything else (the manifest, icons, files in public/) keeps its name when it changes.
+  return staleWhileRevalidate(request, event);
+}
+
+async function cacheFirst(request, cacheName, max) {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  // Cross-origin images are opaque (status 0); they are cached as they are.
+  if (response.ok || response.type === 'opaque') {
+    await cache.put(request, response.clone());
+    if (max) trimCache(cacheName, max);
+  }
+  return response;
+}
+
+// Answers from the cache (or the precached shell) and refreshes the copy in the background, so a
+// changed file is served from the next request on.
+async function staleWhileRevalidate(request, event) {
+  const cache = await caches.open(ASSETS_CACHE);
+  const refresh = fetch(request).then(async response => {
+    if (response.ok) {
+      await cache.put(request, response.clone());
+      await trimCache(ASSETS_CACHE, MAX_ASSETS);
+    }
+    return response;
+  });
+  const cached = await cache.match(request) || await caches.match(request, { cacheName: SHELL_CACHE });
+  if (!cached) return refresh;
+  event.waitUntil(refresh.catch(() => {}));
+  return cached;
+}
+
+async function networkFirst(request) {
+  const cache = await caches.open(PAGES_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      await cache.put(request, response.clone());
+      trimCache(PAGES_CACHE, MAX_PAGES);
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match(request) || await caches.match(request, { cacheName: SHELL_CACHE });
+    if (cached) return cached;
+    // A failed payload request makes Next.js load the page in full, which ends up below.
+    if (request.mode !== 'navigate') throw error;
+    return offlinePage();
+  }
+}
+
+function offlinePage() {
+  const html = '<!doctype html><html lang="ar" dir="rtl"><head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1">'
+    + '<title>AnimeSync</title></head><body style="font-family:sans-serif;background:#09090b;color:#fafafa;text-align:center;padding:4rem 1rem">'
+    + '<h1>أنت غير متصل بالإنترنت</h1><p>You are offline. This page hasn\'t been saved for offline use yet.</p>'
+    + '<p><a href="/" style="color:#a78bfa">AnimeSync</a></p></body></html>';
+  return new Response(html, { status: 503, headers: { 'Content-Type': 'text/html; charset=utf-8' } });
+}
+
+// Caches the pages and covers of tracked titles that aren't cached yet, one at a time.
+async function cacheMedia(pages = [], images = []) {
+  const [pagesCache, imagesCache] = await Promise.all([caches.open(PAGES_CACHE), caches.open(IMAGES_CACHE)]);
+  for (const url of pages) {
+    if (await pagesCache.match(url)) continue;
+    try {
+      const response = await fetch(url, { credentials: 'same-origin' });
+      if (response.ok) await pagesCache.put(url, response);
+    } catch {
+      return; // Offline again; the app asks once more when it's back.
+    }
+  }
+  for (const url of images) {
+    const request = new Request(url, { mode: 'no-cors' });
+    if (await imagesCache.match(request)) continue;
+    try {
+      await imagesCache.put(request, await fetch(request));
+    } catch {
+      return;
+    }
+  }
+  await Promise.all([trimCache(PAGES_CACHE, MAX_PAGES), trimCache(IMAGES_CACHE, MAX_IMAGES)]);
+}
+
+// --- STORAGE ---
+// The app creates the database (with idb-keyval); until then there is nothing to check.
+function openDatabase() {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DATABASE_NAME);
+    request.onsuccess = () => {
+      const db = request.result;
+      db.onversionchange = () => db.close();
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore(mode, callback) {
+  const db = await openDatabase();
+  try {
+    if (!db.objectStoreNames.contains(STORE_NAME)) return undefined;
+    return await new Promise((resolve, reject) => {
+      const tx = db.transaction(STORE_NAME, mode);
+      const request = callback(tx.objectStore(STORE_NAME));
+      tx.oncomplete = () => resolve(request.result);
+      tx.onabort = tx.onerror = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+const read = key => withStore('readonly', store => store.get(key));
+const write = (key, value) => withStore('readwrite', store => store.put(value, key));
+
+// --- ANILIST ---
+// Through the app's proxy, like the pages do. Returns null when the request fails.
+async function fetchAniList(query, variables) {
+  try {
+    const response = await fetch('/api/anilist/search', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+      body: JSON.stringify({ query, variables }),
+    });
+    if (!response.ok) return null;
+    const json = await response.json();
+    return json.errors ? null : json.data;
+  } catch {
+    return null;
+  }
+}
+
+async function getAiredEpisodes(ids, since, until) {
+  const episodes = [];
+  for (let page = 1; ; page++) {
+    const data = await fetchAniList(AIRED_EPISODES_QUERY, { ids, since, until: until + 1, page });
+    if (!data || !data.Page) return null;
+    episodes.push(...data.Page.airingSchedules);
+    if (!data.Page.pageInfo.hasNextPage) return episodes;
+  }
+}
+
+async function getChapterCounts(ids) {
+  const counts = new Map();
+  for (let i = 0; i < ids.length; i += PAGE_SIZE) {
+    const data = await fetchAniList(MEDIA_COUNTS_QUERY, { ids: ids.slice(i, i + PAGE_SIZE) });
+    if (!data || !data.Page) continue;
+    data.Page.media.forEach(media => counts.set(media.id, media.chapters));
+  }
+  return counts;
+}
+
+// --- CHECKS ---
+const format = (template, values) => template.replace(/\{\{(\w+)\}\}/g, (match, name) => (name in values ? String(values[name]) : match));
+
+// An open tab the user is looking at shows the updates itself.
+async function hasVisibleClient() {
+  const windows = await self.clients.matchAll({ type: 'window' });
+  return windows.some(client => client.visibilityState === 'visible');
+}
+
+async function runChecks() {
+  const [state, enabled] = await Promise.all([read(STATE_KEY), read(ENABLED_KEY)]);
+  if (!state || !enabled || Notification.permission !== 'granted') return;
+
+  const now = Math.floor(Date.now() / 1000);
+  const stored = await read(PROGRESS_KEY);
+  // The first check only starts the clock, so enabling this doesn't replay the last week.
+  const progress = stored && stored.profileId === state.profileId
+    ? stored
+    : { profileId: state.profileId, lastAiringCheck: now, chapters: {}, reminders: [] };
+  const found = [];
+
+  const pendingIds = new Set(state.reminders.map(reminder => reminder.id));
+  progress.reminders = progress.reminders.filter(id => pendingIds.has(id));
+  state.reminders
+    .filter(reminder => Date.parse(reminder.dueAt) <= Date.now() && !progress.reminders.includes(reminder.id))
+    .forEach(reminder => {
+      found.push({ tag: `reminder:${reminder.id}`, title: reminder.title, body: reminder.body, icon: reminder.image, url: reminder.url });
+      progress.reminders.push(reminder.id);
+    });
+
+  if (state.animeIds.length > 0) {
+    const since = Math.max(progress.lastAiringCheck, now - MAX_AIRING_LOOKBACK);
+    const aired = await getAiredEpisodes(state.animeIds, since, now);
+    if (aired) {
+      aired.forEach(item => {
+        const media = state.media[item.mediaId];
+        if (!media) return;
+        found.push({ tag: `episode:${item.mediaId}:${item.episode}`, title: media.title, body: format(state.labels.episodeAired, { episode: item.episode }), icon: media.image, url: media.url });
+      });
+      progress.lastAiringCheck = now;
+    }
+  }
+
+  const mangaIds = Object.keys(state.manga).map(Number);
+  if (mangaIds.length > 0) {
+    const counts = await getChapterCounts(mangaIds);
+    counts.forEach((chapters, id) => {
+      const media = state.media[id];
+      const seen = Math.max(state.manga[id] || 0, progress.chapters[id] || 0);
+      if (media && chapters && seen && chapters > seen) {
+        found.push({ tag: `chapters:${id}:${chapters}`, title: media.title, body: format(state.labels.newChapters, { count: chapters - seen }), icon: media.image, url: media.url });
+      }
+      if (chapters) progress.chapters[id] = Math.max(chapters, progress.chapters[id] || 0);
+    });
+  }
+
+  await write(PROGRESS_KEY, progress);
+  if (found.length === 0 || await hasVisibleClient()) return;
+  await Promise.all(found.map(item => self.registration.showNotification(item.title, {
+    body: item.body,
+    icon: item.icon || '/icon.svg',
+    tag: item.tag,
+    data: { url: item.url },
+  })));
+}
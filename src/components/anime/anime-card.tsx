@@ -7,8 +7,8 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
-import { Star, Film, Tv, Video, Music, Sparkles, ChevronDown, ChevronUp, Copy, Bookmark, Calendar, List, X, Info, Languages, Undo2, Loader2, BookOpen, BookUser, Trash2, VideoIcon, Plus, Tags, ShieldAlert, Clock, Bell, Search } from 'lucide-react';
-import type { Anime, BreadcrumbItem, UpdateInfo, JikanGenre } from '@/lib/types';
+import { Star, Film, Tv, Video, Music, Sparkles, ChevronDown, ChevronUp, Copy, Calendar, List, X, Info, Languages, Undo2, Loader2, BookOpen, Trash2, Plus, Tags, ShieldAlert, Clock, Bell, Search, NotebookPen, Heart } from 'lucide-react';
+import type { Anime, BreadcrumbItem, UpdateInfo, JikanGenre, MediaStatus } from '@/lib/types';
 import { Tooltip, TooltipContent, TooltipTrigger, TooltipProvider } from '@/components/ui/tooltip';
 import { Dialog, DialogTrigger, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
 import {
@@ -35,10 +35,21 @@ import { GenreAnimeListDialog } from './list/genre-anime-list-dialog';
 import { Progress } from '../ui/progress';
 import { SceneSearchDialog } from './details/scene-search-dialog';
 import { ReminderDialog } from '../notifications/reminder-dialog';
-
-
-type WatchingStatus = 'watched' | 'in-progress';
-type ReadingStatus = 'read' | 'in-progress';
+import { ListEntryDialog } from './list-entry-dialog';
+import { DEFAULT_SCORE_FORMAT, formatScore } from '@/lib/data/list-entries';
+import { MediaStatusMenu } from './media-status-menu';
+import { CustomListMenu } from './list/custom-list-menu';
+import { getStatusLabelKey, type StatusListName } from '@/lib/data/media-status';
+import { getTrackedProgress } from '@/lib/data/volumes';
+
+const STATUS_DOT_CLASSES: Record<MediaStatus, string> = {
+  planning: 'bg-slate-400',
+  current: 'bg-yellow-400',
+  completed: 'bg-blue-500',
+  repeating: 'bg-teal-400',
+  paused: 'bg-orange-400',
+  dropped: 'bg-red-500',
+};
 
 
 const typeIcons: { [key: string]: React.ElementType } = {
@@ -227,7 +238,7 @@ interface AnimeCardProps {
   anime: Anime;
   currentTrail?: BreadcrumbItem[];
   disableTooltip?: boolean;
-  listType?: 'watching' | 'plan-to-watch' | 'completed' | 'reading' | 'plan-to-read' | 'read';
+  listType?: StatusListName;
   onRemove?: (itemId: number) => void;
 }
 
@@ -244,10 +255,6 @@ export function AnimeCard({
   const { 
     authMode, 
     listData,
-    togglePlanToWatch, isPlannedToWatch,
-    toggleCurrentlyWatching, isCurrentlyWatching,
-    togglePlanToRead, isPlannedToRead,
-    toggleCurrentlyReading, isCurrentlyReading,
     updates,
   } = useAuth();
   const [showDetails, setShowDetails] = useState(false);
@@ -276,40 +283,15 @@ export function AnimeCard({
   if (translatedTypeKey === 'one_shot') translatedTypeKey = 'one-shot';
   const translatedType = t(translatedTypeKey);
 
-  // Unified status logic
-  const { watchingStatus, readingStatus, progress } = useMemo(() => {
-    if (authMode === 'none' || !listData) return { watchingStatus: undefined, readingStatus: undefined, progress: null };
-    const animeIdStr = String(anime.id);
-    let progressData = null;
-
-    // Anime status
-    const watchedEpsCount = listData.watchedEpisodes?.[animeIdStr]?.length || 0;
-    let watchingStatus: WatchingStatus | undefined = undefined;
-    if (listData.currentlyWatching?.includes(anime.id) || watchedEpsCount > 0) {
-        watchingStatus = (anime.episodes && watchedEpsCount >= anime.episodes) ? 'watched' : 'in-progress';
-    }
-    if (watchingStatus && anime.episodes) {
-        progressData = { current: watchedEpsCount, total: anime.episodes };
-    }
-
-    // Manga status
-    const readChapsCount = listData.readChapters?.[animeIdStr]?.read?.length || 0;
-    const totalChapters = anime.chapters || anime.volumes;
-    let readingStatus: ReadingStatus | undefined = undefined;
-    if (listData.currentlyReading?.includes(anime.id) || readChapsCount > 0) {
-        readingStatus = (totalChapters && readChapsCount >= totalChapters) ? 'read' : 'in-progress';
-    }
-    if (readingStatus && totalChapters) {
-        progressData = { current: readChapsCount, total: totalChapters };
-    }
-
-    return { watchingStatus, readingStatus, progress: progressData };
+  // The user's status and progress for this title.
+  const { status, progress } = useMemo(() => {
+    if (authMode === 'none' || !listData) return { status: undefined, progress: null };
+    const status = listData.statuses?.[anime.id]?.status;
+    const { count: current, total } = getTrackedProgress(listData, anime);
+    return { status, progress: (status || current > 0) && total ? { current, total } : null };
   }, [authMode, listData, anime]);
-  
-  const plannedToWatch = isPlannedToWatch(anime.id);
-  const watching = isCurrentlyWatching(anime.id);
-  const plannedToRead = isPlannedToRead(anime.id);
-  const reading = isCurrentlyReading(anime.id);
+
+  const userScore = listType ? listData?.listEntries?.[anime.id]?.score : null;
 
   const handleRemove = (e: React.MouseEvent) => {
     e.stopPropagation();
@@ -329,54 +311,16 @@ export function AnimeCard({
     });
   }
   
-  const handleToggleCurrentlyWatching = (e: React.MouseEvent) => {
-      e.stopPropagation();
-      e.preventDefault();
-      if (authMode === 'none') return;
-      toggleCurrentlyWatching(anime);
-  }
-
-  const handlePlanToWatchToggle = (e: React.MouseEvent) => {
-    e.stopPropagation();
-    e.preventDefault();
-    if (authMode === 'none') return;
-    togglePlanToWatch(anime);
-    toast({
-        title: plannedToWatch ? t('toast_removed_from_plan_to_watch_title') : t('toast_added_to_plan_to_watch_title'),
-        description: `${anime.title}`,
-    });
-  }
-
-  const handleToggleCurrentlyReading = (e: React.MouseEvent) => {
-      e.stopPropagation();
-      e.preventDefault();
-      if (authMode === 'none') return;
-      toggleCurrentlyReading(anime);
-  }
-
-  const handlePlanToReadToggle = (e: React.MouseEvent) => {
-    e.stopPropagation();
-    e.preventDefault();
-    if (authMode === 'none') return;
-    togglePlanToRead(anime);
-  }
-
-
   const renderStatusIndicators = () => {
     let personalStatusIndicator = null;
     let airingStatusIndicator = null;
 
-    const currentStatus = isManga ? readingStatus : watchingStatus;
-
-    if (currentStatus) {
-      const isCompleted = currentStatus === 'watched' || currentStatus === 'read';
+    if (status) {
       const indicatorClass = cn(
         "absolute top-2 left-2 h-4 w-4 rounded-full border-2 border-background z-10",
-        isCompleted ? (isManga ? "bg-green-500" : "bg-blue-500") : "bg-yellow-400"
+        status === 'completed' && isManga ? "bg-green-500" : STATUS_DOT_CLASSES[status]
       );
-      let tooltipText = isCompleted 
-        ? (isManga ? t('read') : t('status_watched'))
-        : (isManga ? t('currently_reading') : t('status_in_progress'));
+      const tooltipText = t(getStatusLabelKey(status, isManga ? 'MANGA' : 'ANIME') as any);
         
       personalStatusIndicator = (
         <Tooltip>
@@ -394,7 +338,7 @@ export function AnimeCard({
        const indicatorClass = cn(
         "absolute top-2 h-3 w-3 rounded-full border-2 border-background z-10",
         isManga ? "bg-sky-400" : "bg-green-500",
-        currentStatus ? "left-7" : "left-2"
+        status ? "left-7" : "left-2"
       );
       const statusText = isManga ? t('finished_publishing') : t('finished_airing');
 
@@ -441,41 +385,18 @@ export function AnimeCard({
                     
                     <SynopsisDialog synopsis={anime.synopsis} title={anime.title} />
 
-                    {authMode !== 'none' && (
-                        isManga ? (
-                            <>
-                                <Button className="w-full" variant={reading ? "secondary" : "outline"} onClick={handleToggleCurrentlyReading}>
-                                    <BookUser className={cn("w-4 h-4 mr-2", reading ? "text-green-400" : "text-muted-foreground")} />
-                                    {reading ? t('currently_reading') : t('currently_reading')}
-                                </Button>
-                                <Button className="w-full" variant={plannedToRead ? "secondary" : "outline"} onClick={handlePlanToReadToggle}>
-                                    <Bookmark className={cn("w-4 h-4 mr-2", plannedToRead ? "text-yellow-400" : "text-muted-foreground")} />
-                                    {plannedToRead ? t('plan_to_read_manga') : t('plan_to_read_manga')}
-                                </Button>
-                                {(listType === 'reading' || listType === 'plan-to-read') && (
-                                  <>
-                                    <SceneSearchDialog animeId={anime.id} animeTitle={anime.title} posterImage={originalImageUrl} />
-                                    <ReminderDialog anime={anime}>
-                                      <Button variant="outline" className="w-full">
-                                        <Bell className="text-purple-400" />
-                                        {t('add_reminder')}
-                                      </Button>
-                                    </ReminderDialog>
-                                  </>
-                                )}
-                            </>
-                        ) : (
-                            <>
-                                <Button className="w-full" variant={watching ? "secondary" : "outline"} onClick={handleToggleCurrentlyWatching}>
-                                    <VideoIcon className={cn("w-4 h-4 mr-2", watching ? "text-green-400" : "text-muted-foreground")} />
-                                    {watching ? t('currently_watching') : t('currently_watching')}
-                                </Button>
-                                <Button className="w-full" variant={plannedToWatch ? "secondary" : "outline"} onClick={handlePlanToWatchToggle}>
-                                    <Bookmark className={cn("w-4 h-4 mr-2", plannedToWatch ? "text-yellow-400" : "text-muted-foreground")} />
-                                    {plannedToWatch ? t('planned') : t('plan_to_watch_btn')}
-                                </Button>
-                            </>
-                        )
+                    <MediaStatusMenu media={anime} />
+                    <CustomListMenu media={anime} />
+                    {authMode !== 'none' && isManga && (listType === 'reading' || listType === 'plan-to-read') && (
+                      <>
+                        <SceneSearchDialog animeId={anime.id} animeTitle={anime.title} posterImage={originalImageUrl} />
+                        <ReminderDialog anime={anime}>
+                          <Button variant="outline" className="w-full">
+                            <Bell className="text-purple-400" />
+                            {t('add_reminder')}
+                          </Button>
+                        </ReminderDialog>
+                      </>
                     )}
                 </div>
             ) : (
@@ -523,6 +444,12 @@ export function AnimeCard({
                                 <span>{anime.year}</span>
                             </Badge>
                         )}
+                        {userScore != null && (
+                            <Badge variant="secondary" className="flex items-center gap-1 bg-primary/80 text-primary-foreground backdrop-blur-sm">
+                                <Heart className="h-3 w-3" />
+                                <span>{formatScore(userScore, listData.scoreFormat || DEFAULT_SCORE_FORMAT)}</span>
+                            </Badge>
+                        )}
                         {anime.score && (
                             <TooltipProvider>
                                 <Tooltip>
@@ -544,7 +471,18 @@ export function AnimeCard({
                     </div>
                 </Link>
                  {listType && onRemove && authMode !== 'none' && !showDetails && (
-                    <div className="absolute bottom-2 left-1/2 -translate-x-1/2 z-20 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <div className="absolute bottom-2 left-1/2 -translate-x-1/2 z-20 flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                        <ListEntryDialog media={anime}>
+                            <Button
+                                variant="secondary"
+                                size="icon"
+                                className="h-9 w-9 rounded-full bg-black/60 text-white hover:bg-primary"
+                                onClick={(e) => { e.stopPropagation(); }}
+                                aria-label={t('list_entry_edit')}
+                            >
+                                <NotebookPen className="h-4 w-4" />
+                            </Button>
+                        </ListEntryDialog>
                         <AlertDialog>
                             <AlertDialogTrigger asChild>
                                 <Button
@@ -6,21 +6,24 @@ import { useAuth } from '@/hooks/use-auth';
 import type { Anime } from '@/lib/types';
 import { Card, CardContent, CardHeader } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Star, Tv, Calendar, Tag, Bookmark, Search, GitMerge, Check, Video, ListOrdered, Bell, ShieldAlert } from 'lucide-react';
+import { Star, Tv, Calendar, Tag, Search, GitMerge, Check, ListOrdered, Bell, ShieldAlert, NotebookPen } from 'lucide-react';
 import { useTranslation } from '@/hooks/use-translation';
 import { translations } from '@/lib/i18n';
 import { SceneSearchDialog } from './scene-search-dialog';
 import { cn } from '@/lib/utils';
 import { ReminderDialog } from '@/components/notifications/reminder-dialog';
+import { ListEntryDialog } from '@/components/anime/list-entry-dialog';
+import { MediaStatusMenu } from '@/components/anime/media-status-menu';
+import { CustomListMenu } from '@/components/anime/list/custom-list-menu';
+import { DEFAULT_SCORE_FORMAT, formatScore } from '@/lib/data/list-entries';
 import { useState } from 'react';
 
 
 export const AnimeDetails = ({ anime }: { anime: Anime }) => {
-  const { authMode, isPlannedToWatch, togglePlanToWatch, isCurrentlyWatching, toggleCurrentlyWatching } = useAuth();
+  const { authMode, listData } = useAuth();
   const { t } = useTranslation();
   
-  const planned = isPlannedToWatch(anime.id);
-  const watching = isCurrentlyWatching(anime.id);
+  const userScore = listData.listEntries?.[anime.id]?.score;
 
   const translatedStatus = t(anime.status.toLowerCase().replace(/ /g, '_').replace(/-/g, '_') as keyof typeof translations.ar || 'unknown');
   
@@ -58,26 +61,8 @@ export const AnimeDetails = ({ anime }: { anime: Anime }) => {
          )}
 
         <div className="flex flex-col gap-2 pt-2">
-             {authMode !== 'none' && (
-                <Button 
-                    className="w-full flex-wrap"
-                    variant={watching ? "secondary" : "outline"}
-                    onClick={() => toggleCurrentlyWatching(anime)}
-                >
-                    <Video className={cn(watching ? "text-green-400" : "text-muted-foreground")} />
-                    {watching ? t('watching') : t('currently_watching')}
-                </Button>
-            )}
-            {authMode !== 'none' && (
-                <Button 
-                  className="w-full flex-wrap"
-                  variant={planned ? "secondary" : "outline"}
-                  onClick={() => togglePlanToWatch(anime)}
-                >
-                  <Bookmark className={cn(planned ? "text-yellow-400" : "text-muted-foreground")} />
-                  {planned ? t('planned') : t('plan_to_watch_btn')}
-                </Button>
-            )}
+             <MediaStatusMenu media={anime} />
+             <CustomListMenu media={anime} />
             {anime.id && (
                   <SceneSearchDialog 
                     animeId={anime.id} 
@@ -93,6 +78,16 @@ export const AnimeDetails = ({ anime }: { anime: Anime }) => {
                     </Button>
                 </ReminderDialog>
             )}
+            {authMode !== 'none' && (
+                <ListEntryDialog media={anime}>
+                    <Button variant="outline" className="w-full flex-wrap">
+                        <NotebookPen className="text-sky-400" />
+                        {userScore != null
+                          ? t('list_entry_your_score', { score: formatScore(userScore, listData.scoreFormat || DEFAULT_SCORE_FORMAT) })
+                          : t('list_entry_edit')}
+                    </Button>
+                </ListEntryDialog>
+            )}
         </div>
 
 
@@ -9,6 +9,7 @@ import { useTranslation } from '@/hooks/use-translation';
 import { useLogger } from '@/hooks/use-logger';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/hooks/use-auth';
+import { useUnmountSignal } from '@/hooks/use-unmount-signal';
 import { AnimeSynopsis } from './anime-synopsis';
 import { EpisodesTab } from './tabs/EpisodesTab';
 import { CharactersTab } from './tabs/CharactersTab';
@@ -37,6 +38,7 @@ export function AnimeTabs({ anime }: { anime: Anime }) {
   const { t } = useTranslation();
   const { addLog } = useLogger();
   const { listData, toggleEpisodeWatched } = useAuth(); // Get listData and the function here
+  const getSignal = useUnmountSignal();
 
   const [activeTab, setActiveTab] = useState('synopsis');
   
@@ -65,7 +67,7 @@ export function AnimeTabs({ anime }: { anime: Anime }) {
           }
           setCharacterData(prev => ({ ...prev, isLoading: true, error: null }));
           try {
-            const data = await getAnimeCharacters(malId, addLog);
+            const data = await getAnimeCharacters(malId, addLog, { signal: getSignal() });
             setCharacterData({ data: data, isLoading: false, error: null });
           } catch(e: any) {
              setCharacterData({ data: [], isLoading: false, error: e.message || "Failed to load character data." });
@@ -88,10 +90,10 @@ export function AnimeTabs({ anime }: { anime: Anime }) {
       try {
         let data;
         switch(key) {
-            case 'pictures': data = await getAnimePictures(anilistId, addLog); break;
-            case 'videos': data = await getAnimeVideos(anilistId, addLog); break;
-            case 'staff': data = await getAnimeStaff(anilistId, addLog); break;
-            case 'reviews': data = await getAnimeReviews(anilistId, addLog); break;
+            case 'pictures': data = await getAnimePictures(anilistId, addLog, { signal: getSignal() }); break;
+            case 'videos': data = await getAnimeVideos(anilistId, addLog, { signal: getSignal() }); break;
+            case 'staff': data = await getAnimeStaff(anilistId, addLog, { signal: getSignal() }); break;
+            case 'reviews': data = await getAnimeReviews(anilistId, addLog, { signal: getSignal() }); break;
         }
         setAdditionalData(prev => ({...prev, [key]: data || [] }));
         addLog(`Successfully fetched data for tab: "${key}"`);
@@ -105,7 +107,7 @@ export function AnimeTabs({ anime }: { anime: Anime }) {
               description: t('toast_fetch_failed_desc', { context: key })
           });
       }
-  }, [anime.id, anime.mal_id, additionalData, characterData, toast, addLog, t]);
+  }, [anime.id, anime.mal_id, additionalData, characterData, toast, addLog, t, getSignal]);
   
   const TABS = [
       { value: 'synopsis', label: t('synopsis'), icon: Info, condition: true },
@@ -14,6 +14,7 @@ import { useTranslation } from '@/hooks/use-translation';
 import { useLogger } from '@/hooks/use-logger';
 import { CustomLinksDialog } from './CustomLinksDialog';
 import { useToast } from '@/hooks/use-toast';
+import { getProgressLog } from '@/lib/data/progress';
 
 
 function TabLoading() {
@@ -83,11 +84,12 @@ export function EpisodesTab({ anime, listData, toggleEpisodeWatched }: { anime:
         addLog(`Recalculating allEpisodes for anime ID: ${anime.id}. Found ${allEpisodes.length} episodes.`);
     }, [allEpisodes, anime.id, addLog]);
 
+    // During a rewatch, the episodes marked in it.
     const watchedSet = useMemo(() => {
-        if (!listData || !listData.watchedEpisodes) return new Set<number>();
-        const episodeNumbers = (listData.watchedEpisodes[animeIdStr] || []).map(Number);
+        if (!listData) return new Set<number>();
+        const episodeNumbers = Object.keys(getProgressLog(listData, 'watchedEpisodes', animeIdStr) || {}).map(Number);
         return new Set(episodeNumbers);
-    }, [listData.watchedEpisodes, animeIdStr]);
+    }, [listData, animeIdStr]);
 
 
     const sortedEpisodes = useMemo(() => {
@@ -0,0 +1,92 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { Anime } from '@/lib/types';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  DialogClose,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Layers, Save } from 'lucide-react';
+import { useAuth } from '@/hooks/use-auth';
+import { useTranslation } from '@/hooks/use-translation';
+import { formatVolumeRanges, getRangeLimits, getVolumeTracking, parseVolumeRanges } from '@/lib/data/volumes';
+
+// Edits which chapters each volume of a manga collects, as "volume: first-last" lines.
+export function VolumeRangesDialog({ manga }: { manga: Anime }) {
+  const { listData, setVolumeTracking } = useAuth();
+  const { toast } = useToast();
+  const { t } = useTranslation();
+  const [open, setOpen] = useState(false);
+  const [text, setText] = useState('');
+
+  useEffect(() => {
+    if (open) setText(formatVolumeRanges(getVolumeTracking(listData, manga.id).ranges));
+  }, [open, listData, manga.id]);
+
+  const handleSave = () => {
+    const { ranges, invalidLines, outOfRangeLines } = parseVolumeRanges(text, manga);
+    if (invalidLines.length > 0) {
+      toast({ variant: 'destructive', title: t('volume_ranges_invalid_title'), description: t('volume_ranges_invalid_desc', { lines: invalidLines.join(', ') }) });
+      return;
+    }
+    if (outOfRangeLines.length > 0) {
+      const limits = getRangeLimits(manga);
+      toast({
+        variant: 'destructive',
+        title: t('volume_ranges_invalid_title'),
+        description: t('volume_ranges_out_of_range_desc', { lines: outOfRangeLines.join(', '), volumes: String(limits.volumes), chapters: String(limits.chapters) }),
+      });
+      return;
+    }
+    setVolumeTracking(manga, { ranges });
+    toast({ title: t('volume_ranges_saved') });
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Layers className="mr-2 h-4 w-4" />
+          {t('volume_ranges')}
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{t('volume_ranges')}</DialogTitle>
+          <DialogDescription>{t('volume_ranges_desc')}</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="volume-ranges">{t('volume_ranges_label')}</Label>
+          <Textarea
+            id="volume-ranges"
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder={'1: 1-8\n2: 9-17'}
+            className="min-h-48 font-mono"
+            dir="ltr"
+          />
+        </div>
+        <DialogFooter>
+          <DialogClose asChild>
+            <Button variant="ghost">{t('cancel')}</Button>
+          </DialogClose>
+          <Button onClick={handleSave}>
+            <Save className="mr-2 h-4 w-4" />
+            {t('save_changes')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,149 @@
+'use client';
+
+import { useState } from 'react';
+import type { Anime } from '@/lib/types';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { NotebookPen, Trash2 } from 'lucide-react';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { useTranslation } from '@/hooks/use-translation';
+import { DEFAULT_SCORE_FORMAT, fromDisplayScore, getScoreScale, toDisplayScore } from '@/lib/data/list-entries';
+
+interface ListEntryDialogProps {
+  media: Anime;
+  // The trigger; the dialog opens when it is clicked.
+  children: React.ReactNode;
+}
+
+// Edits the user's score, notes, dates and rewatch count for one title (ListData.listEntries).
+export function ListEntryDialog({ media, children }: ListEntryDialogProps) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const { listData, updateListEntry, removeListEntry } = useAuth();
+  const [open, setOpen] = useState(false);
+  const [score, setScore] = useState('');
+  const [notes, setNotes] = useState('');
+  const [startedAt, setStartedAt] = useState('');
+  const [completedAt, setCompletedAt] = useState('');
+  const [rewatchCount, setRewatchCount] = useState('0');
+
+  const entry = listData.listEntries?.[media.id];
+  const scoreFormat = listData.scoreFormat || DEFAULT_SCORE_FORMAT;
+  const { max, step } = getScoreScale(scoreFormat);
+  const isManga = media.type === 'MANGA' || media.type === 'NOVEL' || media.type === 'ONE_SHOT';
+
+  // Reset the form to the stored entry every time the dialog opens.
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) {
+      setScore(entry?.score != null ? String(toDisplayScore(entry.score, scoreFormat)) : '');
+      setNotes(entry?.notes || '');
+      setStartedAt(entry?.startedAt || '');
+      setCompletedAt(entry?.completedAt || '');
+      setRewatchCount(String(entry?.rewatchCount || 0));
+    }
+    setOpen(nextOpen);
+  };
+
+  const handleSave = (event: React.FormEvent) => {
+    event.preventDefault();
+    const scoreValue = parseFloat(score);
+    updateListEntry(media, {
+      score: score.trim() && !Number.isNaN(scoreValue) && scoreValue > 0 ? fromDisplayScore(scoreValue, scoreFormat) : null,
+      notes: notes.trim(),
+      startedAt: startedAt || null,
+      completedAt: completedAt || null,
+      rewatchCount: Math.max(0, parseInt(rewatchCount, 10) || 0),
+    });
+    toast({ title: t('list_entry_saved'), description: media.title });
+    setOpen(false);
+  };
+
+  const handleRemove = () => {
+    removeListEntry(media);
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="sm:max-w-md" onClick={(e) => e.stopPropagation()}>
+        <form onSubmit={handleSave} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <NotebookPen className="h-5 w-5 text-primary" />
+              {t('list_entry_title')}
+            </DialogTitle>
+            <DialogDescription>
+              <span className="font-semibold text-foreground">{media.title}</span> &bull; {t('list_entry_desc')}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="entry-score">{t('list_entry_score')}</Label>
+            <Input
+              id="entry-score"
+              type="number"
+              inputMode="decimal"
+              min={0}
+              max={max}
+              step={step}
+              placeholder={t('list_entry_no_score')}
+              value={score}
+              onChange={(e) => setScore(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">{t('list_entry_score_hint', { max: String(max) })}</p>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="entry-started">{t('list_entry_started')}</Label>
+              <Input id="entry-started" type="date" value={startedAt} max={completedAt || undefined} onChange={(e) => setStartedAt(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="entry-completed">{t('list_entry_completed')}</Label>
+              <Input id="entry-completed" type="date" value={completedAt} min={startedAt || undefined} onChange={(e) => setCompletedAt(e.target.value)} />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="entry-rewatch">{t(isManga ? 'list_entry_reread_count' : 'list_entry_rewatch_count')}</Label>
+            <Input id="entry-rewatch" type="number" min={0} step={1} value={rewatchCount} onChange={(e) => setRewatchCount(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="entry-notes">{t('list_entry_notes')}</Label>
+            <Textarea
+              id="entry-notes"
+              rows={4}
+              placeholder={t('list_entry_notes_placeholder')}
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+            />
+          </div>
+          <DialogFooter className="gap-2 sm:justify-between">
+            {entry ? (
+              <Button type="button" variant="ghost" className="text-destructive" onClick={handleRemove}>
+                <Trash2 className="mr-2 h-4 w-4" />
+                {t('list_entry_remove')}
+              </Button>
+            ) : <span />}
+            <div className="flex gap-2">
+              <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+                {t('cancel')}
+              </Button>
+              <Button type="submit">{t('list_entry_save')}</Button>
+            </div>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
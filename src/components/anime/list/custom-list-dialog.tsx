@@ -0,0 +1,117 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { Anime, CustomList } from '@/lib/types';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { ListPlus } from 'lucide-react';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { useTranslation } from '@/hooks/use-translation';
+import { MAX_CUSTOM_LIST_NAME_LENGTH } from '@/lib/data/custom-lists';
+
+interface CustomListDialogProps {
+  // The list to rename; a new list is created when it is missing.
+  list?: CustomList;
+  // Added to the new list right away.
+  media?: Anime;
+  // The trigger. Leave it out and pass `open`/`onOpenChange` to open the dialog from elsewhere (e.g. a menu item).
+  children?: React.ReactNode;
+  open?: boolean;
+  onOpenChange?: (open: boolean) => void;
+}
+
+// Creates a custom list, or edits the name and description of an existing one.
+export function CustomListDialog({ list, media, children, open: controlledOpen, onOpenChange }: CustomListDialogProps) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const { createCustomList, renameCustomList } = useAuth();
+  const [uncontrolledOpen, setUncontrolledOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+
+  const open = controlledOpen ?? uncontrolledOpen;
+  const setOpen = onOpenChange ?? setUncontrolledOpen;
+
+  // Reset the form every time the dialog opens. It can be opened from outside, so this can't
+  // happen in onOpenChange; a list renamed elsewhere while it's open resets it too.
+  const initialName = list?.name || '';
+  const initialDescription = list?.description || '';
+  useEffect(() => {
+    if (!open) return;
+    setName(initialName);
+    setDescription(initialDescription);
+  }, [open, initialName, initialDescription]);
+
+  const handleSave = (event: React.FormEvent) => {
+    event.preventDefault();
+    const trimmedName = name.trim();
+    if (!trimmedName) return;
+    if (list) {
+      renameCustomList(list.id, trimmedName, description.trim());
+      toast({ title: t('custom_list_saved'), description: trimmedName });
+    } else {
+      createCustomList(trimmedName, description.trim(), media ? [media.id] : []);
+      toast({ title: t('custom_list_created', { name: trimmedName }), description: media?.title });
+    }
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      {children && <DialogTrigger asChild>{children}</DialogTrigger>}
+      <DialogContent className="sm:max-w-md" onClick={(e) => e.stopPropagation()}>
+        <form onSubmit={handleSave} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <ListPlus className="h-5 w-5 text-primary" />
+              {t(list ? 'custom_list_edit_title' : 'custom_list_create_title')}
+            </DialogTitle>
+            <DialogDescription>{t('custom_list_dialog_desc')}</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="custom-list-name">{t('custom_list_name')}</Label>
+            <Input
+              id="custom-list-name"
+              required
+              autoFocus
+              maxLength={MAX_CUSTOM_LIST_NAME_LENGTH}
+              placeholder={t('custom_list_name_placeholder')}
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="custom-list-description">{t('custom_list_description')}</Label>
+            <Textarea
+              id="custom-list-description"
+              rows={3}
+              placeholder={t('custom_list_description_placeholder')}
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+          <DialogFooter className="gap-2">
+            <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+              {t('cancel')}
+            </Button>
+            <Button type="submit" disabled={!name.trim()}>
+              {t(list ? 'custom_list_save' : 'custom_list_create')}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
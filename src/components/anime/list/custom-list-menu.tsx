@@ -0,0 +1,81 @@
+'use client';
+
+import { useState } from 'react';
+import type { Anime } from '@/lib/types';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { ListPlus, Plus } from 'lucide-react';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { useTranslation } from '@/hooks/use-translation';
+import { cn } from '@/lib/utils';
+import { getCustomListsOf } from '@/lib/data/custom-lists';
+import { CustomListDialog } from './custom-list-dialog';
+
+interface CustomListMenuProps {
+  media: Anime;
+  className?: string;
+}
+
+// "Add to list…": puts the title on the user's custom lists or takes it off them.
+export function CustomListMenu({ media, className }: CustomListMenuProps) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const { authMode, listData, toggleCustomListMedia } = useAuth();
+  const [isCreating, setIsCreating] = useState(false);
+
+  if (authMode === 'none') return null;
+
+  const lists = listData.customLists || [];
+  const memberOf = getCustomListsOf(lists, media.id);
+
+  const handleToggle = (id: string, name: string) => {
+    const wasOnList = memberOf.includes(id);
+    toggleCustomListMedia(id, media);
+    toast({ title: t(wasOnList ? 'custom_list_removed' : 'custom_list_added', { name }), description: media.title });
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" className={cn('w-full', className)} onClick={(e) => e.stopPropagation()}>
+            <ListPlus className="h-4 w-4 text-primary" />
+            {t('custom_list_add_to')}
+            {memberOf.length > 0 && <span className="text-xs text-muted-foreground">({memberOf.length})</span>}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-56" onClick={(e) => e.stopPropagation()}>
+          <DropdownMenuLabel>{t('custom_lists')}</DropdownMenuLabel>
+          {lists.length === 0 && (
+            <p className="px-2 py-1.5 text-sm text-muted-foreground">{t('custom_list_none')}</p>
+          )}
+          {lists.map((list) => (
+            <DropdownMenuCheckboxItem
+              key={list.id}
+              checked={memberOf.includes(list.id)}
+              onSelect={(e) => e.preventDefault()}
+              onCheckedChange={() => handleToggle(list.id, list.name)}
+            >
+              <span className="truncate">{list.name}</span>
+            </DropdownMenuCheckboxItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => setIsCreating(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            {t('custom_list_new')}
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <CustomListDialog media={media} open={isCreating} onOpenChange={setIsCreating} />
+    </>
+  );
+}
@@ -0,0 +1,32 @@
+'use client';
+
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowDownUp } from 'lucide-react';
+import { useTranslation } from '@/hooks/use-translation';
+import { LIST_SORT_KEYS, type ListSortKey } from '@/lib/data/list-entries';
+
+interface ListSortSelectProps {
+  value: ListSortKey;
+  onChange: (value: ListSortKey) => void;
+}
+
+// Sort order picker for the /list/* pages (see sortListMedia).
+export function ListSortSelect({ value, onChange }: ListSortSelectProps) {
+  const { t } = useTranslation();
+
+  return (
+    <Select value={value} onValueChange={(next) => onChange(next as ListSortKey)}>
+      <SelectTrigger className="w-44" aria-label={t('order_by')}>
+        <ArrowDownUp className="h-4 w-4 text-muted-foreground" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {LIST_SORT_KEYS.map((key) => (
+          <SelectItem key={key} value={key}>
+            {t(`list_sort_${key}`)}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
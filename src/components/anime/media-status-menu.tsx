@@ -0,0 +1,93 @@
+'use client';
+
+import type { Anime, MediaStatus } from '@/lib/types';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Bookmark, CheckCircle2, ChevronDown, PauseCircle, PlayCircle, Plus, Repeat, Trash2, XCircle } from 'lucide-react';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { useTranslation } from '@/hooks/use-translation';
+import { cn } from '@/lib/utils';
+import { getMediaKind, getNextStatuses, getStatusLabelKey } from '@/lib/data/media-status';
+
+const STATUS_ICONS: Record<MediaStatus, { icon: React.ElementType; className: string }> = {
+  planning: { icon: Bookmark, className: 'text-yellow-400' },
+  current: { icon: PlayCircle, className: 'text-green-400' },
+  completed: { icon: CheckCircle2, className: 'text-blue-500' },
+  repeating: { icon: Repeat, className: 'text-teal-400' },
+  paused: { icon: PauseCircle, className: 'text-orange-400' },
+  dropped: { icon: XCircle, className: 'text-red-500' },
+};
+
+interface MediaStatusMenuProps {
+  media: Anime;
+  className?: string;
+}
+
+// Shows the title's status and offers the statuses it can move to (see lib/data/media-status.ts).
+export function MediaStatusMenu({ media, className }: MediaStatusMenuProps) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const { authMode, getMediaStatus, setMediaStatus } = useAuth();
+
+  if (authMode === 'none') return null;
+
+  const status = getMediaStatus(media.id);
+  const kind = getMediaKind(media);
+  const label = (value: MediaStatus) => t(getStatusLabelKey(value, kind) as any);
+  const CurrentIcon = status ? STATUS_ICONS[status].icon : Plus;
+
+  const handleSelect = (next: MediaStatus | null) => {
+    if (!setMediaStatus(media, next)) return;
+    toast({
+      title: next ? t('status_changed', { status: label(next) }) : t('status_removed'),
+      description: media.title,
+    });
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant={status ? 'secondary' : 'outline'}
+          className={cn('w-full justify-between', className)}
+          onClick={(e) => e.stopPropagation()}
+        >
+          <span className="flex items-center gap-2 truncate">
+            <CurrentIcon className={cn('h-4 w-4', status ? STATUS_ICONS[status].className : 'text-muted-foreground')} />
+            {status ? label(status) : t('status_add_to_list')}
+          </span>
+          <ChevronDown className="h-4 w-4 opacity-60" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+        <DropdownMenuLabel>{t('status_move_to')}</DropdownMenuLabel>
+        {getNextStatuses(status).map((next) => {
+          const { icon: Icon, className: iconClassName } = STATUS_ICONS[next];
+          return (
+            <DropdownMenuItem key={next} onSelect={() => handleSelect(next)}>
+              <Icon className={cn('mr-2 h-4 w-4', iconClassName)} />
+              {label(next)}
+            </DropdownMenuItem>
+          );
+        })}
+        {status && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem className="text-destructive focus:text-destructive" onSelect={() => handleSelect(null)}>
+              <Trash2 className="mr-2 h-4 w-4" />
+              {t('status_remove')}
+            </DropdownMenuItem>
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
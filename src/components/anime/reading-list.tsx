@@ -13,7 +13,7 @@ import { useTranslation } from '@/hooks/use-translation';
 
 
 export function ReadingList() {
-  const { authMode, getCurrentlyReadingManga, listData } = useAuth();
+  const { authMode, getListMedia, listData } = useAuth();
   const { t } = useTranslation();
   const [mangaList, setMangaList] = useState<Anime[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -27,13 +27,13 @@ export function ReadingList() {
 
     const fetchReadingManga = async () => {
       setIsLoading(true);
-      const list = await getCurrentlyReadingManga();
+      const list = await getListMedia('reading');
       setMangaList(list);
       setIsLoading(false);
     };
 
     fetchReadingManga();
-  }, [authMode, getCurrentlyReadingManga, isHydrated]);
+  }, [authMode, getListMedia, isHydrated]);
 
   const sortedMangaList = useMemo(() => {
     const unseenUpdates = listData.notifications?.filter(n => n.type === 'news' && !n.seen && n.isManga) || [];
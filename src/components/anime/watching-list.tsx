@@ -12,7 +12,7 @@ import { Button } from '../ui/button';
 import { useTranslation } from '@/hooks/use-translation';
 
 export function WatchingList() {
-  const { authMode, getCurrentlyWatchingAnime, listData } = useAuth();
+  const { authMode, getListMedia, listData } = useAuth();
   const { t } = useTranslation();
   const [animeList, setAnimeList] = useState<Anime[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -26,13 +26,13 @@ export function WatchingList() {
 
     const fetchWatchingAnime = async () => {
       setIsLoading(true);
-      const list = await getCurrentlyWatchingAnime();
+      const list = await getListMedia('watching');
       setAnimeList(list);
       setIsLoading(false);
     };
 
     fetchWatchingAnime();
-  }, [authMode, getCurrentlyWatchingAnime, isHydrated]);
+  }, [authMode, getListMedia, isHydrated]);
 
   const sortedAnimeList = useMemo(() => {
     const unseenUpdates = listData.notifications?.filter(n => n.type === 'news' && !n.seen) || [];
@@ -12,19 +12,26 @@ import {
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { LogIn, Loader2, User, Upload } from 'lucide-react';
 import { useTranslation } from '@/hooks/use-translation';
 import { useAuth } from '@/hooks/use-auth';
 import { useLogger } from '@/hooks/use-logger';
 
-export function AuthDialog() {
+// Signs in to a local profile. When `open` is passed the dialog is controlled by the
+// caller and renders no trigger (used by the header's "Add profile" item).
+export function AuthDialog({ open: controlledOpen, onOpenChange }: { open?: boolean; onOpenChange?: (open: boolean) => void } = {}) {
   const { t } = useTranslation();
-  const { signInLocally, importData } = useAuth();
+  const { authMode, signInLocally, importData, profiles, switchProfile } = useAuth();
   const { addLog } = useLogger();
   const [username, setUsername] = useState('');
   const [loading, setLoading] = useState(false);
-  const [open, setOpen] = useState(false);
+  const [uncontrolledOpen, setUncontrolledOpen] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const isControlled = controlledOpen !== undefined;
+  const open = isControlled ? controlledOpen : uncontrolledOpen;
+  const setOpen = (value: boolean) => (isControlled ? onOpenChange?.(value) : setUncontrolledOpen(value));
+  const isAddingProfile = authMode === 'local';
 
   const handleLocalSignIn = (e: React.FormEvent) => {
       e.preventDefault();
@@ -51,18 +58,36 @@ export function AuthDialog() {
 
   return (
     <Dialog open={open} onOpenChange={setOpen}>
-      <DialogTrigger asChild>
-        <Button>
-          <LogIn className="mr-2 h-4 w-4" /> {t('local_signin')}
-        </Button>
-      </DialogTrigger>
+      {!isControlled && (
+        <DialogTrigger asChild>
+          <Button>
+            <LogIn className="mr-2 h-4 w-4" /> {t('local_signin')}
+          </Button>
+        </DialogTrigger>
+      )}
       <DialogContent className="sm:max-w-md">
         <DialogHeader>
-          <DialogTitle>{t('welcome_to_animesync')}</DialogTitle>
+          <DialogTitle>{isAddingProfile ? t('add_profile') : t('welcome_to_animesync')}</DialogTitle>
           <DialogDescription>
-            {t('sign_in_desc_local')}
+            {isAddingProfile ? t('add_profile_desc') : t('sign_in_desc_local')}
           </DialogDescription>
         </DialogHeader>
+        {!isAddingProfile && profiles.length > 0 && (
+          <div className="space-y-2 pt-2">
+            <Label>{t('existing_profiles')}</Label>
+            <div className="grid gap-2">
+              {profiles.map((profile) => (
+                <Button key={profile.id} variant="outline" className="justify-start gap-2" onClick={() => switchProfile(profile.id)}>
+                  <Avatar className="h-6 w-6">
+                    <AvatarImage src={profile.avatar_url} alt={profile.username} />
+                    <AvatarFallback><User className="h-4 w-4" /></AvatarFallback>
+                  </Avatar>
+                  {profile.username}
+                </Button>
+              ))}
+            </div>
+          </div>
+        )}
         <form onSubmit={handleLocalSignIn} className="space-y-4 pt-4">
            <div className="space-y-1">
             <Label htmlFor="username-local">{t('username')}</Label>
@@ -82,27 +107,30 @@ export function AuthDialog() {
           </Button>
         </form>
 
-        <div className="relative my-4">
-            <div className="absolute inset-0 flex items-center">
-                <span className="w-full border-t" />
+        {!isAddingProfile && (
+          <>
+            <div className="relative my-4">
+                <div className="absolute inset-0 flex items-center">
+                    <span className="w-full border-t" />
+                </div>
+                <div className="relative flex justify-center text-xs uppercase">
+                    <span className="bg-background px-2 text-muted-foreground">أو</span>
+                </div>
             </div>
-            <div className="relative flex justify-center text-xs uppercase">
-                <span className="bg-background px-2 text-muted-foreground">أو</span>
-            </div>
-        </div>
         
-        <input 
-            type="file" 
-            ref={fileInputRef} 
-            className="hidden"
-            accept=".json"
-            onChange={handleFileChange}
-        />
-        <Button onClick={handleImportClick} variant="outline" className="w-full">
-            <Upload className="mr-2 h-4 w-4" />
-            استرداد من نسخة احتياطية
-        </Button>
-
+            <input 
+                type="file" 
+                ref={fileInputRef} 
+                className="hidden"
+                accept=".json"
+                onChange={handleFileChange}
+            />
+            <Button onClick={handleImportClick} variant="outline" className="w-full">
+                <Upload className="mr-2 h-4 w-4" />
+                استرداد من نسخة احتياطية
+            </Button>
+          </>
+        )}
       </DialogContent>
     </Dialog>
   );
@@ -0,0 +1,136 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Badge } from '@/components/ui/badge';
+import { FileUp, Loader2 } from 'lucide-react';
+import { useAuth } from '@/hooks/use-auth';
+import { useLogger } from '@/hooks/use-logger';
+import { useToast } from '@/hooks/use-toast';
+import { useTranslation } from '@/hooks/use-translation';
+import { parseMalXml, resolveMalEntries, summarizeMalImportPlan, type MalImportPlan } from '@/lib/data/mal-import';
+import { STATUS_LIST_LABELS, STATUS_LIST_NAMES } from '@/lib/data/media-status';
+
+// Picks a MAL XML export, matches it against AniList and shows a dry-run preview.
+// Nothing is written until the user confirms.
+export function MalImportButton() {
+  const { t } = useTranslation();
+  const { listData, importMalData } = useAuth();
+  const { addLog } = useLogger();
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [resolvingCount, setResolvingCount] = useState<number | null>(null);
+  const [plan, setPlan] = useState<MalImportPlan | null>(null);
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      addLog(`Reading MyAnimeList export: ${file.name}`);
+      const entries = parseMalXml(await file.text());
+      setResolvingCount(entries.length);
+      setPlan(await resolveMalEntries(entries, addLog));
+    } catch (error: any) {
+      toast({ variant: 'destructive', title: t('mal_import_failed'), description: error.message });
+    } finally {
+      setResolvingCount(null);
+    }
+  };
+
+  const handleConfirm = async () => {
+    if (!plan) return;
+    await importMalData(plan);
+    setPlan(null);
+  };
+
+  const summary = plan ? summarizeMalImportPlan(listData, plan) : null;
+  const summaryRows = summary
+    ? [
+        ...STATUS_LIST_NAMES.map((list) => ({ label: t(STATUS_LIST_LABELS[list] as any), value: summary.lists[list] })),
+        { label: t('mal_import_episodes'), value: summary.watchedEpisodes },
+        { label: t('mal_import_chapters'), value: summary.readChapters },
+      ]
+    : [];
+
+  return (
+    <>
+      <input type="file" ref={fileInputRef} className="hidden" accept=".xml" onChange={handleFileChange} />
+      <Button
+        onClick={() => fileInputRef.current?.click()}
+        variant="outline"
+        className="w-full bg-transparent"
+        disabled={resolvingCount !== null}
+      >
+        {resolvingCount !== null ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FileUp className="mr-2 h-4 w-4" />}
+        {resolvingCount !== null ? t('mal_import_resolving', { count: String(resolvingCount) }) : t('mal_import_btn')}
+      </Button>
+
+      <Dialog open={!!plan} onOpenChange={(open) => !open && setPlan(null)}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{t('mal_import_preview_title')}</DialogTitle>
+            <DialogDescription>
+              {plan && t('mal_import_preview_desc', { matched: String(plan.matched.length), total: String(plan.matched.length + plan.unmatched.length) })}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <p className="text-sm font-medium">{t('mal_import_will_add')}</p>
+            <div className="grid grid-cols-2 gap-2">
+              {summaryRows.map((row) => (
+                <div key={row.label} className="flex items-center justify-between rounded-md border px-3 py-2 text-sm">
+                  <span className="text-muted-foreground">{row.label}</span>
+                  <span className="font-semibold">{row.value}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {plan && plan.unmatched.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-sm font-medium">{t('mal_import_unmatched', { count: String(plan.unmatched.length) })}</p>
+              <p className="text-xs text-muted-foreground">{t('mal_import_unmatched_desc')}</p>
+              <ScrollArea className="h-40 rounded-md border p-2">
+                <ul className="space-y-1 text-sm">
+                  {plan.unmatched.map((entry) => (
+                    <li key={`${entry.type}-${entry.malId}`} className="flex items-center justify-between gap-2">
+                      <a
+                        href={`https://myanimelist.net/${entry.type.toLowerCase()}/${entry.malId}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="truncate hover:underline"
+                      >
+                        {entry.title || entry.malId}
+                      </a>
+                      <Badge variant="secondary" className="shrink-0">{entry.status}</Badge>
+                    </li>
+                  ))}
+                </ul>
+              </ScrollArea>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPlan(null)}>
+              {t('cancel')}
+            </Button>
+            <Button onClick={handleConfirm} disabled={!plan || plan.matched.length === 0}>
+              {t('mal_import_confirm')}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
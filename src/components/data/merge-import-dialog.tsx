@@ -0,0 +1,199 @@
+'use client';
+
+import { useMemo, useRef, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { GitMerge, Loader2 } from 'lucide-react';
+import { useAuth } from '@/hooks/use-auth';
+import { useLogger } from '@/hooks/use-logger';
+import { useToast } from '@/hooks/use-toast';
+import { useTranslation } from '@/hooks/use-translation';
+import type { DataBundle } from '@/lib/data/migrations';
+import {
+  buildTitleLookup,
+  isAcceptedByDefault,
+  previewMerge,
+  type MergeChange,
+  type MergeSection,
+  type ProgressMergeMode,
+} from '@/lib/data/list-merge';
+
+const SECTIONS: { section: MergeSection; label: string }[] = [
+  { section: 'lists', label: 'merge_section_lists' },
+  { section: 'progress', label: 'merge_section_progress' },
+  { section: 'entries', label: 'merge_section_entries' },
+  { section: 'reminders', label: 'merge_section_reminders' },
+  { section: 'customLists', label: 'custom_lists' },
+  { section: 'customLinks', label: 'merge_section_custom_links' },
+];
+
+// Shows every difference between the incoming bundle and the current data, grouped by section.
+// Only the checked changes are applied.
+export function MergeImportDialog({ bundle, onClose }: { bundle: DataBundle | null; onClose: () => void }) {
+  const { t } = useTranslation();
+  const { listData, trackedMedia, mergeImportData } = useAuth();
+
+  const changes = useMemo(
+    // Follows the current data (e.g. changed in another tab), so what is applied is what is shown.
+    // Choices are kept by change id.
+    () => (bundle ? previewMerge(listData, bundle.lists || {}, buildTitleLookup(trackedMedia, bundle.tracked)) : []),
+    [bundle, listData, trackedMedia],
+  );
+  const [accepted, setAccepted] = useState<Set<string> | null>(null);
+  const [progressMode, setProgressMode] = useState<ProgressMergeMode>('union');
+  const selected = accepted ?? new Set(changes.filter(isAcceptedByDefault).map(change => change.id));
+
+  const toggle = (ids: string[], checked: boolean) => {
+    const next = new Set(selected);
+    ids.forEach(id => (checked ? next.add(id) : next.delete(id)));
+    setAccepted(next);
+  };
+
+  const close = () => {
+    setAccepted(null);
+    onClose();
+  };
+
+  const handleApply = async () => {
+    if (!bundle) return;
+    await mergeImportData(bundle, changes, selected, progressMode);
+    close();
+  };
+
+  const describe = (change: MergeChange) => {
+    if (change.section === 'lists') {
+      return [change.current, change.incoming].filter(Boolean).map(key => t(key as any)).join(' → ');
+    }
+    if (change.current === undefined) return change.incoming;
+    return `${change.current} → ${change.incoming}`;
+  };
+
+  return (
+    <Dialog open={!!bundle} onOpenChange={(open) => !open && close()}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{t('merge_preview_title')}</DialogTitle>
+          <DialogDescription>
+            {changes.length > 0 ? t('merge_preview_desc', { count: String(changes.length) }) : t('merge_no_changes')}
+          </DialogDescription>
+        </DialogHeader>
+
+        {changes.some(change => change.section === 'progress') && (
+          <div className="flex flex-wrap items-center gap-4 rounded-md border px-3 py-2 text-sm">
+            <span className="font-medium">{t('merge_progress_mode')}</span>
+            <RadioGroup value={progressMode} onValueChange={(value) => setProgressMode(value as ProgressMergeMode)} className="flex gap-4">
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="union" id="merge-union" />
+                <Label htmlFor="merge-union">{t('merge_progress_union')}</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="replace" id="merge-replace" />
+                <Label htmlFor="merge-replace">{t('merge_progress_replace')}</Label>
+              </div>
+            </RadioGroup>
+          </div>
+        )}
+
+        {changes.length > 0 && (
+          <ScrollArea className="h-80 rounded-md border p-2">
+            <div className="space-y-4">
+              {SECTIONS.map(({ section, label }) => {
+                const sectionChanges = changes.filter(change => change.section === section);
+                if (sectionChanges.length === 0) return null;
+                const ids = sectionChanges.map(change => change.id);
+                const allSelected = ids.every(id => selected.has(id));
+                return (
+                  <div key={section} className="space-y-1">
+                    <div className="flex items-center justify-between">
+                      <p className="text-sm font-semibold">{t(label)} ({sectionChanges.length})</p>
+                      <Button variant="ghost" size="sm" onClick={() => toggle(ids, !allSelected)}>
+                        {allSelected ? t('merge_select_none') : t('merge_select_all')}
+                      </Button>
+                    </div>
+                    <ul className="space-y-1 text-sm">
+                      {sectionChanges.map((change) => (
+                        <li key={change.id} className="flex items-center gap-2">
+                          <Checkbox
+                            id={`merge-${change.id}`}
+                            checked={selected.has(change.id)}
+                            onCheckedChange={(checked) => toggle([change.id], checked === true)}
+                          />
+                          <Label htmlFor={`merge-${change.id}`} className="flex-1 truncate font-normal">
+                            {change.label}
+                          </Label>
+                          <span className="shrink-0 truncate text-xs text-muted-foreground max-w-[40%]">{describe(change)}</span>
+                          <Badge variant={change.action === 'update' ? 'destructive' : 'secondary'} className="shrink-0">
+                            {t(`merge_action_${change.action}`)}
+                          </Badge>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                );
+              })}
+            </div>
+          </ScrollArea>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={close}>
+            {t('cancel')}
+          </Button>
+          <Button onClick={handleApply} disabled={selected.size === 0}>
+            {t('merge_apply', { count: String(selected.size) })}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Picks an AnimeSync export file and opens the merge preview for it.
+export function MergeImportButton() {
+  const { t } = useTranslation();
+  const { readImportFile } = useAuth();
+  const { addLog } = useLogger();
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isReading, setIsReading] = useState(false);
+  const [bundle, setBundle] = useState<DataBundle | null>(null);
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setIsReading(true);
+    try {
+      addLog(`Reading data file for merge: ${file.name}`);
+      setBundle((await readImportFile(file)).bundle);
+    } catch (error: any) {
+      toast({ variant: 'destructive', title: 'Import Failed', description: error.message });
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  return (
+    <>
+      <input type="file" ref={fileInputRef} className="hidden" accept=".json" onChange={handleFileChange} />
+      <Button onClick={() => fileInputRef.current?.click()} variant="outline" className="w-full bg-transparent" disabled={isReading}>
+        {isReading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <GitMerge className="mr-2 h-4 w-4" />}
+        {t('merge_import_btn')}
+      </Button>
+      <MergeImportDialog bundle={bundle} onClose={() => setBundle(null)} />
+    </>
+  );
+}
@@ -0,0 +1,72 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { KeyRound } from 'lucide-react';
+import { useAuth } from '@/hooks/use-auth';
+import { useTranslation } from '@/hooks/use-translation';
+
+// Answers the passphrase prompts opened by useAuth when an import or the shared data is encrypted.
+// Mounted once in the client layout, so it works on every page that can import.
+export function PassphraseDialog() {
+  const { t } = useTranslation();
+  const { passphraseRequest, submitPassphrase } = useAuth();
+  const [passphrase, setPassphrase] = useState('');
+
+  useEffect(() => {
+    setPassphrase('');
+  }, [passphraseRequest]);
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (passphrase) submitPassphrase(passphrase);
+  };
+
+  return (
+    <Dialog open={!!passphraseRequest} onOpenChange={(open) => !open && submitPassphrase(null)}>
+      <DialogContent className="sm:max-w-md">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <KeyRound className="h-5 w-5 text-primary" />
+              {t('passphrase_prompt_title')}
+            </DialogTitle>
+            <DialogDescription>
+              {t(passphraseRequest?.reason === 'sync' ? 'passphrase_prompt_sync_desc' : 'passphrase_prompt_import_desc')}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="import-passphrase">{t('passphrase')}</Label>
+            <Input
+              id="import-passphrase"
+              type="password"
+              autoComplete="off"
+              autoFocus
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+            />
+            {passphraseRequest?.retry && <p className="text-sm text-destructive">{t('passphrase_wrong')}</p>}
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => submitPassphrase(null)}>
+              {t('cancel')}
+            </Button>
+            <Button type="submit" disabled={!passphrase}>
+              {t('passphrase_unlock')}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
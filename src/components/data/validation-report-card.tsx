@@ -0,0 +1,80 @@
+'use client';
+
+import { formatDistanceToNow } from 'date-fns';
+import { ar } from 'date-fns/locale';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle, Download, X } from 'lucide-react';
+import { useAuth } from '@/hooks/use-auth';
+import { useTranslation } from '@/hooks/use-translation';
+import { downloadFile } from '@/lib/data/list-export';
+import { formatValidationReport } from '@/lib/data/bundle-schema';
+
+// Shows what the last import or shared sync repaired or dropped (see lib/data/bundle-schema.ts).
+// Hidden when the data was valid.
+export function ValidationReportCard() {
+  const { t, lang } = useTranslation();
+  const { validationReport, dismissValidationReport } = useAuth();
+
+  if (!validationReport || validationReport.report.issues.length === 0) return null;
+  const { report, source, createdAt } = validationReport;
+  const repairedCount = report.issues.filter(issue => issue.action === 'repaired').length;
+  const droppedCount = report.issues.length - repairedCount;
+
+  const handleDownload = () => {
+    downloadFile({
+      content: formatValidationReport(report),
+      filename: `animesync_${source}_report_${createdAt.split('T')[0]}.txt`,
+      mimeType: 'text/plain',
+    });
+  };
+
+  return (
+    <Card className="border-yellow-500/50">
+      <CardHeader className="flex flex-row items-start justify-between gap-2 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <AlertTriangle className="h-5 w-5 text-yellow-500" />
+            {t(source === 'sync' ? 'validation_report_sync_title' : 'validation_report_import_title')}
+          </CardTitle>
+          <CardDescription>
+            {t('validation_report_desc', {
+              count: String(report.issues.length),
+              time: formatDistanceToNow(new Date(createdAt), { addSuffix: true, locale: lang === 'ar' ? ar : undefined }),
+            })}
+          </CardDescription>
+        </div>
+        <Button variant="ghost" size="icon" onClick={dismissValidationReport} aria-label={t('validation_report_dismiss')}>
+          <X className="h-4 w-4" />
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex gap-2">
+          <Badge variant="secondary">{t('validation_report_repaired', { count: String(repairedCount) })}</Badge>
+          <Badge variant="destructive">{t('validation_report_dropped', { count: String(droppedCount) })}</Badge>
+        </div>
+        <ScrollArea className="h-48 rounded-md border p-2">
+          <ul className="space-y-1 text-sm">
+            {report.issues.map((issue, index) => (
+              <li key={index} className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="truncate font-mono text-xs">{issue.path}</p>
+                  <p className="text-xs text-muted-foreground">{issue.message}</p>
+                </div>
+                <Badge variant={issue.action === 'dropped' ? 'destructive' : 'secondary'} className="shrink-0">
+                  {t(`validation_action_${issue.action}`)}
+                </Badge>
+              </li>
+            ))}
+          </ul>
+        </ScrollArea>
+        <Button variant="outline" className="w-full bg-transparent" onClick={handleDownload}>
+          <Download className="mr-2 h-4 w-4" />
+          {t('validation_report_download')}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -7,7 +7,10 @@ import { Cairo } from 'next/font/google';
 import { TooltipProvider } from '@/components/ui/tooltip';
 import { useAuth } from '@/hooks/use-auth';
 import { useHydration } from '@/hooks/use-hydration';
+import { useBackgroundChecks } from '@/hooks/use-background-checks';
+import { useOfflineCache } from '@/hooks/use-offline-cache';
 import { Header } from './header';
+import { PassphraseDialog } from '@/components/data/passphrase-dialog';
 
 
 const cairo = Cairo({ subsets: ['arabic', 'latin'] });
@@ -16,6 +19,8 @@ export function ClientLayout({ children }: { children: ReactNode }) {
   const { lang } = useTranslation();
   const { authMode } = useAuth();
   const isHydrated = useHydration();
+  useBackgroundChecks();
+  useOfflineCache();
 
   if (!isHydrated) {
     return (
@@ -34,6 +39,7 @@ export function ClientLayout({ children }: { children: ReactNode }) {
                 {children}
             </main>
          </div>
+         <PassphraseDialog />
       </div>
     </TooltipProvider>
   );
@@ -20,6 +20,7 @@ import { AuthDialog } from '@/components/auth/auth-dialog';
 
 import { useAuth } from '@/hooks/use-auth';
 import { useHydration } from '@/hooks/use-hydration';
+import { useOnlineStatus } from '@/hooks/use-online-status';
 import { useTranslation } from '@/hooks/use-translation';
 import { cn } from '@/lib/utils';
 import { genres_list, translations } from '@/i18n';
@@ -33,8 +34,11 @@ import {
   Home, Search, Tv, CheckCircle2, Bookmark, LogOut, User,
   Info, CalendarClock,
   Languages, Loader2,
-  Menu, Palette, Bell, BookOpen, BookCheck, BookUser, Newspaper, Settings
+  Menu, Palette, Bell, BookOpen, BookCheck, BookUser, Newspaper, Settings,
+  Check, UserPlus, PauseCircle, XCircle, ListPlus, List, History, BarChart3, WifiOff
 } from 'lucide-react';
+import { getListIds, STATUS_LIST_NAMES, type StatusListName } from '@/lib/data/media-status';
+import { getCustomListPath } from '@/lib/data/custom-lists';
 
 
 const mainNavLinks = [
@@ -55,14 +59,21 @@ const mangaListLinks: { href: string; labelKey: keyof typeof translations.ar; ic
   { href: '/list/read', labelKey: 'read', icon: BookCheck, key: 'read' },
 ];
 
+// Lists that hold both anime and manga.
+const otherListLinks: { href: string; labelKey: keyof typeof translations.ar; icon: React.ElementType; key: 'on-hold' | 'dropped' }[] = [
+  { href: '/list/on-hold', labelKey: 'status_on_hold', icon: PauseCircle, key: 'on-hold' },
+  { href: '/list/dropped', labelKey: 'status_dropped', icon: XCircle, key: 'dropped' },
+];
+
 const mainGenres = genres_list.filter(g => g.type === 'genre');
 const themes = genres_list.filter(g => g.type === 'tag');
 
 
 function AuthSection() {
-    const { authMode, localProfile, signOut, sharedDataConfig } = useAuth();
+    const { authMode, localProfile, signOut, sharedDataConfig, profiles, activeProfileId, switchProfile } = useAuth();
     const { t } = useTranslation();
     const isHydrated = useHydration();
+    const [addProfileOpen, setAddProfileOpen] = useState(false);
 
     if (!isHydrated) {
       return <div className="w-[100px] h-10"><Loader2 className="animate-spin" /></div>
@@ -78,6 +89,7 @@ function AuthSection() {
     const isConnected = !!sharedDataConfig.url;
 
     return (
+        <>
         <DropdownMenu>
             <DropdownMenuTrigger asChild>
                  <Button variant="ghost" className="relative h-10 w-10 rounded-full">
@@ -109,15 +121,68 @@ function AuthSection() {
                     </div>
                 </DropdownMenuLabel>
                 <DropdownMenuSeparator />
+                <DropdownMenuGroup>
+                    <DropdownMenuLabel className="text-xs text-muted-foreground">{t('profiles')}</DropdownMenuLabel>
+                    {profiles.map(profile => (
+                        <DropdownMenuItem
+                            key={profile.id}
+                            onClick={() => profile.id !== activeProfileId && switchProfile(profile.id)}
+                            className="gap-2"
+                        >
+                            <Avatar className="h-5 w-5">
+                                <AvatarImage src={profile.avatar_url} alt={profile.username} />
+                                <AvatarFallback><User className="h-3 w-3" /></AvatarFallback>
+                            </Avatar>
+                            <span className="flex-1 truncate">{profile.username}</span>
+                            {profile.id === activeProfileId && <Check className="h-4 w-4" />}
+                        </DropdownMenuItem>
+                    ))}
+                    <DropdownMenuItem onClick={() => setAddProfileOpen(true)}>
+                        <UserPlus className="mr-2 h-4 w-4" />
+                        <span>{t('add_profile')}</span>
+                    </DropdownMenuItem>
+                </DropdownMenuGroup>
+                <DropdownMenuSeparator />
                 <DropdownMenuItem onClick={signOut}>
                     <LogOut className="mr-2 h-4 w-4" />
                     <span>{t('log_out')}</span>
                 </DropdownMenuItem>
             </DropdownMenuContent>
         </DropdownMenu>
+        <AuthDialog open={addProfileOpen} onOpenChange={setAddProfileOpen} />
+        </>
     );
 }
 
+// The user's custom lists, followed by a link to manage them. Shared by both list menus.
+function CustomListLinks() {
+  const { t } = useTranslation();
+  const { listData } = useAuth();
+
+  return (
+    <DropdownMenuGroup>
+      <DropdownMenuLabel className="text-primary">{t('custom_lists')}</DropdownMenuLabel>
+      {(listData.customLists || []).map(list => (
+        <Link href={getCustomListPath(list.id)} key={list.id}>
+          <DropdownMenuItem className="flex justify-between">
+            <div className="flex min-w-0 items-center gap-2">
+              <List className="mr-2 h-4 w-4 shrink-0" />
+              <span className="truncate">{list.name}</span>
+            </div>
+            {list.mediaIds.length > 0 && <span className="text-xs text-muted-foreground">{list.mediaIds.length}</span>}
+          </DropdownMenuItem>
+        </Link>
+      ))}
+      <Link href="/lists">
+        <DropdownMenuItem>
+          <ListPlus className="mr-2 h-4 w-4" />
+          <span>{t('custom_lists_manage')}</span>
+        </DropdownMenuItem>
+      </Link>
+    </DropdownMenuGroup>
+  );
+}
+
 function MobileNav({ listCounts }: { listCounts: Record<string, number> }) {
   const { t } = useTranslation();
   const { authMode } = useAuth();
@@ -161,6 +226,18 @@ function MobileNav({ listCounts }: { listCounts: Record<string, number> }) {
             </Link>
           {authMode !== 'none' && (
             <>
+              <Link href="/history">
+                <DropdownMenuItem>
+                  <History className="mr-2 h-4 w-4" />
+                  <span>{t('watch_history')}</span>
+                </DropdownMenuItem>
+              </Link>
+              <Link href="/stats">
+                <DropdownMenuItem>
+                  <BarChart3 className="mr-2 h-4 w-4" />
+                  <span>{t('stats')}</span>
+                </DropdownMenuItem>
+              </Link>
               <DropdownMenuSeparator />
               <DropdownMenuGroup>
                 <DropdownMenuLabel className="text-yellow-500">{t('anime')}</DropdownMenuLabel>
@@ -197,6 +274,26 @@ function MobileNav({ listCounts }: { listCounts: Record<string, number> }) {
                     )
                  })}
               </DropdownMenuGroup>
+              <DropdownMenuSeparator />
+              <DropdownMenuGroup>
+                <DropdownMenuLabel className="text-orange-400">{t('other_lists')}</DropdownMenuLabel>
+                 {otherListLinks.map(link => {
+                    const count = listCounts[link.key];
+                    return (
+                        <Link href={link.href} key={link.href}>
+                            <DropdownMenuItem className="flex justify-between">
+                                <div className="flex items-center gap-2">
+                                    <link.icon className="mr-2 h-4 w-4" />
+                                    <span>{t(link.labelKey)}</span>
+                                </div>
+                                {count > 0 && <span className="text-xs text-muted-foreground">{count}</span>}
+                            </DropdownMenuItem>
+                        </Link>
+                    )
+                 })}
+              </DropdownMenuGroup>
+              <DropdownMenuSeparator />
+              <CustomListLinks />
             </>
           )}
         </DropdownMenuContent>
@@ -207,55 +304,17 @@ function MobileNav({ listCounts }: { listCounts: Record<string, number> }) {
 
 export function Header() {
   const { t, toggleLanguage } = useTranslation();
-  const { authMode, listData, trackedMedia } = useAuth();
+  const { authMode, listData } = useAuth();
   const pathname = usePathname();
   const isHydrated = useHydration();
+  const isOnline = useOnlineStatus();
   const [isNotificationsOpen, setIsNotificationsOpen] = useState(false);
 
 
   const listCounts = useMemo(() => {
-    if (!isHydrated || authMode === 'none') {
-        return {
-            watching: 0,
-            'plan-to-watch': 0,
-            completed: 0,
-            reading: 0,
-            'plan-to-read': 0,
-            read: 0,
-        };
-    }
-    
-    const completedAnimeCount = Object.keys(listData.watchedEpisodes || {}).reduce((count, mediaId) => {
-        const currentlyWatchingList = listData.currentlyWatching || [];
-        const media = currentlyWatchingList.find(id => String(id) === mediaId) 
-            ? trackedMedia.find(m => m.id === Number(mediaId))
-            : trackedMedia.find(m => m.id === Number(mediaId));
-            
-        if (media && media.episodes && (listData.watchedEpisodes?.[mediaId]?.length || 0) >= media.episodes) {
-            return count + 1;
-        }
-        return count;
-    }, 0);
-
-
-    const readMangaCount = Object.keys(listData.readChapters || {}).reduce((count, mediaId) => {
-        const media = trackedMedia.find(m => m.id === Number(mediaId));
-        const total = media?.chapters || media?.volumes;
-        if (media && total && (listData.readChapters?.[mediaId]?.read.length || 0) >= total) {
-            return count + 1;
-        }
-        return count;
-    }, 0);
-
-    return {
-        watching: listData.currentlyWatching?.length || 0,
-        'plan-to-watch': listData.planToWatch?.length || 0,
-        completed: completedAnimeCount,
-        reading: listData.currentlyReading?.length || 0,
-        'plan-to-read': listData.planToRead?.length || 0,
-        read: readMangaCount,
-    }
-  }, [listData, trackedMedia, authMode, isHydrated]);
+    const showCounts = isHydrated && authMode !== 'none';
+    return Object.fromEntries(STATUS_LIST_NAMES.map(list => [list, showCounts ? getListIds(listData.statuses, list).length : 0])) as Record<StatusListName, number>;
+  }, [listData.statuses, authMode, isHydrated]);
 
   return (
     <header className="sticky top-0 z-40 w-full border-b bg-background/95 backdrop-blur-sm">
@@ -323,8 +382,46 @@ export function Header() {
                          )
                      })}
                   </DropdownMenuGroup>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuGroup>
+                    <DropdownMenuLabel className="text-orange-400">{t('other_lists')}</DropdownMenuLabel>
+                     {otherListLinks.map(link => {
+                         const count = listCounts[link.key];
+                         return (
+                           <Link href={link.href} key={link.href}>
+                              <DropdownMenuItem className="flex justify-between">
+                                  <div className="flex items-center gap-2">
+                                    <link.icon className="mr-2 h-4 w-4" />
+                                    <span>{t(link.labelKey as keyof typeof translations.ar)}</span>
+                                  </div>
+                                  {isHydrated && count > 0 && <span className="text-xs text-muted-foreground">{count}</span>}
+                              </DropdownMenuItem>
+                          </Link>
+                         )
+                     })}
+                  </DropdownMenuGroup>
+                  <DropdownMenuSeparator />
+                  <CustomListLinks />
                 </DropdownMenuContent>
             </DropdownMenu>
+             <Link href="/history">
+                <Button 
+                  variant="ghost"
+                  className={cn("flex items-center gap-2", pathname === "/history" ? "bg-accent text-accent-foreground" : "")}
+                >
+                    <History />
+                    {t('watch_history')}
+                </Button>
+            </Link>
+             <Link href="/stats">
+                <Button 
+                  variant="ghost"
+                  className={cn("flex items-center gap-2", pathname === "/stats" ? "bg-accent text-accent-foreground" : "")}
+                >
+                    <BarChart3 />
+                    {t('stats')}
+                </Button>
+            </Link>
              <Link href="/settings">
                 <Button 
                   variant="ghost"
@@ -349,6 +446,20 @@ export function Header() {
             </div>
             <div className="flex-grow md:flex-grow-0"></div>
 
+            {!isOnline && (
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <div className="flex items-center gap-1 rounded-full bg-destructive/15 px-2 py-1 text-xs font-medium text-destructive" role="status">
+                    <WifiOff className="h-4 w-4" />
+                    <span className="hidden sm:inline">{t('offline_mode')}</span>
+                  </div>
+                </TooltipTrigger>
+                <TooltipContent>
+                  <p className="max-w-xs">{t('offline_mode_desc')}</p>
+                </TooltipContent>
+              </Tooltip>
+            )}
+
             {authMode !== 'none' && (
               <>
                 <Button variant="ghost" size="icon" onClick={() => setIsNotificationsOpen(true)}>
@@ -38,7 +38,7 @@ function LogDetails({ details }: { details: any }) {
         toast({ title: t('log_copied_to_clipboard') });
     };
 
-    const isNetworkLog = details && (details.query || details.variables || details.response);
+    const isNetworkLog = details && (details.query || details.variables || details.response || details.cache);
     const isErrorLog = details && details.stack;
     
     if (!isNetworkLog && !isErrorLog) return null;
@@ -59,6 +59,12 @@ function LogDetails({ details }: { details: any }) {
                 )}
                 {isNetworkLog && (
                     <>
+                        {details.cache && (
+                            <div className="flex items-center gap-2">
+                                <h4 className="font-semibold">{t('log_cache')}</h4>
+                                <Badge variant={details.cache === 'MISS' ? 'outline' : 'secondary'}>{details.cache}</Badge>
+                            </div>
+                        )}
                         {details.query && (
                             <div>
                                 <div className="flex justify-between items-center mb-1">
@@ -54,7 +54,7 @@ function UpdateNotificationItem({ notification, onMarkAsSeen }: UpdateNotificati
                 </Link>
                  <div className="text-sm text-muted-foreground flex items-center gap-2 mt-1">
                     {notification.isManga ? <BookOpen className="w-4 h-4" /> : <Tv className="w-4 h-4" />}
-                    <span>{notification.message}</span>
+                    <span>{notification.episode ? t('episode_aired', { episode: String(notification.episode) }) : notification.message}</span>
                 </div>
             </div>
             <Button
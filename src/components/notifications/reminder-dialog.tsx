@@ -28,6 +28,7 @@ import { format, parseISO } from 'date-fns';
 import { ar } from 'date-fns/locale';
 import { useTranslation } from '@/hooks/use-translation';
 import { cn } from '@/lib/utils';
+import { getTrackedProgress } from '@/lib/data/volumes';
 import { Switch } from '../ui/switch';
 import { v4 as uuidv4 } from 'uuid';
 import { ScrollArea } from '../ui/scroll-area';
@@ -44,7 +45,7 @@ interface ReminderFormProps {
 
 function ReminderForm({ reminderToEdit, anime, onSave, onCancel }: ReminderFormProps) {
     const { t, lang } = useTranslation();
-    const { trackedMedia } = useAuth();
+    const { trackedMedia, listData } = useAuth();
     const { toast } = useToast();
 
     const [title, setTitle] = useState('');
@@ -61,7 +62,8 @@ function ReminderForm({ reminderToEdit, anime, onSave, onCancel }: ReminderFormP
       ? trackedMedia.find(m => m.id === reminderToEdit.mediaId) || anime
       : anime;
 
-    const totalUnits = currentMedia ? (currentMedia.type === 'MANGA' || currentMedia.type === 'NOVEL' ? (currentMedia.chapters || currentMedia.volumes) : currentMedia.episodes) : null;
+    // Episodes, chapters or volumes, whichever the title is tracked by.
+    const totalUnits = currentMedia ? getTrackedProgress(listData, currentMedia).total : null;
     const canAutoStop = totalUnits !== null && totalUnits > 0;
     
     useEffect(() => {
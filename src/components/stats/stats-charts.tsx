@@ -0,0 +1,108 @@
+'use client';
+
+import { Bar, BarChart, CartesianGrid, Cell, Pie, PieChart, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { useTranslation } from '@/hooks/use-translation';
+import type { DistributionEntry } from '@/lib/data/stats';
+
+const CHART_COLORS = ['hsl(var(--chart-1))', 'hsl(var(--chart-2))', 'hsl(var(--chart-3))', 'hsl(var(--chart-4))', 'hsl(var(--chart-5))'];
+
+export function StatCard({ title, value, description }: { title: string; value: string; description?: string }) {
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardDescription>{title}</CardDescription>
+        <CardTitle className="text-3xl">{value}</CardTitle>
+      </CardHeader>
+      {description && (
+        <CardContent>
+          <p className="text-xs text-muted-foreground">{description}</p>
+        </CardContent>
+      )}
+    </Card>
+  );
+}
+
+interface DistributionChartProps {
+  title: string;
+  entries: DistributionEntry[];
+  // Display name of an entry, e.g. a translated season.
+  labelOf?: (name: string) => string;
+  // Bars run left to right (years, seasons) instead of top to bottom (genres, studios).
+  vertical?: boolean;
+}
+
+// One distribution (genres, formats, studios…) as a bar chart of title counts.
+export function DistributionChart({ title, entries, labelOf = (name) => name, vertical = false }: DistributionChartProps) {
+  const { t } = useTranslation();
+  const config = { count: { label: t('stats_count'), color: CHART_COLORS[0] } } satisfies ChartConfig;
+  const data = entries.map((entry) => ({ ...entry, label: labelOf(entry.name) }));
+  const hasData = entries.some((entry) => entry.count > 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {!hasData ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">{t('stats_no_data')}</p>
+        ) : vertical ? (
+          <ChartContainer config={config} className="aspect-auto h-64 w-full">
+            <BarChart data={data}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="label" tickLine={false} axisLine={false} />
+              <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+            </BarChart>
+          </ChartContainer>
+        ) : (
+          <ChartContainer config={config} className="aspect-auto w-full" style={{ height: Math.max(data.length * 32, 96) }}>
+            <BarChart data={data} layout="vertical" margin={{ left: 8 }}>
+              <CartesianGrid horizontal={false} />
+              <XAxis type="number" allowDecimals={false} hide />
+              <YAxis type="category" dataKey="label" tickLine={false} axisLine={false} width={120} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+            </BarChart>
+          </ChartContainer>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// A split of titles (statuses, in progress vs. backlog) as a donut chart. Entry names become CSS
+// variable names, so they have to be plain ids; labelOf gives the text shown for them.
+export function SplitChart({ title, entries, labelOf = (name) => name }: Pick<DistributionChartProps, 'title' | 'entries' | 'labelOf'>) {
+  const { t } = useTranslation();
+  const data = entries.filter((entry) => entry.count > 0);
+  const config: ChartConfig = Object.fromEntries(data.map((entry, index) => [entry.name, { label: labelOf(entry.name), color: CHART_COLORS[index % CHART_COLORS.length] }]));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {data.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">{t('stats_no_data')}</p>
+        ) : (
+          <ChartContainer config={config} className="mx-auto aspect-square max-h-72">
+            <PieChart>
+              <ChartTooltip content={<ChartTooltipContent nameKey="name" hideLabel />} />
+              <Pie data={data} dataKey="count" nameKey="name" innerRadius="50%">
+                {data.map((entry) => (
+                  <Cell key={entry.name} fill={`var(--color-${entry.name})`} />
+                ))}
+              </Pie>
+              <ChartLegend content={<ChartLegendContent nameKey="name" />} className="flex-wrap" />
+            </PieChart>
+          </ChartContainer>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
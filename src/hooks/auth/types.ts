@@ -3,6 +3,10 @@ export type {
     LayoutConfigItem, 
     CustomEpisodeLinks, 
     WatchedEpisodes, 
+    ReadChapters,
+    ReadVolumes,
+    VolumeTracking,
+    ProgressLog,
     ExcludedItems, 
     UserNotification, 
     Comment, 
@@ -10,6 +14,13 @@ export type {
     GlobalActivity, 
     Reminder,
     ListData,
+    ListEntry,
+    ListEntries,
+    MediaStatus,
+    MediaStatusEntry,
+    MediaStatuses,
+    CustomList,
+    ScoreFormat,
     Anime,
     UpdateInfo,
     Updates,
@@ -27,6 +38,31 @@ export interface LocalProfile {
     github?: string;
     website?: string;
   };
+  schemaVersion?: number;
+}
+
+// One entry per local profile in the registry kept in localStorage.
+export interface ProfileSummary {
+    id: string;
+    username: string;
+    avatar_url: string;
+    createdAt: string;
+}
+
+export interface ProfileRegistry {
+    // null while signed out.
+    activeProfileId: string | null;
+    profiles: ProfileSummary[];
+}
+
+// Where local changes are written back to. 'put' is any endpoint that stores the JSON sent with
+// PUT (ideally honouring If-Match); 'gist' updates a gist file through the GitHub API.
+export interface SharedPushConfig {
+    target: 'put' | 'gist';
+    url: string;
+    token: string | null;
+    // Gist file to write, defaults to animesync.json.
+    filename?: string;
 }
 
 export interface SharedDataConfig {
@@ -34,6 +70,17 @@ export interface SharedDataConfig {
     lastSync: string | null;
     lastSize: number | null;
     lastEtag: string | null;
+    // Set for two-way sync; without it the shared data is only pulled.
+    push?: SharedPushConfig | null;
+    // Whether the shared data was encrypted, so pushes are encrypted too.
+    encrypted?: boolean;
+}
+
+// An open passphrase prompt for encrypted imports or shared data.
+export interface PassphraseRequest {
+    reason: 'import' | 'sync';
+    // Set when the previous passphrase didn't decrypt the data.
+    retry: boolean;
 }
 
 export type AuthMode = 'local' | 'none';
@@ -1,47 +1,100 @@
 'use client';
 
 import React, { createContext, useContext, useState, ReactNode, useEffect, useCallback, useMemo, useRef } from 'react';
-import { get, set, clear } from '@/lib/idb-keyval';
+import { get, set, del, deleteDatabase } from '@/lib/idb-keyval';
 import { useToast } from '@/hooks/use-toast';
+import { ToastAction } from '@/components/ui/toast';
 import { useLogger } from '@/hooks/use-logger';
-import { defaultLayoutConfig, SENSITIVE_GENRES } from '@/lib/config';
-import type { ListData, LayoutConfigItem, Anime, LocalProfile, AuthMode, NotificationsLayoutKey, SharedDataConfig, Reminder, UserNotification, NewsNotification, ReminderNotification, StorageNotification } from './auth/types';
-import { getLatestMediaCounts, getMultipleAnimeFromAniList } from '@/lib/anilist/requests';
+import { defaultLayoutConfig, initialListData, DEFAULT_STORAGE_QUOTA } from '@/lib/config';
+import { migrateBundle, CURRENT_SCHEMA_VERSION, type DataBundle } from '@/lib/data/migrations';
+import { loadListData, saveListData, persistListDataChanges, applyStoreOperations } from '@/lib/data/list-store';
+import { createJournalEntry, recordJournalEntry, takeUndo, takeRedo, emptyJournal, type ListJournal } from '@/lib/data/list-journal';
+import { buildExportRows, formatExport, downloadFile, getExportListIds, EXPORT_LISTS, type ExportFormat, type ExportListName } from '@/lib/data/list-export';
+import { applyMalImportPlan, getMediaToTrack, type MalImportPlan } from '@/lib/data/mal-import';
+import { emptyListEntry, isEmptyListEntry } from '@/lib/data/list-entries';
+import { findCustomList, moveMediaId } from '@/lib/data/custom-lists';
+import { canTransition, getListIds, getMediaKind, statusAfterProgress, type StatusListName } from '@/lib/data/media-status';
+import { getProgressLog, withProgressUnits, withoutProgressUnits, type HistoryEntry, type ProgressField } from '@/lib/data/progress';
+import { chaptersOfVolumes, getTrackedProgress, getVolumeTracking } from '@/lib/data/volumes';
+import { applyMerge, mergeThreeWay, type MergeChange, type ProgressMergeMode } from '@/lib/data/list-merge';
+import { formatValidationReport, validateBundle, type StoredValidationReport } from '@/lib/data/bundle-schema';
+import { decryptText, encryptText, isEncryptedPayload, WrongPassphraseError } from '@/lib/data/backup-crypto';
+import { createSnapshot, isDailySnapshotDue, loadSnapshot, type SnapshotReason } from '@/lib/data/snapshots';
+import { fetchShared, pushShared, toRawGistUrl, PushConflictError, SHARED_BASE_KEY, MAX_PUSH_ATTEMPTS } from '@/lib/data/shared-sync';
+import { loadProfileRegistry, saveProfileRegistry, registerProfile, toProfileSummary, activateProfileDatabase, getProfileDatabaseName, DEFAULT_PROFILE_ID } from '@/lib/data/profiles';
+import { openListSyncChannel, withListDataLock, TAB_ID, type ListSyncChannel, type ListSyncMessage } from '@/lib/data/list-sync';
+import type { ListData, ListEntry, MediaStatus, ProgressLog, VolumeTracking, CustomList, ScoreFormat, LayoutConfigItem, Anime, LocalProfile, ProfileSummary, AuthMode, NotificationsLayoutKey, SharedDataConfig, SharedPushConfig, PassphraseRequest, Reminder, UserNotification, NewsNotification, ReminderNotification, StorageNotification } from './auth/types';
+import { getAiredEpisodes, getMultipleAnimeFromAniList, type AiredEpisode } from '@/lib/anilist/requests';
+import { clearQueryCache } from '@/lib/anilist/cache';
 import { v4 as uuidv4 } from 'uuid';
 import { isPast } from 'date-fns';
 
-export type { LayoutConfigItem, CustomEpisodeLinks, WatchedEpisodes, ExcludedItems, UserNotification, Comment, NotificationsLayoutKey, GlobalActivity, Reminder, ListData } from './auth/types';
+export type { ProfileSummary, LayoutConfigItem, CustomEpisodeLinks, WatchedEpisodes, ExcludedItems, UserNotification, Comment, NotificationsLayoutKey, GlobalActivity, Reminder, ListData } from './auth/types';
 
 // Constants
 export const IDB_PROFILE_KEY = 'animesync_local_profile';
-export const IDB_LIST_DATA_KEY = 'animesync_local_list_data';
 export const IDB_LAYOUT_CONFIG_KEY = 'animesync_layout_config';
 export const IDB_TRACKED_MEDIA_KEY = 'animesync_tracked_media';
 export const IDB_SHARED_DATA_KEY = 'animesync_shared_data_config';
+export const IDB_SCHEMA_VERSION_KEY = 'animesync_schema_version';
+export const IDB_VALIDATION_REPORT_KEY = 'animesync_validation_report';
+export const IDB_LAST_AIRING_CHECK_KEY = 'animesync_last_airing_check';
 const UPDATE_INTERVAL = 3 * 60 * 1000;
 const INITIAL_CHECK_DELAY = 10 * 1000;
-const DEFAULT_STORAGE_QUOTA = 1 * 1024 * 1024 * 1024; // 1 GB
-
-// Initial State
-const initialListData: ListData = {
-    planToWatch: [],
-    currentlyWatching: [],
-    watchedEpisodes: {},
-    planToRead: [],
-    currentlyReading: [],
-    readChapters: {},
-    customEpisodeLinks: {},
-    comments: {},
-    notifications: [],
-    notificationsLayout: ['updates', 'reminders', 'logs'],
-    pinnedNotificationTab: 'updates',
-    excludedItems: {},
-    readActivityIds: [],
-    reminders: [],
-    hiddenGenres: SENSITIVE_GENRES,
-    sensitiveContentUnlocked: false,
-    storageQuota: DEFAULT_STORAGE_QUOTA,
-};
+// Episodes that aired while the app was closed for longer than this are not announced.
+const MAX_AIRING_LOOKBACK = 7 * 24 * 60 * 60;
+const SHARED_PUSH_DELAY = 30 * 1000;
+const SNAPSHOT_CHECK_INTERVAL = 60 * 60 * 1000;
+// AniList returns at most this many titles per multiple-media query.
+const MEDIA_DETAILS_PAGE_SIZE = 50;
+
+// --- PERSISTED BUNDLE HELPERS ---
+// Reads the active profile's data, or another profile's when its database name is given.
+async function readStoredBundle(databaseName?: string): Promise<DataBundle> {
+    return {
+        schemaVersion: await get<number>(IDB_SCHEMA_VERSION_KEY, databaseName),
+        profile: await get<LocalProfile>(IDB_PROFILE_KEY, databaseName),
+        lists: await loadListData(databaseName),
+        layout: await get<LayoutConfigItem[]>(IDB_LAYOUT_CONFIG_KEY, databaseName),
+        tracked: await get<Anime[]>(IDB_TRACKED_MEDIA_KEY, databaseName),
+    };
+}
+
+async function writeStoredBundle(bundle: DataBundle) {
+    if (bundle.profile) await set(IDB_PROFILE_KEY, bundle.profile);
+    if (bundle.lists) await saveListData(bundle.lists);
+    if (bundle.layout) await set(IDB_LAYOUT_CONFIG_KEY, bundle.layout);
+    if (bundle.tracked) await set(IDB_TRACKED_MEDIA_KEY, bundle.tracked);
+    await set(IDB_SCHEMA_VERSION_KEY, bundle.schemaVersion ?? CURRENT_SCHEMA_VERSION);
+}
+
+// A copy of a record keyed by media id without the given ids.
+function omitIds<T>(record: Record<string, T> | undefined, ids: number[]): Record<string, T> {
+    const omitted = new Set(ids.map(String));
+    return Object.fromEntries(Object.entries(record || {}).filter(([id]) => !omitted.has(id)));
+}
+
+// Upgrades whatever is stored locally to the current schema. Runs once per app load.
+async function migrateStoredData(): Promise<string[]> {
+    const stored = await readStoredBundle();
+    if (!stored.profile && !stored.lists && !stored.tracked) return [];
+    const { bundle, fromVersion, toVersion, applied } = migrateBundle(stored);
+    if (fromVersion === toVersion) return [];
+    await writeStoredBundle(bundle);
+    return applied;
+}
+
+// Extra information for a list change, used by the undo journal.
+export interface ListChangeOptions {
+    // Translation key shown in the history panel.
+    label?: string;
+    subject?: string;
+    // Lets the caller refer to the journal entry, e.g. for an "Undo" toast action.
+    entryId?: string;
+    // Set to false for changes that must not be journaled: undo/redo themselves, and what the app
+    // writes on its own (notifications, read markers), which would crowd the user's changes out.
+    record?: boolean;
+}
 
 // Context
 export type AuthContextType = ReturnType<typeof useAuthCore>;
@@ -55,6 +108,8 @@ function useAuthCore() {
     // STATE MANAGEMENT
     const [authMode, setAuthMode] = useState<AuthMode>('none');
     const [localProfile, setLocalProfile] = useState<LocalProfile | null>(null);
+    const [profiles, setProfiles] = useState<ProfileSummary[]>([]);
+    const [activeProfileId, setActiveProfileId] = useState<string | null>(null);
     const [loading, setLoading] = useState(true);
     const [trackedMedia, setTrackedMedia] = useState<Anime[]>([]);
     const [listData, setListData] = useState<ListData>(initialListData);
@@ -63,11 +118,47 @@ function useAuthCore() {
     const [showDebugLogs, setDebugLogs] = useState(false);
     const [sharedDataConfig, setSharedDataConfig] = useState<SharedDataConfig>({ url: null, lastSync: null, lastSize: null, lastEtag: null });
     const [isSyncing, setIsSyncing] = useState(false);
+    const [validationReport, setValidationReport] = useState<StoredValidationReport | null>(null);
+    const [passphraseRequest, setPassphraseRequest] = useState<PassphraseRequest | null>(null);
+    const passphraseResolverRef = useRef<((passphrase: string | null) => void) | null>(null);
+    // The shared-data passphrase is kept in memory only, so it's asked for once per session.
+    const sharedPassphraseRef = useRef<string | null>(null);
+    const listSyncRef = useRef<ListSyncChannel | null>(null);
+    // The undo journal lives in memory for the current session only.
+    const [listJournal, setListJournal] = useState<ListJournal>(emptyJournal);
+    const listJournalRef = useRef<ListJournal>(emptyJournal);
+    // State updaters may run twice (React strict mode); this makes sure a change is journaled once.
+    const journaledRef = useRef(new WeakSet<ListData>());
 
     // --- AUTH STATE LOGIC ---
     useEffect(() => {
         async function loadProfile() {
             setLoading(true);
+            let registry = loadProfileRegistry();
+            try {
+                if (registry.profiles.length === 0) {
+                    // A profile created before multiple profiles were supported lives in the default database.
+                    const legacyProfile = await get<LocalProfile>(IDB_PROFILE_KEY);
+                    if (legacyProfile) registry = registerProfile(toProfileSummary(DEFAULT_PROFILE_ID, legacyProfile));
+                    activateProfileDatabase(registry.activeProfileId);
+                }
+            } catch (error) {
+                addLog('Failed to read the profile registry.', 'error', error);
+            }
+            setProfiles(registry.profiles);
+            setActiveProfileId(registry.activeProfileId);
+            if (!registry.activeProfileId) {
+                setAuthMode('none');
+                setLoading(false);
+                return;
+            }
+
+            try {
+                const applied = await migrateStoredData();
+                if (applied.length > 0) addLog('Migrated local data to the current schema.', 'info', { applied });
+            } catch (error) {
+                addLog('Failed to migrate local data.', 'error', error);
+            }
             try {
                 const profile = await get<LocalProfile>(IDB_PROFILE_KEY);
                 if (profile) {
@@ -86,30 +177,127 @@ function useAuthCore() {
         loadProfile();
     }, [addLog]);
 
+    // Everything in memory belongs to the active profile, so switching reloads the app on the new one.
+    const switchProfile = useCallback((profileId: string) => {
+        const registry = loadProfileRegistry();
+        if (!registry.profiles.some(p => p.id === profileId)) return;
+        saveProfileRegistry({ ...registry, activeProfileId: profileId });
+        window.location.reload();
+    }, []);
+
+    // Signs in to the profile with this name, creating it if it doesn't exist yet.
     const signInLocally = useCallback(async (username: string) => {
         if (!username.trim()) return;
-        const newProfile: LocalProfile = { username, avatar_url: `https://avatar.vercel.sh/${username}.svg` };
-        await set(IDB_PROFILE_KEY, newProfile);
+        const registry = loadProfileRegistry();
+        const existing = registry.profiles.find(p => p.username === username);
+        if (existing) {
+            switchProfile(existing.id);
+            return;
+        }
+
+        const profileId = registry.profiles.length === 0 ? DEFAULT_PROFILE_ID : uuidv4();
+        const databaseName = getProfileDatabaseName(profileId);
+        const newProfile: LocalProfile = { id: profileId, username, avatar_url: `https://avatar.vercel.sh/${username}.svg`, schemaVersion: CURRENT_SCHEMA_VERSION };
+        await set(IDB_PROFILE_KEY, newProfile, databaseName);
+        await set(IDB_SCHEMA_VERSION_KEY, CURRENT_SCHEMA_VERSION, databaseName);
+        const updatedRegistry = registerProfile(toProfileSummary(profileId, newProfile));
+
+        if (authMode === 'local') {
+            // Adding a profile while signed in to another one.
+            window.location.reload();
+            return;
+        }
+        activateProfileDatabase(profileId);
+        setProfiles(updatedRegistry.profiles);
+        setActiveProfileId(profileId);
         setLocalProfile(newProfile);
         setAuthMode('local');
         toast({ title: `Welcome, ${username}!` });
-    }, [toast]);
+    }, [authMode, switchProfile, toast]);
 
+    // Leaves the active profile; its data stays on the device and it can be picked again later.
     const signOut = useCallback(async () => {
+        saveProfileRegistry({ ...loadProfileRegistry(), activeProfileId: null });
         setAuthMode('none');
         setLocalProfile(null);
-        await clear();
         toast({ title: "You have been signed out." });
         window.location.href = '/';
     }, [toast]);
 
+    // Permanently deletes a profile and its database.
+    const deleteProfile = useCallback(async (profileId: string) => {
+        const registry = loadProfileRegistry();
+        const remaining = registry.profiles.filter(p => p.id !== profileId);
+        const isActive = registry.activeProfileId === profileId;
+        saveProfileRegistry({ activeProfileId: isActive ? null : registry.activeProfileId, profiles: remaining });
+        try {
+            await deleteDatabase(getProfileDatabaseName(profileId));
+        } catch (error) {
+            addLog('Failed to delete profile database.', 'error', error);
+        }
+        toast({ title: "Profile deleted" });
+        if (isActive) {
+            window.location.href = '/';
+        } else {
+            setProfiles(remaining);
+        }
+    }, [addLog, toast]);
+
     const updateLocalProfile = useCallback(async (newProfileData: Partial<LocalProfile>) => {
         if (!localProfile) return;
         const updatedProfile = { ...localProfile, ...newProfileData };
         setLocalProfile(updatedProfile);
         await set(IDB_PROFILE_KEY, updatedProfile);
-    }, [localProfile]);
+        if (activeProfileId) setProfiles(registerProfile(toProfileSummary(activeProfileId, updatedProfile)).profiles);
+    }, [localProfile, activeProfileId]);
     
+    // --- SNAPSHOT LOGIC ---
+    // Saves the active profile's stored data as a snapshot (see lib/data/snapshots.ts). Taken
+    // before destructive actions; a failure is logged but never blocks the action itself.
+    const takeSnapshot = useCallback(async (reason: SnapshotReason) => {
+        if (!activeProfileId) return null;
+        try {
+            const bundle: DataBundle = { ...await readStoredBundle(), schemaVersion: CURRENT_SCHEMA_VERSION };
+            if (!bundle.profile && !bundle.lists) return null;
+            const meta = await createSnapshot(activeProfileId, bundle, reason);
+            addLog(`Saved a "${reason}" snapshot (${meta.size} bytes).`);
+            return meta;
+        } catch (error) {
+            addLog('Failed to save a snapshot.', 'error', error);
+            return null;
+        }
+    }, [activeProfileId, addLog]);
+
+    useEffect(() => {
+        if (authMode !== 'local' || !activeProfileId) return;
+        const checkDailySnapshot = async () => {
+            if (await isDailySnapshotDue(activeProfileId)) await takeSnapshot('daily');
+        };
+        const initialTimeout = setTimeout(checkDailySnapshot, INITIAL_CHECK_DELAY);
+        const interval = setInterval(checkDailySnapshot, SNAPSHOT_CHECK_INTERVAL);
+        return () => {
+            clearTimeout(initialTimeout);
+            clearInterval(interval);
+        };
+    }, [authMode, activeProfileId, takeSnapshot]);
+
+    // Replaces the stored data with a snapshot and reloads, like importData. The current data is
+    // snapshotted first, so a restore can be undone by restoring that one.
+    const restoreSnapshot = async (snapshotId: string) => {
+        try {
+            const stored = await loadSnapshot(snapshotId);
+            if (!stored) throw new Error("The snapshot no longer exists.");
+            await takeSnapshot('restore');
+            const { bundle } = migrateBundle(stored);
+            await writeStoredBundle({ ...bundle, profile: bundle.profile && { ...bundle.profile, id: activeProfileId || bundle.profile.id } });
+            listSyncRef.current?.post({ type: 'replaced', origin: TAB_ID });
+            toast({ title: "Snapshot Restored", description: "Reloading app." });
+            setTimeout(() => window.location.reload(), 1500);
+        } catch (error: any) {
+            toast({ variant: 'destructive', title: "Restore Failed", description: error.message });
+        }
+    };
+
     // --- STORAGE QUOTA LOGIC ---
     const checkStorageAndNotify = useCallback(async (updatedData: ListData) => {
         if (!navigator.storage || !navigator.storage.estimate) {
@@ -136,7 +324,7 @@ function useAuthCore() {
             };
             // Try to save just the notification, but it might fail too if we are really out of space.
             const notifications = [...(updatedData.notifications || []), storageNotification];
-            set(IDB_LIST_DATA_KEY, { ...updatedData, notifications });
+            persistListDataChanges(updatedData, { ...updatedData, notifications });
             return false;
         }
         return true;
@@ -144,14 +332,34 @@ function useAuthCore() {
 
 
     // --- LIST DATA LOGIC ---
-    const updateAndPersistListData = useCallback((getNewData: (currentData: ListData) => Partial<ListData> | ListData) => {
+    const commitListJournal = useCallback((journal: ListJournal) => {
+        listJournalRef.current = journal;
+        setListJournal(journal);
+    }, []);
+
+    const updateAndPersistListData = useCallback((getNewData: (currentData: ListData) => Partial<ListData> | ListData, options: ListChangeOptions = {}) => {
         setListData(currentData => {
             const newData = getNewData(currentData);
             const updatedData = { ...currentData, ...newData };
+
+            if (options.record !== false && !journaledRef.current.has(currentData)) {
+                journaledRef.current.add(currentData);
+                const entry = createJournalEntry(currentData, updatedData, {
+                    id: options.entryId || uuidv4(),
+                    label: options.label || 'history_action_update',
+                    subject: options.subject,
+                });
+                if (entry) queueMicrotask(() => commitListJournal(recordJournalEntry(listJournalRef.current, entry)));
+            }
             
             checkStorageAndNotify(updatedData).then(canWrite => {
                 if (canWrite) {
-                    set(IDB_LIST_DATA_KEY, updatedData);
+                    withListDataLock(async () => {
+                        const { committed, merged } = await persistListDataChanges(currentData, updatedData);
+                        listSyncRef.current?.post({ type: 'operations', origin: TAB_ID, operations: committed });
+                        // Another tab touched the same entries in the meantime; show the merged result.
+                        if (merged.length > 0) setListData(d => applyStoreOperations(d, merged));
+                    }).catch(error => addLog('Failed to persist list data.', 'error', error));
                 } else {
                     addLog('Write operation blocked due to storage quota.', 'warn');
                 }
@@ -159,213 +367,357 @@ function useAuthCore() {
 
             return updatedData;
         });
-    }, [addLog, checkStorageAndNotify]);
+    }, [addLog, checkStorageAndNotify, commitListJournal]);
+
+    // Rolls back the given journal entry and everything after it (defaults to the latest change).
+    const undoListChange = useCallback((entryId?: string) => {
+        const journal = listJournalRef.current;
+        const result = takeUndo(journal, entryId ?? journal.past[journal.past.length - 1]?.id);
+        if (!result) return false;
+        commitListJournal(result.journal);
+        updateAndPersistListData(current => applyStoreOperations(current, result.operations), { record: false });
+        return true;
+    }, [commitListJournal, updateAndPersistListData]);
+
+    // Re-applies undone changes up to the given entry (defaults to the next one).
+    const redoListChange = useCallback((entryId?: string) => {
+        const journal = listJournalRef.current;
+        const result = takeRedo(journal, entryId ?? journal.future[0]?.id);
+        if (!result) return false;
+        commitListJournal(result.journal);
+        updateAndPersistListData(current => applyStoreOperations(current, result.operations), { record: false });
+        return true;
+    }, [commitListJournal, updateAndPersistListData]);
+
+    // For destructive changes: applies them and offers an "Undo" action in the toast.
+    const updateWithUndo = (title: string, options: ListChangeOptions, getNewData: (currentData: ListData) => Partial<ListData>) => {
+        const entryId = uuidv4();
+        updateAndPersistListData(getNewData, { ...options, entryId });
+        toast({
+            title,
+            action: <ToastAction altText="Undo" onClick={() => undoListChange(entryId)}>Undo</ToastAction>,
+        });
+    };
 
 
     useEffect(() => {
-        async function loadListData() {
+        async function loadInitialListData() {
             if (authMode !== 'local') {
                 setListData(initialListData);
                 return;
             }
             try {
-                let loaded = await get<ListData>(IDB_LIST_DATA_KEY);
-                if (!loaded) {
-                    loaded = initialListData;
-                } else {
-                    loaded.hiddenGenres = loaded.hiddenGenres === undefined ? SENSITIVE_GENRES : loaded.hiddenGenres;
-                    loaded.notificationsLayout = loaded.notificationsLayout?.filter(k => k !== 'news') || ['updates', 'reminders', 'logs'];
-                    if(loaded.pinnedNotificationTab === 'news') loaded.pinnedNotificationTab = 'updates';
-                    loaded.storageQuota = loaded.storageQuota || DEFAULT_STORAGE_QUOTA;
-                }
-                setListData(loaded);
+                const loaded = await loadListData();
+                setListData(loaded || { ...initialListData, schemaVersion: CURRENT_SCHEMA_VERSION });
             } catch (error) {
                 setListData(initialListData);
             }
         }
-        loadListData();
+        loadInitialListData();
     }, [authMode]);
 
-    const handleToggleListMembership = useCallback((media: Anime, listName: 'planToWatch' | 'currentlyWatching' | 'planToRead' | 'currentlyReading') => {
-        const { synopsis, ...mediaWithoutSynopsis } = media;
-
-        updateAndPersistListData(currentData => {
-            const list = (currentData as any)[listName] as number[] || [];
-            const newIsInList = list.includes(media.id);
-            const newList = newIsInList ? list.filter(id => id !== media.id) : [...list, media.id];
-            return { [listName]: newList };
+    // Folds changes made in other tabs into this tab's state (without persisting them again).
+    useEffect(() => {
+        if (authMode !== 'local') return;
+        const channel = openListSyncChannel((message: ListSyncMessage) => {
+            if (message.type === 'operations') {
+                setListData(current => applyStoreOperations(current, message.operations));
+            } else {
+                loadListData()
+                    .then(loaded => { if (loaded) setListData(loaded); })
+                    .catch(error => addLog('Failed to reload list data changed in another tab.', 'error', error));
+            }
         });
+        listSyncRef.current = channel;
+        return () => {
+            channel.close();
+            listSyncRef.current = null;
+        };
+    }, [authMode, addLog]);
+
+    // Keeps the tracked media (checked for new episodes) in line with the lists: a title is
+    // tracked, without its synopsis, while it has a status.
+    const syncTrackedMedia = useCallback((media: Anime) => {
+        const { synopsis, ...mediaWithoutSynopsis } = media;
 
         setTimeout(async () => {
             const currentTracked = await get<Anime[]>(IDB_TRACKED_MEDIA_KEY) || [];
-            const freshListData = await get<ListData>(IDB_LIST_DATA_KEY) || initialListData;
-            const isInAnyList = ['planToWatch', 'currentlyWatching', 'planToRead', 'currentlyReading'].some(list => (freshListData[list as keyof ListData] as number[])?.includes(media.id));
-
-            if (isInAnyList) {
-                if (!currentTracked.some(item => item.id === media.id)) {
-                    const newTracked = [...currentTracked, mediaWithoutSynopsis];
-                    await set(IDB_TRACKED_MEDIA_KEY, newTracked);
-                    setTrackedMedia(newTracked);
-                }
-            } else {
-                const newTracked = currentTracked.filter(item => item.id !== media.id);
-                await set(IDB_TRACKED_MEDIA_KEY, newTracked);
-                setTrackedMedia(newTracked);
-            }
+            const freshListData = await loadListData() || initialListData;
+            const isListed = !!freshListData.statuses?.[media.id];
+            if (isListed === currentTracked.some(item => item.id === media.id)) return;
+
+            const newTracked = isListed ? [...currentTracked, mediaWithoutSynopsis as Anime] : currentTracked.filter(item => item.id !== media.id);
+            await set(IDB_TRACKED_MEDIA_KEY, newTracked);
+            setTrackedMedia(newTracked);
         }, 100);
-    }, [updateAndPersistListData]);
-    
-    const isPlannedToWatch = (id: number) => listData.planToWatch?.includes(id) || false;
-    const isCurrentlyWatching = (id: number) => listData.currentlyWatching?.includes(id) || false;
-    const isPlannedToRead = (id: number) => listData.planToRead?.includes(id) || false;
-    const isCurrentlyReading = (id: number) => listData.currentlyReading?.includes(id) || false;
+    }, []);
 
-    const togglePlanToWatch = (anime: Anime) => handleToggleListMembership(anime, 'planToWatch');
-    const togglePlanToRead = (manga: Anime) => handleToggleListMembership(manga, 'planToRead');
+    const getMediaStatus = (id: number): MediaStatus | undefined => listData.statuses?.[id]?.status;
 
-    const toggleCurrentlyWatching = (anime: Anime) => {
-        const { synopsis, ...animeWithoutSynopsis } = anime;
+    // The statuses with the media's set to `status`, or removed when it is null.
+    const withStatus = (d: ListData, media: Anime, status: MediaStatus | null | undefined) => {
+        const key = String(media.id);
+        const { [key]: current, ...others } = d.statuses || {};
+        if (!status) return others;
+        if (current?.status === status) return d.statuses;
+        return { ...others, [key]: { status, type: getMediaKind(media), updatedAt: new Date().toISOString() } };
+    };
 
-        updateAndPersistListData(d => ({
-            planToWatch: d.planToWatch?.filter(id => id !== anime.id) || [],
-            currentlyWatching: d.currentlyWatching?.includes(anime.id)
-                ? d.currentlyWatching.filter(id => id !== anime.id)
-                : [...(d.currentlyWatching || []), anime.id]
-        }));
-         setTimeout(async () => {
-            const currentTracked = await get<Anime[]>(IDB_TRACKED_MEDIA_KEY) || [];
-            if (!currentTracked.some(item => item.id === anime.id)) {
-                const newTracked = [...currentTracked, animeWithoutSynopsis];
-                await set(IDB_TRACKED_MEDIA_KEY, newTracked);
-                setTrackedMedia(newTracked);
-            }
-        }, 100);
+    // The title's entry with `changes`, for the bookkeeping of rewatches.
+    const withEntryChanges = (d: Partial<ListData>, media: Anime, changes: Partial<ListEntry>): Partial<ListData> => {
+        const key = String(media.id);
+        const entry = { ...(d.listEntries?.[key] || emptyListEntry()), ...changes, updatedAt: new Date().toISOString() };
+        return { listEntries: { ...d.listEntries, [key]: entry } };
     };
 
-    const toggleCurrentlyReading = (manga: Anime) => {
-        const { synopsis, ...mangaWithoutSynopsis } = manga;
+    // A rewatch (reread) is marked in its own log in the entry (see getProgressLog), which is
+    // dropped when it ends; finishing it counts it in rewatchCount.
+    const startRewatch = (d: ListData, media: Anime) => withEntryChanges(d, media, { repeatProgress: {} });
+    const endRewatch = (d: Partial<ListData>, media: Anime, finished: boolean) => {
+        const entry = d.listEntries?.[media.id] || emptyListEntry();
+        return withEntryChanges(d, media, { repeatProgress: undefined, ...(finished ? { rewatchCount: entry.rewatchCount + 1 } : {}) });
+    };
 
+    // Moves a title to another status (see lib/data/media-status.ts), or off the lists for null.
+    // Returns false, without changing anything, when the transition isn't allowed.
+    const setMediaStatus = (media: Anime, status: MediaStatus | null) => {
+        const current = getMediaStatus(media.id);
+        if (!canTransition(current, status)) return false;
         updateAndPersistListData(d => ({
-            planToRead: d.planToRead?.filter(id => id !== manga.id) || [],
-            currentlyReading: d.currentlyReading?.includes(manga.id)
-                ? d.currentlyReading.filter(id => id !== manga.id)
-                : [...(d.currentlyReading || []), manga.id]
-        }));
-        setTimeout(async () => {
-            const currentTracked = await get<Anime[]>(IDB_TRACKED_MEDIA_KEY) || [];
-             if (!currentTracked.some(item => item.id === manga.id)) {
-                const newTracked = [...currentTracked, mangaWithoutSynopsis];
-                await set(IDB_TRACKED_MEDIA_KEY, newTracked);
-                setTrackedMedia(newTracked);
-            }
-        }, 100);
+            ...(status === 'repeating' ? startRewatch(d, media) : current === 'repeating' ? endRewatch(d, media, status === 'completed') : {}),
+            statuses: withStatus(d, media, status),
+        }), {
+            label: status ? 'history_action_set_status' : 'history_action_remove_status',
+            subject: media.title,
+        });
+        syncTrackedMedia(media);
+        return true;
+    };
+
+    // `changes` to a title's progress, plus the status change they imply, counted in the units
+    // the title is tracked by (see lib/data/volumes.ts). Finishing a rewatch also counts it in the
+    // title's entry.
+    const withProgressStatus = (d: ListData, media: Anime, changes: Partial<ListData>): Partial<ListData> => {
+        const current = d.statuses?.[media.id]?.status;
+        const changed = { ...d, ...changes };
+        const { count, total } = getTrackedProgress(changed, media);
+        const next = statusAfterProgress(current, count, total);
+        if (next === current) return changes;
+        return {
+            ...changes,
+            ...(current === 'repeating' ? endRewatch(changed, media, next === 'completed') : {}),
+            statuses: withStatus(d, media, next),
+        };
+    };
+
+    // Sets the logs a title's progress is marked in: its own, or the rewatch's while it is repeating.
+    const withProgressLogs = (d: ListData, media: Anime, logs: Partial<Record<ProgressField, ProgressLog>>): Partial<ListData> => {
+        const key = String(media.id);
+        if (d.statuses?.[key]?.status === 'repeating') {
+            return withEntryChanges(d, media, { repeatProgress: { ...d.listEntries?.[key]?.repeatProgress, ...logs } });
+        }
+        return Object.fromEntries(Object.entries(logs).map(([field, log]) => [field, { ...d[field as ProgressField], [key]: log }]));
     };
 
     const setCustomEpisodeLinks = (mediaId: number, linkInfo: { template: string; ongoing: boolean }) => 
         updateAndPersistListData(d => ({ customEpisodeLinks: { ...d.customEpisodeLinks, [mediaId]: linkInfo } }));
 
+    // Saves the user's score, notes, dates or rewatch count for a title. An entry left empty is removed.
+    const updateListEntry = (media: Anime, changes: Partial<Omit<ListEntry, 'updatedAt'>>) =>
+        updateAndPersistListData(d => {
+            const key = String(media.id);
+            const entry = { ...(d.listEntries?.[key] || emptyListEntry()), ...changes, updatedAt: new Date().toISOString() };
+            const { [key]: _, ...others } = d.listEntries || {};
+            return { listEntries: isEmptyListEntry(entry) ? others : { ...others, [key]: entry } };
+        }, { label: 'history_action_edit_entry', subject: media.title });
+
+    const removeListEntry = (media: Anime) =>
+        updateWithUndo("List entry removed", { label: 'history_action_remove_entry', subject: media.title }, d => {
+            const { [String(media.id)]: _, ...others } = d.listEntries || {};
+            return { listEntries: others };
+        });
+
     const toggleEpisodeWatched = (anime: Anime, episodeId: string) => {
-        const animeIdStr = String(anime.id);
         updateAndPersistListData(d => {
-            const watched = new Set(d.watchedEpisodes?.[animeIdStr] || []);
-            if (watched.has(episodeId)) watched.delete(episodeId);
-            else watched.add(episodeId);
-            return { watchedEpisodes: { ...d.watchedEpisodes, [animeIdStr]: Array.from(watched) } };
+            const log = getProgressLog(d, 'watchedEpisodes', anime.id);
+            const watched = log && episodeId in log ? withoutProgressUnits(log, [episodeId]) : withProgressUnits(log, [episodeId]);
+            return withProgressStatus(d, anime, withProgressLogs(d, anime, { watchedEpisodes: watched }));
         });
+        if (!getMediaStatus(anime.id)) syncTrackedMedia(anime);
     };
 
     const toggleChapterRead = (manga: Anime, chapterId: string) => {
-        const mangaIdStr = String(manga.id);
         updateAndPersistListData(d => {
-            const read = new Set(d.readChapters?.[mangaIdStr]?.read || []);
-            if (read.has(chapterId)) read.delete(chapterId);
-            else read.add(chapterId);
-            return { readChapters: { ...d.readChapters, [mangaIdStr]: { read: Array.from(read), lastRead: new Date().toISOString() } } };
+            const log = getProgressLog(d, 'readChapters', manga.id);
+            const read = log && chapterId in log ? withoutProgressUnits(log, [chapterId]) : withProgressUnits(log, [chapterId]);
+            return withProgressStatus(d, manga, withProgressLogs(d, manga, { readChapters: read }));
         });
+        if (!getMediaStatus(manga.id)) syncTrackedMedia(manga);
     };
 
-    const unwatchAllEpisodes = (anime: Anime) => updateAndPersistListData(d => {
+    const removeWatchedEpisodes = (d: ListData, animeId: number) => {
         const newWatched = { ...d.watchedEpisodes };
-        delete newWatched[String(anime.id)];
+        delete newWatched[String(animeId)];
         return { watchedEpisodes: newWatched };
-    });
+    };
+
+    // During a rewatch only the rewatch's progress is cleared.
+    const unwatchAllEpisodes = (anime: Anime) =>
+        updateWithUndo("Episodes marked as unwatched", { label: 'history_action_unwatch_all', subject: anime.title }, d =>
+            d.statuses?.[anime.id]?.status === 'repeating' ? withProgressLogs(d, anime, { watchedEpisodes: {} }) : removeWatchedEpisodes(d, anime.id));
 
     const watchAllEpisodes = (anime: Anime) => {
         const count = anime.nextAiringEpisode ? anime.nextAiringEpisode.episode - 1 : anime.episodes;
         if (!count || count <= 0) return;
         const allIds = Array.from({ length: count }, (_, i) => String(i + 1));
-        updateAndPersistListData(d => ({ watchedEpisodes: { ...d.watchedEpisodes, [String(anime.id)]: allIds } }));
+        updateAndPersistListData(d => {
+            const watched = withProgressUnits(getProgressLog(d, 'watchedEpisodes', anime.id), allIds);
+            return withProgressStatus(d, anime, withProgressLogs(d, anime, { watchedEpisodes: watched }));
+        });
+        if (!getMediaStatus(anime.id)) syncTrackedMedia(anime);
     };
     
-    const unmarkAllChaptersRead = (manga: Anime) => updateAndPersistListData(d => {
+    const removeReadChapters = (d: ListData, mangaId: number) => {
         const newRead = { ...d.readChapters };
-        delete newRead[String(manga.id)];
+        delete newRead[String(mangaId)];
         return { readChapters: newRead };
-    });
+    };
+
+    const unmarkAllChaptersRead = (manga: Anime) =>
+        updateWithUndo("Chapters marked as unread", { label: 'history_action_unread_all', subject: manga.title }, d =>
+            d.statuses?.[manga.id]?.status === 'repeating' ? withProgressLogs(d, manga, { readChapters: {} }) : removeReadChapters(d, manga.id));
 
     const markAllChaptersRead = (manga: Anime, allChapterIds: string[]) => {
         if (!allChapterIds?.length) return;
-        updateAndPersistListData(d => ({ readChapters: { ...d.readChapters, [String(manga.id)]: { read: allChapterIds, lastRead: new Date().toISOString() } } }));
+        updateAndPersistListData(d => {
+            const read = withProgressUnits(getProgressLog(d, 'readChapters', manga.id), allChapterIds);
+            return withProgressStatus(d, manga, withProgressLogs(d, manga, { readChapters: read }));
+        });
+        if (!getMediaStatus(manga.id)) syncTrackedMedia(manga);
     };
 
-    const removeItemFromList = (itemId: number, listName: string) => {
-        switch (listName) {
-            case 'watching': updateAndPersistListData(d => ({ currentlyWatching: d.currentlyWatching?.filter(id => id !== itemId) || [] })); break;
-            case 'plan-to-watch': updateAndPersistListData(d => ({ planToWatch: d.planToWatch?.filter(id => id !== itemId) || [] })); break;
-            case 'completed': unwatchAllEpisodes({ id: itemId } as Anime); break;
-            case 'reading': updateAndPersistListData(d => ({ currentlyReading: d.currentlyReading?.filter(id => id !== itemId) || [] })); break;
-            case 'plan-to-read': updateAndPersistListData(d => ({ planToRead: d.planToRead?.filter(id => id !== itemId) || [] })); break;
-            case 'read': unmarkAllChaptersRead({ id: itemId } as Anime); break;
-        }
+    // --- VOLUME TRACKING LOGIC ---
+    // Marks or unmarks volumes, along with the chapters they are mapped to.
+    const volumeChanges = (d: ListData, manga: Anime, volumeIds: string[], read: boolean): Partial<ListData> => {
+        const key = String(manga.id);
+        const chapterIds = chaptersOfVolumes(getVolumeTracking(d, key), volumeIds);
+        const update = read ? withProgressUnits : withoutProgressUnits;
+        return withProgressStatus(d, manga, withProgressLogs(d, manga, {
+            readVolumes: update(getProgressLog(d, 'readVolumes', key), volumeIds),
+            ...(chapterIds.length ? { readChapters: update(getProgressLog(d, 'readChapters', key), chapterIds) } : {}),
+        }));
     };
 
+    const toggleVolumeRead = (manga: Anime, volumeId: string) => {
+        updateAndPersistListData(d => volumeChanges(d, manga, [volumeId], !(volumeId in (getProgressLog(d, 'readVolumes', manga.id) || {}))));
+        if (!getMediaStatus(manga.id)) syncTrackedMedia(manga);
+    };
+
+    const markAllVolumesRead = (manga: Anime, volumeIds: string[]) => {
+        if (!volumeIds.length) return;
+        updateAndPersistListData(d => volumeChanges(d, manga, volumeIds, true));
+        if (!getMediaStatus(manga.id)) syncTrackedMedia(manga);
+    };
+
+    const unmarkAllVolumesRead = (manga: Anime) =>
+        updateWithUndo("Volumes marked as unread", { label: 'history_action_unread_all_volumes', subject: manga.title }, d =>
+            volumeChanges(d, manga, Object.keys(getProgressLog(d, 'readVolumes', manga.id) || {}), false));
+
+    // Switches between chapters and volumes, or saves the chapter ranges of the volumes.
+    const setVolumeTracking = (manga: Anime, changes: Partial<VolumeTracking>) =>
+        updateAndPersistListData(d => ({
+            volumeTracking: { ...d.volumeTracking, [manga.id]: { ...getVolumeTracking(d, manga.id), ...changes } },
+        }), { label: 'history_action_volume_tracking', subject: manga.title });
+
+    // --- PROGRESS HISTORY LOGIC ---
+    const historySubject = (mediaId: number) => trackedMedia.find(m => m.id === mediaId)?.title || `#${mediaId}`;
+
+    // Changes when an episode, chapter or volume was marked. `at` is an ISO date, or null to leave it undated.
+    const setProgressDate = (entry: HistoryEntry, at: string | null) =>
+        updateAndPersistListData(d => {
+            const { field } = entry;
+            const log = d[field]?.[entry.mediaId];
+            if (!log || !(entry.unitId in log)) return {};
+            return { [field]: { ...d[field], [entry.mediaId]: { ...log, [entry.unitId]: at } } };
+        }, { label: 'history_action_edit_progress_date', subject: historySubject(entry.mediaId) });
+
+    // Unmarks one episode, chapter or volume from the history, updating the title's status like
+    // unticking it would.
+    const removeProgressEntry = (entry: HistoryEntry) =>
+        updateWithUndo("Progress entry removed", { label: 'history_action_remove_progress', subject: historySubject(entry.mediaId) }, d => {
+            const { field } = entry;
+            const changes = { [field]: { ...d[field], [entry.mediaId]: withoutProgressUnits(d[field]?.[entry.mediaId], [entry.unitId]) } };
+            const media = trackedMedia.find(m => m.id === entry.mediaId);
+            return media ? withProgressStatus(d, media, changes) : changes;
+        });
+
+    // Takes a title off the lists. Removing it from the completed/read list also clears its progress.
+    const removeItemFromList = (itemId: number, listName: StatusListName) =>
+        updateWithUndo("Removed from list", { label: 'history_action_remove_from_list', subject: listName }, d => ({
+            statuses: omitIds(d.statuses, [itemId]),
+            ...(listName === 'completed' ? removeWatchedEpisodes(d, itemId) : listName === 'read' ? removeReadChapters(d, itemId) : {}),
+        }));
+
+    // Offline, or when AniList can't be reached, lists show what trackedMedia has of the titles.
     const getMediaForList = useCallback(async (ids: number[]) => {
         if (ids.length === 0) return [];
-        return getMultipleAnimeFromAniList(ids, addLog);
-    }, [addLog]);
+        const fetched = navigator.onLine ? await getMultipleAnimeFromAniList(ids, addLog) : [];
+        if (fetched.length > 0) return fetched;
+        const tracked = new Map(trackedMedia.map(item => [item.id, item]));
+        return ids.map(id => tracked.get(id)).filter((item): item is Anime => !!item);
+    }, [addLog, trackedMedia]);
 
-    const getAllWatchedAnime = useCallback(async () => {
-        const watchedIds = Object.keys(listData.watchedEpisodes).map(Number).filter(id => listData.watchedEpisodes[id]?.length > 0);
-        const animes = await getMediaForList(watchedIds);
-        return animes.map(anime => ({ ...anime, watchedEpisodeCount: listData.watchedEpisodes[anime.id]?.length || 0 }));
-    }, [listData.watchedEpisodes, getMediaForList]);
-
-    const getCurrentlyWatchingAnime = useCallback(() => getMediaForList(listData.currentlyWatching || []), [listData.currentlyWatching, getMediaForList]);
-    const getPlanToWatchAnime = useCallback(() => getMediaForList(listData.planToWatch || []), [listData.planToWatch, getMediaForList]);
-    const getAllReadManga = useCallback(async () => {
-        const readIds = Object.keys(listData.readChapters || {}).map(Number).filter(id => listData.readChapters?.[id]?.read.length > 0);
-        const mangas = await getMediaForList(readIds);
-        return mangas.map(manga => ({ ...manga, readChapterCount: listData.readChapters?.[manga.id]?.read.length || 0 }));
-    }, [listData.readChapters, getMediaForList]);
-    const getCurrentlyReadingManga = useCallback(() => getMediaForList(listData.currentlyReading || []), [listData.currentlyReading, getMediaForList]);
-    const getPlanToReadManga = useCallback(() => getMediaForList(listData.planToRead || []), [listData.planToRead, getMediaForList]);
-    const clearCompletedList = () => updateAndPersistListData(() => ({ watchedEpisodes: {} }));
-    const clearReadList = () => updateAndPersistListData(() => ({ readChapters: {} }));
-    const markActivityAsRead = (id: number) => updateAndPersistListData(d => ({ readActivityIds: [...(d.readActivityIds || []), id] }));
-    const markAllActivitiesAsRead = (allActivityIds: number[]) => updateAndPersistListData(() => ({ readActivityIds: allActivityIds }));
-    const clearDataSection = (key: keyof ListData) => updateAndPersistListData(() => ({ [key]: Array.isArray(initialListData[key]) ? [] : {} }));
-    const setHiddenGenres = (genres: string[]) => updateAndPersistListData(() => ({ hiddenGenres: genres }));
-    const setSensitiveContentUnlocked = (unlocked: boolean) => updateAndPersistListData(() => ({ sensitiveContentUnlocked: unlocked }));
+    // The stored details of a tracked title, for details pages that can't reach AniList. Stable,
+    // so pages can call it from their loading effects.
+    const trackedMediaRef = useRef(trackedMedia);
+    trackedMediaRef.current = trackedMedia;
+    const findTrackedMedia = useCallback((id: number) => trackedMediaRef.current.find(item => item.id === id) || null, []);
+
+    const getListMedia = useCallback((list: StatusListName) => getMediaForList(getListIds(listData.statuses, list)), [listData.statuses, getMediaForList]);
+
+    // Details for any number of titles: tracked ones come from trackedMedia, the rest are fetched
+    // a page at a time.
+    const getMediaDetails = useCallback(async (ids: number[]) => {
+        const media = new Map(trackedMedia.map(item => [item.id, item]));
+        const missingIds = Array.from(new Set(ids)).filter(id => !media.has(id));
+        for (let i = 0; i < missingIds.length; i += MEDIA_DETAILS_PAGE_SIZE) {
+            (await getMediaForList(missingIds.slice(i, i + MEDIA_DETAILS_PAGE_SIZE))).forEach(item => media.set(item.id, item));
+        }
+        return media;
+    }, [trackedMedia, getMediaForList]);
+    // Empties the completed/read list: the titles leave the lists and lose their progress.
+    const clearCompletedList = () => updateWithUndo("Completed list cleared", { label: 'history_action_clear_completed' }, d => {
+        const ids = getListIds(d.statuses, 'completed');
+        return { statuses: omitIds(d.statuses, ids), watchedEpisodes: omitIds(d.watchedEpisodes, ids) };
+    });
+    const clearReadList = () => updateWithUndo("Read list cleared", { label: 'history_action_clear_read' }, d => {
+        const ids = getListIds(d.statuses, 'read');
+        return { statuses: omitIds(d.statuses, ids), readChapters: omitIds(d.readChapters, ids), readVolumes: omitIds(d.readVolumes, ids) };
+    });
+    const markActivityAsRead = (id: number) => updateAndPersistListData(d => ({ readActivityIds: [...(d.readActivityIds || []), id] }), { record: false });
+    const markAllActivitiesAsRead = (allActivityIds: number[]) => updateAndPersistListData(() => ({ readActivityIds: allActivityIds }), { record: false });
+    const clearDataSection = async (key: keyof ListData) => {
+        await takeSnapshot('clear-section');
+        updateWithUndo("Data section cleared", { label: 'history_action_clear_section', subject: key }, () => ({ [key]: Array.isArray(initialListData[key]) ? [] : {} }));
+    };
+    // Both change the variables of most AniList queries, which leaves the cached responses unused.
+    const clearCachedQueries = () => clearQueryCache().catch(error => addLog('Could not clear the query cache', 'warn', error));
+    const setHiddenGenres = (genres: string[]) => {
+        updateAndPersistListData(() => ({ hiddenGenres: genres }));
+        clearCachedQueries();
+    };
+    const setSensitiveContentUnlocked = (unlocked: boolean) => {
+        updateAndPersistListData(() => ({ sensitiveContentUnlocked: unlocked }));
+        clearCachedQueries();
+    };
     const setStorageQuota = (bytes: number) => updateAndPersistListData(() => ({ storageQuota: bytes }));
+    const setScoreFormat = (scoreFormat: ScoreFormat) => updateAndPersistListData(() => ({ scoreFormat }));
 
     // --- MEDIA TRACKING LOGIC ---
     useEffect(() => {
         async function loadTrackedMedia() {
             if (authMode === 'local') {
-                let media = await get<Anime[]>(IDB_TRACKED_MEDIA_KEY) || [];
-                // Retroactively clean up synopsis from old data
-                const cleanedMedia = media.map(item => {
-                    if ((item as Partial<Anime>).synopsis) {
-                        const { synopsis, ...rest } = item as any;
-                        return rest;
-                    }
-                    return item;
-                });
-                setTrackedMedia(cleanedMedia);
-                // Optionally re-save the cleaned data
-                if (media.length > 0 && media.some(item => (item as Partial<Anime>).synopsis)) {
-                   await set(IDB_TRACKED_MEDIA_KEY, cleanedMedia);
-                }
+                setTrackedMedia(await get<Anime[]>(IDB_TRACKED_MEDIA_KEY) || []);
             } else {
                 setTrackedMedia([]);
             }
@@ -380,30 +732,62 @@ function useAuthCore() {
             const message = isManga ? `${diff} new chapters available` : `${diff} new episodes available`;
             const newNotification: NewsNotification = { id: uuidv4(), type: 'news', mediaId: media.id, isManga, title: media.title, thumbnail: media.images.webp.large_image_url || '', message, timestamp: new Date().toISOString(), seen: false };
             return { notifications: [...(currentData.notifications || []), newNotification] };
-        });
+        }, { record: false });
+    }, [updateAndPersistListData]);
+
+    // One notification per aired episode. Episodes that were already announced are skipped, so a
+    // window that is checked twice doesn't notify twice.
+    const addAiredEpisodes = useCallback((aired: { media: Anime; episode: AiredEpisode }[]) => {
+        updateAndPersistListData(currentData => {
+            const notifications = currentData.notifications || [];
+            const announced = new Set(notifications.map(n => (n.type === 'news' && n.episode ? `${n.mediaId}:${n.episode}` : null)));
+            const newNotifications: NewsNotification[] = aired
+                .filter(({ episode }) => !announced.has(`${episode.mediaId}:${episode.episode}`))
+                .map(({ media, episode }) => ({
+                    id: uuidv4(), type: 'news', mediaId: media.id, isManga: false, title: media.title, thumbnail: media.images.webp.large_image_url || '',
+                    message: `Episode ${episode.episode} aired`, episode: episode.episode, timestamp: new Date(episode.airingAt * 1000).toISOString(), seen: false,
+                }));
+            return newNotifications.length > 0 ? { notifications: [...notifications, ...newNotifications] } : {};
+        }, { record: false });
     }, [updateAndPersistListData]);
 
+    // New anime episodes come from AniList's airing schedule: every episode whose airing time
+    // passed since the last check. `episodes` is often unknown or already the final count while a
+    // show airs, so comparing it is only used for manga chapters.
     const checkForUpdates = useCallback(async () => {
-        const mediaToWatchIds = new Set([...(listData.currentlyWatching || []), ...(listData.currentlyReading || [])]);
-        if (mediaToWatchIds.size === 0) return;
+        const animeIds = getListIds(listData.statuses, 'watching');
+        const mangaIds = getListIds(listData.statuses, 'reading');
+        if (animeIds.length === 0 && mangaIds.length === 0) return;
 
-        const latestMediaData = await getMultipleAnimeFromAniList(Array.from(mediaToWatchIds), addLog);
+        const latestMediaData = await getMultipleAnimeFromAniList([...animeIds, ...mangaIds], addLog, { priority: 'background' });
         const latestMediaMap = new Map(latestMediaData.map(m => [m.id, m]));
         const currentMediaMap = new Map(trackedMedia.map(m => [m.id, m]));
         const newUpdates: any = {};
-        
-        for (const mediaId of mediaToWatchIds) {
+
+        const now = Math.floor(Date.now() / 1000);
+        const lastCheck = await get<number>(IDB_LAST_AIRING_CHECK_KEY);
+        const airedEpisodes = await getAiredEpisodes(animeIds, Math.max(lastCheck ?? now, now - MAX_AIRING_LOOKBACK), now, addLog, { priority: 'background' });
+        if (airedEpisodes) {
+            const aired = airedEpisodes
+                .map(episode => ({ media: latestMediaMap.get(episode.mediaId) || currentMediaMap.get(episode.mediaId), episode }))
+                .filter((item): item is { media: Anime; episode: AiredEpisode } => !!item.media);
+            if (aired.length > 0) addAiredEpisodes(aired);
+            aired.forEach(({ episode }) => {
+                newUpdates[episode.mediaId] = { newEpisodes: (newUpdates[episode.mediaId]?.newEpisodes || 0) + 1, newChapters: 0 };
+            });
+            await set(IDB_LAST_AIRING_CHECK_KEY, now);
+        }
+
+        for (const mediaId of mangaIds) {
             const currentMedia = currentMediaMap.get(mediaId);
             const latestMedia = latestMediaMap.get(mediaId);
             if (!currentMedia || !latestMedia) continue;
 
-            const isManga = latestMedia.type === 'MANGA' || latestMedia.type === 'NOVEL' || latestMedia.type === 'ONE_SHOT';
-            const oldVal = isManga ? currentMedia.chapters : currentMedia.episodes;
-            const newVal = isManga ? latestMedia.chapters : latestMedia.episodes;
-            
+            const oldVal = currentMedia.chapters;
+            const newVal = latestMedia.chapters;
             if (newVal != null && (oldVal == null || newVal > oldVal)) {
                 addInteraction(latestMedia, newVal - (oldVal || 0));
-                newUpdates[mediaId] = { newEpisodes: isManga ? 0 : newVal - (oldVal || 0), newChapters: isManga ? newVal - (oldVal || 0) : 0 };
+                newUpdates[mediaId] = { newEpisodes: 0, newChapters: newVal - (oldVal || 0) };
             }
         }
         if (Object.keys(newUpdates).length > 0) setUpdates((prev: any) => ({ ...prev, ...newUpdates }));
@@ -411,7 +795,7 @@ function useAuthCore() {
         const updatedTracked = trackedMedia.map(m => latestMediaMap.get(m.id) || m);
         setTrackedMedia(updatedTracked);
         await set(IDB_TRACKED_MEDIA_KEY, updatedTracked);
-    }, [listData.currentlyWatching, listData.currentlyReading, trackedMedia, addLog, addInteraction]);
+    }, [listData.statuses, trackedMedia, addLog, addInteraction, addAiredEpisodes]);
 
     const runChecks = useCallback(async () => {
         if (isCheckingForUpdates) return;
@@ -430,8 +814,8 @@ function useAuthCore() {
         };
     }, [authMode, runChecks]);
     
-    const markInteractionAsRead = (id: string) => updateAndPersistListData(d => ({ notifications: d.notifications?.map(n => n.id === id ? { ...n, seen: true, seenAt: new Date().toISOString() } : n) || [] }));
-    const markAllInteractionsAsRead = () => updateAndPersistListData(d => ({ notifications: d.notifications?.map(n => ({...n, seen: true, seenAt: new Date().toISOString() })) || [] }));
+    const markInteractionAsRead = (id: string) => updateAndPersistListData(d => ({ notifications: d.notifications?.map(n => n.id === id ? { ...n, seen: true, seenAt: new Date().toISOString() } : n) || [] }), { record: false });
+    const markAllInteractionsAsRead = () => updateAndPersistListData(d => ({ notifications: d.notifications?.map(n => ({...n, seen: true, seenAt: new Date().toISOString() })) || [] }), { record: false });
     
     // --- REMINDERS LOGIC ---
     const reminders = useMemo(() => listData.reminders || [], [listData.reminders]);
@@ -441,11 +825,9 @@ function useAuthCore() {
         if (!reminder.autoStopOnCompletion) return false;
         const media = trackedMedia.find(m => m.id === reminder.mediaId);
         if (!media) return false;
-        const totalUnits = media.type === 'MANGA' ? (media.chapters || media.volumes) : media.episodes;
-        if (!totalUnits || totalUnits === 0) return false;
-        if (media.type === 'MANGA') return (listData.readChapters?.[media.id]?.read?.length || 0) >= totalUnits;
-        return (listData.watchedEpisodes?.[media.id]?.length || 0) >= totalUnits;
-    }, [trackedMedia, listData.watchedEpisodes, listData.readChapters]);
+        const { count, total } = getTrackedProgress(listData, media);
+        return !!total && count >= total;
+    }, [trackedMedia, listData]);
 
     const checkRemindersAndCreateNotifications = useCallback(() => {
         const existingReminderNotifications = new Set(notifications.filter(n => n.type === 'reminder').map(n => (n as ReminderNotification).reminderId));
@@ -467,7 +849,7 @@ function useAuthCore() {
             }
         });
         if (newNotifications.length > 0) {
-            updateAndPersistListData(currentData => ({ notifications: [...currentData.notifications, ...newNotifications] }));
+            updateAndPersistListData(currentData => ({ notifications: [...currentData.notifications, ...newNotifications] }), { record: false });
         }
     }, [reminders, notifications, updateAndPersistListData, isMediaCompleted]);
     
@@ -484,8 +866,42 @@ function useAuthCore() {
     };
     const updateReminder = (id: string, data: Partial<Reminder>) => updateAndPersistListData(currentData => ({ reminders: currentData.reminders.map(r => r.id === id ? { ...r, ...data } : r) }));
     const deleteReminder = (id: string) => updateAndPersistListData(currentData => ({ reminders: currentData.reminders.filter(r => r.id !== id), notifications: currentData.notifications.filter(n => (n as any).reminderId !== id) }));
-    const markReminderAsSeen = (id: string) => updateAndPersistListData(currentData => ({ notifications: currentData.notifications.map(n => n.id === id ? { ...n, seen: true, seenAt: new Date().toISOString() } : n) || [] }));
-    const markAllRemindersAsSeen = () => updateAndPersistListData(currentData => ({ notifications: currentData.notifications.map(n => n.type === 'reminder' && !n.seen ? { ...n, seen: true, seenAt: new Date().toISOString() } : n) }));
+    const markReminderAsSeen = (id: string) => updateAndPersistListData(currentData => ({ notifications: currentData.notifications.map(n => n.id === id ? { ...n, seen: true, seenAt: new Date().toISOString() } : n) || [] }), { record: false });
+    const markAllRemindersAsSeen = () => updateAndPersistListData(currentData => ({ notifications: currentData.notifications.map(n => n.type === 'reminder' && !n.seen ? { ...n, seen: true, seenAt: new Date().toISOString() } : n) }), { record: false });
+
+    // --- CUSTOM LISTS LOGIC ---
+    const createCustomList = (name: string, description = '', mediaIds: number[] = []): CustomList => {
+        const now = new Date().toISOString();
+        const list: CustomList = { id: uuidv4(), name, description, mediaIds, createdAt: now, updatedAt: now };
+        updateAndPersistListData(d => ({ customLists: [...(d.customLists || []), list] }), { label: 'history_action_create_custom_list', subject: name });
+        return list;
+    };
+    // Replaces the list's fields with what `getChanges` returns and bumps its updatedAt.
+    const changeCustomList = (id: string, getChanges: (list: CustomList) => Partial<Omit<CustomList, 'id'>>, options: ListChangeOptions) =>
+        updateAndPersistListData(d => ({
+            customLists: (d.customLists || []).map(list => list.id === id ? { ...list, ...getChanges(list), updatedAt: new Date().toISOString() } : list),
+        }), options);
+    const renameCustomList = (id: string, name: string, description: string) =>
+        changeCustomList(id, () => ({ name, description }), { label: 'history_action_edit_custom_list', subject: name });
+    const deleteCustomList = (id: string) =>
+        updateWithUndo("Custom list deleted", { label: 'history_action_delete_custom_list', subject: findCustomList(listData.customLists, id)?.name }, d => ({
+            customLists: (d.customLists || []).filter(list => list.id !== id),
+        }));
+    // Adds the media to the end of the list, or takes it out when it is already there.
+    const toggleCustomListMedia = (id: string, media: Anime) =>
+        changeCustomList(id, list => ({
+            mediaIds: list.mediaIds.includes(media.id) ? list.mediaIds.filter(mediaId => mediaId !== media.id) : [...list.mediaIds, media.id],
+        }), { label: 'history_action_edit_custom_list', subject: media.title });
+    const moveCustomListMedia = (id: string, mediaId: number, offset: number) =>
+        changeCustomList(id, list => ({ mediaIds: moveMediaId(list.mediaIds, mediaId, offset) }), { label: 'history_action_reorder_custom_list', subject: findCustomList(listData.customLists, id)?.name });
+    // One page of the list's media, in list order (AniList returns them in its own order).
+    const getCustomListMedia = useCallback(async (id: string, page: number, perPage: number) => {
+        const ids = findCustomList(listData.customLists, id)?.mediaIds || [];
+        const pageIds = ids.slice((page - 1) * perPage, page * perPage);
+        const media = await getMediaForList(pageIds);
+        const data = [...media].sort((a, b) => pageIds.indexOf(a.id) - pageIds.indexOf(b.id));
+        return { data, hasNextPage: ids.length > page * perPage };
+    }, [listData.customLists, getMediaForList]);
 
     // --- UI SETTINGS LOGIC ---
     const layoutConfig = useMemo(() => listData.layoutConfig || defaultLayoutConfig, [listData.layoutConfig]);
@@ -501,12 +917,141 @@ function useAuthCore() {
         const newConfig = { url: null, lastSync: null, lastSize: null, lastEtag: null };
         setSharedDataConfig(newConfig);
         set(IDB_SHARED_DATA_KEY, newConfig);
+        del(SHARED_BASE_KEY);
+        sharedPassphraseRef.current = null;
         if (showToast) toast({ title: 'Disconnected' });
     }, [toast]);
     
-    const convertToRawGistUrl = (url: string) => {
-        const match = url.match(/gist\.github\.com\/([a-zA-Z0-9_-]+)\/([a-f0-9]+)/);
-        return match ? `https://gist.githubusercontent.com/${match[1]}/${match[2]}/raw` : url;
+    // Adds the incoming tracked media for the given ids unless it's already tracked.
+    const trackIncomingMedia = async (incoming: Anime[] | null | undefined, ids: Set<number>) => {
+        const currentTracked = await get<Anime[]>(IDB_TRACKED_MEDIA_KEY) || [];
+        const trackedIds = new Set(currentTracked.map(item => item.id));
+        const newTracked = [...currentTracked, ...(incoming || []).filter(item => ids.has(item.id) && !trackedIds.has(item.id))];
+        if (newTracked.length === currentTracked.length) return;
+        await set(IDB_TRACKED_MEDIA_KEY, newTracked);
+        setTrackedMedia(newTracked);
+    };
+
+    // Opens the passphrase prompt (rendered by PassphraseDialog) and resolves with what the user
+    // entered, or null when they cancel.
+    const requestPassphrase = useCallback((request: PassphraseRequest) => new Promise<string | null>(resolve => {
+        passphraseResolverRef.current?.(null);
+        passphraseResolverRef.current = resolve;
+        setPassphraseRequest(request);
+    }), []);
+
+    const submitPassphrase = (passphrase: string | null) => {
+        passphraseResolverRef.current?.(passphrase);
+        passphraseResolverRef.current = null;
+        setPassphraseRequest(null);
+    };
+
+    // Returns the data as is when it isn't encrypted; otherwise asks for the passphrase until it
+    // decrypts or the user gives up.
+    const decryptIfNeeded = useCallback(async (input: unknown, reason: PassphraseRequest['reason']): Promise<unknown> => {
+        if (!isEncryptedPayload(input)) return input;
+        let passphrase = reason === 'sync' ? sharedPassphraseRef.current : null;
+        let retry = false;
+        for (;;) {
+            passphrase = passphrase ?? await requestPassphrase({ reason, retry });
+            if (passphrase === null) throw new Error("This data is encrypted and no passphrase was entered.");
+            try {
+                const decrypted = JSON.parse(await decryptText(input, passphrase));
+                if (reason === 'sync') sharedPassphraseRef.current = passphrase;
+                return decrypted;
+            } catch (error) {
+                if (!(error instanceof WrongPassphraseError)) throw error;
+                addLog(`Could not decrypt ${reason} data with the given passphrase.`, 'warn');
+                passphrase = null;
+                retry = true;
+            }
+        }
+    }, [requestPassphrase, addLog]);
+
+    // Migrates and validates incoming data (an export file or the shared JSON); see
+    // lib/data/bundle-schema.ts. Throws when the data can't be used at all.
+    const parseIncomingBundle = useCallback((input: unknown, source: StoredValidationReport['source']) => {
+        if (!input || typeof input !== 'object' || Array.isArray(input)) throw new Error("This is not AnimeSync data.");
+        const { bundle: migrated, fromVersion, toVersion } = migrateBundle(input as DataBundle);
+        if (fromVersion !== toVersion) addLog(`Upgraded ${source} data from schema v${fromVersion} to v${toVersion}.`);
+        const { bundle, report } = validateBundle(migrated);
+        if (report.issues.length > 0) addLog(`Validated ${source} data: ${report.issues.length} invalid values found.`, 'warn', formatValidationReport(report));
+        const stored: StoredValidationReport = { source, createdAt: new Date().toISOString(), report };
+        setValidationReport(stored);
+        return { bundle, report: stored };
+    }, [addLog]);
+
+    const dismissValidationReport = async () => {
+        setValidationReport(null);
+        await del(IDB_VALIDATION_REPORT_KEY);
+    };
+
+    useEffect(() => {
+        if (authMode !== 'local') return;
+        get<StoredValidationReport>(IDB_VALIDATION_REPORT_KEY).then(report => report && setValidationReport(report));
+    }, [authMode]);
+
+    // Two-way sync, used when a push target is configured. Remote changes are merged into the
+    // local lists against the copy both sides last agreed on (see mergeThreeWay), then the result
+    // is written back. A conflict means another device wrote in between, so it reads and merges again.
+    const pushSharedData = async (config: SharedDataConfig, push: SharedPushConfig) => {
+        let { lastEtag, lastSize, encrypted } = config;
+        let merged = false;
+        for (let attempt = 1; ; attempt++) {
+            const read = await fetchShared(config.url!, lastEtag, push);
+            const stored = await readStoredBundle();
+            // The base may predate a schema change; it has to be compared in the current shape.
+            const storedBase = await get<ListData>(SHARED_BASE_KEY);
+            const base = storedBase ? migrateBundle({ lists: storedBase }).bundle.lists! : null;
+            let lists = stored.lists || initialListData;
+            let remoteLists = base;
+
+            if (read.text !== null) {
+                const raw = JSON.parse(read.text);
+                encrypted = isEncryptedPayload(raw);
+                const { bundle: remote } = parseIncomingBundle(await decryptIfNeeded(raw, 'sync'), 'sync');
+                remoteLists = remote.lists!;
+                const changes = mergeThreeWay(base, lists, remoteLists);
+                if (Object.keys(changes).length > 0) {
+                    if (!merged) await takeSnapshot('shared-sync');
+                    lists = { ...lists, ...changes };
+                    merged = true;
+                    updateAndPersistListData(current => mergeThreeWay(base, current, remote.lists!), { label: 'history_action_shared_sync' });
+                    await trackIncomingMedia(remote.tracked, new Set(Object.keys(lists.statuses || {}).map(Number)));
+                }
+                lastEtag = read.etag;
+                lastSize = read.size;
+            }
+
+            let pushed = false;
+            if (JSON.stringify(lists) !== JSON.stringify(remoteLists)) {
+                // The profile is this device's sign-in, not shared data.
+                const payload = JSON.stringify({ ...stored, profile: undefined, lists, schemaVersion: CURRENT_SCHEMA_VERSION }, null, 2);
+                let body = payload;
+                if (encrypted) {
+                    const passphrase = sharedPassphraseRef.current ?? await requestPassphrase({ reason: 'sync', retry: false });
+                    if (!passphrase) throw new Error("The shared data is encrypted and no passphrase was entered.");
+                    sharedPassphraseRef.current = passphrase;
+                    body = JSON.stringify(await encryptText(payload, passphrase));
+                }
+                try {
+                    lastEtag = await pushShared(push, body, lastEtag);
+                    lastSize = body.length;
+                    pushed = true;
+                } catch (error) {
+                    if (!(error instanceof PushConflictError) || attempt >= MAX_PUSH_ATTEMPTS) throw error;
+                    addLog(`Shared data changed during the write (attempt ${attempt}); merging again.`, 'warn');
+                    lastEtag = null;
+                    continue;
+                }
+            }
+
+            await set(SHARED_BASE_KEY, lists);
+            const newConfig = { ...config, lastSync: new Date().toISOString(), lastEtag, lastSize, encrypted };
+            setSharedDataConfig(newConfig);
+            await set(IDB_SHARED_DATA_KEY, newConfig);
+            return { merged, pushed };
+        }
     };
 
     const syncSharedData = useCallback(async (isManualTrigger = false) => {
@@ -515,8 +1060,25 @@ function useAuthCore() {
         if (isSyncing) return;
         setIsSyncing(true);
 
+        if (currentConfig.push) {
+            try {
+                const { merged, pushed } = await pushSharedData(currentConfig, currentConfig.push);
+                if (merged || pushed) addLog(`Shared sync: ${merged ? 'merged remote changes' : 'no remote changes'}, ${pushed ? 'pushed local changes' : 'nothing to push'}.`);
+                if (isManualTrigger || merged) {
+                    toast({ title: merged || pushed ? "Sync Successful" : "Already Up-to-Date", description: merged ? "Changes from the shared data were merged." : undefined });
+                }
+            } catch (error: any) {
+                // Unlike a pull-only connection, a failed write keeps the connection.
+                addLog('Shared sync failed.', 'error', error.message);
+                toast({ variant: 'destructive', title: "Sync Failed", description: error.message });
+            } finally {
+                setIsSyncing(false);
+            }
+            return;
+        }
+
         try {
-            const rawUrl = convertToRawGistUrl(currentConfig.url);
+            const rawUrl = toRawGistUrl(currentConfig.url);
             const proxyUrl = `/api/proxy?url=${encodeURIComponent(rawUrl)}`;
             const headers: HeadersInit = isManualTrigger ? {} : (currentConfig.lastEtag ? { 'If-None-Match': currentConfig.lastEtag } : {});
             
@@ -525,19 +1087,20 @@ function useAuthCore() {
             if (response.status === 304) {
                 if (isManualTrigger) toast({ title: "Already Up-to-Date" });
             } else if (response.ok) {
-                const data = await response.json();
-                if (!data.profile || !data.lists) throw new Error("Invalid data structure.");
+                const { bundle, report } = parseIncomingBundle(await decryptIfNeeded(await response.json(), 'sync'), 'sync');
                 
-                await set(IDB_PROFILE_KEY, data.profile);
-                await set(IDB_LIST_DATA_KEY, data.lists);
-                if (data.layout) await set(IDB_LAYOUT_CONFIG_KEY, data.layout);
-                if (data.tracked) await set(IDB_TRACKED_MEDIA_KEY, data.tracked);
+                await takeSnapshot('shared-sync');
+                // The local profile stays signed in; only the shared data is replaced.
+                await writeStoredBundle({ ...bundle, profile: undefined });
+                await set(IDB_VALIDATION_REPORT_KEY, report);
+                await set(SHARED_BASE_KEY, bundle.lists);
+                listSyncRef.current?.post({ type: 'replaced', origin: TAB_ID });
 
                 const newConfig = { ...currentConfig, lastSync: new Date().toISOString(), lastEtag: response.headers.get('etag'), lastSize: Number(response.headers.get('content-length') || 0) };
                 setSharedDataConfig(newConfig);
                 await set(IDB_SHARED_DATA_KEY, newConfig);
                 
-                toast({ title: "Sync Successful", description: "Reloading app." });
+                toast({ title: "Sync Successful", description: report.report.issues.length ? `${report.report.issues.length} invalid values were repaired or dropped. Reloading app.` : "Reloading app." });
                 setTimeout(() => window.location.reload(), 1500);
             } else {
                 throw new Error(`Fetch failed: ${response.statusText}`);
@@ -548,7 +1111,7 @@ function useAuthCore() {
         } finally {
             setIsSyncing(false);
         }
-    }, [isSyncing, toast, disconnectFromSharedData]);
+    }, [isSyncing, toast, disconnectFromSharedData, parseIncomingBundle, decryptIfNeeded, takeSnapshot]);
 
     useEffect(() => {
         async function loadSharedConfig() {
@@ -559,67 +1122,161 @@ function useAuthCore() {
         loadSharedConfig();
     }, [authMode]);
 
-    const connectToSharedData = async (url: string) => {
-        const newConfig = { url, lastSync: null, lastSize: null, lastEtag: null };
+    // Pass a push target to sync both ways; without one the shared data is only pulled.
+    const connectToSharedData = async (url: string, push: SharedPushConfig | null = null) => {
+        const newConfig = { url, lastSync: null, lastSize: null, lastEtag: null, push };
         setSharedDataConfig(newConfig);
         await set(IDB_SHARED_DATA_KEY, newConfig);
         await syncSharedData(true);
     };
+
+    // Turns two-way sync on (with the given target) or off for the connected shared data.
+    const configureSharedPush = async (push: SharedPushConfig | null) => {
+        const currentConfig = await get<SharedDataConfig>(IDB_SHARED_DATA_KEY);
+        if (!currentConfig?.url) return;
+        const newConfig = { ...currentConfig, push };
+        setSharedDataConfig(newConfig);
+        await set(IDB_SHARED_DATA_KEY, newConfig);
+        if (push) await syncSharedData(true);
+    };
+
+    // With two-way sync, local changes are pushed shortly after they're made. The ref keeps the
+    // timer from restarting every time syncSharedData changes identity.
+    const syncSharedDataRef = useRef(syncSharedData);
+    syncSharedDataRef.current = syncSharedData;
+    const isPushEnabled = !!sharedDataConfig.push;
+    useEffect(() => {
+        if (authMode !== 'local' || !isPushEnabled) return;
+        const timer = setTimeout(() => syncSharedDataRef.current(false), SHARED_PUSH_DELAY);
+        return () => clearTimeout(timer);
+    }, [listData, authMode, isPushEnabled]);
     
-    const exportData = async () => {
+    // Exports the active profile, or any other profile when its id is given. With a passphrase the
+    // file is encrypted (see lib/data/backup-crypto.ts); importData asks for it again.
+    const exportData = async (profileId?: string, passphrase?: string) => {
         try {
-            const allData = {
-                profile: await get(IDB_PROFILE_KEY),
-                lists: await get(IDB_LIST_DATA_KEY),
-                layout: await get(IDB_LAYOUT_CONFIG_KEY),
-                tracked: await get(IDB_TRACKED_MEDIA_KEY),
-            };
-            const dataStr = JSON.stringify(allData, null, 2);
-            const blob = new Blob([dataStr], { type: "application/json" });
-            const link = document.createElement("a");
-            link.href = URL.createObjectURL(blob);
-            link.download = `animesync_data_${new Date().toISOString().split('T')[0]}.json`;
-            link.click();
-            URL.revokeObjectURL(link.href);
+            const databaseName = profileId ? getProfileDatabaseName(profileId) : undefined;
+            const allData: DataBundle = { ...await readStoredBundle(databaseName), schemaVersion: CURRENT_SCHEMA_VERSION };
+            const profileName = profileId ? `${allData.profile?.username || profileId}_` : '';
+            const json = JSON.stringify(allData, null, 2);
+            downloadFile({
+                content: passphrase ? JSON.stringify(await encryptText(json, passphrase), null, 2) : json,
+                filename: `animesync_data_${profileName}${passphrase ? 'encrypted_' : ''}${new Date().toISOString().split('T')[0]}.json`,
+                mimeType: "application/json",
+            });
             toast({ title: "Download Started" });
         } catch (error: any) {
             toast({ variant: 'destructive', title: 'Export Failed', description: error.message });
         }
     };
 
-    const importData = (file: File) => {
-        const reader = new FileReader();
-        reader.onload = async (e) => {
-            try {
-                const data = JSON.parse(e.target?.result as string);
-                if (!data.profile || !data.lists) throw new Error("Invalid file structure.");
-                await set(IDB_PROFILE_KEY, data.profile);
-                await set(IDB_LIST_DATA_KEY, data.lists);
-                if (data.layout) await set(IDB_LAYOUT_CONFIG_KEY, data.layout);
-                if (data.tracked) await set(IDB_TRACKED_MEDIA_KEY, data.tracked);
-                toast({ title: "Import Successful", description: "Reloading app." });
-                setTimeout(() => window.location.reload(), 1500);
-            } catch (error: any) {
-                toast({ variant: 'destructive', title: "Import Failed", description: error.message });
+    // Exports one list (or all of them) as CSV/TSV or MyAnimeList XML. Titles and totals come from
+    // trackedMedia; titles that aren't tracked (e.g. completed ones) are fetched first.
+    const exportLists = async (list: ExportListName | 'all', format: ExportFormat) => {
+        try {
+            const lists = list === 'all' ? EXPORT_LISTS : [list];
+            const media = await getMediaDetails(lists.flatMap(name => getExportListIds(listData, name)));
+
+            const rows = buildExportRows(listData, media, lists);
+            downloadFile(formatExport(rows, format, list, localProfile?.username || ''));
+            toast({ title: "Download Started" });
+        } catch (error: any) {
+            toast({ variant: 'destructive', title: 'Export Failed', description: error.message });
+        }
+    };
+
+    // Parses and upgrades an export file without storing anything.
+    const readImportFile = async (file: File) => {
+        return parseIncomingBundle(await decryptIfNeeded(JSON.parse(await file.text()), 'import'), 'import');
+    };
+
+    // Fetches the shared JSON for a merge preview. Unlike syncSharedData this ignores the ETag
+    // and doesn't touch the stored sync state.
+    const fetchSharedBundle = async (): Promise<DataBundle> => {
+        const currentConfig = await get<SharedDataConfig>(IDB_SHARED_DATA_KEY);
+        if (!currentConfig?.url) throw new Error("No shared data URL is connected.");
+        const response = await fetch(`/api/proxy?url=${encodeURIComponent(toRawGistUrl(currentConfig.url))}`);
+        if (!response.ok) throw new Error(`Fetch failed: ${response.statusText}`);
+        return parseIncomingBundle(await decryptIfNeeded(await response.json(), 'sync'), 'sync').bundle;
+    };
+
+    const importData = async (file: File) => {
+        try {
+            const { bundle, report } = await readImportFile(file);
+            if (!activeProfileId) {
+                // Importing while signed out creates a new profile for the imported data.
+                const registry = loadProfileRegistry();
+                const profileId = registry.profiles.length === 0 ? DEFAULT_PROFILE_ID : uuidv4();
+                bundle.profile = { ...bundle.profile!, id: profileId };
+                activateProfileDatabase(profileId);
+                registerProfile(toProfileSummary(profileId, bundle.profile));
+            } else {
+                await takeSnapshot('import');
             }
-        };
-        reader.readAsText(file);
+            await writeStoredBundle(bundle);
+            await set(IDB_VALIDATION_REPORT_KEY, report);
+            listSyncRef.current?.post({ type: 'replaced', origin: TAB_ID });
+            toast({ title: "Import Successful", description: report.report.issues.length ? `${report.report.issues.length} invalid values were repaired or dropped. Reloading app.` : "Reloading app." });
+            setTimeout(() => window.location.reload(), 1500);
+        } catch (error: any) {
+            toast({ variant: 'destructive', title: "Import Failed", description: error.message });
+        }
+    };
+
+    // Applies a previewed MyAnimeList import on top of the current lists (see lib/data/mal-import.ts).
+    const importMalData = async (plan: MalImportPlan) => {
+        await takeSnapshot('import');
+        updateAndPersistListData(d => applyMalImportPlan(d, plan), { label: 'history_action_mal_import', subject: 'MyAnimeList' });
+
+        const currentTracked = await get<Anime[]>(IDB_TRACKED_MEDIA_KEY) || [];
+        const trackedIds = new Set(currentTracked.map(item => item.id));
+        const newTracked = [...currentTracked, ...getMediaToTrack(plan).filter(item => !trackedIds.has(item.id))];
+        await set(IDB_TRACKED_MEDIA_KEY, newTracked);
+        setTrackedMedia(newTracked);
+
+        addLog(`Imported ${plan.matched.length} entries from MyAnimeList.`, 'info', { unmatched: plan.unmatched.map(entry => entry.malId) });
+        toast({ title: "Import Successful", description: `${plan.matched.length} entries imported from MyAnimeList.` });
     };
 
-    const resetLocalData = () => signOut();
+    // Applies the changes the user accepted in the merge preview (see lib/data/list-merge.ts).
+    // Unlike importData this keeps everything else and doesn't reload.
+    const mergeImportData = async (bundle: DataBundle, changes: MergeChange[], accepted: Set<string>, progressMode: ProgressMergeMode) => {
+        const incoming = bundle.lists || {};
+        await takeSnapshot('import');
+        updateAndPersistListData(d => applyMerge(d, incoming, changes, accepted, progressMode), { label: 'history_action_merge_import', subject: bundle.profile?.username });
+
+        // Titles newly added to a list need to be tracked, like when added by hand.
+        const addedIds = new Set(changes.filter(change => change.section === 'lists' && change.action === 'add' && accepted.has(change.id)).map(change => Number(change.key)));
+        await trackIncomingMedia(bundle.tracked, addedIds);
+
+        addLog(`Merged ${accepted.size} of ${changes.length} changes from imported data.`, 'info', { progressMode });
+        toast({ title: "Merge Successful", description: `${accepted.size} changes applied.` });
+    };
+
+    const resetLocalData = async () => {
+        if (!activeProfileId) return signOut();
+        await takeSnapshot('reset');
+        await deleteProfile(activeProfileId);
+    };
 
     return {
         // Auth
         authMode, localProfile, loading, signInLocally, signOut, updateLocalProfile,
+        // Profiles
+        profiles, activeProfileId, switchProfile, deleteProfile,
         // Lists & Media
         listData, setListData: updateAndPersistListData, trackedMedia,
-        isPlannedToWatch, isCurrentlyWatching, togglePlanToWatch, toggleCurrentlyWatching,
-        isPlannedToRead, isCurrentlyReading, togglePlanToRead, toggleCurrentlyReading,
+        getMediaStatus, setMediaStatus,
         toggleEpisodeWatched, watchAllEpisodes, unwatchAllEpisodes,
         toggleChapterRead, markAllChaptersRead, unmarkAllChaptersRead,
-        getAllWatchedAnime, getCurrentlyWatchingAnime, getPlanToWatchAnime,
-        getAllReadManga, getCurrentlyReadingManga, getPlanToReadManga,
+        toggleVolumeRead, markAllVolumesRead, unmarkAllVolumesRead, setVolumeTracking,
+        setProgressDate, removeProgressEntry,
+        getListMedia, getMediaDetails, findTrackedMedia,
+        createCustomList, renameCustomList, deleteCustomList, toggleCustomListMedia, moveCustomListMedia, getCustomListMedia,
         clearCompletedList, clearReadList, removeItemFromList,
+        updateListEntry, removeListEntry, setScoreFormat,
+        // Undo History
+        listJournal, undoListChange, redoListChange,
         // Updates & Notifications
         updates, runChecks, isCheckingForUpdates, addInteraction, markInteractionAsRead, markAllInteractionsAsRead,
         markActivityAsRead, markAllActivitiesAsRead,
@@ -629,8 +1286,8 @@ function useAuthCore() {
         layoutConfig, updateLayoutConfig, notificationsLayout, updateNotificationsLayout, pinnedNotificationTab, updatePinnedNotificationTab,
         setHiddenGenres, setSensitiveContentUnlocked,
         // Data Management
-        exportData, importData, resetLocalData, setStorageQuota,
-        sharedDataConfig, connectToSharedData, disconnectFromSharedData, syncSharedData, isSyncing,
+        exportData, exportLists, importData, importMalData, readImportFile, fetchSharedBundle, mergeImportData, takeSnapshot, restoreSnapshot, validationReport, dismissValidationReport, passphraseRequest, submitPassphrase, resetLocalData, setStorageQuota,
+        sharedDataConfig, connectToSharedData, configureSharedPush, disconnectFromSharedData, syncSharedData, isSyncing,
         // Other
         setCustomEpisodeLinks, clearDataSection,
         showDebugLogs, setDebugLogs
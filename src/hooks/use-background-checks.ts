@@ -0,0 +1,43 @@
+'use client';
+
+import { useEffect, useMemo } from 'react';
+import { useAuth } from '@/hooks/use-auth';
+import { useLogger } from '@/hooks/use-logger';
+import { useTranslation } from '@/hooks/use-translation';
+import { buildBackgroundState, registerServiceWorker, requestBackgroundCheck, saveBackgroundState } from '@/lib/background-checks';
+
+// How often an open but hidden tab asks the service worker to check.
+const HIDDEN_CHECK_INTERVAL = 15 * 60 * 1000;
+
+/**
+ * Registers the service worker and keeps its summary of the lists up to date, so it can check
+ * for updates and due reminders in the background (see lib/background-checks.ts).
+ */
+export function useBackgroundChecks() {
+  const { authMode, activeProfileId, listData, trackedMedia } = useAuth();
+  const { addLog } = useLogger();
+  const { t } = useTranslation();
+  // Notification texts, with the placeholders the service worker fills in.
+  const labels = useMemo(() => ({
+    episodeAired: t('episode_aired', { episode: '{{episode}}' }),
+    newChapters: t('new_chapters_available', { count: '{{count}}' }),
+  }), [t]);
+
+  useEffect(() => {
+    registerServiceWorker().catch(error => addLog('Service worker registration failed', 'warn', error));
+  }, [addLog]);
+
+  useEffect(() => {
+    if (authMode !== 'local' || !activeProfileId) return;
+    saveBackgroundState(buildBackgroundState(activeProfileId, listData, trackedMedia, labels))
+      .catch(error => addLog('Could not save the background check state', 'warn', error));
+  }, [authMode, activeProfileId, listData, trackedMedia, labels, addLog]);
+
+  useEffect(() => {
+    if (authMode !== 'local') return;
+    const intervalId = setInterval(() => {
+      if (document.visibilityState === 'hidden') requestBackgroundCheck().catch(() => {});
+    }, HIDDEN_CHECK_INTERVAL);
+    return () => clearInterval(intervalId);
+  }, [authMode]);
+}
@@ -0,0 +1,22 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useAuth } from '@/hooks/use-auth';
+import { useLogger } from '@/hooks/use-logger';
+import { useOnlineStatus } from '@/hooks/use-online-status';
+import { cacheTrackedMedia } from '@/lib/offline-cache';
+
+/**
+ * Keeps the pages and covers of tracked titles cached for offline use while the app is online
+ * (see lib/offline-cache.ts).
+ */
+export function useOfflineCache() {
+  const { authMode, trackedMedia } = useAuth();
+  const { addLog } = useLogger();
+  const isOnline = useOnlineStatus();
+
+  useEffect(() => {
+    if (authMode !== 'local' || !isOnline) return;
+    cacheTrackedMedia(trackedMedia).catch(error => addLog('Could not cache tracked media for offline use', 'warn', error));
+  }, [authMode, trackedMedia, isOnline, addLog]);
+}
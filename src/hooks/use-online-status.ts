@@ -0,0 +1,25 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+
+/**
+ * Whether the browser reports a network connection, updated as it comes and goes.
+ *
+ * @returns `false` while offline.
+ */
+export function useOnlineStatus() {
+  const [isOnline, setIsOnline] = useState(true);
+
+  useEffect(() => {
+    const update = () => setIsOnline(navigator.onLine);
+    update();
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  return isOnline;
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import React, { createContext, useContext, useState, ReactNode, useEffect } from 'react';
+import React, { createContext, useContext, useState, ReactNode, useEffect, useCallback } from 'react';
 import { translations } from '@/i18n';
 
 type Language = 'ar' | 'en';
@@ -38,7 +38,8 @@ export function LanguageProvider({ children }: { children: ReactNode }) {
     setLang(prevLang => (prevLang === 'ar' ? 'en' : 'ar'));
   };
 
-  const t = (key: keyof Translations, replacements?: Record<string, string>): string => {
+  // Stable while the language stays the same, so effects can depend on it.
+  const t = useCallback((key: keyof Translations, replacements?: Record<string, string>): string => {
     let translation = translations[lang]?.[key] || translations['en']?.[key] || String(key);
     
     if (replacements) {
@@ -49,7 +50,7 @@ export function LanguageProvider({ children }: { children: ReactNode }) {
     }
 
     return translation;
-  };
+  }, [lang]);
 
   return (
     <LanguageContext.Provider value={{ lang, t, toggleLanguage }}>
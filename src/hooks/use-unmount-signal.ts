@@ -0,0 +1,22 @@
+'use client';
+
+import { useCallback, useEffect, useRef } from 'react';
+
+/**
+ * An AbortSignal for requests started from event handlers, aborted when the component unmounts
+ * so the request scheduler drops whatever is still queued for it. Requests started in an effect
+ * can use an AbortController of their own instead.
+ *
+ * @returns A getter for the current signal (undefined before mount).
+ */
+export function useUnmountSignal() {
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    return () => controller.abort();
+  }, []);
+
+  return useCallback(() => controllerRef.current?.signal, []);
+}
@@ -47,6 +47,15 @@ export const authTranslations = {
         profile_saved: 'تم حفظ الملف الشخصي!',
         or_separator: 'أو',
         restore_from_backup: 'استرداد من نسخة احتياطية',
+        profiles: 'الملفات الشخصية',
+        profiles_desc: 'لكل ملف شخصي قوائمه وإعداداته وبيانات المزامنة الخاصة به على هذا الجهاز.',
+        add_profile: 'إضافة ملف شخصي',
+        add_profile_desc: 'أنشئ ملفًا شخصيًا جديدًا ببيانات منفصلة على هذا الجهاز.',
+        existing_profiles: 'الملفات الشخصية الموجودة',
+        current_profile: 'الحالي',
+        export_profile: 'تصدير',
+        delete_profile: 'حذف الملف الشخصي',
+        delete_profile_confirm: 'سيؤدي هذا إلى حذف الملف الشخصي "{{name}}" وجميع بياناته نهائيًا. للتأكيد، اكتب "حذف".',
     },
     en: {
         sign_in: 'Sign In',
@@ -96,5 +105,14 @@ export const authTranslations = {
         profile_saved: 'Profile Saved!',
         or_separator: 'OR',
         restore_from_backup: 'Restore from Backup',
+        profiles: 'Profiles',
+        profiles_desc: 'Each profile has its own lists, settings and sync data on this device.',
+        add_profile: 'Add Profile',
+        add_profile_desc: 'Create a new profile with separate data on this device.',
+        existing_profiles: 'Existing Profiles',
+        current_profile: 'Current',
+        export_profile: 'Export',
+        delete_profile: 'Delete Profile',
+        delete_profile_confirm: 'This will permanently delete the profile "{{name}}" and all of its data. To confirm, type "delete".',
     }
 };
@@ -8,7 +8,7 @@ export const dataManagementTranslations = {
         import_data_desc: 'استعد بياناتك من ملف JSON تم تصديره مسبقًا.',
         import_data_btn: 'استيراد من نسخة احتياطية',
         reset_data_title: 'إعادة تعيين البيانات',
-        reset_data_desc: 'سيؤدي هذا إلى حذف جميع بياناتك المحلية نهائيًا.',
+        reset_data_desc: 'سيؤدي هذا إلى حذف الملف الشخصي الحالي وجميع بياناته المحلية نهائيًا.',
         reset_data_btn: 'إعادة تعيين كل البيانات',
         reset_data_confirm: 'لا يمكن التراجع عن هذا الإجراء. سيؤدي هذا إلى حذف جميع بياناتك نهائيًا بما في ذلك القوائم وتقدم المشاهدة والإعدادات. للتأكيد، اكتب "حذف".',
         view_raw_data_desc: 'عرض البيانات الخام المخزنة محليًا في قاعدة بيانات المتصفح.',
@@ -29,6 +29,119 @@ export const dataManagementTranslations = {
         storage_limit_desc: 'قم بتعيين الحد الأقصى للمساحة التي يمكن للتطبيق استخدامها على جهازك.',
         storage_limit_reached: 'تم الوصول إلى حد التخزين',
         storage_limit_message: 'لن يتم حفظ أي بيانات جديدة. يرجى زيادة حد التخزين في الإعدادات.',
+        query_cache: 'ذاكرة AniList المؤقتة',
+        query_cache_desc: 'ردود AniList المحفوظة لعرض الصفحات فورًا. تُحدَّث في الخلفية ويمكن مسحها بأمان.',
+        query_cache_entries: '{{count}} استعلام',
+        clear_query_cache: 'مسح الذاكرة المؤقتة',
+        query_cache_cleared: 'تم مسح الذاكرة المؤقتة',
+        history_title: 'سجل التغييرات',
+        history_desc: 'التغييرات التي أجريتها على قوائمك في هذه الجلسة. يمكنك التراجع عن أي منها أو إعادتها.',
+        history_empty: 'لا توجد تغييرات بعد.',
+        undo: 'تراجع',
+        redo: 'إعادة',
+        undo_to_here: 'تراجع إلى هنا',
+        redo_to_here: 'إعادة حتى هنا',
+        history_action_update: 'تحديث القوائم',
+        history_action_unwatch_all: 'إلغاء مشاهدة كل الحلقات',
+        history_action_unread_all: 'إلغاء قراءة كل الفصول',
+        history_action_unread_all_volumes: 'إلغاء قراءة كل المجلدات',
+        history_action_volume_tracking: 'تعديل تتبع المجلدات',
+        history_action_remove_from_list: 'إزالة من القائمة',
+        history_action_set_status: 'تغيير الحالة',
+        history_action_remove_status: 'إزالة من القوائم',
+        history_action_create_custom_list: 'إنشاء قائمة مخصصة',
+        history_action_edit_custom_list: 'تعديل قائمة مخصصة',
+        history_action_delete_custom_list: 'حذف قائمة مخصصة',
+        history_action_reorder_custom_list: 'إعادة ترتيب قائمة مخصصة',
+        history_action_edit_entry: 'تعديل التقييم والملاحظات',
+        history_action_remove_entry: 'حذف التقييم والملاحظات',
+        history_action_edit_progress_date: 'تعديل تاريخ المشاهدة',
+        history_action_remove_progress: 'إزالة من سجل المشاهدة',
+        history_action_clear_completed: 'مسح قائمة المكتمل',
+        history_action_clear_read: 'مسح قائمة المقروء',
+        history_action_clear_section: 'مسح قسم البيانات',
+        history_action_mal_import: 'استيراد من MyAnimeList',
+        mal_import_title: 'الاستيراد من MyAnimeList',
+        mal_import_desc: 'استورد قوائمك وتقدمك من ملف XML تم تصديره من MyAnimeList (أنمي أو مانجا).',
+        mal_import_btn: 'اختيار ملف XML',
+        mal_import_resolving: 'جارٍ مطابقة {{count}} عنصرًا مع AniList...',
+        mal_import_preview_title: 'معاينة الاستيراد',
+        mal_import_preview_desc: 'تمت مطابقة {{matched}} من أصل {{total}} عنصرًا. لم يتم حفظ أي شيء بعد.',
+        mal_import_will_add: 'سيضيف الاستيراد',
+        mal_import_episodes: 'حلقات مشاهدة',
+        mal_import_chapters: 'فصول مقروءة',
+        mal_import_unmatched: 'عناصر غير مطابقة ({{count}})',
+        mal_import_unmatched_desc: 'لم يتم العثور على هذه العناصر في AniList وسيتم تخطيها.',
+        mal_import_confirm: 'استيراد',
+        mal_import_failed: 'فشل الاستيراد',
+        export_lists_title: 'تصدير القوائم',
+        export_lists_desc: 'صدّر قائمة أو كل القوائم كملف CSV/TSV لجداول البيانات، أو بصيغة XML الخاصة بـ MyAnimeList.',
+        export_all_lists: 'كل القوائم',
+        export_format_csv: 'CSV (مفصول بفواصل)',
+        export_format_tsv: 'TSV (مفصول بعلامات جدولة)',
+        export_format_mal_anime: 'MyAnimeList XML (أنمي)',
+        export_format_mal_manga: 'MyAnimeList XML (مانجا)',
+        export_lists_btn: 'تصدير القائمة',
+        history_action_merge_import: 'دمج بيانات مستوردة',
+        history_action_shared_sync: 'دمج تغييرات البيانات المشتركة',
+        merge_import_title: 'الاستيراد مع الدمج',
+        merge_import_desc: 'قارن ملف نسخة احتياطية مع بياناتك الحالية واختر التغييرات التي تريد تطبيقها بدلاً من استبدال كل شيء.',
+        merge_import_btn: 'اختيار ملف للدمج',
+        merge_shared_btn: 'دمج البيانات المشتركة',
+        merge_preview_title: 'معاينة الدمج',
+        merge_preview_desc: 'تم العثور على {{count}} اختلافًا. حدد التغييرات التي تريد تطبيقها، لن يتم حفظ أي شيء قبل التأكيد.',
+        merge_no_changes: 'لا توجد اختلافات، بياناتك مطابقة للبيانات المستوردة.',
+        merge_section_lists: 'القوائم',
+        merge_section_progress: 'التقدم',
+        merge_section_entries: 'التقييمات والملاحظات',
+        merge_section_reminders: 'التنبيهات',
+        merge_section_custom_links: 'الروابط المخصصة',
+        merge_action_add: 'إضافة',
+        merge_action_update: 'تعارض',
+        merge_action_remove: 'إزالة',
+        merge_progress_mode: 'عند اختلاف التقدم',
+        merge_progress_union: 'الجمع بين الاثنين',
+        merge_progress_replace: 'استخدام المستورد',
+        merge_select_all: 'تحديد الكل',
+        merge_select_none: 'إلغاء تحديد الكل',
+        merge_apply: 'تطبيق {{count}} تغييرات',
+        validation_report_import_title: 'تقرير التحقق من الاستيراد',
+        validation_report_sync_title: 'تقرير التحقق من المزامنة',
+        validation_report_desc: 'احتوت البيانات {{time}} على {{count}} قيمة غير صالحة. تم إصلاح ما أمكن وتجاهل الباقي.',
+        validation_report_repaired: 'تم الإصلاح: {{count}}',
+        validation_report_dropped: 'تم التجاهل: {{count}}',
+        validation_action_repaired: 'تم الإصلاح',
+        validation_action_dropped: 'تم التجاهل',
+        validation_report_download: 'تنزيل التقرير',
+        validation_report_dismiss: 'إخفاء التقرير',
+        encrypt_export: 'تشفير بعبارة مرور',
+        encrypt_export_desc: 'يحمي التنبيهات والملاحظات ومعلومات الملف الشخصي في الملف. لا يمكن استعادة الملف بدون عبارة المرور.',
+        passphrase: 'عبارة المرور',
+        passphrase_confirm: 'تأكيد عبارة المرور',
+        passphrase_mismatch: 'عبارتا المرور غير متطابقتين.',
+        passphrase_prompt_title: 'بيانات مشفرة',
+        passphrase_prompt_import_desc: 'هذا الملف مشفر. أدخل عبارة المرور التي استُخدمت عند التصدير.',
+        passphrase_prompt_sync_desc: 'البيانات المشتركة مشفرة. أدخل عبارة المرور لمزامنتها، سيتم تذكرها حتى إغلاق التطبيق.',
+        passphrase_wrong: 'عبارة المرور غير صحيحة، حاول مرة أخرى.',
+        passphrase_unlock: 'فك التشفير',
+        snapshots_title: 'اللقطات التلقائية',
+        snapshots_desc: 'نسخ محلية من بياناتك تُحفظ يوميًا وقبل أي إجراء يحذف أو يستبدل البيانات. يمكنك مقارنتها مع بياناتك الحالية واستعادتها بنقرة واحدة.',
+        snapshot_retention: 'عدد اللقطات المحفوظة',
+        snapshot_retention_option: 'آخر {{count}} لقطات',
+        snapshot_take: 'التقاط الآن',
+        snapshots_empty: 'لا توجد لقطات بعد.',
+        snapshot_counts: '{{lists}} في القوائم، {{episodes}} حلقة، {{chapters}} فصل',
+        snapshot_compare: 'مقارنة مع البيانات الحالية',
+        snapshot_restore: 'استعادة',
+        snapshot_no_diff: 'هذه اللقطة مطابقة لبياناتك الحالية.',
+        snapshot_diff_desc: 'الاستعادة ستعيد (+) أو تحذف (-):',
+        snapshot_reason_daily: 'يومية',
+        snapshot_reason_manual: 'يدوية',
+        snapshot_reason_reset: 'قبل الحذف',
+        snapshot_reason_clear_section: 'قبل مسح قسم',
+        snapshot_reason_import: 'قبل الاستيراد',
+        snapshot_reason_shared_sync: 'قبل المزامنة',
+        snapshot_reason_restore: 'قبل الاستعادة',
     },
     en: {
         data_management: 'Data Management',
@@ -39,7 +152,7 @@ export const dataManagementTranslations = {
         import_data_desc: 'Restore your data from a previously exported JSON file.',
         import_data_btn: 'Import from Backup',
         reset_data_title: 'Reset Data',
-        reset_data_desc: 'This will permanently delete all your local data.',
+        reset_data_desc: 'This will permanently delete the current profile and all of its local data.',
         reset_data_btn: 'Reset All Data',
         reset_data_confirm: 'This action cannot be undone. This will permanently delete all your data including lists, watch progress, and settings. To confirm, type "delete".',
         view_raw_data_desc: 'View the raw data stored locally in your browser\'s database.',
@@ -60,5 +173,118 @@ export const dataManagementTranslations = {
         storage_limit_desc: 'Set the maximum space the app can use on your device.',
         storage_limit_reached: 'Storage Limit Reached',
         storage_limit_message: 'No new data will be saved. Please increase your storage limit in settings.',
+        query_cache: 'AniList Cache',
+        query_cache_desc: 'Saved AniList responses that let pages show up instantly. They refresh in the background and are safe to clear.',
+        query_cache_entries: '{{count}} queries',
+        clear_query_cache: 'Clear Cache',
+        query_cache_cleared: 'Cache cleared',
+        history_title: 'Change History',
+        history_desc: 'Changes made to your lists during this session. You can undo or redo any of them.',
+        history_empty: 'No changes yet.',
+        undo: 'Undo',
+        redo: 'Redo',
+        undo_to_here: 'Undo to here',
+        redo_to_here: 'Redo to here',
+        history_action_update: 'Lists updated',
+        history_action_unwatch_all: 'All episodes unwatched',
+        history_action_unread_all: 'All chapters unread',
+        history_action_unread_all_volumes: 'All volumes unread',
+        history_action_volume_tracking: 'Volume tracking changed',
+        history_action_remove_from_list: 'Removed from list',
+        history_action_set_status: 'Status changed',
+        history_action_remove_status: 'Removed from lists',
+        history_action_create_custom_list: 'Custom list created',
+        history_action_edit_custom_list: 'Custom list edited',
+        history_action_delete_custom_list: 'Custom list deleted',
+        history_action_reorder_custom_list: 'Custom list reordered',
+        history_action_edit_entry: 'Score & notes edited',
+        history_action_remove_entry: 'Score & notes deleted',
+        history_action_edit_progress_date: 'Watch date edited',
+        history_action_remove_progress: 'Removed from watch history',
+        history_action_clear_completed: 'Completed list cleared',
+        history_action_clear_read: 'Read list cleared',
+        history_action_clear_section: 'Data section cleared',
+        history_action_mal_import: 'Imported from MyAnimeList',
+        mal_import_title: 'Import from MyAnimeList',
+        mal_import_desc: 'Import your lists and progress from a MyAnimeList XML export (anime or manga).',
+        mal_import_btn: 'Choose XML File',
+        mal_import_resolving: 'Matching {{count}} entries with AniList...',
+        mal_import_preview_title: 'Import Preview',
+        mal_import_preview_desc: '{{matched}} of {{total}} entries matched. Nothing has been saved yet.',
+        mal_import_will_add: 'The import will add',
+        mal_import_episodes: 'Watched episodes',
+        mal_import_chapters: 'Read chapters',
+        mal_import_unmatched: 'Unmatched entries ({{count}})',
+        mal_import_unmatched_desc: 'These entries were not found on AniList and will be skipped.',
+        mal_import_confirm: 'Import',
+        mal_import_failed: 'Import Failed',
+        export_lists_title: 'Export Lists',
+        export_lists_desc: 'Export one or all lists as CSV/TSV for spreadsheets, or as MyAnimeList XML for other trackers.',
+        export_all_lists: 'All Lists',
+        export_format_csv: 'CSV (comma separated)',
+        export_format_tsv: 'TSV (tab separated)',
+        export_format_mal_anime: 'MyAnimeList XML (anime)',
+        export_format_mal_manga: 'MyAnimeList XML (manga)',
+        export_lists_btn: 'Export List',
+        history_action_merge_import: 'Merged imported data',
+        history_action_shared_sync: 'Merged shared data changes',
+        merge_import_title: 'Merge Import',
+        merge_import_desc: 'Compare a backup file with your current data and choose which changes to apply, instead of replacing everything.',
+        merge_import_btn: 'Choose File to Merge',
+        merge_shared_btn: 'Merge Shared Data',
+        merge_preview_title: 'Merge Preview',
+        merge_preview_desc: '{{count}} differences found. Select the changes to apply; nothing is saved until you confirm.',
+        merge_no_changes: 'No differences, your data already matches the imported data.',
+        merge_section_lists: 'Lists',
+        merge_section_progress: 'Progress',
+        merge_section_entries: 'Scores & Notes',
+        merge_section_reminders: 'Reminders',
+        merge_section_custom_links: 'Custom Links',
+        merge_action_add: 'Add',
+        merge_action_update: 'Conflict',
+        merge_action_remove: 'Remove',
+        merge_progress_mode: 'When progress differs',
+        merge_progress_union: 'Combine both',
+        merge_progress_replace: 'Use imported',
+        merge_select_all: 'Select all',
+        merge_select_none: 'Select none',
+        merge_apply: 'Apply {{count}} changes',
+        validation_report_import_title: 'Import Validation Report',
+        validation_report_sync_title: 'Sync Validation Report',
+        validation_report_desc: 'The data received {{time}} had {{count}} invalid values. What could be repaired was repaired; the rest was dropped.',
+        validation_report_repaired: 'Repaired: {{count}}',
+        validation_report_dropped: 'Dropped: {{count}}',
+        validation_action_repaired: 'Repaired',
+        validation_action_dropped: 'Dropped',
+        validation_report_download: 'Download Report',
+        validation_report_dismiss: 'Dismiss report',
+        encrypt_export: 'Encrypt with a passphrase',
+        encrypt_export_desc: 'Protects reminders, notes and profile info in the file. The file cannot be restored without the passphrase.',
+        passphrase: 'Passphrase',
+        passphrase_confirm: 'Confirm passphrase',
+        passphrase_mismatch: 'The passphrases do not match.',
+        passphrase_prompt_title: 'Encrypted Data',
+        passphrase_prompt_import_desc: 'This file is encrypted. Enter the passphrase that was used when exporting it.',
+        passphrase_prompt_sync_desc: 'The shared data is encrypted. Enter its passphrase to sync; it is remembered until the app is closed.',
+        passphrase_wrong: 'Wrong passphrase, please try again.',
+        passphrase_unlock: 'Decrypt',
+        snapshots_title: 'Automatic Snapshots',
+        snapshots_desc: 'Local copies of your data, saved daily and before anything that deletes or replaces data. Compare them with your current data and restore in one click.',
+        snapshot_retention: 'Snapshots to keep',
+        snapshot_retention_option: 'Last {{count}} snapshots',
+        snapshot_take: 'Take Snapshot',
+        snapshots_empty: 'No snapshots yet.',
+        snapshot_counts: '{{lists}} on lists, {{episodes}} episodes, {{chapters}} chapters',
+        snapshot_compare: 'Compare with current data',
+        snapshot_restore: 'Restore',
+        snapshot_no_diff: 'This snapshot matches your current data.',
+        snapshot_diff_desc: 'Restoring would bring back (+) or remove (-):',
+        snapshot_reason_daily: 'Daily',
+        snapshot_reason_manual: 'Manual',
+        snapshot_reason_reset: 'Before reset',
+        snapshot_reason_clear_section: 'Before clearing a section',
+        snapshot_reason_import: 'Before import',
+        snapshot_reason_shared_sync: 'Before sync',
+        snapshot_reason_restore: 'Before restore',
     }
 };
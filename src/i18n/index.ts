@@ -9,6 +9,7 @@ import { toastTranslations } from './toasts';
 import { logViewerTranslations } from './log-viewer';
 import { searchTranslations } from './search';
 import { dataManagementTranslations } from './data-management';
+import { statsTranslations } from './stats';
 
 // This function merges all translation files into a single object.
 const mergeTranslations = (...translationObjects: any[]) => {
@@ -35,7 +36,8 @@ export const translations = mergeTranslations(
     toastTranslations,
     logViewerTranslations,
     searchTranslations,
-    dataManagementTranslations
+    dataManagementTranslations,
+    statsTranslations
 );
 
 export const genres_list = all_genres;
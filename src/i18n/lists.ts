@@ -24,6 +24,51 @@ export const listsTranslations = {
         plan_to_watch_empty_prompt: 'أضف أنميات تخطط لمشاهدتها لتبدأ.',
         watching_list_prompt: 'قائمة "أشاهده حاليًا" الخاصة بك ستظهر هنا.',
         watching_empty_prompt: 'أضف أنميات إلى قائمة "أشاهده حاليًا" لتبدأ.',
+        other_lists: 'قوائم أخرى',
+        status_on_hold: 'متوقف مؤقتًا',
+        status_dropped: 'متروك',
+        status_rewatching: 'أعيد مشاهدته',
+        status_rereading: 'أعيد قراءته',
+        status_add_to_list: 'إضافة إلى قائمة',
+        status_move_to: 'نقل إلى',
+        status_remove: 'إزالة من القوائم',
+        status_changed: 'نُقل إلى "{{status}}"',
+        status_removed: 'أُزيل من القوائم',
+        on_hold_list_prompt: 'الأنميات والمانجا التي أوقفتها مؤقتًا ستظهر هنا.',
+        on_hold_empty_prompt: 'أوقف أنمي أو مانجا مؤقتًا من صفحته وسيظهر هنا.',
+        dropped_list_prompt: 'الأنميات والمانجا التي تركتها ستظهر هنا.',
+        dropped_empty_prompt: 'عندما تترك أنمي أو مانجا، سيظهر هنا.',
+        custom_lists: 'قوائمي المخصصة',
+        custom_lists_manage: 'إدارة القوائم',
+        custom_lists_prompt: 'قوائمك المخصصة ستظهر هنا بمجرد تسجيل الدخول.',
+        custom_lists_empty_prompt: 'أنشئ قائمة مثل "للمشاهدة مع الأصدقاء" وأضف إليها الأنمي والمانجا.',
+        custom_list_add_to: 'إضافة إلى قائمة…',
+        custom_list_new: 'قائمة جديدة…',
+        custom_list_none: 'لا توجد قوائم مخصصة بعد.',
+        custom_list_added: 'أُضيف إلى "{{name}}"',
+        custom_list_removed: 'أُزيل من "{{name}}"',
+        custom_list_created: 'تم إنشاء القائمة "{{name}}"',
+        custom_list_saved: 'تم حفظ القائمة',
+        custom_list_create_title: 'قائمة جديدة',
+        custom_list_edit_title: 'تعديل القائمة',
+        custom_list_dialog_desc: 'يمكن أن تضم القائمة أنمي ومانجا معًا، بالترتيب الذي تختاره.',
+        custom_list_name: 'الاسم',
+        custom_list_name_placeholder: 'مثال: أفضل الموسيقى التصويرية',
+        custom_list_description: 'الوصف',
+        custom_list_description_placeholder: 'عمّ تدور هذه القائمة؟ (اختياري)',
+        custom_list_save: 'حفظ',
+        custom_list_create: 'إنشاء',
+        custom_list_count: '{{count}} عنوان',
+        custom_list_edit: 'تعديل',
+        custom_list_delete: 'حذف القائمة',
+        custom_list_delete_warning: 'سيتم حذف القائمة "{{name}}". العناوين نفسها وتقدمك فيها لن تتأثر.',
+        custom_list_not_found: 'هذه القائمة غير موجودة',
+        custom_list_empty_prompt: 'أضف عناوين من زر "إضافة إلى قائمة…" في صفحة أي أنمي أو مانجا.',
+        custom_list_arrange: 'ترتيب',
+        custom_list_done: 'تم',
+        custom_list_move_up: 'تحريك لأعلى',
+        custom_list_move_down: 'تحريك لأسفل',
+        custom_list_remove_item: 'إزالة من القائمة',
         order_by: 'الترتيب حسب',
         score: 'الأعلى تقييمًا',
         popularity: 'الشعبية',
@@ -31,6 +76,48 @@ export const listsTranslations = {
         favorites: 'الأكثر تفضيلًا',
         newest: 'الأحدث',
         oldest: 'الأقدم',
+        list_sort_added: 'ترتيب الإضافة',
+        list_sort_title: 'العنوان',
+        list_sort_score: 'تقييمي',
+        list_sort_started: 'تاريخ البدء',
+        list_sort_completed: 'تاريخ الإنهاء',
+        list_sort_updated: 'آخر تعديل',
+        list_entry_edit: 'تقييمي وملاحظاتي',
+        list_entry_title: 'إدخالك في القائمة',
+        list_entry_desc: 'تقييمك وملاحظاتك وتواريخك الخاصة بهذا العمل. تُحفظ مع بياناتك وتُصدَّر معها.',
+        list_entry_score: 'التقييم',
+        list_entry_score_hint: 'من {{max}}، اتركه فارغًا لإزالة التقييم',
+        list_entry_no_score: 'بدون تقييم',
+        list_entry_notes: 'ملاحظات',
+        list_entry_notes_placeholder: 'ما رأيك في هذا العمل؟',
+        list_entry_started: 'تاريخ البدء',
+        list_entry_completed: 'تاريخ الإنهاء',
+        list_entry_rewatch_count: 'مرات إعادة المشاهدة',
+        list_entry_reread_count: 'مرات إعادة القراءة',
+        list_entry_save: 'حفظ',
+        list_entry_remove: 'حذف الإدخال',
+        list_entry_saved: 'تم حفظ الإدخال',
+        list_entry_your_score: 'تقييمي: {{score}}',
+        score_format: 'مقياس التقييم',
+        score_format_desc: 'المقياس المستخدم لإدخال تقييماتك وعرضها. تغييره لا يغيّر التقييمات المحفوظة.',
+        score_format_point_100: '100 نقطة (55/100)',
+        score_format_point_10_decimal: '10 نقاط عشرية (5.5/10)',
+        score_format_point_10: '10 نقاط (5/10)',
+        score_format_point_5: '5 نجوم (★★★)',
+        watch_history: 'سجل المشاهدة',
+        watch_history_desc: 'كل حلقة شاهدتها وكل فصل قرأته، مرتبة حسب اليوم.',
+        watch_history_prompt: 'سجل مشاهدتك سيظهر هنا بمجرد تسجيل الدخول.',
+        watch_history_empty: 'لم تشاهد أو تقرأ أي شيء بعد.',
+        watch_history_undated: 'بدون تاريخ',
+        watch_history_undated_desc: 'تقدم سُجّل قبل حفظ التواريخ أو تم استيراده بدونها.',
+        watch_history_episode: 'الحلقة {{unit}}',
+        watch_history_chapter: 'الفصل {{unit}}',
+        watch_history_volume: 'المجلد {{unit}}',
+        watch_history_edit_date: 'تعديل التاريخ',
+        watch_history_date_label: 'التاريخ والوقت',
+        watch_history_clear_date: 'بدون تاريخ',
+        watch_history_save: 'حفظ',
+        watch_history_remove: 'إزالة من السجل',
     },
     en: {
         my_lists: 'My Lists',
@@ -57,6 +144,51 @@ export const listsTranslations = {
         plan_to_watch_empty_prompt: 'Add anime you plan to watch to get started.',
         watching_list_prompt: 'Your currently watching list will appear here.',
         watching_empty_prompt: 'Add anime to your watching list to get started.',
+        other_lists: 'Other Lists',
+        status_on_hold: 'On Hold',
+        status_dropped: 'Dropped',
+        status_rewatching: 'Rewatching',
+        status_rereading: 'Rereading',
+        status_add_to_list: 'Add to List',
+        status_move_to: 'Move to',
+        status_remove: 'Remove from Lists',
+        status_changed: 'Moved to "{{status}}"',
+        status_removed: 'Removed from your lists',
+        on_hold_list_prompt: 'Anime and manga you put on hold will appear here.',
+        on_hold_empty_prompt: 'Put an anime or manga on hold from its page and it will show up here.',
+        dropped_list_prompt: 'Anime and manga you dropped will appear here.',
+        dropped_empty_prompt: 'When you drop an anime or manga, it will appear here.',
+        custom_lists: 'My Custom Lists',
+        custom_lists_manage: 'Manage Lists',
+        custom_lists_prompt: 'Your custom lists will show up here once you sign in.',
+        custom_lists_empty_prompt: 'Create a list like "Watch with friends" and add anime and manga to it.',
+        custom_list_add_to: 'Add to list…',
+        custom_list_new: 'New list…',
+        custom_list_none: 'No custom lists yet.',
+        custom_list_added: 'Added to "{{name}}"',
+        custom_list_removed: 'Removed from "{{name}}"',
+        custom_list_created: 'List "{{name}}" created',
+        custom_list_saved: 'List saved',
+        custom_list_create_title: 'New List',
+        custom_list_edit_title: 'Edit List',
+        custom_list_dialog_desc: 'A list can hold both anime and manga, in the order you choose.',
+        custom_list_name: 'Name',
+        custom_list_name_placeholder: 'e.g. Best OSTs',
+        custom_list_description: 'Description',
+        custom_list_description_placeholder: 'What is this list about? (optional)',
+        custom_list_save: 'Save',
+        custom_list_create: 'Create',
+        custom_list_count: '{{count}} titles',
+        custom_list_edit: 'Edit',
+        custom_list_delete: 'Delete List',
+        custom_list_delete_warning: 'The list "{{name}}" will be deleted. The titles themselves and your progress on them are not affected.',
+        custom_list_not_found: 'This list does not exist',
+        custom_list_empty_prompt: 'Add titles with the "Add to list…" button on any anime or manga.',
+        custom_list_arrange: 'Arrange',
+        custom_list_done: 'Done',
+        custom_list_move_up: 'Move up',
+        custom_list_move_down: 'Move down',
+        custom_list_remove_item: 'Remove from list',
         order_by: 'Order by',
         score: 'Top Rated',
         popularity: 'Popularity',
@@ -64,5 +196,47 @@ export const listsTranslations = {
         favorites: 'Most Favorited',
         newest: 'Newest',
         oldest: 'Oldest',
+        list_sort_added: 'Date added',
+        list_sort_title: 'Title',
+        list_sort_score: 'My score',
+        list_sort_started: 'Start date',
+        list_sort_completed: 'Finish date',
+        list_sort_updated: 'Last edited',
+        list_entry_edit: 'Score & Notes',
+        list_entry_title: 'Your List Entry',
+        list_entry_desc: 'Your own score, notes and dates for this title. They are saved and exported with your data.',
+        list_entry_score: 'Score',
+        list_entry_score_hint: 'Out of {{max}}. Leave empty for no score.',
+        list_entry_no_score: 'No score',
+        list_entry_notes: 'Notes',
+        list_entry_notes_placeholder: 'What did you think of it?',
+        list_entry_started: 'Started',
+        list_entry_completed: 'Finished',
+        list_entry_rewatch_count: 'Times rewatched',
+        list_entry_reread_count: 'Times reread',
+        list_entry_save: 'Save',
+        list_entry_remove: 'Delete Entry',
+        list_entry_saved: 'List entry saved',
+        list_entry_your_score: 'My score: {{score}}',
+        score_format: 'Score Format',
+        score_format_desc: 'The scale you enter and see your scores in. Changing it keeps the scores you already gave.',
+        score_format_point_100: '100 Point (55/100)',
+        score_format_point_10_decimal: '10 Point Decimal (5.5/10)',
+        score_format_point_10: '10 Point (5/10)',
+        score_format_point_5: '5 Star (★★★)',
+        watch_history: 'Watch History',
+        watch_history_desc: 'Every episode you watched and chapter you read, by day.',
+        watch_history_prompt: 'Your watch history will show up here once you sign in.',
+        watch_history_empty: "You haven't watched or read anything yet.",
+        watch_history_undated: 'Undated',
+        watch_history_undated_desc: 'Progress recorded before dates were kept, or imported without them.',
+        watch_history_episode: 'Episode {{unit}}',
+        watch_history_chapter: 'Chapter {{unit}}',
+        watch_history_volume: 'Volume {{unit}}',
+        watch_history_edit_date: 'Edit date',
+        watch_history_date_label: 'Date and time',
+        watch_history_clear_date: 'Make undated',
+        watch_history_save: 'Save',
+        watch_history_remove: 'Remove from history',
     }
 };
@@ -9,6 +9,7 @@ export const logViewerTranslations = {
         log_query: 'الاستعلام',
         log_variables: 'المتغيرات',
         log_response: 'الاستجابة',
+        log_cache: 'ذاكرة الخادم المؤقتة',
         log_errors: 'أخطاء',
         log_network: 'الشبكة',
         log_info: 'معلومات',
@@ -23,6 +24,7 @@ export const logViewerTranslations = {
         log_query: 'Query',
         log_variables: 'Variables',
         log_response: 'Response',
+        log_cache: 'Server Cache',
         log_errors: 'Errors',
         log_network: 'Network',
         log_info: 'Info',
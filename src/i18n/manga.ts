@@ -20,6 +20,19 @@ export const mangaTranslations = {
         unmark_all_as_read: 'إزالة العلامة عن الكل',
         finished_publishing: 'مكتمل النشر',
         clear_read_list_warning: 'سيؤدي هذا إلى إزالة كل العناصر من قائمة "مقروء". هل تريد المتابعة؟',
+        volume_number: 'المجلد {{volume}}',
+        volume_chapter_range: 'الفصول {{first}}–{{last}}',
+        no_volume_info_available: 'لا توجد معلومات عن المجلدات. أضف نطاقات الفصول لعرضها.',
+        track_by_volumes: 'التتبع حسب المجلدات',
+        track_by_volumes_desc: 'يُحسب الإكمال وإيقاف التنبيهات بالمجلدات المقروءة بدلاً من الفصول.',
+        volume_tracking: 'تتبع المجلدات',
+        volume_ranges: 'نطاقات الفصول',
+        volume_ranges_desc: 'عند تحديد مجلد كمقروء، تُحدد فصوله أيضاً.',
+        volume_ranges_label: 'مجلد واحد في كل سطر، مثل "1: 1-8"',
+        volume_ranges_invalid_title: 'تعذرت قراءة النطاقات',
+        volume_ranges_invalid_desc: 'تحقق من الأسطر: {{lines}}',
+        volume_ranges_out_of_range_desc: 'الأسطر {{lines}} تتجاوز الحد: حتى المجلد {{volumes}} والفصل {{chapters}}.',
+        volume_ranges_saved: 'تم حفظ نطاقات الفصول',
     },
     en: {
         read: 'Read',
@@ -42,5 +55,18 @@ export const mangaTranslations = {
         unmark_all_as_read: 'Unmark all as read',
         finished_publishing: 'Finished Publishing',
         clear_read_list_warning: 'This will remove all items from your Read list. Do you want to continue?',
+        volume_number: 'Volume {{volume}}',
+        volume_chapter_range: 'Chapters {{first}}–{{last}}',
+        no_volume_info_available: 'No volume information available. Add chapter ranges to list the volumes.',
+        track_by_volumes: 'Track by volumes',
+        track_by_volumes_desc: 'Completion and reminder auto-stop count read volumes instead of chapters.',
+        volume_tracking: 'Volume tracking',
+        volume_ranges: 'Chapter ranges',
+        volume_ranges_desc: 'Marking a volume as read also marks its chapters.',
+        volume_ranges_label: 'One volume per line, e.g. "1: 1-8"',
+        volume_ranges_invalid_title: 'Could not read the ranges',
+        volume_ranges_invalid_desc: 'Check line(s) {{lines}}.',
+        volume_ranges_out_of_range_desc: 'Line(s) {{lines}} go too far: volumes go up to {{volumes}} and chapters up to {{chapters}}.',
+        volume_ranges_saved: 'Chapter ranges saved',
     }
 };
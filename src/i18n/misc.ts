@@ -131,6 +131,14 @@ export const miscTranslations = {
         notifications_description: 'الحلقات والفصول الجديدة للأعمال التي تتابعها.',
         no_new_updates: 'لا توجد تحديثات جديدة',
         new_updates_description: 'ستظهر الحلقات والفصول الجديدة هنا.',
+        episode_aired: 'عُرضت الحلقة {{episode}}',
+        new_chapters_available: '{{count}} فصول جديدة متاحة',
+        background_notifications: 'إشعارات الخلفية',
+        background_notifications_desc: 'تحقق من الحلقات والفصول الجديدة والتنبيهات المستحقة عندما لا يكون AnimeSync مفتوحاً، واعرضها كإشعارات على جهازك.',
+        background_notifications_toggle: 'إشعارات النظام',
+        background_notifications_no_periodic_sync: 'متصفحك لا يدعم المزامنة الدورية في الخلفية، لذا يتم التحقق فقط أثناء فتح AnimeSync في علامة تبويب.',
+        background_notifications_denied: 'تم رفض إذن الإشعارات. اسمح به من إعدادات المتصفح.',
+        background_notifications_unsupported: 'متصفحك لا يدعم إشعارات الخلفية.',
         mark_all_as_seen: 'تحديث الكل (وضع علامة على الكل كمقروء/مشاهد)',
         anime_roles: "أدوار الأنمي",
         voice_acting_roles: "أدوار التمثيل الصوتي",
@@ -209,6 +217,7 @@ export const miscTranslations = {
         related_works: "أعمال ذات صلة",
         similar_recommendations: "توصيات مشابهة",
         tracked_media: "الوسائط المتعقبة",
+        list_statuses: "حالات القوائم",
         read_activity_ids: "الأنشطة المقروءة",
         notifications_layout: "ترتيب الإشعارات",
         pinned_notification_tab: "التبويب المثبت",
@@ -240,6 +249,18 @@ export const miscTranslations = {
         disconnect: 'قطع الاتصال',
         last_sync: 'آخر مزامنة',
         data_size: 'حجم البيانات',
+        two_way_sync_title: 'المزامنة في الاتجاهين',
+        two_way_sync_desc: 'أرسل التغييرات التي تجريها على هذا الجهاز إلى البيانات المشتركة. إذا تغيرت البيانات على جهاز آخر في الأثناء، يتم دمج التغييرات بدلاً من استبدالها.',
+        two_way_sync_enabled: 'إرسال التغييرات المحلية',
+        push_target: 'وجهة الكتابة',
+        push_target_put: 'عنوان يقبل PUT (مع دعم CORS)',
+        push_target_gist: 'GitHub Gist',
+        push_url: 'رابط الكتابة',
+        push_gist_url: 'رابط الـ Gist أو معرّفه',
+        push_filename: 'اسم الملف في الـ Gist',
+        push_token: 'رمز الوصول',
+        push_token_desc: 'يُرسل في ترويسة Authorization مباشرة إلى وجهة الكتابة دون المرور بخادمنا. للـ Gist استخدم رمزًا بصلاحية gist. يُحفظ على هذا الجهاز فقط.',
+        push_save: 'حفظ وبدء المزامنة',
         broadcast_message_title: 'رسالة جماعية',
         broadcast_message_desc: 'سيتم تضمين هذه الرسالة في بياناتك المصدرة وسيتم عرضها كإشعار للمستخدمين الذين يتزامنون مع ملفك.',
         message_placeholder: 'رسالتك هنا...',
@@ -255,6 +276,8 @@ export const miscTranslations = {
         how_it_works_p2: 'سيقوم التطبيق بالتحقق من وجود تحديثات في الرابط بشكل دوري ويقوم بتحديث بياناتك المحلية تلقائيًا. أي "رسالة جماعية" تقوم بتعيينها سيتم تضمينها في التصدير التالي وستظهر كإشعار للمستخدمين المتصلين.',
         connected: 'متصل',
         contact_and_support: 'للتواصل والدعم:',
+        offline_mode: 'غير متصل',
+        offline_mode_desc: 'تعرض القوائم والعناوين المتابَعة ما تم حفظه، وتُحفظ تغييراتك محليًا كالمعتاد.',
     },
     en: {
         anime_sync_motto: 'Your World of Anime, Synced.',
@@ -388,6 +411,14 @@ export const miscTranslations = {
         notifications_description: 'New episodes and chapters for media you are tracking.',
         no_new_updates: 'No new updates',
         new_updates_description: 'New episodes and chapters will appear here.',
+        episode_aired: 'Episode {{episode}} aired',
+        new_chapters_available: '{{count}} new chapters available',
+        background_notifications: 'Background notifications',
+        background_notifications_desc: 'Check for new episodes, chapters and due reminders while AnimeSync is closed, and show them as notifications on this device.',
+        background_notifications_toggle: 'System notifications',
+        background_notifications_no_periodic_sync: "Your browser doesn't support periodic background sync, so checks only run while AnimeSync is open in a tab.",
+        background_notifications_denied: 'Notification permission was denied. Allow it in your browser settings.',
+        background_notifications_unsupported: "Your browser doesn't support background notifications.",
         mark_all_as_seen: 'Mark All as Seen/Read',
         anime_roles: "Anime Roles",
         voice_acting_roles: "Voice Acting Roles",
@@ -466,6 +497,7 @@ export const miscTranslations = {
         related_works: "Related Works",
         similar_recommendations: "Similar Recommendations",
         tracked_media: "Tracked Media",
+        list_statuses: "List Statuses",
         read_activity_ids: "Read Activities",
         notifications_layout: "Notifications Layout",
         pinned_notification_tab: "Pinned Tab",
@@ -497,6 +529,18 @@ export const miscTranslations = {
         disconnect: 'Disconnect',
         last_sync: 'Last Sync',
         data_size: 'Data Size',
+        two_way_sync_title: 'Two-Way Sync',
+        two_way_sync_desc: 'Send changes made on this device back to the shared data. If another device changed it in the meantime, the changes are merged instead of overwritten.',
+        two_way_sync_enabled: 'Push local changes',
+        push_target: 'Write target',
+        push_target_put: 'Endpoint accepting PUT (with CORS)',
+        push_target_gist: 'GitHub Gist',
+        push_url: 'Write URL',
+        push_gist_url: 'Gist URL or id',
+        push_filename: 'File name in the gist',
+        push_token: 'Access token',
+        push_token_desc: 'Sent in the Authorization header, straight to the write target without passing through our server. For gists, use a token with the gist scope. Stored on this device only.',
+        push_save: 'Save and Sync',
         broadcast_message_title: 'Broadcast Message',
         broadcast_message_desc: 'This message will be included in your exported data and shown as a notification to users who sync with your file.',
         message_placeholder: 'Your message here...',
@@ -512,5 +556,7 @@ export const miscTranslations = {
         how_it_works_p2: 'The app will periodically check the link for updates and automatically update your local data. Any "Broadcast Message" you set will be included in your next export and show up as a notification for connected users.',
         connected: 'Connected',
         contact_and_support: 'For contact and support:',
+        offline_mode: 'Offline',
+        offline_mode_desc: 'Lists and tracked titles show what was saved, and your changes are stored locally as usual.',
     }
 }
@@ -0,0 +1,112 @@
+export const statsTranslations = {
+    ar: {
+        stats: 'الإحصائيات',
+        stats_desc: 'أرقام من قوائمك وتقدمك.',
+        stats_prompt: 'إحصائياتك ستظهر هنا بمجرد تسجيل الدخول.',
+        stats_empty: 'أضف عناوين إلى قوائمك لرؤية الإحصائيات.',
+        stats_loading_details: 'جارٍ تحميل تفاصيل {{count}} عنوانًا...',
+        stats_load_failed: 'تعذر تحميل تفاصيل العناوين',
+        stats_titles: 'العناوين',
+        stats_episodes_watched: 'الحلقات المشاهدة',
+        stats_hours_watched: 'ساعات المشاهدة (تقديريًا)',
+        stats_chapters_read: 'الفصول المقروءة',
+        stats_volumes_read: 'المجلدات المقروءة',
+        stats_completion_rate: 'نسبة الإكمال',
+        stats_completion_rate_desc: 'المكتمل من بين العناوين التي بدأتها',
+        stats_status_split: 'حسب الحالة',
+        stats_backlog: 'قيد المتابعة مقابل المؤجل',
+        stats_backlog_current: 'قيد المتابعة',
+        stats_backlog_planning: 'في قائمة الانتظار',
+        stats_genres: 'حسب التصنيف',
+        stats_formats: 'حسب النوع',
+        stats_studios: 'حسب الاستوديو',
+        stats_authors: 'حسب المؤلف',
+        stats_start_years: 'حسب سنة البدء',
+        stats_seasons: 'حسب الموسم',
+        stats_count: 'العناوين',
+        stats_other: 'أخرى',
+        stats_no_data: 'لا توجد بيانات كافية.',
+        year_review: 'حصاد العام',
+        year_review_desc: 'ما أنهيته وشاهدته وقرأته خلال عام واحد.',
+        year_review_prompt: 'حصاد عامك سيظهر هنا بمجرد تسجيل الدخول.',
+        year_review_year: 'السنة',
+        year_review_heading: 'حصاد {{year}}',
+        year_review_subtitle: 'عام {{name}} في الأنمي والمانجا',
+        year_review_finished: 'عناوين مكتملة',
+        year_review_episodes: 'حلقات',
+        year_review_chapters: 'فصول',
+        year_review_volumes: 'مجلدات',
+        year_review_hours: 'ساعات مشاهدة (تقديريًا)',
+        year_review_top_genres: 'أكثر التصنيفات',
+        year_review_top_studios: 'أكثر الاستوديوهات',
+        year_review_streak: 'أطول سلسلة أيام متتالية',
+        year_review_streak_value: '{{days}} يوم',
+        year_review_busiest_month: 'أنشط شهر',
+        year_review_busiest_month_value: '{{units}} حلقة وفصل',
+        year_review_kept_up: 'تابعته أثناء العرض',
+        year_review_kept_up_desc: 'أنمي موسمي من هذا العام شاهدته أولًا بأول.',
+        year_review_finished_titles: 'ما أنهيته',
+        year_review_more: 'و{{count}} غيرها',
+        year_review_empty: 'لا يوجد نشاط مسجل في هذا العام.',
+        year_review_undated_note: 'التقدم الذي سُجّل قبل حفظ التواريخ لا يظهر هنا.',
+        year_review_export_image: 'تنزيل كصورة',
+        year_review_export_html: 'تنزيل كملف HTML',
+        year_review_export_failed: 'تعذر إنشاء الملف',
+        year_review_footer: 'صُنع باستخدام {{app}}',
+    },
+    en: {
+        stats: 'Statistics',
+        stats_desc: 'Numbers from your lists and progress.',
+        stats_prompt: 'Your statistics will show up here once you sign in.',
+        stats_empty: 'Add titles to your lists to see statistics.',
+        stats_loading_details: 'Loading details for {{count}} titles...',
+        stats_load_failed: "Could not load the titles' details",
+        stats_titles: 'Titles',
+        stats_episodes_watched: 'Episodes watched',
+        stats_hours_watched: 'Hours watched (estimated)',
+        stats_chapters_read: 'Chapters read',
+        stats_volumes_read: 'Volumes read',
+        stats_completion_rate: 'Completion rate',
+        stats_completion_rate_desc: 'Completed out of the titles you started',
+        stats_status_split: 'By status',
+        stats_backlog: 'In progress vs. backlog',
+        stats_backlog_current: 'In progress',
+        stats_backlog_planning: 'Backlog',
+        stats_genres: 'By genre',
+        stats_formats: 'By format',
+        stats_studios: 'By studio',
+        stats_authors: 'By author',
+        stats_start_years: 'By start year',
+        stats_seasons: 'By season',
+        stats_count: 'Titles',
+        stats_other: 'Other',
+        stats_no_data: 'Not enough data yet.',
+        year_review: 'Year in Review',
+        year_review_desc: 'What you finished, watched and read in one year.',
+        year_review_prompt: 'Your year in review will show up here once you sign in.',
+        year_review_year: 'Year',
+        year_review_heading: '{{year}} in Review',
+        year_review_subtitle: "{{name}}'s year in anime and manga",
+        year_review_finished: 'Titles finished',
+        year_review_episodes: 'Episodes',
+        year_review_chapters: 'Chapters',
+        year_review_volumes: 'Volumes',
+        year_review_hours: 'Hours watched (estimated)',
+        year_review_top_genres: 'Top genres',
+        year_review_top_studios: 'Top studios',
+        year_review_streak: 'Longest streak',
+        year_review_streak_value: '{{days}} days',
+        year_review_busiest_month: 'Busiest month',
+        year_review_busiest_month_value: '{{units}} episodes & chapters',
+        year_review_kept_up: 'Kept up while airing',
+        year_review_kept_up_desc: "Seasonal anime from this year you watched as they aired.",
+        year_review_finished_titles: 'Finished',
+        year_review_more: 'and {{count}} more',
+        year_review_empty: 'No activity recorded in this year.',
+        year_review_undated_note: "Progress recorded before dates were kept doesn't show up here.",
+        year_review_export_image: 'Download image',
+        year_review_export_html: 'Download HTML',
+        year_review_export_failed: 'Could not create the file',
+        year_review_footer: 'Made with {{app}}',
+    }
+};
@@ -0,0 +1,157 @@
+import type { RequestOptions, RequestPriority } from './scheduler';
+import { del, deleteDatabase, entries, get, set } from '../idb-keyval';
+
+// Persistent cache of AniList responses, keyed by query and variables, in a database of its own
+// (it isn't tied to a profile). A fresh entry is returned without a request. A stale one is
+// returned too, while a background request refreshes it and hands the new data to
+// `onRevalidate`, so pages render at once and update in place. Hidden genres are part of the
+// variables, so changing them starts over with new keys; the old entries are cleared then too.
+
+export const QUERY_CACHE_DATABASE_NAME = 'animesync-query-cache';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+// How long responses stay fresh.
+export const CACHE_TTL = {
+    // Finished media doesn't change anymore; airing media gains episodes, scores and airing times.
+    finishedMedia: 7 * DAY,
+    media: HOUR,
+    home: 15 * MINUTE,
+    airingList: 10 * MINUTE,
+    list: HOUR,
+};
+
+// Stale entries older than this are refetched before rendering instead of being shown.
+const MAX_STALE = 7 * DAY;
+// Beyond this, the oldest entries are dropped.
+const MAX_CACHE_SIZE = 25 * 1024 * 1024;
+const PRUNE_EVERY = 50;
+
+interface CacheEntry<T = unknown> {
+    data: T;
+    storedAt: number;
+    expiresAt: number;
+    // Of the JSON, for the storage panel and pruning.
+    size: number;
+}
+
+export interface CacheOptions<T> {
+    // In milliseconds; may depend on the response.
+    ttl: number | ((data: T) => number);
+    onRevalidate?: (data: T) => void;
+}
+
+// Options of the request functions that use the cache: `onRevalidate` receives their mapped result.
+export type CachedRequestOptions<T> = RequestOptions & { onRevalidate?: (data: T) => void };
+
+const revalidating = new Map<string, Promise<unknown>>();
+let writesSincePrune = PRUNE_EVERY;
+
+const isCacheAvailable = () => typeof indexedDB !== 'undefined';
+
+// A short, stable key (queries are long): a 53-bit hash of the query and its variables.
+function cacheKey(query: string, variables: Record<string, any>): string {
+    const text = `${query}\n${JSON.stringify(variables)}`;
+    let h1 = 0xdeadbeef;
+    let h2 = 0x41c6ce57;
+    for (let i = 0; i < text.length; i++) {
+        const code = text.charCodeAt(i);
+        h1 = Math.imul(h1 ^ code, 2654435761);
+        h2 = Math.imul(h2 ^ code, 1597334677);
+    }
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+    return `query:${(4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36)}`;
+}
+
+async function readEntry<T>(key: string): Promise<CacheEntry<T> | undefined> {
+    try {
+        return await get<CacheEntry<T>>(key, QUERY_CACHE_DATABASE_NAME);
+    } catch {
+        return undefined;
+    }
+}
+
+async function writeEntry<T>(key: string, data: T, ttl: CacheOptions<T>['ttl']) {
+    const now = Date.now();
+    const entry: CacheEntry<T> = {
+        data,
+        storedAt: now,
+        expiresAt: now + (typeof ttl === 'function' ? ttl(data) : ttl),
+        size: new TextEncoder().encode(JSON.stringify(data)).length,
+    };
+    try {
+        await set(key, entry, QUERY_CACHE_DATABASE_NAME);
+        if (++writesSincePrune >= PRUNE_EVERY) {
+            writesSincePrune = 0;
+            await pruneQueryCache();
+        }
+    } catch {
+        // The cache is an optimisation; a full or blocked database just means more requests.
+    }
+}
+
+/**
+ * Runs `request` through the cache. It is called with 'background' when it refreshes a stale
+ * entry that was already returned. Null responses aren't cached.
+ */
+export async function cachedQuery<T>(
+    query: string,
+    variables: Record<string, any>,
+    options: CacheOptions<T>,
+    request: (priority?: RequestPriority) => Promise<T | null>,
+): Promise<T | null> {
+    if (!isCacheAvailable()) return request();
+    const key = cacheKey(query, variables);
+    const entry = await readEntry<T>(key);
+    const now = Date.now();
+
+    if (entry && now < entry.expiresAt) return entry.data;
+    if (entry && now < entry.expiresAt + MAX_STALE) {
+        if (!revalidating.has(key)) {
+            const refresh = request('background')
+                .then(async data => {
+                    if (data === null) return;
+                    await writeEntry(key, data, options.ttl);
+                    options.onRevalidate?.(data);
+                })
+                .catch(() => {
+                    // Keep serving the stale entry; the next read tries again.
+                })
+                .finally(() => revalidating.delete(key));
+            revalidating.set(key, refresh);
+        }
+        return entry.data;
+    }
+
+    const data = await request();
+    if (data !== null) await writeEntry(key, data, options.ttl);
+    return data;
+}
+
+export async function getQueryCacheStats(): Promise<{ entries: number; size: number }> {
+    if (!isCacheAvailable()) return { entries: 0, size: 0 };
+    const stored = await entries(['keyval'], QUERY_CACHE_DATABASE_NAME);
+    return {
+        entries: stored.keyval.length,
+        size: stored.keyval.reduce((total, [, entry]) => total + ((entry as CacheEntry).size || 0), 0),
+    };
+}
+
+// Drops entries too stale to be shown, then the oldest ones while the cache is over its size.
+export async function pruneQueryCache() {
+    const stored = (await entries(['keyval'], QUERY_CACHE_DATABASE_NAME)).keyval as [IDBValidKey, CacheEntry][];
+    const now = Date.now();
+    const expired = stored.filter(([, entry]) => now >= entry.expiresAt + MAX_STALE);
+    const kept = stored.filter(([, entry]) => now < entry.expiresAt + MAX_STALE).sort(([, a], [, b]) => b.storedAt - a.storedAt);
+    let size = 0;
+    const overflow = kept.filter(([, entry]) => (size += entry.size) > MAX_CACHE_SIZE);
+    await Promise.all([...expired, ...overflow].map(([key]) => del(key, QUERY_CACHE_DATABASE_NAME)));
+}
+
+export function clearQueryCache(): Promise<void> {
+    revalidating.clear();
+    return isCacheAvailable() ? deleteDatabase(QUERY_CACHE_DATABASE_NAME) : Promise.resolve();
+}
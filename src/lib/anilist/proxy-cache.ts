@@ -0,0 +1,108 @@
+import { createHash } from 'crypto';
+
+// Server-side cache of the AniList proxy (app/api/anilist/search/route.ts). Every visitor shares
+// the server's rate limit, so identical queries (the home page, trending lists...) are answered
+// from memory for a few minutes, and identical requests arriving while one is already on its way
+// wait for that one instead of being sent again. Only successful responses are kept. Each
+// response says how it was served in the X-Cache header, which the client logs.
+
+export const CACHE_STATUS_HEADER = 'X-Cache';
+export type ProxyCacheStatus = 'HIT' | 'MISS' | 'COALESCED' | 'BYPASS';
+
+export interface ProxyResponse {
+    status: number;
+    body: string;
+    headers: Record<string, string>;
+}
+
+interface CacheEntry extends ProxyResponse {
+    expiresAt: number;
+}
+
+// Airing times change by the minute; everything else can wait a little longer.
+const AIRING_TTL = 60 * 1000;
+const DEFAULT_TTL = 5 * 60 * 1000;
+const AIRING_PATTERN = /airingSchedules|airingAt_/;
+const MAX_ENTRIES = 500;
+const MAX_SIZE = 50 * 1024 * 1024;
+
+// Map keeps insertion order, so re-inserting on every hit makes the first key the least recently used.
+const cache = new Map<string, CacheEntry>();
+const inFlight = new Map<string, Promise<ProxyResponse>>();
+let cacheSize = 0;
+
+// Key order and whitespace don't change what a query means, so they don't change its key either.
+function stableStringify(value: unknown): string {
+    if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+    if (value && typeof value === 'object') {
+        return `{${Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`).join(',')}}`;
+    }
+    return JSON.stringify(value) ?? 'null';
+}
+
+export function proxyCacheKey(query: string, variables: unknown): string {
+    const normalisedQuery = query.replace(/\s+/g, ' ').trim();
+    return createHash('sha256').update(`${normalisedQuery}\n${stableStringify(variables ?? {})}`).digest('hex');
+}
+
+// How long a response to `query` may be reused; null for mutations, which are never cached.
+export function getProxyTtl(query: string): number | null {
+    if (/^\s*mutation\b/.test(query)) return null;
+    return AIRING_PATTERN.test(query) ? AIRING_TTL : DEFAULT_TTL;
+}
+
+function forget(key: string) {
+    const entry = cache.get(key);
+    if (!entry) return;
+    cache.delete(key);
+    cacheSize -= entry.body.length;
+}
+
+function remember(key: string, entry: CacheEntry) {
+    forget(key);
+    cache.set(key, entry);
+    cacheSize += entry.body.length;
+    while (cache.size > MAX_ENTRIES || cacheSize > MAX_SIZE) {
+        const oldest = cache.keys().next().value;
+        if (oldest === undefined) break;
+        forget(oldest);
+    }
+}
+
+function lookup(key: string): CacheEntry | undefined {
+    const entry = cache.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= Date.now()) {
+        forget(key);
+        return undefined;
+    }
+    cache.delete(key);
+    cache.set(key, entry);
+    return entry;
+}
+
+/**
+ * Answers from the cache, joins an identical request in flight, or calls `send` and keeps its
+ * response for `ttl` ms when it succeeded.
+ */
+export async function withProxyCache(
+    key: string,
+    ttl: number,
+    send: () => Promise<ProxyResponse & { cacheable: boolean }>,
+): Promise<{ response: ProxyResponse; cacheStatus: ProxyCacheStatus }> {
+    const cached = lookup(key);
+    if (cached) return { response: cached, cacheStatus: 'HIT' };
+
+    const pending = inFlight.get(key);
+    if (pending) return { response: await pending, cacheStatus: 'COALESCED' };
+
+    const request = send()
+        .then(({ cacheable, ...response }) => {
+            // Rate limit headers describe the moment they were sent, so hits go without them.
+            if (cacheable) remember(key, { ...response, headers: {}, expiresAt: Date.now() + ttl });
+            return response;
+        })
+        .finally(() => inFlight.delete(key));
+    inFlight.set(key, request);
+    return { response: await request, cacheStatus: 'MISS' };
+}
@@ -16,7 +16,9 @@ export const MEDIA_FRAGMENT_CORE = `
   format
   status
   popularity
+  season
   seasonYear
+  duration
   startDate { year month day }
   isAdult
   description(asHtml: false)
@@ -414,6 +416,19 @@ export const MEDIA_COUNTS_QUERY = `
     }
 `;
 
+export const AIRED_EPISODES_QUERY = `
+    query AiredEpisodesQuery($ids: [Int], $since: Int, $until: Int, $page: Int) {
+      Page(page: $page, perPage: 50) {
+        pageInfo { hasNextPage }
+        airingSchedules(mediaId_in: $ids, airingAt_greater: $since, airingAt_lesser: $until, sort: TIME) {
+          mediaId
+          episode
+          airingAt
+        }
+      }
+    }
+`;
+
 export const SEARCH_QUERY = `
 query Search(
   $page: Int,
@@ -2,14 +2,16 @@ import type { AniListMedia, Anime, JikanRelation, AniListStreamingEpisode, Jikan
 import type { LogEntry } from '@/hooks/use-logger';
 import {
     AIRING_QUERY, CHARACTER_DETAILS_QUERY, CHARACTERS_QUERY, CHAR_PICS_QUERY, EPISODES_QUERY,
-    LATEST_MOVIES_QUERY, LATEST_RECS_QUERY, MANGA_CHARS_QUERY, MANGA_STATUS_QUERY, MEDIA_BY_ID_QUERY, MEDIA_COUNTS_QUERY,
+    LATEST_MOVIES_QUERY, LATEST_RECS_QUERY, MANGA_CHARS_QUERY, MANGA_STATUS_QUERY, MEDIA_BY_ID_QUERY, AIRED_EPISODES_QUERY,
     MEDIA_RELATIONS_QUERY, MULTIPLE_ANIME_QUERY, NEWS_QUERY, PAGINATED_LIST_QUERY, PERSON_DETAILS_QUERY,
     PERSON_PICS_QUERY, PICTURES_QUERY, RECOMMENDATIONS_QUERY, REVIEWS_QUERY, SEARCH_CHARACTERS_QUERY, SEARCH_QUERY,
     SEASONS_QUERY, SEASON_MEDIA_QUERY, STAFF_QUERY, TOP_THIS_SEASON_QUERY, UPCOMING_QUERY, VIDEOS_QUERY, SEARCH_BY_MAL_ID_QUERY, HOME_PAGE_QUERY
 } from './queries';
 import { fetchAniList, mapAniListMediaToAnime, jikanApiRequest, mapJikanMediaToAnime } from './utils';
+import type { RequestOptions } from './scheduler';
+import { CACHE_TTL, type CachedRequestOptions } from './cache';
 import { addDays, isPast, nextDay } from 'date-fns';
-import { get } from '../idb-keyval';
+import { loadListSettings } from '../data/list-store';
 import { genres_list } from '@/i18n';
 import { SENSITIVE_GENRES } from '@/lib/config';
 
@@ -61,14 +63,14 @@ function getCurrentSeason() {
     return 'FALL';
 }
 
-async function getHiddenGenres(listData?: ListData | null): Promise<{ genres: string[], tags: string[] }> {
+async function getHiddenGenres(listData?: Partial<ListData> | null): Promise<{ genres: string[], tags: string[] }> {
     const SENSITIVE_GENRES_INTERNAL = SENSITIVE_GENRES;
     let finalHidden: string[] = SENSITIVE_GENRES_INTERNAL;
     let data = listData;
 
     try {
         if (!data) {
-           data = await get<ListData>('animesync_local_list_data');
+           data = await loadListSettings();
         }
         
         if (data) {
@@ -92,38 +94,58 @@ async function getHiddenGenres(listData?: ListData | null): Promise<{ genres: st
     return { genres: hiddenGenres, tags: hiddenTags };
 }
 
+type PageResult = { data: Anime[]; hasNextPage: boolean };
+type PageResponse = { Page: { media: AniListMedia[], pageInfo: { hasNextPage: boolean } } };
+
+const mapPageResponse = (response: PageResponse | null): PageResult => ({
+    data: response?.Page?.media.map(mapAniListMediaToAnime) || [],
+    hasNextPage: response?.Page?.pageInfo?.hasNextPage || false,
+});
+
+// Lists of what is airing or releasing now change within the hour.
+const AIRING_LIST_QUERIES = new Set([AIRING_QUERY, TOP_THIS_SEASON_QUERY, MANGA_STATUS_QUERY]);
+
 async function fetchAniListPaginated(
     query: string,
     variables: Record<string, any>,
     hidden: { genres: string[], tags: string[] },
-    addLog: (message: string, type?: LogEntry['type'], details?: any) => void
-): Promise<{ data: Anime[]; hasNextPage: boolean }> {
+    addLog: (message: string, type?: LogEntry['type'], details?: any) => void,
+    { onRevalidate, ...options }: CachedRequestOptions<PageResult> = {}
+): Promise<PageResult> {
     const finalVariables = {
         ...variables,
         genre_not_in: hidden.genres,
         tag_not_in: hidden.tags,
     };
-    const response = await fetchAniList<{ Page: { media: AniListMedia[], pageInfo: { hasNextPage: boolean } } }>(
+    const response = await fetchAniList<PageResponse>(
         query,
         finalVariables,
-        addLog
+        addLog,
+        undefined,
+        {
+            ...options,
+            cache: {
+                ttl: AIRING_LIST_QUERIES.has(query) ? CACHE_TTL.airingList : CACHE_TTL.list,
+                onRevalidate: onRevalidate && (data => onRevalidate(mapPageResponse(data))),
+            },
+        }
     );
-    return {
-        data: response?.Page?.media.map(mapAniListMediaToAnime) || [],
-        hasNextPage: response?.Page?.pageInfo?.hasNextPage || false,
-    };
+    return mapPageResponse(response);
 }
 
-async function paginatedRequest(query: string, variables: any, addLog?: (message: string, type?: LogEntry['type'], details?: any) => void) {
-    const listData = await get<ListData>('animesync_local_list_data');
+async function paginatedRequest(query: string, variables: any, addLog?: (message: string, type?: LogEntry['type'], details?: any) => void, options?: CachedRequestOptions<PageResult>) {
+    const listData = await loadListSettings();
     const hidden = await getHiddenGenres(listData);
-    return fetchAniListPaginated(query, variables, hidden, addLog || (() => {}));
+    return fetchAniListPaginated(query, variables, hidden, addLog || (() => {}), options);
 }
 
-export async function getHomePageData(addLog?: (message: string, type?: LogEntry['type'], details?: any) => void): Promise<Record<string, Anime[]>> {
+const mapHomePageResponse = (response: Record<string, { media: AniListMedia[] }>) =>
+    Object.fromEntries(Object.entries(response).map(([key, section]) => [key, section.media.map(mapAniListMediaToAnime)]));
+
+export async function getHomePageData(addLog?: (message: string, type?: LogEntry['type'], details?: any) => void, { onRevalidate, ...options }: CachedRequestOptions<Record<string, Anime[]>> = {}): Promise<Record<string, Anime[]>> {
     const effectiveLog = addLog || (() => {});
     try {
-        const listData = await get<ListData>('animesync_local_list_data');
+        const listData = await loadListSettings();
         const hidden = await getHiddenGenres(listData);
 
         const variables = {
@@ -133,19 +155,16 @@ export async function getHomePageData(addLog?: (message: string, type?: LogEntry
             tag_not_in: hidden.tags,
         };
 
-        const response = await fetchAniList<Record<string, { media: AniListMedia[] }>>(HOME_PAGE_QUERY, variables, effectiveLog, 'getHomePageData');
+        const response = await fetchAniList<Record<string, { media: AniListMedia[] }>>(HOME_PAGE_QUERY, variables, effectiveLog, 'getHomePageData', {
+            ...options,
+            cache: { ttl: CACHE_TTL.home, onRevalidate: onRevalidate && (data => onRevalidate(mapHomePageResponse(data))) },
+        });
         
         if (!response) {
             return {};
         }
 
-        const mappedData: Record<string, Anime[]> = {};
-        for (const key in response) {
-            if (Object.prototype.hasOwnProperty.call(response, key)) {
-                mappedData[key] = response[key].media.map(mapAniListMediaToAnime);
-            }
-        }
-        return mappedData;
+        return mapHomePageResponse(response);
 
     } catch (error) {
         effectiveLog('Failed to fetch home page data', 'error', error);
@@ -154,43 +173,44 @@ export async function getHomePageData(addLog?: (message: string, type?: LogEntry
 }
 
 // New simplified functions
-export const getTrending = (page: number, perPage: number, addLog?: (message: string, type?: LogEntry['type'], details?: any) => void) => paginatedRequest(PAGINATED_LIST_QUERY, { page, perPage, sort: ['TRENDING_DESC', 'POPULARITY_DESC'], type: 'ANIME' }, addLog);
-export const getTop = (page: number, perPage: number, addLog?: (message: string, type?: LogEntry['type'], details?: any) => void) => paginatedRequest(PAGINATED_LIST_QUERY, { page, perPage, sort: ['SCORE_DESC'], type: 'ANIME' }, addLog);
-export const getPopular = (page: number, perPage: number, addLog?: (message: string, type?: LogEntry['type'], details?: any) => void) => paginatedRequest(PAGINATED_LIST_QUERY, { page, perPage, sort: ['POPULARITY_DESC'], type: 'ANIME' }, addLog);
-export const getTopMovies = (page: number, perPage: number, addLog?: (message: string, type?: LogEntry['type'], details?: any) => void) => paginatedRequest(PAGINATED_LIST_QUERY, { page, perPage, sort: ['SCORE_DESC'], type: 'ANIME', format: 'MOVIE' }, addLog);
-export const getLatestMovies = (page: number, perPage: number, addLog?: (message: string, type?: LogEntry['type'], details?: any) => void) => paginatedRequest(LATEST_MOVIES_QUERY, { page, perPage }, addLog);
-export const getLatestAdditions = (page: number, perPage: number, addLog?: (message: string, type?: LogEntry['type'], details?: any) => void) => paginatedRequest(PAGINATED_LIST_QUERY, { page, perPage, sort: ['ID_DESC'] }, addLog);
-export const getAiringNow = (page: number, perPage: number, addLog?: (message: string, type?: LogEntry['type'], details?: any) => void) => paginatedRequest(AIRING_QUERY, { page, perPage }, addLog);
-export const getUpcoming = (page: number, perPage: number, addLog?: (message: string, type?: LogEntry['type'], details?: any) => void) => paginatedRequest(UPCOMING_QUERY, { page, perPage }, addLog);
-
-export const getTrendingManga = (page: number, perPage: number, addLog?: (message: string, type?: LogEntry['type'], details?: any) => void) => paginatedRequest(PAGINATED_LIST_QUERY, { page, perPage, sort: ['TRENDING_DESC'], type: 'MANGA' }, addLog);
-export const getPopularManga = (page: number, perPage: number, addLog?: (message: string, type?: LogEntry['type'], details?: any) => void) => paginatedRequest(PAGINATED_LIST_QUERY, { page, perPage, sort: ['POPULARITY_DESC'], type: 'MANGA' }, addLog);
-export const getTopManga = (page: number, perPage: number, addLog?: (message: string, type?: LogEntry['type'], details?: any) => void) => paginatedRequest(PAGINATED_LIST_QUERY, { page, perPage, sort: ['SCORE_DESC'], type: 'MANGA' }, addLog);
-export const getReleasingManga = (page: number, perPage: number, addLog?: (message: string, type?: LogEntry['type'], details?: any) => void) => paginatedRequest(MANGA_STATUS_QUERY, { page, perPage, type: 'MANGA', status: 'RELEASING' }, addLog);
-export const getUpcomingManga = (page: number, perPage: number, addLog?: (message: string, type?: LogEntry['type'], details?: any) => void) => paginatedRequest(MANGA_STATUS_QUERY, { page, perPage, type: 'MANGA', status: 'NOT_YET_RELEASED' }, addLog);
-
-export async function getTopThisSeason(page: number, perPage: number, addLog?: (message: string, type?: LogEntry['type'], details?: any) => void): Promise<{data: Anime[], hasNextPage: boolean}> {
+export const getTrending = (page: number, perPage: number, addLog?: (message: string, type?: LogEntry['type'], details?: any) => void, options?: CachedRequestOptions<PageResult>) => paginatedRequest(PAGINATED_LIST_QUERY, { page, perPage, sort: ['TRENDING_DESC', 'POPULARITY_DESC'], type: 'ANIME' }, addLog, options);
+export const getTop = (page: number, perPage: number, addLog?: (message: string, type?: LogEntry['type'], details?: any) => void, options?: CachedRequestOptions<PageResult>) => paginatedRequest(PAGINATED_LIST_QUERY, { page, perPage, sort: ['SCORE_DESC'], type: 'ANIME' }, addLog, options);
+export const getPopular = (page: number, perPage: number, addLog?: (message: string, type?: LogEntry['type'], details?: any) => void, options?: CachedRequestOptions<PageResult>) => paginatedRequest(PAGINATED_LIST_QUERY, { page, perPage, sort: ['POPULARITY_DESC'], type: 'ANIME' }, addLog, options);
+export const getTopMovies = (page: number, perPage: number, addLog?: (message: string, type?: LogEntry['type'], details?: any) => void, options?: CachedRequestOptions<PageResult>) => paginatedRequest(PAGINATED_LIST_QUERY, { page, perPage, sort: ['SCORE_DESC'], type: 'ANIME', format: 'MOVIE' }, addLog, options);
+export const getLatestMovies = (page: number, perPage: number, addLog?: (message: string, type?: LogEntry['type'], details?: any) => void, options?: CachedRequestOptions<PageResult>) => paginatedRequest(LATEST_MOVIES_QUERY, { page, perPage }, addLog, options);
+export const getLatestAdditions = (page: number, perPage: number, addLog?: (message: string, type?: LogEntry['type'], details?: any) => void, options?: CachedRequestOptions<PageResult>) => paginatedRequest(PAGINATED_LIST_QUERY, { page, perPage, sort: ['ID_DESC'] }, addLog, options);
+export const getAiringNow = (page: number, perPage: number, addLog?: (message: string, type?: LogEntry['type'], details?: any) => void, options?: CachedRequestOptions<PageResult>) => paginatedRequest(AIRING_QUERY, { page, perPage }, addLog, options);
+export const getUpcoming = (page: number, perPage: number, addLog?: (message: string, type?: LogEntry['type'], details?: any) => void, options?: CachedRequestOptions<PageResult>) => paginatedRequest(UPCOMING_QUERY, { page, perPage }, addLog, options);
+
+export const getTrendingManga = (page: number, perPage: number, addLog?: (message: string, type?: LogEntry['type'], details?: any) => void, options?: CachedRequestOptions<PageResult>) => paginatedRequest(PAGINATED_LIST_QUERY, { page, perPage, sort: ['TRENDING_DESC'], type: 'MANGA' }, addLog, options);
+export const getPopularManga = (page: number, perPage: number, addLog?: (message: string, type?: LogEntry['type'], details?: any) => void, options?: CachedRequestOptions<PageResult>) => paginatedRequest(PAGINATED_LIST_QUERY, { page, perPage, sort: ['POPULARITY_DESC'], type: 'MANGA' }, addLog, options);
+export const getTopManga = (page: number, perPage: number, addLog?: (message: string, type?: LogEntry['type'], details?: any) => void, options?: CachedRequestOptions<PageResult>) => paginatedRequest(PAGINATED_LIST_QUERY, { page, perPage, sort: ['SCORE_DESC'], type: 'MANGA' }, addLog, options);
+export const getReleasingManga = (page: number, perPage: number, addLog?: (message: string, type?: LogEntry['type'], details?: any) => void, options?: CachedRequestOptions<PageResult>) => paginatedRequest(MANGA_STATUS_QUERY, { page, perPage, type: 'MANGA', status: 'RELEASING' }, addLog, options);
+export const getUpcomingManga = (page: number, perPage: number, addLog?: (message: string, type?: LogEntry['type'], details?: any) => void, options?: CachedRequestOptions<PageResult>) => paginatedRequest(MANGA_STATUS_QUERY, { page, perPage, type: 'MANGA', status: 'NOT_YET_RELEASED' }, addLog, options);
+
+export async function getTopThisSeason(page: number, perPage: number, addLog?: (message: string, type?: LogEntry['type'], details?: any) => void, options?: CachedRequestOptions<PageResult>): Promise<PageResult> {
     const variables = { 
         page, 
         perPage, 
         season: getCurrentSeason(), 
         seasonYear: new Date().getFullYear(),
     };
-    return paginatedRequest(TOP_THIS_SEASON_QUERY, variables, addLog);
+    return paginatedRequest(TOP_THIS_SEASON_QUERY, variables, addLog, options);
 }
 
-export async function getMultipleAnimeFromAniList(anilistIds: number[], addLog?: (message: string, type?: LogEntry['type'], details?: any) => void): Promise<Anime[]> {
+export async function getMultipleAnimeFromAniList(anilistIds: number[], addLog?: (message: string, type?: LogEntry['type'], details?: any) => void, options?: RequestOptions): Promise<Anime[]> {
     const effectiveLog = addLog || (() => {});
     if (anilistIds.length === 0) return [];
     
     try {
-        const listData = await get<ListData>('animesync_local_list_data');
+        const listData = await loadListSettings();
         const hidden = await getHiddenGenres(listData);
         const response = await fetchAniList<{ Page: { media: AniListMedia[] } }>(
             MULTIPLE_ANIME_QUERY,
             { ids: anilistIds, genre_not_in: hidden.genres, tag_not_in: hidden.tags },
             effectiveLog,
-            'getMultipleAnimeFromAniList'
+            'getMultipleAnimeFromAniList',
+            options
         );
         return response?.Page?.media.map(mapAniListMediaToAnime) || [];
     } catch (error) {
@@ -199,16 +219,23 @@ export async function getMultipleAnimeFromAniList(anilistIds: number[], addLog?:
     }
 }
 
-export async function getMediaByAniListId(anilistId: number, addLog?: (message: string, type?: LogEntry['type'], details?: any) => void): Promise<Anime | null> {
+export async function getMediaByAniListId(anilistId: number, addLog?: (message: string, type?: LogEntry['type'], details?: any) => void, { onRevalidate, ...options }: CachedRequestOptions<Anime> = {}): Promise<Anime | null> {
     const effectiveLog = addLog || (() => {});
     try {
-        const listData = await get<ListData>('animesync_local_list_data');
+        const listData = await loadListSettings();
         const hidden = await getHiddenGenres(listData);
         const response = await fetchAniList<{ Media: AniListMedia }>(
             MEDIA_BY_ID_QUERY,
             { id: anilistId, genre_not_in: hidden.genres, tag_not_in: hidden.tags },
             effectiveLog,
-            `getMediaByAniListId-${anilistId}`
+            `getMediaByAniListId-${anilistId}`,
+            {
+                ...options,
+                cache: {
+                    ttl: data => (data.Media?.status === 'FINISHED' || data.Media?.status === 'CANCELLED' ? CACHE_TTL.finishedMedia : CACHE_TTL.media),
+                    onRevalidate: onRevalidate && (data => data.Media && onRevalidate(mapAniListMediaToAnime(data.Media))),
+                },
+            }
         );
         return response ? mapAniListMediaToAnime(response.Media) : null;
     } catch (error) {
@@ -218,6 +245,33 @@ export async function getMediaByAniListId(anilistId: number, addLog?: (message:
 }
 
 
+// Looks up AniList media for a batch of MyAnimeList ids. MAL anime and manga ids overlap, so
+// results are filtered by type. Hidden genres are not applied: this is used for imports.
+export async function getMediaByMalIds(malIds: number[], type: 'ANIME' | 'MANGA', addLog?: (message: string, type?: LogEntry['type'], details?: any) => void): Promise<Map<number, Anime>> {
+    const effectiveLog = addLog || (() => {});
+    const result = new Map<number, Anime>();
+    // A MAL id can match one anime and one manga, so 25 ids never exceed a 50 item page.
+    const chunkSize = 25;
+
+    for (let i = 0; i < malIds.length; i += chunkSize) {
+        const chunk = malIds.slice(i, i + chunkSize);
+        try {
+            const response = await fetchAniList<{ Page: { media: AniListMedia[] } }>(
+                SEARCH_BY_MAL_ID_QUERY,
+                { malIds: chunk, page: 1, perPage: chunkSize * 2 },
+                effectiveLog,
+                'getMediaByMalIds'
+            );
+            response?.Page?.media
+                .filter(media => media.type === type && media.idMal)
+                .forEach(media => result.set(media.idMal, mapAniListMediaToAnime(media)));
+        } catch (error) {
+            effectiveLog(`Failed to look up MAL ids ${chunk[0]}-${chunk[chunk.length - 1]}`, 'error', error);
+        }
+    }
+    return result;
+}
+
 export async function getAnimeEpisodes(anilistId: number, addLog: (message: string, type?: LogEntry['type'], details?: any) => void): Promise<AniListStreamingEpisode[]> {
   const effectiveLog = addLog || (() => {});
   try {
@@ -239,7 +293,7 @@ export async function getMediaBySeason(
   filter: string,
   addLog: (message: string, type?: LogEntry['type'], details?: any) => void
 ): Promise<{ data: Anime[]; hasNextPage: boolean }> {
-    const listData = await get<ListData>('animesync_local_list_data');
+    const listData = await loadListSettings();
     const hidden = await getHiddenGenres(listData);
     const variables: any = {
         page,
@@ -264,14 +318,15 @@ export async function getMediaBySeason(
     };
 }
 
-export async function getAnimeRecommendations(anilistId: number, addLog?: (message: string, type?: LogEntry['type'], details?: any) => void): Promise<Anime[]> {
+export async function getAnimeRecommendations(anilistId: number, addLog?: (message: string, type?: LogEntry['type'], details?: any) => void, options?: RequestOptions): Promise<Anime[]> {
     const effectiveLog = addLog || (() => {});
     try {
         const response = await fetchAniList<{ Media: { recommendations: { edges: { node: { mediaRecommendation: AniListMedia } }[] } } }>(
             RECOMMENDATIONS_QUERY,
             { id: anilistId },
             effectiveLog,
-            'getAnimeRecommendations'
+            'getAnimeRecommendations',
+            options
         );
         return response?.Media?.recommendations.edges.map(edge => mapAniListMediaToAnime(edge.node.mediaRecommendation)) || [];
     } catch (error) {
@@ -280,11 +335,11 @@ export async function getAnimeRecommendations(anilistId: number, addLog?: (messa
     }
 }
 
-export async function getAnimeCharacters(malId: number, addLog?: (message: string, type?: LogEntry['type'], details?: any) => void): Promise<JikanCharacter[]> {
+export async function getAnimeCharacters(malId: number, addLog?: (message: string, type?: LogEntry['type'], details?: any) => void, options?: RequestOptions): Promise<JikanCharacter[]> {
     if (!malId) return [];
     const effectiveLog = addLog || (() => {});
     try {
-        const response = await jikanApiRequest(`/anime/${malId}/characters`, effectiveLog);
+        const response = await jikanApiRequest(`/anime/${malId}/characters`, effectiveLog, undefined, options);
         return response.data as JikanCharacter[];
     } catch (error: any) {
         effectiveLog(`Failed to fetch Jikan characters for MAL ID ${malId}: ${error.message}`, 'error');
@@ -293,10 +348,10 @@ export async function getAnimeCharacters(malId: number, addLog?: (message: strin
 }
 
 
-export async function getAnimeStaff(anilistId: number, addLog?: (message: string, type?: LogEntry['type'], details?: any) => void): Promise<JikanStaff[]> {
+export async function getAnimeStaff(anilistId: number, addLog?: (message: string, type?: LogEntry['type'], details?: any) => void, options?: RequestOptions): Promise<JikanStaff[]> {
      const effectiveLog = addLog || (() => {});
      try {
-        const response = await fetchAniList<{ Media: { staff: { edges: any[] } } }>(STAFF_QUERY, { id: anilistId }, effectiveLog);
+        const response = await fetchAniList<{ Media: { staff: { edges: any[] } } }>(STAFF_QUERY, { id: anilistId }, effectiveLog, 'getAnimeStaff', options);
         return response?.Media?.staff.edges.map(edge => ({
             person: {
                 mal_id: edge.node.id,
@@ -311,10 +366,10 @@ export async function getAnimeStaff(anilistId: number, addLog?: (message: string
     }
 }
 
-export async function getAnimeReviews(anilistId: number, addLog?: (message: string, type?: LogEntry['type'], details?: any) => void): Promise<JikanReview[]> {
+export async function getAnimeReviews(anilistId: number, addLog?: (message: string, type?: LogEntry['type'], details?: any) => void, options?: RequestOptions): Promise<JikanReview[]> {
     const effectiveLog = addLog || (() => {});
     try {
-        const response = await fetchAniList<{ Media: { reviews: { nodes: any[] } } }>(REVIEWS_QUERY, { id: anilistId }, effectiveLog);
+        const response = await fetchAniList<{ Media: { reviews: { nodes: any[] } } }>(REVIEWS_QUERY, { id: anilistId }, effectiveLog, 'getAnimeReviews', options);
         return response?.Media?.reviews.nodes.map(node => ({
             mal_id: node.id,
             user: { 
@@ -334,10 +389,10 @@ export async function getAnimeReviews(anilistId: number, addLog?: (message: stri
     }
 }
 
-export async function getAnimePictures(anilistId: number, addLog?: (message: string, type?: LogEntry['type'], details?: any) => void): Promise<JikanPicture[]> {
+export async function getAnimePictures(anilistId: number, addLog?: (message: string, type?: LogEntry['type'], details?: any) => void, options?: RequestOptions): Promise<JikanPicture[]> {
     const effectiveLog = addLog || (() => {});
     try {
-        const response = await fetchAniList<{ Media: { bannerImage: string, coverImage: { extraLarge: string } } }>(PICTURES_QUERY, { id: anilistId }, effectiveLog);
+        const response = await fetchAniList<{ Media: { bannerImage: string, coverImage: { extraLarge: string } } }>(PICTURES_QUERY, { id: anilistId }, effectiveLog, 'getAnimePictures', options);
         const pictures: JikanPicture[] = [];
         if (response?.Media?.bannerImage) pictures.push({ jpg: { image_url: response.Media.bannerImage } });
         if (response?.Media?.coverImage?.extraLarge) pictures.push({ jpg: { image_url: response.Media.coverImage.extraLarge } });
@@ -348,10 +403,10 @@ export async function getAnimePictures(anilistId: number, addLog?: (message: str
     }
 }
 
-export async function getAnimeVideos(anilistId: number, addLog?: (message: string, type?: LogEntry['type'], details?: any) => void): Promise<JikanVideo[]> {
+export async function getAnimeVideos(anilistId: number, addLog?: (message: string, type?: LogEntry['type'], details?: any) => void, options?: RequestOptions): Promise<JikanVideo[]> {
     const effectiveLog = addLog || (() => {});
     try {
-        const response = await fetchAniList<{ Media: { trailer: any, streamingEpisodes: any[] } }>(VIDEOS_QUERY, { id: anilistId }, effectiveLog);
+        const response = await fetchAniList<{ Media: { trailer: any, streamingEpisodes: any[] } }>(VIDEOS_QUERY, { id: anilistId }, effectiveLog, 'getAnimeVideos', options);
         const videos: JikanVideo[] = [];
         if (response?.Media?.trailer) {
             videos.push({ title: 'Official Trailer', trailer: { ...response.Media.trailer, images: { maximum_image_url: response.Media.trailer.thumbnail } } });
@@ -367,11 +422,11 @@ export async function getAnimeVideos(anilistId: number, addLog?: (message: strin
 }
 
 
-export async function getCharacterDetails(characterId: number, addLog?: (message: string, type?: LogEntry['type'], details?: any) => void): Promise<JikanCharacterDetail | null> {
+export async function getCharacterDetails(characterId: number, addLog?: (message: string, type?: LogEntry['type'], details?: any) => void, options?: RequestOptions): Promise<JikanCharacterDetail | null> {
     // Jikan is the source of truth for character details
     const effectiveLog = addLog || (() => {});
     try {
-        const response = await jikanApiRequest(`/characters/${characterId}/full`, effectiveLog);
+        const response = await jikanApiRequest(`/characters/${characterId}/full`, effectiveLog, undefined, options);
         return response.data as JikanCharacterDetail;
     } catch (error: any) {
         effectiveLog(`Failed to fetch Jikan character details for ID ${characterId}: ${error.message}`, 'error');
@@ -380,11 +435,11 @@ export async function getCharacterDetails(characterId: number, addLog?: (message
 }
 
 
-export async function getPersonDetails(personId: number, addLog?: (message: string, type?: LogEntry['type'], details?: any) => void): Promise<JikanPerson | null> {
+export async function getPersonDetails(personId: number, addLog?: (message: string, type?: LogEntry['type'], details?: any) => void, options?: RequestOptions): Promise<JikanPerson | null> {
     // Jikan is the source of truth for person details
     const effectiveLog = addLog || (() => {});
     try {
-        const response = await jikanApiRequest(`/people/${personId}/full`, effectiveLog);
+        const response = await jikanApiRequest(`/people/${personId}/full`, effectiveLog, undefined, options);
         return response.data as JikanPerson;
     } catch (error: any) {
         effectiveLog(`Failed to fetch Jikan person details for ID ${personId}: ${error.message}`, 'error');
@@ -392,30 +447,30 @@ export async function getPersonDetails(personId: number, addLog?: (message: stri
     }
 }
 
-export async function getCharacterPictures(characterId: number, addLog?: (message: string, type?: LogEntry['type'], details?: any) => void): Promise<any[]> {
+export async function getCharacterPictures(characterId: number, addLog?: (message: string, type?: LogEntry['type'], details?: any) => void, options?: RequestOptions): Promise<any[]> {
     const effectiveLog = addLog || (() => {});
     try {
-         const response = await fetchAniList<{ Character: { image: { large: string } } }>(CHAR_PICS_QUERY, { id: characterId }, effectiveLog);
+         const response = await fetchAniList<{ Character: { image: { large: string } } }>(CHAR_PICS_QUERY, { id: characterId }, effectiveLog, 'getCharacterPictures', options);
          return response?.Character?.image?.large ? [{ jpg: { image_url: response.Character.image.large } }] : [];
     } catch (error: any) {
         effectiveLog(`Failed to fetch character pictures for ID ${characterId}: ${error.message}`, 'warn');
         return [];
     }
 }
-export async function getPersonPictures(personId: number, addLog?: (message: string, type?: LogEntry['type'], details?: any) => void): Promise<any[]> {
+export async function getPersonPictures(personId: number, addLog?: (message: string, type?: LogEntry['type'], details?: any) => void, options?: RequestOptions): Promise<any[]> {
      const effectiveLog = addLog || (() => {});
     try {
-         const response = await fetchAniList<{ Staff: { image: { large: string } } }>(PERSON_PICS_QUERY, { id: personId }, effectiveLog);
+         const response = await fetchAniList<{ Staff: { image: { large: string } } }>(PERSON_PICS_QUERY, { id: personId }, effectiveLog, 'getPersonPictures', options);
          return response?.Staff?.image?.large ? [{ jpg: { image_url: response.Staff.image.large } }] : [];
     } catch (e) {
         effectiveLog(`Failed to get person pictures for ID ${personId}`, 'warn');
         return [];
     }
 }
-export async function getMangaCharacters(mangaId: number, addLog?: (message: string, type?: LogEntry['type'], details?: any) => void): Promise<any[]> {
+export async function getMangaCharacters(mangaId: number, addLog?: (message: string, type?: LogEntry['type'], details?: any) => void, options?: RequestOptions): Promise<any[]> {
     const effectiveLog = addLog || (() => {});
      try {
-        const response = await fetchAniList<{ Media: { characters: { edges: any[] } } }>(MANGA_CHARS_QUERY, { id: mangaId }, effectiveLog);
+        const response = await fetchAniList<{ Media: { characters: { edges: any[] } } }>(MANGA_CHARS_QUERY, { id: mangaId }, effectiveLog, 'getMangaCharacters', options);
         return response?.Media?.characters?.edges.map(edge => ({
             character: { ...edge.node, mal_id: edge.node.id, images: { webp: { image_url: edge.node.image.large }, jpg: { image_url: edge.node.image.large } } },
             role: edge.role
@@ -425,14 +480,14 @@ export async function getMangaCharacters(mangaId: number, addLog?: (message: str
         throw error;
     }
 }
-export async function getMangaStaff(mangaId: number, addLog?: (message: string, type?: LogEntry['type'], details?: any) => void): Promise<any[]> {
-     return getAnimeStaff(mangaId, addLog); // Same query works
+export async function getMangaStaff(mangaId: number, addLog?: (message: string, type?: LogEntry['type'], details?: any) => void, options?: RequestOptions): Promise<any[]> {
+     return getAnimeStaff(mangaId, addLog, options); // Same query works
 }
-export async function getMangaReviews(mangaId: number, addLog?: (message: string, type?: LogEntry['type'], details?: any) => void): Promise<any[]> {
-     return getAnimeReviews(mangaId, addLog); // Same query works
+export async function getMangaReviews(mangaId: number, addLog?: (message: string, type?: LogEntry['type'], details?: any) => void, options?: RequestOptions): Promise<any[]> {
+     return getAnimeReviews(mangaId, addLog, options); // Same query works
 }
-export async function getMangaRecommendations(mangaId: number, addLog?: (message: string, type?: LogEntry['type'], details?: any) => void): Promise<any[]> {
-     return getAnimeRecommendations(mangaId, addLog); // Same query works
+export async function getMangaRecommendations(mangaId: number, addLog?: (message: string, type?: LogEntry['type'], details?: any) => void, options?: RequestOptions): Promise<any[]> {
+     return getAnimeRecommendations(mangaId, addLog, options); // Same query works
 }
 
 export async function getSeasonsList(addLog?: (message: string, type?: LogEntry['type'], details?: any) => void): Promise<any[]> {
@@ -471,30 +526,44 @@ export async function getLatestRecommendations(page: number, addLog?: (message:
     }
 }
 
-export async function getLatestMediaCounts(
+export interface AiredEpisode {
+    mediaId: number;
+    episode: number;
+    airingAt: number; // Unix seconds
+}
+
+// Episodes of the given anime that aired after `since` and up to `until` (Unix seconds), oldest
+// first. Returns null when AniList couldn't be reached, so the caller can retry the same window.
+export async function getAiredEpisodes(
     mediaIds: number[],
-    addLog?: (message: string, type?: LogEntry['type'], details?: any) => void
-): Promise<Map<number, { episodes: number | null; chapters: number | null; volumes: number | null }>> {
+    since: number,
+    until: number,
+    addLog?: (message: string, type?: LogEntry['type'], details?: any) => void,
+    options?: RequestOptions
+): Promise<AiredEpisode[] | null> {
     const effectiveLog = addLog || (() => {});
-    const countsMap = new Map<number, { episodes: number | null; chapters: number | null; volumes: number | null }>();
-    if (mediaIds.length === 0) return countsMap;
-    
+    const episodes: AiredEpisode[] = [];
+    if (mediaIds.length === 0) return episodes;
+
     try {
-        const response = await fetchAniList<{ Page: { media: any[] } }>(MEDIA_COUNTS_QUERY, { ids: mediaIds }, effectiveLog);
-        response?.Page?.media.forEach(m => {
-            countsMap.set(m.id, { episodes: m.episodes, chapters: m.chapters, volumes: m.volumes });
-        });
-    } catch(e) {
-        effectiveLog(`Failed to get media counts for ${mediaIds.length} items`, 'warn', e);
+        for (let page = 1; ; page++) {
+            const response = await fetchAniList<{ Page: { pageInfo: { hasNextPage: boolean }; airingSchedules: AiredEpisode[] } }>(
+                AIRED_EPISODES_QUERY, { ids: mediaIds, since, until: until + 1, page }, effectiveLog, 'getAiredEpisodes', options
+            );
+            if (!response?.Page) throw new Error('Empty response');
+            episodes.push(...response.Page.airingSchedules);
+            if (!response.Page.pageInfo.hasNextPage) return episodes;
+        }
+    } catch (e) {
+        effectiveLog(`Failed to get the airing schedule of ${mediaIds.length} anime`, 'warn', e);
+        return null;
     }
-
-    return countsMap;
 }
 
 
 export async function searchMediaGraphQL(variables: any, addLog: (message: string, type?: LogEntry['type'], details?: any) => void) {
     const effectiveLog = addLog || (() => {});
-    const listData = await get<ListData>('animesync_local_list_data');
+    const listData = await loadListSettings();
     const hidden = await getHiddenGenres(listData);
     const finalVariables = {
         ...variables,
@@ -0,0 +1,164 @@
+// Shared request scheduler for the AniList proxy and Jikan. Each provider gets a token bucket
+// sized to its published rate limit, which the rate limit headers of every response correct.
+// Requests the user is waiting for (the default) go ahead of background ones such as the update
+// checks, 429s and server errors are retried with exponential backoff, and a request can be
+// cancelled with an AbortSignal while it waits or runs.
+
+export type RequestProvider = 'anilist' | 'jikan';
+export type RequestPriority = 'user' | 'background';
+
+export interface RequestOptions {
+    signal?: AbortSignal;
+    priority?: RequestPriority;
+}
+
+const PROVIDER_LIMITS: Record<RequestProvider, { burst: number; perMinute: number }> = {
+    // AniList allows 90 requests a minute; stay a little under it.
+    anilist: { burst: 10, perMinute: 80 },
+    // Jikan allows 3 requests a second and 60 a minute.
+    jikan: { burst: 3, perMinute: 60 },
+};
+
+const RETRY_STATUSES = new Set([429, 500, 502, 503, 504]);
+const MAX_RETRIES = 3;
+const BASE_BACKOFF = 1000;
+const MAX_BACKOFF = 30 * 1000;
+
+interface Bucket {
+    tokens: number;
+    updatedAt: number;
+    // Set when the API asks to wait: nothing is sent before then.
+    pausedUntil: number;
+    queues: Record<RequestPriority, (() => void)[]>;
+    timer: ReturnType<typeof setTimeout> | null;
+}
+
+const buckets = new Map<RequestProvider, Bucket>();
+
+function getBucket(provider: RequestProvider): Bucket {
+    let bucket = buckets.get(provider);
+    if (!bucket) {
+        bucket = { tokens: PROVIDER_LIMITS[provider].burst, updatedAt: Date.now(), pausedUntil: 0, queues: { user: [], background: [] }, timer: null };
+        buckets.set(provider, bucket);
+    }
+    return bucket;
+}
+
+const abortReason = (signal: AbortSignal) => signal.reason ?? new DOMException('The request was cancelled', 'AbortError');
+
+// Starts as many queued requests as the bucket allows, then wakes up when the next one may go.
+function dispatch(provider: RequestProvider) {
+    const bucket = getBucket(provider);
+    const { burst, perMinute } = PROVIDER_LIMITS[provider];
+    if (bucket.timer) clearTimeout(bucket.timer);
+    bucket.timer = null;
+
+    const now = Date.now();
+    bucket.tokens = Math.min(burst, bucket.tokens + ((now - bucket.updatedAt) * perMinute) / 60000);
+    bucket.updatedAt = now;
+
+    const pending = () => bucket.queues.user.length + bucket.queues.background.length;
+    while (pending() > 0 && now >= bucket.pausedUntil && bucket.tokens >= 1) {
+        const start = bucket.queues.user.shift() || bucket.queues.background.shift();
+        bucket.tokens -= 1;
+        start?.();
+    }
+    if (pending() === 0) return;
+    const delay = Math.max(bucket.pausedUntil - now, ((1 - bucket.tokens) * 60000) / perMinute);
+    bucket.timer = setTimeout(() => dispatch(provider), delay);
+}
+
+// Resolves when the request may be sent. Cancelling it takes it out of the queue.
+function acquire(provider: RequestProvider, priority: RequestPriority, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) return reject(abortReason(signal));
+        const queue = getBucket(provider).queues[priority];
+        const start = () => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        };
+        const onAbort = () => {
+            const index = queue.indexOf(start);
+            if (index >= 0) queue.splice(index, 1);
+            reject(abortReason(signal!));
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+        queue.push(start);
+        dispatch(provider);
+    });
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) return reject(abortReason(signal));
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(abortReason(signal!));
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+// Exponential, with the upper half jittered so retries of requests that failed together spread out.
+function backoff(attempt: number): number {
+    const delay = Math.min(MAX_BACKOFF, BASE_BACKOFF * 2 ** attempt);
+    return delay / 2 + Math.random() * (delay / 2);
+}
+
+// How long the API asked to wait: Retry-After (seconds or a date), else X-RateLimit-Reset (Unix seconds).
+function getRetryDelay(response: Response): number | null {
+    const retryAfter = response.headers.get('Retry-After');
+    if (retryAfter) {
+        const seconds = Number(retryAfter);
+        const ms = Number.isNaN(seconds) ? Date.parse(retryAfter) - Date.now() : seconds * 1000;
+        if (!Number.isNaN(ms)) return Math.max(ms, 0);
+    }
+    const reset = Number(response.headers.get('X-RateLimit-Reset'));
+    return reset ? Math.max(reset * 1000 - Date.now(), 0) : null;
+}
+
+// The bucket is only our estimate; the API's own count of what's left wins when it is lower.
+function applyRateLimitHeaders(provider: RequestProvider, response: Response) {
+    const bucket = getBucket(provider);
+    const header = response.headers.get('X-RateLimit-Remaining');
+    const remaining = header === null ? NaN : Number(header);
+    if (!Number.isNaN(remaining)) bucket.tokens = Math.min(bucket.tokens, remaining);
+    if (response.status === 429 || remaining === 0) {
+        bucket.tokens = 0;
+        const delay = getRetryDelay(response);
+        if (delay !== null) bucket.pausedUntil = Math.max(bucket.pausedUntil, Date.now() + delay);
+    }
+}
+
+/**
+ * Sends a request through the provider's bucket. `send` is called once per attempt with the
+ * signal to pass to fetch. Resolves with the last response, which may still be an error status
+ * once the retries run out; network errors are rethrown the same way.
+ */
+export async function scheduleRequest(
+    provider: RequestProvider,
+    send: (signal?: AbortSignal) => Promise<Response>,
+    { signal, priority = 'user' }: RequestOptions = {},
+): Promise<Response> {
+    for (let attempt = 0; ; attempt++) {
+        await acquire(provider, priority, signal);
+        let response: Response;
+        try {
+            response = await send(signal);
+        } catch (error) {
+            // Offline, retrying would only keep the page waiting for the same failure.
+            const isOffline = typeof navigator !== 'undefined' && !navigator.onLine;
+            if (signal?.aborted || isOffline || attempt >= MAX_RETRIES) throw error;
+            await sleep(backoff(attempt), signal);
+            continue;
+        }
+        applyRateLimitHeaders(provider, response);
+        if (!RETRY_STATUSES.has(response.status) || attempt >= MAX_RETRIES) return response;
+        // A pause the API asked for is waited out in the queue.
+        await sleep(backoff(attempt), signal);
+    }
+}
@@ -1,15 +1,25 @@
 import type { AniListMedia, Anime, JikanRelation, ListData } from '../types';
 import { genres_list } from '@/i18n';
 import type { LogEntry } from '@/hooks/use-logger';
+import { scheduleRequest, type RequestOptions } from './scheduler';
+import { cachedQuery, type CacheOptions } from './cache';
 
 export const ANILIST_API_URL = 'https://graphql.anilist.co';
 export const JIKAN_API_URL = 'https://api.jikan.moe/v4';
 
-export async function fetchAniList<T>(query: string, variables: Record<string, any> = {}, addLog: (message: string, type?: LogEntry['type'], details?: any) => void, operationName?: string): Promise<T | null> {
+// With `options.cache`, the response goes through the persistent query cache (see ./cache.ts).
+export async function fetchAniList<T>(query: string, variables: Record<string, any> = {}, addLog: (message: string, type?: LogEntry['type'], details?: any) => void, operationName?: string, options: RequestOptions & { cache?: CacheOptions<T> } = {}): Promise<T | null> {
+    const { cache, ...requestOptions } = options;
+    if (!cache) return requestAniList<T>(query, variables, addLog, operationName, requestOptions);
+    return cachedQuery(query, variables, cache, priority =>
+        requestAniList<T>(query, variables, addLog, operationName, { ...requestOptions, priority: priority ?? requestOptions.priority }));
+}
+
+async function requestAniList<T>(query: string, variables: Record<string, any>, addLog: (message: string, type?: LogEntry['type'], details?: any) => void, operationName: string | undefined, options: RequestOptions): Promise<T | null> {
     const effectiveLog = addLog || (() => {});
     try {
         // Use the local proxy
-        const response = await fetch('/api/anilist/search', {
+        const response = await scheduleRequest('anilist', signal => fetch('/api/anilist/search', {
             method: 'POST',
             headers: {
                 'Content-Type': 'application/json',
@@ -19,7 +29,8 @@ export async function fetchAniList<T>(query: string, variables: Record<string, a
                 query,
                 variables,
             }),
-        });
+            signal,
+        }), options);
 
         if (!response.ok) {
             const errorBody = await response.text();
@@ -36,15 +47,19 @@ export async function fetchAniList<T>(query: string, variables: Record<string, a
             throw new Error(finalError);
         }
         
+        // How the proxy answered: HIT, MISS, COALESCED or BYPASS (see lib/anilist/proxy-cache.ts).
+        const cache = response.headers.get('X-Cache');
+        effectiveLog(`AniList ${operationName || 'request'}: ${cache || 'uncached'}`, 'network', { query, variables, cache });
         return jsonResponse.data as T;
 
     } catch (error) {
-        effectiveLog((error as Error).message, 'error', { query, variables });
+        // A cancelled request (the page went away) isn't a failure worth logging.
+        if (!options.signal?.aborted) effectiveLog((error as Error).message, 'error', { query, variables });
         throw error;
     }
 }
 
-export async function jikanApiRequest(endpoint: string, addLog: (message: string, type?: LogEntry['type'], details?: any) => void, params?: URLSearchParams): Promise<any> {
+export async function jikanApiRequest(endpoint: string, addLog: (message: string, type?: LogEntry['type'], details?: any) => void, params?: URLSearchParams, options: RequestOptions = {}): Promise<any> {
     const url = new URL(`${JIKAN_API_URL}${endpoint}`);
     if (params) {
         url.search = params.toString();
@@ -52,10 +67,8 @@ export async function jikanApiRequest(endpoint: string, addLog: (message: string
     
     addLog(`Jikan Request: ${endpoint}`, 'network', { url: url.toString() });
 
-    await new Promise(resolve => setTimeout(resolve, 500)); // Increased delay
-
     try {
-        const response = await fetch(url.toString());
+        const response = await scheduleRequest('jikan', signal => fetch(url.toString(), { signal }), options);
         
         if (!response.ok) {
             const errorBody = await response.text();
@@ -78,7 +91,7 @@ export async function jikanApiRequest(endpoint: string, addLog: (message: string
         addLog(`Jikan Success: ${endpoint}`, 'info', { url: url.toString(), status: response.status });
         return json;
     } catch (error: any) {
-        addLog(`Jikan Failure: ${endpoint}: ${error.message}`, 'error', { url: url.toString() });
+        if (!options.signal?.aborted) addLog(`Jikan Failure: ${endpoint}: ${error.message}`, 'error', { url: url.toString() });
         throw error;
     }
 }
@@ -135,6 +148,7 @@ export function mapJikanMediaToAnime(media: any, relationType?: string): Anime {
         rank: media.rank,
         popularity: media.popularity,
         year: media.year,
+        season: media.season ? String(media.season).toUpperCase() : null,
         broadcast: media.broadcast || { day: null, time: null, timezone: null, string: null },
         rating: media.rating,
         genres: [...genres, ...themes, ...demographics],
@@ -218,6 +232,8 @@ export function mapAniListMediaToAnime(media: AniListMedia & { relationType?: st
     rank: media.rankings?.find(r => r.allTime)?.rank || null,
     popularity: media.popularity,
     year: year,
+    season: media.season,
+    duration: media.duration,
     startDate: media.startDate,
     broadcast: {
       day: media.broadcast?.day || null,
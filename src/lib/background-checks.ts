@@ -0,0 +1,145 @@
+import type { Anime, ListData } from './types';
+import { get, set } from './idb-keyval';
+import { getListIds, getMediaKind } from './data/media-status';
+import { getTrackedProgress } from './data/volumes';
+
+// Update checks in the service worker (public/sw.js), so new episodes, chapters and due reminders
+// show up as system notifications while no tab is open. The worker can't run the app's code, so
+// the app keeps a small summary of what to check in a database of its own, and the worker keeps
+// track of what it has already announced next to it. Settings turn it on for this browser.
+
+export const SERVICE_WORKER_URL = '/sw.js';
+export const BACKGROUND_DATABASE_NAME = 'animesync-background';
+const STATE_KEY = 'state';
+const ENABLED_KEY = 'enabled';
+// Must match SYNC_TAG in public/sw.js.
+const PERIODIC_SYNC_TAG = 'animesync-updates';
+// The browser decides how often periodic sync actually runs; this is only the lower bound.
+const PERIODIC_SYNC_INTERVAL = 60 * 60 * 1000;
+
+interface BackgroundMedia {
+    title: string;
+    image: string;
+    url: string;
+}
+
+export interface BackgroundCheckState {
+    // The worker starts over when the profile changes.
+    profileId: string;
+    // Titles on the watching list, checked against AniList's airing schedule.
+    animeIds: number[];
+    // Titles on the reading list, with the chapter count the app last saw.
+    manga: Record<number, number | null>;
+    media: Record<number, BackgroundMedia>;
+    // Reminders that haven't notified yet in the app and weren't stopped by the title's completion.
+    reminders: { id: string; title: string; body: string; dueAt: string; image: string; url: string }[];
+    // Translated notification texts, with {{episode}} and {{count}} placeholders.
+    labels: { episodeAired: string; newChapters: string };
+}
+
+export type BackgroundNotificationsResult = 'enabled' | 'denied' | 'unsupported';
+
+export const isBackgroundCheckSupported = () =>
+    typeof window !== 'undefined' && 'serviceWorker' in navigator && 'Notification' in window;
+
+// Periodic background sync is only available in some browsers (and often only for installed
+// apps). Elsewhere the worker checks while a tab is open but hidden.
+export async function hasPeriodicSync(): Promise<boolean> {
+    if (!isBackgroundCheckSupported()) return false;
+    const registration = await navigator.serviceWorker.ready;
+    return 'periodicSync' in registration;
+}
+
+export const getMediaUrl = (media: Pick<Anime, 'id' | 'type'>) => `/${getMediaKind(media) === 'MANGA' ? 'manga' : 'anime'}/${media.id}`;
+
+export function buildBackgroundState(
+    profileId: string,
+    listData: ListData,
+    trackedMedia: Anime[],
+    labels: BackgroundCheckState['labels'],
+): BackgroundCheckState {
+    const tracked = new Map(trackedMedia.map(item => [item.id, item]));
+    const animeIds = getListIds(listData.statuses, 'watching');
+    const mangaIds = getListIds(listData.statuses, 'reading');
+    const notified = new Set((listData.notifications || []).map(n => (n.type === 'reminder' ? n.reminderId : null)));
+
+    const media: BackgroundCheckState['media'] = {};
+    [...animeIds, ...mangaIds].forEach(id => {
+        const item = tracked.get(id);
+        if (item) media[id] = { title: item.title, image: item.images.webp?.large_image_url || '', url: getMediaUrl(item) };
+    });
+
+    const reminders = (listData.reminders || [])
+        .filter(reminder => !notified.has(reminder.id))
+        .filter(reminder => {
+            const item = tracked.get(reminder.mediaId);
+            if (!reminder.autoStopOnCompletion || !item) return true;
+            const { count, total } = getTrackedProgress(listData, item);
+            return !total || count < total;
+        })
+        .map(reminder => ({
+            id: reminder.id,
+            title: reminder.title,
+            body: reminder.notes || reminder.mediaTitle,
+            dueAt: reminder.startDateTime,
+            image: reminder.mediaImage || '',
+            url: `/${reminder.mediaType === 'MANGA' ? 'manga' : 'anime'}/${reminder.mediaId}`,
+        }));
+
+    return {
+        profileId,
+        animeIds,
+        manga: Object.fromEntries(mangaIds.map(id => [id, tracked.get(id)?.chapters ?? null])),
+        media,
+        reminders,
+        labels,
+    };
+}
+
+export const saveBackgroundState = (state: BackgroundCheckState) => set(STATE_KEY, state, BACKGROUND_DATABASE_NAME);
+
+// The worker also serves the app offline, so it is registered even without notification support.
+export async function registerServiceWorker(): Promise<ServiceWorkerRegistration | null> {
+    if (typeof window === 'undefined' || !('serviceWorker' in navigator)) return null;
+    return navigator.serviceWorker.register(SERVICE_WORKER_URL);
+}
+
+// Asks the worker to check now. Used while the app is open but hidden, where the worker's
+// notifications are the only ones the user would see.
+export async function requestBackgroundCheck() {
+    if (!isBackgroundCheckSupported() || !(await isBackgroundNotificationsEnabled())) return;
+    const registration = await navigator.serviceWorker.ready;
+    registration.active?.postMessage({ type: 'run-checks' });
+}
+
+export async function isBackgroundNotificationsEnabled(): Promise<boolean> {
+    if (!isBackgroundCheckSupported() || Notification.permission !== 'granted') return false;
+    return !!(await get<boolean>(ENABLED_KEY, BACKGROUND_DATABASE_NAME));
+}
+
+// Asks for the notification permission (so it must be called from a click) and registers the
+// periodic sync where the browser has it.
+export async function enableBackgroundNotifications(): Promise<BackgroundNotificationsResult> {
+    if (!isBackgroundCheckSupported()) return 'unsupported';
+    if (await Notification.requestPermission() !== 'granted') return 'denied';
+    const registration = await navigator.serviceWorker.ready;
+    if ('periodicSync' in registration) {
+        try {
+            await (registration.periodicSync as { register(tag: string, options: { minInterval: number }): Promise<void> })
+                .register(PERIODIC_SYNC_TAG, { minInterval: PERIODIC_SYNC_INTERVAL });
+        } catch {
+            // Refused unless the app is installed; the hidden-tab checks still work.
+        }
+    }
+    await set(ENABLED_KEY, true, BACKGROUND_DATABASE_NAME);
+    return 'enabled';
+}
+
+export async function disableBackgroundNotifications() {
+    await set(ENABLED_KEY, false, BACKGROUND_DATABASE_NAME);
+    if (!isBackgroundCheckSupported()) return;
+    const registration = await navigator.serviceWorker.ready;
+    if ('periodicSync' in registration) {
+        await (registration.periodicSync as { unregister(tag: string): Promise<void> }).unregister(PERIODIC_SYNC_TAG).catch(() => {});
+    }
+}
@@ -1,4 +1,4 @@
-import type { LayoutConfigItem } from "@/hooks/use-auth";
+import type { LayoutConfigItem, ListData } from "@/hooks/use-auth";
 
 export const SENSITIVE_GENRES = ['Boys\' Love', 'Girls Love', 'Hentai', 'Ecchi', 'Erotica'];
 
@@ -26,3 +26,27 @@ export const defaultLayoutConfig: LayoutConfigItem[] = [
     { id: 'popularManga', titleKey: 'popular_manga', visible: true, type: 'manga' },
     { id: 'topManga', titleKey: 'top_manga', visible: true, type: 'manga' },
 ];
+
+export const DEFAULT_STORAGE_QUOTA = 1 * 1024 * 1024 * 1024; // 1 GB
+
+export const initialListData: ListData = {
+    statuses: {},
+    watchedEpisodes: {},
+    readChapters: {},
+    readVolumes: {},
+    volumeTracking: {},
+    customEpisodeLinks: {},
+    listEntries: {},
+    customLists: [],
+    scoreFormat: 'POINT_10',
+    comments: {},
+    notifications: [],
+    notificationsLayout: ['updates', 'reminders', 'logs'],
+    pinnedNotificationTab: 'updates',
+    excludedItems: {},
+    readActivityIds: [],
+    reminders: [],
+    hiddenGenres: SENSITIVE_GENRES,
+    sensitiveContentUnlocked: false,
+    storageQuota: DEFAULT_STORAGE_QUOTA,
+};
@@ -0,0 +1,77 @@
+// Passphrase encryption for exports and shared-data payloads (WebCrypto AES-GCM with a
+// PBKDF2-derived key). The encrypted file is JSON too, so it can be hosted in a gist like
+// a plain export; `isEncryptedPayload` tells the two apart.
+
+export const ENCRYPTED_FORMAT = 'animesync-encrypted';
+
+const PBKDF2_ITERATIONS = 310000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+export interface EncryptedPayload {
+    format: typeof ENCRYPTED_FORMAT;
+    version: 1;
+    kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string };
+    cipher: { name: 'AES-GCM'; iv: string };
+    // Base64 ciphertext of the JSON export.
+    data: string;
+}
+
+export class WrongPassphraseError extends Error {
+    constructor() {
+        super('The passphrase is incorrect or the data is damaged.');
+        this.name = 'WrongPassphraseError';
+    }
+}
+
+// Chunked, since spreading a large export into fromCharCode overflows the call stack.
+function toBase64(bytes: Uint8Array): string {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...Array.from(bytes.subarray(i, i + 0x8000)));
+    }
+    return btoa(binary);
+}
+
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), char => char.charCodeAt(0));
+
+export function isEncryptedPayload(value: unknown): value is EncryptedPayload {
+    return typeof value === 'object' && value !== null && (value as EncryptedPayload).format === ENCRYPTED_FORMAT;
+}
+
+async function deriveKey(passphrase: string, salt: BufferSource, iterations: number): Promise<CryptoKey> {
+    const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+        { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt'],
+    );
+}
+
+export async function encryptText(text: string, passphrase: string): Promise<EncryptedPayload> {
+    const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+    const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+    const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+    const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(text));
+    return {
+        format: ENCRYPTED_FORMAT,
+        version: 1,
+        kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: PBKDF2_ITERATIONS, salt: toBase64(salt) },
+        cipher: { name: 'AES-GCM', iv: toBase64(iv) },
+        data: toBase64(new Uint8Array(ciphertext)),
+    };
+}
+
+// AES-GCM authenticates the data, so a wrong passphrase fails here instead of producing garbage.
+export async function decryptText(payload: EncryptedPayload, passphrase: string): Promise<string> {
+    if (payload.version !== 1) throw new Error(`Unsupported encryption version ${payload.version}.`);
+    const key = await deriveKey(passphrase, fromBase64(payload.kdf.salt), payload.kdf.iterations);
+    try {
+        const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(payload.cipher.iv) }, key, fromBase64(payload.data));
+        return new TextDecoder().decode(plaintext);
+    } catch {
+        throw new WrongPassphraseError();
+    }
+}
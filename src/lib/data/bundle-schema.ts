@@ -0,0 +1,321 @@
+import { z } from 'zod';
+import type { Anime, LayoutConfigItem, ListData } from '../types';
+import type { LocalProfile } from '@/hooks/auth/types';
+import { initialListData } from '../config';
+import type { DataBundle } from './migrations';
+import { MAX_CHAPTERS, MAX_VOLUMES } from './volumes';
+
+// Schema of the export format (and of the shared JSON). Imports are validated piece by piece:
+// a bad value is repaired when there is an obvious fix (a numeric id stored as a string, a
+// missing optional field), dropped when it can't be trusted, and only a bundle without a usable
+// profile or lists is rejected as a whole. Everything that happened ends up in the report.
+// Bundles are validated after migrateBundle, so only the current schema is described here.
+
+const mediaId = z.union([z.number(), z.string().regex(/^\d+$/).transform(Number)]).pipe(z.number().int().positive());
+const isoDate = z.string().refine(value => !Number.isNaN(Date.parse(value)), 'Invalid date');
+// Episode, chapter or volume -> when it was marked. A date that can't be read leaves the unit undated.
+const progressLogSchema = z.record(z.string(), isoDate.nullable().catch(null));
+
+const chapterNumber = z.number().int().positive().max(MAX_CHAPTERS);
+// A mapping that doesn't make sense is dropped as a whole, leaving the volume without chapters.
+const volumeTrackingSchema = z.object({
+    trackBy: z.enum(['chapters', 'volumes']).catch('chapters'),
+    ranges: z.record(z.string().regex(/^\d+$/).refine(volume => Number(volume) <= MAX_VOLUMES, 'Too many volumes.'), z.tuple([chapterNumber, chapterNumber]).refine(([first, last]) => first <= last, 'The first chapter comes after the last.')).catch({}),
+});
+
+const notificationsLayoutKey = z.enum(['updates', 'reminders', 'logs']);
+
+export const profileSchema = z.object({
+    username: z.string().trim().min(1),
+    avatar_url: z.string().catch(''),
+    id: z.string().optional(),
+    bio: z.string().optional(),
+    socials: z.object({
+        twitter: z.string().optional(),
+        github: z.string().optional(),
+        website: z.string().optional(),
+    }).optional().catch(undefined),
+    schemaVersion: z.number().optional(),
+});
+
+export const layoutItemSchema = z.object({
+    id: z.string(),
+    titleKey: z.string(),
+    visible: z.boolean().catch(true),
+    customTitle: z.string().optional(),
+    type: z.enum(['anime', 'manga']),
+});
+
+// Tracked media is a cache of AniList data, so only what the app relies on is checked strictly.
+export const trackedMediaSchema = z.object({
+    id: mediaId,
+    mal_id: z.number().nullish().catch(null),
+    title: z.string(),
+    type: z.string(),
+    episodes: z.number().nullish().catch(null),
+    chapters: z.number().nullish().catch(null),
+    status: z.string().optional().catch(''),
+    genres: z.array(z.object({ name: z.string() }).passthrough()).optional().catch([]),
+}).passthrough();
+
+const reminderSchema = z.object({
+    id: z.string(),
+    mediaId,
+    mediaTitle: z.string(),
+    mediaImage: z.string().optional(),
+    mediaType: z.enum(['ANIME', 'MANGA']).optional().catch(undefined),
+    title: z.string(),
+    notes: z.string().catch(''),
+    startDateTime: isoDate,
+    repeatIntervalDays: z.number().min(0).catch(0),
+    repeatOnDays: z.array(z.number().int().min(0).max(6)).optional().catch(undefined),
+    autoStopOnCompletion: z.boolean().optional(),
+    createdAt: isoDate.catch(() => new Date().toISOString()),
+    isDue: z.boolean().optional(),
+    seen: z.boolean().optional(),
+    seenAt: z.string().optional(),
+});
+
+const notificationBase = { id: z.string(), timestamp: z.string(), seen: z.boolean().catch(false), seenAt: z.string().optional() };
+const notificationSchema = z.discriminatedUnion('type', [
+    z.object({ ...notificationBase, type: z.literal('like'), mediaId, commentId: z.string(), likerUsername: z.string(), commentOwnerId: z.string() }),
+    z.object({ ...notificationBase, type: z.literal('reply'), mediaId, commentId: z.string(), replierUsername: z.string(), parentCommentOwnerId: z.string() }),
+    z.object({ ...notificationBase, type: z.literal('news'), mediaId, isManga: z.boolean(), title: z.string(), thumbnail: z.string(), message: z.string(), episode: z.number().int().positive().optional() }),
+    z.object({ ...notificationBase, type: z.literal('reminder'), reminderId: z.string(), mediaId, title: z.string(), message: z.string() }),
+    z.object({ ...notificationBase, type: z.literal('broadcast'), message: z.string() }),
+    z.object({ ...notificationBase, type: z.literal('storage'), title: z.string(), message: z.string() }),
+]);
+
+const calendarDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+
+const statusSchema = z.object({
+    status: z.enum(['planning', 'current', 'paused', 'dropped', 'completed', 'repeating']),
+    type: z.enum(['ANIME', 'MANGA']),
+    updatedAt: isoDate.catch(() => new Date().toISOString()),
+});
+
+const listEntrySchema = z.object({
+    score: z.number().min(0).max(100).nullish().catch(null).transform(score => score ?? null),
+    notes: z.string().catch(''),
+    startedAt: calendarDate.nullish().catch(null).transform(date => date ?? null),
+    completedAt: calendarDate.nullish().catch(null).transform(date => date ?? null),
+    rewatchCount: z.number().int().min(0).catch(0),
+    repeatProgress: z.object({
+        watchedEpisodes: progressLogSchema.optional(),
+        readChapters: progressLogSchema.optional(),
+        readVolumes: progressLogSchema.optional(),
+    }).optional().catch(undefined),
+    updatedAt: isoDate.catch(() => new Date().toISOString()),
+});
+
+const customListSchema = z.object({
+    id: z.string().min(1),
+    name: z.string().trim().min(1),
+    description: z.string().catch(''),
+    // Duplicates are dropped; the first occurrence keeps its place.
+    mediaIds: z.array(mediaId).catch([]).transform(ids => Array.from(new Set(ids))),
+    createdAt: isoDate.catch(() => new Date().toISOString()),
+    updatedAt: isoDate.catch(() => new Date().toISOString()),
+});
+
+const commentSchema = z.object({
+    id: z.string(),
+    mediaId,
+    userId: z.string(),
+    username: z.string(),
+    avatarUrl: z.string().catch(''),
+    text: z.string(),
+    timestamp: z.string(),
+    parentId: z.string().nullable().catch(null),
+    likes: z.array(z.string()).catch([]),
+    reports: z.array(z.object({ userId: z.string(), reason: z.string(), timestamp: z.string() })).catch([]),
+});
+
+export type ValidationAction = 'repaired' | 'dropped';
+
+export interface ValidationIssue {
+    // Where the problem was, e.g. "lists.watchedEpisodes.123".
+    path: string;
+    message: string;
+    action: ValidationAction;
+}
+
+export interface ValidationReport {
+    issues: ValidationIssue[];
+    // Number of items kept per section, for the summary.
+    checked: { section: string; kept: number }[];
+}
+
+// The last report is kept so it can still be shown after the reload that follows an import.
+export interface StoredValidationReport {
+    source: 'import' | 'sync';
+    createdAt: string;
+    report: ValidationReport;
+}
+
+export class BundleValidationError extends Error {
+    constructor(message: string, public readonly issues: ValidationIssue[]) {
+        super(message);
+        this.name = 'BundleValidationError';
+    }
+}
+
+const describeError = (error: z.ZodError) =>
+    error.issues.map(issue => (issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message)).join('; ');
+
+const changed = (before: unknown, after: unknown) => JSON.stringify(before) !== JSON.stringify(after);
+
+class Validator {
+    issues: ValidationIssue[] = [];
+
+    note(path: string, message: string, action: ValidationAction) {
+        this.issues.push({ path, message, action });
+    }
+
+    // A single value: kept when valid, repaired by the schema's own fallbacks, or replaced by `fallback`.
+    value<T>(path: string, input: unknown, schema: z.ZodType<T, z.ZodTypeDef, unknown>, fallback: T): T {
+        if (input === undefined) return fallback;
+        const result = schema.safeParse(input);
+        if (!result.success) {
+            this.note(path, `${describeError(result.error)}. Reset to the default.`, 'repaired');
+            return fallback;
+        }
+        if (changed(input, result.data)) this.note(path, 'Converted or filled in with defaults.', 'repaired');
+        return result.data;
+    }
+
+    // An array: invalid items are dropped, the rest kept (and repaired where possible).
+    array<T>(path: string, input: unknown, schema: z.ZodType<T, z.ZodTypeDef, unknown>, unique = false): T[] {
+        if (input === undefined || input === null) return [];
+        if (!Array.isArray(input)) {
+            this.note(path, 'Expected a list, found ' + typeof input + '.', 'dropped');
+            return [];
+        }
+        const items: T[] = [];
+        input.forEach((item, index) => {
+            const result = schema.safeParse(item);
+            if (!result.success) {
+                this.note(`${path}[${index}]`, describeError(result.error), 'dropped');
+            } else if (unique && items.some(existing => !changed(existing, result.data))) {
+                this.note(`${path}[${index}]`, 'Duplicate entry.', 'dropped');
+            } else {
+                if (changed(item, result.data)) this.note(`${path}[${index}]`, 'Converted or filled in with defaults.', 'repaired');
+                items.push(result.data);
+            }
+        });
+        return items;
+    }
+
+    // A record keyed by media id: entries with a bad key or value are dropped.
+    record<T>(path: string, input: unknown, schema: z.ZodType<T, z.ZodTypeDef, unknown>): Record<string, T> {
+        if (input === undefined || input === null) return {};
+        if (typeof input !== 'object' || Array.isArray(input)) {
+            this.note(path, 'Expected an object keyed by media id.', 'dropped');
+            return {};
+        }
+        const entries: Record<string, T> = {};
+        Object.entries(input).forEach(([key, value]) => {
+            if (!/^\d+$/.test(key)) {
+                this.note(`${path}.${key}`, 'Key is not a media id.', 'dropped');
+                return;
+            }
+            const result = schema.safeParse(value);
+            if (!result.success) {
+                this.note(`${path}.${key}`, describeError(result.error), 'dropped');
+                return;
+            }
+            if (changed(value, result.data)) this.note(`${path}.${key}`, 'Converted or filled in with defaults.', 'repaired');
+            entries[key] = result.data;
+        });
+        return entries;
+    }
+}
+
+function validateLists(validator: Validator, input: Record<string, unknown>): ListData {
+    const path = (field: string) => `lists.${field}`;
+    const known = new Set<string>(Object.keys(initialListData).concat(['broadcastMessage', 'layoutConfig', 'schemaVersion']));
+    Object.keys(input).filter(key => !known.has(key)).forEach(key => validator.note(path(key), 'Unknown field.', 'dropped'));
+
+    const lists: ListData = {
+        statuses: validator.record(path('statuses'), input.statuses, statusSchema),
+        readActivityIds: validator.array(path('readActivityIds'), input.readActivityIds, z.number(), true),
+        watchedEpisodes: validator.record(path('watchedEpisodes'), input.watchedEpisodes, progressLogSchema),
+        readChapters: validator.record(path('readChapters'), input.readChapters, progressLogSchema),
+        readVolumes: validator.record(path('readVolumes'), input.readVolumes, progressLogSchema),
+        volumeTracking: validator.record(path('volumeTracking'), input.volumeTracking, volumeTrackingSchema),
+        customEpisodeLinks: validator.record(path('customEpisodeLinks'), input.customEpisodeLinks, z.object({
+            template: z.string(),
+            ongoing: z.boolean().catch(false),
+        })),
+        listEntries: validator.record(path('listEntries'), input.listEntries, listEntrySchema),
+        customLists: validator.array(path('customLists'), input.customLists, customListSchema),
+        excludedItems: validator.record(path('excludedItems'), input.excludedItems, z.array(z.number())),
+        comments: validator.record(path('comments'), input.comments, z.array(commentSchema)),
+        notifications: validator.array(path('notifications'), input.notifications, notificationSchema),
+        reminders: validator.array(path('reminders'), input.reminders, reminderSchema),
+        notificationsLayout: validator.value(path('notificationsLayout'), input.notificationsLayout, z.array(notificationsLayoutKey).min(1), initialListData.notificationsLayout),
+        pinnedNotificationTab: validator.value(path('pinnedNotificationTab'), input.pinnedNotificationTab, notificationsLayoutKey, initialListData.pinnedNotificationTab),
+        hiddenGenres: validator.value(path('hiddenGenres'), input.hiddenGenres, z.array(z.string()), initialListData.hiddenGenres),
+        sensitiveContentUnlocked: validator.value(path('sensitiveContentUnlocked'), input.sensitiveContentUnlocked, z.boolean(), false),
+        storageQuota: validator.value(path('storageQuota'), input.storageQuota, z.number().positive(), initialListData.storageQuota),
+    };
+    if (input.scoreFormat !== undefined) lists.scoreFormat = validator.value(path('scoreFormat'), input.scoreFormat, z.enum(['POINT_100', 'POINT_10_DECIMAL', 'POINT_10', 'POINT_5']), initialListData.scoreFormat);
+    if (typeof input.broadcastMessage === 'string') lists.broadcastMessage = input.broadcastMessage;
+    if (input.layoutConfig !== undefined) lists.layoutConfig = validator.array(path('layoutConfig'), input.layoutConfig, layoutItemSchema);
+    if (typeof input.schemaVersion === 'number') lists.schemaVersion = input.schemaVersion;
+    return lists;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Validates a migrated bundle. Throws BundleValidationError when the profile or lists are
+// unusable; otherwise returns a cleaned copy and a report of everything that was changed.
+export function validateBundle(input: DataBundle): { bundle: DataBundle; report: ValidationReport } {
+    const validator = new Validator();
+
+    const profile = profileSchema.safeParse(input.profile);
+    if (!profile.success) {
+        throw new BundleValidationError(`The profile is invalid (${describeError(profile.error)}).`, validator.issues);
+    }
+    if (changed(input.profile, profile.data)) validator.note('profile', 'Converted or filled in with defaults.', 'repaired');
+    if (!isObject(input.lists)) {
+        throw new BundleValidationError('The list data is missing or is not an object.', validator.issues);
+    }
+
+    const lists = validateLists(validator, input.lists);
+    const layout = input.layout === undefined || input.layout === null ? input.layout : validator.array('layout', input.layout, layoutItemSchema);
+    const tracked = input.tracked === undefined || input.tracked === null ? input.tracked : validator.array('tracked', input.tracked, trackedMediaSchema);
+
+    return {
+        bundle: {
+            schemaVersion: input.schemaVersion,
+            profile: profile.data as LocalProfile,
+            lists,
+            layout: layout as LayoutConfigItem[] | null | undefined,
+            tracked: tracked as unknown as Anime[] | null | undefined,
+        },
+        report: {
+            issues: validator.issues,
+            checked: [
+                { section: 'lists', kept: Object.keys(lists.statuses).length },
+                { section: 'progress', kept: Object.keys(lists.watchedEpisodes).length + Object.keys(lists.readChapters).length + Object.keys(lists.readVolumes).length },
+                { section: 'reminders', kept: lists.reminders.length },
+                { section: 'customLists', kept: lists.customLists.length },
+                { section: 'tracked', kept: tracked?.length || 0 },
+            ],
+        },
+    };
+}
+
+// Plain-text version of a report, for logs and the downloadable copy.
+export function formatValidationReport(report: ValidationReport): string {
+    if (report.issues.length === 0) return 'No problems found.';
+    const lines = (action: ValidationAction) => report.issues.filter(issue => issue.action === action).map(issue => `- ${issue.path}: ${issue.message}`);
+    const repaired = lines('repaired');
+    const dropped = lines('dropped');
+    return [
+        `${report.issues.length} invalid value(s) found.`,
+        ...(repaired.length ? ['', `Repaired (${repaired.length}):`, ...repaired] : []),
+        ...(dropped.length ? ['', `Dropped (${dropped.length}):`, ...dropped] : []),
+    ].join('\n');
+}
@@ -0,0 +1,31 @@
+import type { CustomList } from '../types';
+
+// Lists the user makes themselves (ListData.customLists), next to the status lists. One record
+// per list in the 'customLists' store; anime and manga share a list and keep the user's order.
+
+export const CUSTOM_LIST_PAGE_SIZE = 24;
+export const MAX_CUSTOM_LIST_NAME_LENGTH = 60;
+
+export const getCustomListPath = (id: string, page = 1) => `/lists/${id}/${page}`;
+
+export const findCustomList = (lists: CustomList[] | undefined, id: string) => lists?.find(list => list.id === id);
+
+// Ids of the lists that contain the media.
+export const getCustomListsOf = (lists: CustomList[] | undefined, mediaId: number) =>
+    (lists || []).filter(list => list.mediaIds.includes(mediaId)).map(list => list.id);
+
+// The media ids with `mediaId` moved `offset` places (negative is towards the top). Moves past
+// either end stop there.
+export function moveMediaId(ids: number[], mediaId: number, offset: number): number[] {
+    const from = ids.indexOf(mediaId);
+    if (from === -1) return ids;
+    const to = Math.min(Math.max(from + offset, 0), ids.length - 1);
+    if (to === from) return ids;
+    const moved = ids.filter(id => id !== mediaId);
+    moved.splice(to, 0, mediaId);
+    return moved;
+}
+
+// Lists are compared without their timestamps, which change on every save.
+export const sameCustomList = (a: CustomList | undefined, b: CustomList | undefined) =>
+    a?.name === b?.name && a?.description === b?.description && JSON.stringify(a?.mediaIds) === JSON.stringify(b?.mediaIds);
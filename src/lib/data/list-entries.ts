@@ -0,0 +1,73 @@
+import type { Anime, ListEntries, ListEntry, ScoreFormat } from '../types';
+
+// Per-title user data (score, notes, dates, rewatches) and the sort orders of the list pages.
+
+export const DEFAULT_SCORE_FORMAT: ScoreFormat = 'POINT_10';
+export const SCORE_FORMATS: ScoreFormat[] = ['POINT_100', 'POINT_10_DECIMAL', 'POINT_10', 'POINT_5'];
+
+export const emptyListEntry = (): ListEntry => ({
+    score: null,
+    notes: '',
+    startedAt: null,
+    completedAt: null,
+    rewatchCount: 0,
+    updatedAt: new Date().toISOString(),
+});
+
+// An entry without any user data isn't worth storing.
+export const isEmptyListEntry = (entry: ListEntry) =>
+    entry.score === null && !entry.notes.trim() && !entry.startedAt && !entry.completedAt && entry.rewatchCount === 0 && !entry.repeatProgress;
+
+// Highest value and step of each scale, as the user enters it.
+export function getScoreScale(format: ScoreFormat): { max: number; step: number } {
+    switch (format) {
+        case 'POINT_100': return { max: 100, step: 1 };
+        case 'POINT_10_DECIMAL': return { max: 10, step: 0.1 };
+        case 'POINT_10': return { max: 10, step: 1 };
+        case 'POINT_5': return { max: 5, step: 1 };
+    }
+}
+
+// Converts a stored 0-100 score to the user's scale.
+export function toDisplayScore(score: number, format: ScoreFormat): number {
+    const { max, step } = getScoreScale(format);
+    const value = Math.round((score / 100) * max / step) * step;
+    return Number(value.toFixed(1));
+}
+
+// Converts a score entered on the user's scale back to 0-100. Out-of-range values are clamped.
+export function fromDisplayScore(value: number, format: ScoreFormat): number {
+    const { max } = getScoreScale(format);
+    return Math.round(Math.min(Math.max(value, 0), max) / max * 100);
+}
+
+export const formatScore = (score: number, format: ScoreFormat) =>
+    format === 'POINT_5' ? '★'.repeat(toDisplayScore(score, format)) || '☆' : String(toDisplayScore(score, format));
+
+export type ListSortKey = 'added' | 'title' | 'score' | 'started' | 'completed' | 'updated';
+export const LIST_SORT_KEYS: ListSortKey[] = ['added', 'title', 'score', 'started', 'completed', 'updated'];
+
+// Sorts the media of a list page. 'added' keeps the list order; the other keys put the highest
+// score or latest date first, and titles without a value last (in list order).
+export function sortListMedia<T extends Anime>(media: T[], entries: ListEntries | undefined, key: ListSortKey): T[] {
+    if (key === 'added') return media;
+    if (key === 'title') return [...media].sort((a, b) => a.title.localeCompare(b.title));
+
+    const valueOf = (item: T): string | number | null => {
+        const entry = entries?.[item.id];
+        switch (key) {
+            case 'score': return entry?.score ?? null;
+            case 'started': return entry?.startedAt || null;
+            case 'completed': return entry?.completedAt || null;
+            case 'updated': return entry?.updatedAt || null;
+        }
+    };
+    return media
+        .map((item, index) => ({ item, index, value: valueOf(item) }))
+        .sort((a, b) => {
+            if (a.value === null || b.value === null) return a.value === b.value ? a.index - b.index : a.value === null ? 1 : -1;
+            if (a.value === b.value) return a.index - b.index;
+            return a.value < b.value ? 1 : -1;
+        })
+        .map(({ item }) => item);
+}
@@ -0,0 +1,165 @@
+import type { Anime, ListData, MediaStatus } from '../types';
+import { getListIds, type StatusListName } from './media-status';
+import { getProgressLog, progressCount } from './progress';
+
+// Flat exports of the lists for spreadsheets and other trackers (CSV/TSV and MyAnimeList XML).
+
+export type ExportListName = StatusListName;
+export type ExportFormat = 'csv' | 'tsv' | 'mal-anime' | 'mal-manga';
+
+export const EXPORT_LISTS: ExportListName[] = ['watching', 'plan-to-watch', 'completed', 'reading', 'plan-to-read', 'read', 'on-hold', 'dropped'];
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'tsv', 'mal-anime', 'mal-manga'];
+
+export interface ExportRow {
+    list: ExportListName;
+    type: 'ANIME' | 'MANGA';
+    title: string;
+    anilistId: number;
+    malId: number | null;
+    // MyAnimeList status names, so the same value works for CSV and XML.
+    status: string;
+    progress: number;
+    total: number | null;
+    // From the user's list entry. The score is on the 0-100 scale, whatever scale the user picked.
+    score: number | null;
+    startedAt: string | null;
+    completedAt: string | null;
+    rewatchCount: number;
+    notes: string;
+}
+
+// Media ids on each list, in list order.
+export const getExportListIds = (listData: ListData, list: ExportListName): number[] => getListIds(listData.statuses, list);
+
+// MyAnimeList has no rewatching status; a rewatch is still "Watching" there.
+function getMalStatus(status: MediaStatus, type: 'ANIME' | 'MANGA'): string {
+    switch (status) {
+        case 'current':
+        case 'repeating': return type === 'ANIME' ? 'Watching' : 'Reading';
+        case 'planning': return type === 'ANIME' ? 'Plan to Watch' : 'Plan to Read';
+        case 'completed': return 'Completed';
+        case 'paused': return 'On-Hold';
+        case 'dropped': return 'Dropped';
+    }
+}
+
+// One row per title per list. `media` supplies titles, MAL ids and totals (usually trackedMedia).
+export function buildExportRows(listData: ListData, media: Map<number, Anime>, lists: ExportListName[] = EXPORT_LISTS): ExportRow[] {
+    return lists.flatMap(list => getExportListIds(listData, list).map((id): ExportRow => {
+        const item = media.get(id);
+        const { status, type } = listData.statuses[id];
+        const progress = progressCount(getProgressLog(listData, type === 'ANIME' ? 'watchedEpisodes' : 'readChapters', id));
+        const total = (type === 'ANIME' ? item?.episodes : item?.chapters) ?? null;
+        const entry = listData.listEntries?.[id];
+        return {
+            list,
+            type,
+            title: item?.title || '',
+            anilistId: id,
+            malId: item?.mal_id || null,
+            status: getMalStatus(status, type),
+            progress,
+            total,
+            score: entry?.score ?? null,
+            startedAt: entry?.startedAt || null,
+            completedAt: entry?.completedAt || null,
+            rewatchCount: entry?.rewatchCount || 0,
+            notes: entry?.notes || '',
+        };
+    }));
+}
+
+const COLUMNS: (keyof ExportRow)[] = ['list', 'type', 'title', 'anilistId', 'malId', 'status', 'progress', 'total', 'score', 'startedAt', 'completedAt', 'rewatchCount', 'notes'];
+
+function toDelimited(rows: ExportRow[], delimiter: ',' | '\t'): string {
+    const escape = (value: unknown) => {
+        const text = value === null || value === undefined ? '' : String(value);
+        if (delimiter === '\t') return text.replace(/[\t\r\n]+/g, ' ');
+        return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+    return [COLUMNS.join(delimiter), ...rows.map(row => COLUMNS.map(column => escape(row[column])).join(delimiter))].join('\n');
+}
+
+const cdata = (text: string) => `<![CDATA[${text.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+
+// The layout of MyAnimeList's own export, which its importer (and most other trackers) accept.
+// Titles without a MAL id can't be imported there and are left out.
+function toMalXml(rows: ExportRow[], type: 'ANIME' | 'MANGA', username: string): string {
+    const seen = new Set<number>();
+    const entries = rows.filter(row => {
+        if (row.type !== type || !row.malId || seen.has(row.malId)) return false;
+        seen.add(row.malId);
+        return true;
+    });
+    const isAnime = type === 'ANIME';
+    const date = (value: string | null) => value || '0000-00-00';
+    // MAL scores are whole numbers from 1 to 10; 0 means not scored.
+    const score = (value: number | null) => (value ? Math.max(1, Math.round(value / 10)) : 0);
+    const body = entries.map(row => isAnime
+        ? `\t<anime>
+\t\t<series_animedb_id>${row.malId}</series_animedb_id>
+\t\t<series_title>${cdata(row.title)}</series_title>
+\t\t<series_episodes>${row.total || 0}</series_episodes>
+\t\t<my_watched_episodes>${row.progress}</my_watched_episodes>
+\t\t<my_start_date>${date(row.startedAt)}</my_start_date>
+\t\t<my_finish_date>${date(row.completedAt)}</my_finish_date>
+\t\t<my_score>${score(row.score)}</my_score>
+\t\t<my_status>${row.status}</my_status>
+\t\t<my_comments>${cdata(row.notes)}</my_comments>
+\t\t<my_times_watched>${row.rewatchCount}</my_times_watched>
+\t\t<update_on_import>1</update_on_import>
+\t</anime>`
+        : `\t<manga>
+\t\t<manga_mangadb_id>${row.malId}</manga_mangadb_id>
+\t\t<manga_title>${cdata(row.title)}</manga_title>
+\t\t<manga_chapters>${row.total || 0}</manga_chapters>
+\t\t<my_read_chapters>${row.progress}</my_read_chapters>
+\t\t<my_read_volumes>0</my_read_volumes>
+\t\t<my_start_date>${date(row.startedAt)}</my_start_date>
+\t\t<my_finish_date>${date(row.completedAt)}</my_finish_date>
+\t\t<my_score>${score(row.score)}</my_score>
+\t\t<my_status>${row.status}</my_status>
+\t\t<my_comments>${cdata(row.notes)}</my_comments>
+\t\t<my_times_read>${row.rewatchCount}</my_times_read>
+\t\t<update_on_import>1</update_on_import>
+\t</manga>`);
+
+    return `<?xml version="1.0" encoding="UTF-8" ?>
+<myanimelist>
+\t<myinfo>
+\t\t<user_name>${cdata(username)}</user_name>
+\t\t<user_export_type>${isAnime ? 1 : 2}</user_export_type>
+\t\t<user_total_${isAnime ? 'anime' : 'manga'}>${entries.length}</user_total_${isAnime ? 'anime' : 'manga'}>
+\t</myinfo>
+${body.join('\n')}
+</myanimelist>
+`;
+}
+
+export interface ExportFile {
+    content: string;
+    filename: string;
+    mimeType: string;
+}
+
+export function formatExport(rows: ExportRow[], format: ExportFormat, name: string, username: string): ExportFile {
+    const date = new Date().toISOString().split('T')[0];
+    switch (format) {
+        case 'csv': return { content: toDelimited(rows, ','), filename: `animesync_${name}_${date}.csv`, mimeType: 'text/csv' };
+        case 'tsv': return { content: toDelimited(rows, '\t'), filename: `animesync_${name}_${date}.tsv`, mimeType: 'text/tab-separated-values' };
+        case 'mal-anime': return { content: toMalXml(rows, 'ANIME', username), filename: `animesync_mal_anime_${date}.xml`, mimeType: 'application/xml' };
+        case 'mal-manga': return { content: toMalXml(rows, 'MANGA', username), filename: `animesync_mal_manga_${date}.xml`, mimeType: 'application/xml' };
+    }
+}
+
+export function downloadFile({ content, filename, mimeType }: ExportFile) {
+    downloadBlob(new Blob([content], { type: mimeType }), filename);
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(link.href);
+}
@@ -0,0 +1,78 @@
+import type { ListData } from '../types';
+import type { StoreOperation } from '../idb-keyval';
+import { diffListData } from './list-store';
+
+// How many list changes are kept for undo. Older entries are dropped.
+export const MAX_JOURNAL_ENTRIES = 50;
+
+export interface JournalEntry {
+    id: string;
+    // Translation key describing the change (see i18n/data-management.ts).
+    label: string;
+    // Optional media title or section name shown next to the label.
+    subject?: string;
+    fields: (keyof ListData)[];
+    timestamp: string;
+    // Store writes that revert the change, and the ones that re-apply it.
+    // Both are replayed with applyStoreOperations.
+    undo: StoreOperation[];
+    redo: StoreOperation[];
+}
+
+export interface ListJournal {
+    // Applied changes, oldest first.
+    past: JournalEntry[];
+    // Undone changes that can be redone, next one to redo first.
+    future: JournalEntry[];
+}
+
+export const emptyJournal: ListJournal = { past: [], future: [] };
+
+// Builds a journal entry for a ListData change, or null if nothing was actually changed.
+export function createJournalEntry(
+    prev: ListData,
+    next: ListData,
+    entry: Pick<JournalEntry, 'id' | 'label' | 'subject'>,
+): JournalEntry | null {
+    const redo = diffListData(prev, next);
+    if (redo.length === 0) return null;
+
+    const fields = Array.from(new Set(redo.map(op => (op.store === 'lists' || op.store === 'listSettings' ? String(op.key) : op.store)))) as (keyof ListData)[];
+    return {
+        ...entry,
+        fields,
+        timestamp: new Date().toISOString(),
+        undo: diffListData(next, prev),
+        redo,
+    };
+}
+
+// Appends an entry; a new change makes the undone ones unreachable, so the redo stack is cleared.
+export function recordJournalEntry(journal: ListJournal, entry: JournalEntry): ListJournal {
+    return { past: [...journal.past, entry].slice(-MAX_JOURNAL_ENTRIES), future: [] };
+}
+
+// Splits off every entry from `entryId` (inclusive) to the newest one, and the store writes
+// that revert them in reverse order. Returns null if the entry is no longer in the journal.
+export function takeUndo(journal: ListJournal, entryId: string): { journal: ListJournal; operations: StoreOperation[] } | null {
+    const index = journal.past.findIndex(entry => entry.id === entryId);
+    if (index === -1) return null;
+
+    const undone = journal.past.slice(index);
+    return {
+        journal: { past: journal.past.slice(0, index), future: [...undone, ...journal.future] },
+        operations: [...undone].reverse().flatMap(entry => entry.undo),
+    };
+}
+
+// Re-applies the undone entries up to and including `entryId`.
+export function takeRedo(journal: ListJournal, entryId: string): { journal: ListJournal; operations: StoreOperation[] } | null {
+    const index = journal.future.findIndex(entry => entry.id === entryId);
+    if (index === -1) return null;
+
+    const redone = journal.future.slice(0, index + 1);
+    return {
+        journal: { past: [...journal.past, ...redone], future: journal.future.slice(index + 1) },
+        operations: redone.flatMap(entry => entry.redo),
+    };
+}
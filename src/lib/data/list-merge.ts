@@ -0,0 +1,288 @@
+import type { Anime, CustomList, ListData, ListEntry, MediaStatusEntry, Reminder } from '../types';
+import { getStatusLabelKey } from './media-status';
+import { sameCustomList } from './custom-lists';
+import { PROGRESS_FIELDS, progressUnitIds, unionProgress, type ProgressField } from './progress';
+
+// Merge-mode import: compares incoming list data (a backup or the shared JSON) with the current
+// data and produces a list of individual changes. The user picks which ones to apply.
+
+export type MergeSection = 'lists' | 'progress' | 'entries' | 'reminders' | 'customLists' | 'customLinks';
+// How an accepted progress change is applied: union keeps episodes from both sides,
+// replace takes the incoming set as is.
+export type ProgressMergeMode = 'union' | 'replace';
+
+export interface MergeChange {
+    // Stable key, used to remember which changes were accepted.
+    id: string;
+    section: MergeSection;
+    field: 'statuses' | ProgressField | 'listEntries' | 'reminders' | 'customLists' | 'customEpisodeLinks';
+    key: string;
+    // Something to show the user: a media title, reminder title, list name or id.
+    label: string;
+    // 'add': only in the incoming data. 'update': on both sides but different.
+    // 'remove': only in the current data (statuses only).
+    action: 'add' | 'update' | 'remove';
+    // Short descriptions of both sides, for the preview. Translation keys for statuses.
+    current?: string;
+    incoming?: string;
+}
+
+const progressIds = (data: Partial<ListData>, field: ProgressField, key: string): string[] => progressUnitIds(data[field]?.[key]);
+
+const union = (...lists: string[][]) => Array.from(new Set(lists.flat()));
+
+const sameSet = (a: string[], b: string[]) => a.length === b.length && a.every(id => b.includes(id));
+
+// Statuses and entries are compared without their timestamp, which changes on every save.
+const sameStatus = (a: MediaStatusEntry | undefined, b: MediaStatusEntry | undefined) => a?.status === b?.status && a?.type === b?.type;
+
+const sameEntry = (a: ListEntry | undefined, b: ListEntry | undefined) =>
+    JSON.stringify({ ...a, updatedAt: undefined }) === JSON.stringify({ ...b, updatedAt: undefined });
+
+const describeEntry = (entry: ListEntry) =>
+    [entry.score !== null && `${entry.score}/100`, entry.startedAt, entry.completedAt, entry.rewatchCount > 0 && `×${entry.rewatchCount}`]
+        .filter(Boolean).join(' · ') || entry.notes.slice(0, 40);
+
+// Builds a title lookup from tracked media on both sides, so the preview can show names.
+export function buildTitleLookup(...mediaLists: (Anime[] | null | undefined)[]): Map<number, string> {
+    const titles = new Map<number, string>();
+    mediaLists.forEach(list => list?.forEach(item => titles.set(item.id, item.title)));
+    return titles;
+}
+
+export function previewMerge(current: ListData, incoming: Partial<ListData>, titles: Map<number, string> = new Map()): MergeChange[] {
+    const changes: MergeChange[] = [];
+    const titleOf = (id: number | string) => titles.get(Number(id)) || `#${id}`;
+
+    union(Object.keys(current.statuses || {}), Object.keys(incoming.statuses || {})).forEach(key => {
+        const existing = current.statuses?.[key];
+        const entry = incoming.statuses?.[key];
+        if (sameStatus(existing, entry)) return;
+        changes.push({
+            id: `statuses:${key}`, section: 'lists', field: 'statuses', key, label: titleOf(key),
+            action: !existing ? 'add' : !entry ? 'remove' : 'update',
+            current: existing && getStatusLabelKey(existing.status, existing.type),
+            incoming: entry && getStatusLabelKey(entry.status, entry.type),
+        });
+    });
+
+    PROGRESS_FIELDS.forEach(field => {
+        Object.keys(incoming[field] || {}).forEach(key => {
+            const currentIds = progressIds(current, field, key);
+            const incomingIds = progressIds(incoming, field, key);
+            if (incomingIds.length === 0 || sameSet(currentIds, incomingIds)) return;
+            changes.push({
+                id: `${field}:${key}`, section: 'progress', field, key, label: titleOf(key),
+                action: currentIds.length === 0 ? 'add' : 'update',
+                current: currentIds.length ? String(currentIds.length) : undefined,
+                incoming: String(incomingIds.length),
+            });
+        });
+    });
+
+    Object.entries(incoming.listEntries || {}).forEach(([key, entry]) => {
+        const existing = current.listEntries?.[key];
+        if (existing && sameEntry(existing, entry)) return;
+        changes.push({
+            id: `listEntries:${key}`, section: 'entries', field: 'listEntries', key, label: titleOf(key),
+            action: existing ? 'update' : 'add',
+            current: existing ? describeEntry(existing) : undefined,
+            incoming: describeEntry(entry),
+        });
+    });
+
+    const currentReminders = new Map((current.reminders || []).map(reminder => [reminder.id, reminder]));
+    (incoming.reminders || []).forEach(reminder => {
+        const existing = currentReminders.get(reminder.id);
+        if (existing && JSON.stringify(existing) === JSON.stringify(reminder)) return;
+        changes.push({
+            id: `reminders:${reminder.id}`, section: 'reminders', field: 'reminders', key: reminder.id,
+            label: `${reminder.title} (${reminder.mediaTitle})`,
+            action: existing ? 'update' : 'add',
+            current: existing ? new Date(existing.startDateTime).toLocaleString() : undefined,
+            incoming: new Date(reminder.startDateTime).toLocaleString(),
+        });
+    });
+
+    const currentLists = new Map((current.customLists || []).map(list => [list.id, list]));
+    (incoming.customLists || []).forEach(list => {
+        const existing = currentLists.get(list.id);
+        if (existing && sameCustomList(existing, list)) return;
+        changes.push({
+            id: `customLists:${list.id}`, section: 'customLists', field: 'customLists', key: list.id, label: list.name,
+            action: existing ? 'update' : 'add',
+            current: existing ? `${existing.name} (${existing.mediaIds.length})` : undefined,
+            incoming: `${list.name} (${list.mediaIds.length})`,
+        });
+    });
+
+    Object.entries(incoming.customEpisodeLinks || {}).forEach(([key, link]) => {
+        const existing = current.customEpisodeLinks?.[key];
+        if (existing?.template === link.template && existing?.ongoing === link.ongoing) return;
+        changes.push({
+            id: `customEpisodeLinks:${key}`, section: 'customLinks', field: 'customEpisodeLinks', key, label: titleOf(key),
+            action: existing ? 'update' : 'add',
+            current: existing?.template,
+            incoming: link.template,
+        });
+    });
+
+    return changes;
+}
+
+// Removals are opt-in: merging a backup should never drop anything unless asked to.
+export const isAcceptedByDefault = (change: MergeChange) => change.action !== 'remove';
+
+// Applies the accepted changes on top of the current data and returns the changed fields.
+export function applyMerge(
+    current: ListData,
+    incoming: Partial<ListData>,
+    changes: MergeChange[],
+    accepted: Set<string>,
+    progressMode: ProgressMergeMode,
+): Partial<ListData> {
+    const result: Partial<ListData> = {};
+    // Copies a field of the current data on first write, so `current` itself is never mutated.
+    const field = <K extends keyof ListData>(name: K, empty: ListData[K]): ListData[K] => {
+        if (!(name in result)) {
+            const value = current[name] ?? empty;
+            result[name] = (Array.isArray(value) ? [...value] : { ...(value as object) }) as ListData[K];
+        }
+        return result[name] as ListData[K];
+    };
+
+    changes.filter(change => accepted.has(change.id)).forEach(change => {
+        const { key } = change;
+        switch (change.section) {
+            case 'lists':
+                if (change.action === 'remove') delete field('statuses', {})[key];
+                else field('statuses', {})[key] = incoming.statuses![key];
+                break;
+            case 'progress': {
+                const progressField = change.field as ProgressField;
+                const incomingLog = incoming[progressField]![key];
+                field(progressField, {})[key] = progressMode === 'union'
+                    ? unionProgress(current[progressField]?.[key], incomingLog)
+                    : incomingLog;
+                break;
+            }
+            case 'entries':
+                field('listEntries', {})[key] = incoming.listEntries![key];
+                break;
+            case 'reminders': {
+                const reminder = incoming.reminders?.find(item => item.id === key) as Reminder;
+                const reminders = field('reminders', []);
+                const index = reminders.findIndex(item => item.id === key);
+                if (index === -1) reminders.push(reminder);
+                else reminders[index] = reminder;
+                break;
+            }
+            case 'customLists': {
+                const list = incoming.customLists?.find(item => item.id === key) as CustomList;
+                const lists = field('customLists', []);
+                const index = lists.findIndex(item => item.id === key);
+                if (index === -1) lists.push(list);
+                else lists[index] = list;
+                break;
+            }
+            case 'customLinks':
+                field('customEpisodeLinks', {})[key] = incoming.customEpisodeLinks![key];
+                break;
+        }
+    });
+
+    return result;
+}
+
+// Three-way merge of a map whose values are replaced whole (statuses, custom links, list entries).
+// Returns the merged map, or undefined when it equals the local one.
+function mergeRecord<T>(
+    base: Record<string, T> | undefined,
+    local: Record<string, T> | undefined,
+    remote: Record<string, T> | undefined,
+    same: (a: T | undefined, b: T | undefined) => boolean,
+): Record<string, T> | undefined {
+    const merged = { ...local };
+    let changed = false;
+    union(Object.keys(base || {}), Object.keys(remote || {})).forEach(key => {
+        const baseItem = base?.[key];
+        const remoteItem = remote?.[key];
+        if (same(baseItem, remoteItem)) return;
+        // Edited or added locally too: the local copy is kept.
+        if (merged[key] && !same(merged[key], baseItem)) return;
+        if (same(merged[key], remoteItem)) return;
+        if (remoteItem) merged[key] = remoteItem;
+        else delete merged[key];
+        changed = true;
+    });
+    return changed ? merged : undefined;
+}
+
+// The same for arrays of items with an `id` (reminders, custom lists). Remote additions go last.
+function mergeById<T extends { id: string }>(
+    base: T[] | undefined,
+    local: T[] | undefined,
+    remote: T[] | undefined,
+    same: (a: T | undefined, b: T | undefined) => boolean,
+): T[] | undefined {
+    const baseItems = new Map((base || []).map(item => [item.id, item]));
+    const remoteItems = new Map((remote || []).map(item => [item.id, item]));
+    let merged = [...(local || [])];
+    let changed = false;
+    union(Array.from(baseItems.keys()), Array.from(remoteItems.keys())).forEach(id => {
+        const baseItem = baseItems.get(id);
+        const remoteItem = remoteItems.get(id);
+        if (same(baseItem, remoteItem)) return;
+        const localItem = merged.find(item => item.id === id);
+        if (localItem && !same(localItem, baseItem)) return;
+        if (same(localItem, remoteItem)) return;
+        merged = merged.filter(item => item.id !== id);
+        if (remoteItem) merged.push(remoteItem);
+        changed = true;
+    });
+    return changed ? merged : undefined;
+}
+
+// Applies what changed remotely since `base` (the data both sides last agreed on) on top of the
+// local data, keeping local edits. Used by two-way shared sync when the remote copy moved on.
+// Without a base (first sync) nothing counts as removed, so the result is a union.
+export function mergeThreeWay(base: Partial<ListData> | null, local: ListData, remote: Partial<ListData>): Partial<ListData> {
+    const result: Partial<ListData> = {};
+
+    PROGRESS_FIELDS.forEach(field => {
+        const keys = union(Object.keys(local[field] || {}), Object.keys(remote[field] || {}), Object.keys(base?.[field] || {}));
+        keys.forEach(key => {
+            const baseIds = base ? progressIds(base, field, key) : [];
+            const remoteIds = progressIds(remote, field, key);
+            const localIds = progressIds(local, field, key);
+            const removed = baseIds.filter(id => !remoteIds.includes(id));
+            const ids = union(localIds, remoteIds.filter(id => !baseIds.includes(id))).filter(id => !removed.includes(id));
+            if (sameSet(ids, localIds)) return;
+            // Each unit keeps the date it was marked with locally, or else remotely.
+            const next = result[field] ?? (result[field] = { ...local[field] });
+            const localLog = local[field]?.[key] || {};
+            const remoteLog = remote[field]?.[key] || {};
+            if (ids.length) next[key] = Object.fromEntries(ids.map(id => [id, id in localLog ? localLog[id] : remoteLog[id] ?? null]));
+            else delete next[key];
+        });
+    });
+
+    // Statuses, reminders, custom lists, custom links, volume tracking and list entries are replaced whole: a remote edit
+    // wins unless the same item was also edited or added locally, in which case the local copy is kept.
+    const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+    const reminders = mergeById(base?.reminders, local.reminders, remote.reminders, same);
+    if (reminders) result.reminders = reminders;
+    const customLists = mergeById(base?.customLists, local.customLists, remote.customLists, sameCustomList);
+    if (customLists) result.customLists = customLists;
+
+    const statuses = mergeRecord(base?.statuses, local.statuses, remote.statuses, sameStatus);
+    if (statuses) result.statuses = statuses;
+    const links = mergeRecord<ListData['customEpisodeLinks'][string]>(base?.customEpisodeLinks, local.customEpisodeLinks, remote.customEpisodeLinks, same);
+    if (links) result.customEpisodeLinks = links;
+    const volumeTracking = mergeRecord<ListData['volumeTracking'][string]>(base?.volumeTracking, local.volumeTracking, remote.volumeTracking, same);
+    if (volumeTracking) result.volumeTracking = volumeTracking;
+    const entries = mergeRecord(base?.listEntries, local.listEntries, remote.listEntries, sameEntry);
+    if (entries) result.listEntries = entries;
+
+    return result;
+}
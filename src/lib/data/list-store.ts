@@ -0,0 +1,184 @@
+import type { ListData, ProgressLog } from '../types';
+import { get, entries, batch, type ObjectStoreName, type StoreOperation, type StoreUpdate } from '../idb-keyval';
+
+// Before schema v2 the whole ListData lived under this single key in the 'keyval' store.
+// It is only read so the migration can split it, then deleted.
+export const LEGACY_LIST_DATA_KEY = 'animesync_local_list_data';
+
+type ProgressField = 'watchedEpisodes' | 'readChapters' | 'readVolumes';
+type RecordField = ProgressField | 'listEntries' | 'statuses';
+type EntityField = 'reminders' | 'notifications' | 'customLists';
+
+// Maps keyed by media id (statuses, progress and the user's entries), one record per media id.
+const RECORD_FIELDS: RecordField[] = ['statuses', 'watchedEpisodes', 'readChapters', 'readVolumes', 'listEntries'];
+// The record fields whose entries are merged with concurrent changes instead of replaced.
+const PROGRESS_FIELDS: ProgressField[] = ['watchedEpisodes', 'readChapters', 'readVolumes'];
+// Arrays of objects with an `id`, one record per entity.
+const ENTITY_FIELDS: EntityField[] = ['reminders', 'notifications', 'customLists'];
+// Anything else (settings, small maps) goes to 'listSettings', one record per field.
+// 'lists' held the plan/current id lists before schema v3. It is still read, so the migration
+// can turn them into statuses, and cleared with the rest when the data is saved.
+const LIST_DATA_STORES: ObjectStoreName[] = ['lists', 'statuses', 'watchedEpisodes', 'readChapters', 'reminders', 'notifications', 'listSettings', 'listEntries', 'customLists', 'readVolumes'];
+
+const isRecordField = (field: string): field is RecordField => (RECORD_FIELDS as string[]).includes(field);
+const isProgressField = (field: string): field is ProgressField => (PROGRESS_FIELDS as string[]).includes(field);
+const isEntityField = (field: string): field is EntityField => (ENTITY_FIELDS as string[]).includes(field);
+
+// Turns a ListData change into the minimal set of store writes. Unchanged fields and entries
+// are skipped by reference, so toggling one episode writes exactly one record.
+export function diffListData(prev: Partial<ListData>, next: Partial<ListData>): StoreOperation[] {
+    const operations: StoreOperation[] = [];
+    const fields = new Set([...Object.keys(prev), ...Object.keys(next)]) as Set<keyof ListData>;
+
+    fields.forEach(field => {
+        const before = prev[field] as any;
+        const after = next[field] as any;
+        if (before === after) return;
+
+        if (isRecordField(field)) {
+            const oldRecord: Record<string, unknown> = before || {};
+            const newRecord: Record<string, unknown> = after || {};
+            Object.keys(newRecord).forEach(key => {
+                if (newRecord[key] !== oldRecord[key]) operations.push({ type: 'put', store: field, key, value: newRecord[key] });
+            });
+            Object.keys(oldRecord).forEach(key => {
+                if (!(key in newRecord)) operations.push({ type: 'delete', store: field, key });
+            });
+        } else if (isEntityField(field)) {
+            const oldById = new Map<string, unknown>((before || []).map((item: { id: string }) => [item.id, item]));
+            const newIds = new Set<string>();
+            (after || []).forEach((item: { id: string }) => {
+                newIds.add(item.id);
+                if (oldById.get(item.id) !== item) operations.push({ type: 'put', store: field, key: item.id, value: item });
+            });
+            oldById.forEach((_, id) => {
+                if (!newIds.has(id)) operations.push({ type: 'delete', store: field, key: id });
+            });
+        } else {
+            if (after === undefined) operations.push({ type: 'delete', store: 'listSettings', key: field });
+            else operations.push({ type: 'put', store: 'listSettings', key: field, value: after });
+        }
+    });
+
+    return operations;
+}
+
+// Reassembles the in-memory ListData from the per-collection stores.
+// Falls back to the legacy single blob when the split stores have never been written.
+// Reads the active profile's database unless another one is given.
+export async function loadListData(databaseName?: string): Promise<ListData | undefined> {
+    const stored = await entries(LIST_DATA_STORES, databaseName);
+    if (LIST_DATA_STORES.every(name => stored[name].length === 0)) {
+        return get<ListData>(LEGACY_LIST_DATA_KEY, databaseName);
+    }
+
+    const data: Record<string, any> = {};
+    [...stored.lists, ...stored.listSettings].forEach(([key, value]) => {
+        data[String(key)] = value;
+    });
+    RECORD_FIELDS.forEach(field => {
+        data[field] = Object.fromEntries(stored[field].map(([key, value]) => [String(key), value]));
+    });
+    data.reminders = stored.reminders.map(([, value]) => value)
+        .sort((a, b) => (a.createdAt || '').localeCompare(b.createdAt || ''));
+    data.notifications = stored.notifications.map(([, value]) => value)
+        .sort((a, b) => (a.timestamp || '').localeCompare(b.timestamp || ''));
+    data.customLists = stored.customLists.map(([, value]) => value)
+        .sort((a, b) => (a.createdAt || '').localeCompare(b.createdAt || ''));
+
+    return data as ListData;
+}
+
+// Reads only the small settings fields (hidden genres, quota, layout...), without touching progress.
+export async function loadListSettings(): Promise<Partial<ListData> | undefined> {
+    const stored = await entries(['listSettings']);
+    if (stored.listSettings.length === 0) return get<ListData>(LEGACY_LIST_DATA_KEY);
+    return Object.fromEntries(stored.listSettings.map(([key, value]) => [String(key), value]));
+}
+
+// Three-way merge of one watchedEpisodes/readChapters/readVolumes entry: the episodes this tab
+// added or removed (before -> after) are replayed on top of what is stored now, so a concurrent
+// change made in another tab to the same title survives instead of being overwritten.
+function mergeProgress(stored: ProgressLog | undefined, before: ProgressLog | undefined, after: ProgressLog | undefined) {
+    const removed = new Set(Object.keys(before || {}).filter(id => !(id in (after || {}))));
+    const merged: ProgressLog = { ...after };
+    Object.entries(stored || {}).forEach(([id, at]) => {
+        if (!removed.has(id) && !(id in merged)) merged[id] = at;
+    });
+    if (after === undefined && Object.keys(merged).length === 0) return undefined;
+    return merged;
+}
+
+export interface PersistResult {
+    // Every record that was written, in the form other tabs can replay with applyStoreOperations.
+    committed: StoreOperation[];
+    // The subset whose stored value differs from what this tab wrote, because another tab
+    // changed the same entry concurrently. The caller should fold these back into its state.
+    merged: StoreOperation[];
+}
+
+// Writes the changes between two ListData states in a single transaction. Progress entries
+// are merged against the stored record instead of being blindly replaced.
+export async function persistListDataChanges(prev: Partial<ListData>, next: Partial<ListData>): Promise<PersistResult> {
+    const operations: (StoreOperation | StoreUpdate)[] = diffListData(prev, next).map(op => {
+        if (!isProgressField(op.store)) return op;
+        const field = op.store;
+        const key = String(op.key);
+        const before = prev[field]?.[key];
+        const after = next[field]?.[key];
+        return { type: 'update', store: field, key, update: (stored: ProgressLog | undefined) => mergeProgress(stored, before, after) };
+    });
+
+    const committed = await batch(operations);
+    const merged = committed.filter(op => {
+        if (!isProgressField(op.store)) return false;
+        const intended = (next[op.store] as Record<string, unknown> | undefined)?.[String(op.key)];
+        return op.type === 'delete' ? intended !== undefined : JSON.stringify(op.value) !== JSON.stringify(intended);
+    });
+    return { committed, merged };
+}
+
+// Replays store writes (from this tab or a broadcast from another one) on an in-memory ListData.
+// Returns the same object when nothing actually changed, so React can skip the re-render.
+export function applyStoreOperations(data: ListData, operations: StoreOperation[]): ListData {
+    let result = data;
+    const patch = (field: string, value: unknown) => {
+        if (result === data) result = { ...data };
+        (result as any)[field] = value;
+    };
+
+    operations.forEach(op => {
+        const key = String(op.key);
+        const value = op.type === 'put' ? op.value : undefined;
+        if (op.store === 'listSettings') {
+            if (JSON.stringify((result as any)[key]) !== JSON.stringify(value)) patch(key, value);
+        } else if (isRecordField(op.store)) {
+            const record: Record<string, unknown> = (result as any)[op.store] || {};
+            if (JSON.stringify(record[key]) === JSON.stringify(value)) return;
+            const { [key]: _, ...rest } = record;
+            patch(op.store, value === undefined ? rest : { ...rest, [key]: value });
+        } else if (isEntityField(op.store)) {
+            const items: { id: string }[] = (result as any)[op.store] || [];
+            const index = items.findIndex(item => item.id === key);
+            if (index === -1 && value === undefined) return;
+            if (index !== -1 && JSON.stringify(items[index]) === JSON.stringify(value)) return;
+            const updated = items.filter(item => item.id !== key);
+            if (value !== undefined) {
+                if (index === -1) updated.push(value as { id: string });
+                else updated.splice(index, 0, value as { id: string });
+            }
+            patch(op.store, updated);
+        }
+    });
+
+    return result;
+}
+
+// Replaces everything stored for the list data (used by migrations, imports and syncs).
+export async function saveListData(data: ListData): Promise<void> {
+    const operations: StoreOperation[] = [
+        ...diffListData({}, data),
+        { type: 'delete', store: 'keyval', key: LEGACY_LIST_DATA_KEY },
+    ];
+    await batch(operations, LIST_DATA_STORES);
+}
@@ -0,0 +1,49 @@
+import { getDatabaseName, type StoreOperation } from '../idb-keyval';
+
+// Keeps list data consistent between several open tabs. Every tab persists its own changes,
+// then broadcasts the records it wrote so the other tabs can fold them into their state.
+// Channel and lock are scoped to the active profile's database, so tabs on different
+// profiles never see each other's changes.
+const CHANNEL_NAME = 'animesync-list-data';
+const LOCK_NAME = 'animesync-list-data-write';
+
+export type ListSyncMessage =
+    // Records written by another tab, ready for applyStoreOperations.
+    | { type: 'operations'; origin: string; operations: StoreOperation[] }
+    // The whole list data was replaced (import, shared sync); reload it from IndexedDB.
+    | { type: 'replaced'; origin: string };
+
+// Identifies this tab so it can ignore its own messages.
+export const TAB_ID = typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+export interface ListSyncChannel {
+    post: (message: ListSyncMessage) => void;
+    close: () => void;
+}
+
+export function openListSyncChannel(onMessage: (message: ListSyncMessage) => void): ListSyncChannel {
+    if (typeof BroadcastChannel === 'undefined') {
+        return { post: () => {}, close: () => {} };
+    }
+
+    const channel = new BroadcastChannel(`${CHANNEL_NAME}:${getDatabaseName()}`);
+    channel.onmessage = (event: MessageEvent<ListSyncMessage>) => {
+        if (event.data?.origin !== TAB_ID) onMessage(event.data);
+    };
+    return {
+        post: message => channel.postMessage(message),
+        close: () => channel.close(),
+    };
+}
+
+// Serializes list data writes across tabs, so the write and its broadcast reach other tabs
+// in the same order. Browsers without the Web Locks API fall back to running immediately;
+// the IndexedDB transaction still keeps each progress merge atomic.
+export function withListDataLock<T>(callback: () => Promise<T>): Promise<T> {
+    if (typeof navigator !== 'undefined' && navigator.locks) {
+        return navigator.locks.request(`${LOCK_NAME}:${getDatabaseName()}`, callback) as Promise<T>;
+    }
+    return callback();
+}
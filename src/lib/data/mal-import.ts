@@ -0,0 +1,194 @@
+import type { Anime, ListData, ListEntry, MediaStatus, ProgressLog } from '../types';
+import type { LogEntry } from '@/hooks/use-logger';
+import { getMediaByMalIds } from '../anilist/requests';
+import { getListIds, STATUS_LIST_NAMES, type StatusListName } from './media-status';
+import { withProgressUnits } from './progress';
+
+// Parsing and planning for MyAnimeList XML exports (Profile > Export on myanimelist.net).
+// Nothing here writes data: the plan is previewed first and applied by useAuth.importMalData.
+
+export type MalMediaType = 'ANIME' | 'MANGA';
+
+export interface MalEntry {
+    malId: number;
+    type: MalMediaType;
+    title: string;
+    // MAL status, e.g. "Watching", "Completed", "On-Hold", "Dropped", "Plan to Watch".
+    status: string;
+    // Watched episodes or read chapters.
+    progress: number;
+    // Total episodes or chapters according to MAL (0 when unknown).
+    total: number;
+    // The user's own data, kept as a list entry. Dates are yyyy-MM-dd, the score is 0-10 (0 = none).
+    startedOn: string | null;
+    finishedOn: string | null;
+    score: number;
+    rewatchCount: number;
+    notes: string;
+}
+
+export interface MalImportMatch {
+    entry: MalEntry;
+    media: Anime;
+}
+
+export interface MalImportPlan {
+    matched: MalImportMatch[];
+    unmatched: MalEntry[];
+}
+
+export interface MalImportSummary {
+    // Titles added to each list.
+    lists: Record<StatusListName, number>;
+    watchedEpisodes: number;
+    readChapters: number;
+}
+
+const text = (element: Element, tag: string) => element.getElementsByTagName(tag)[0]?.textContent?.trim() || '';
+const int = (element: Element, tag: string) => parseInt(text(element, tag), 10) || 0;
+// MAL writes unknown parts of a date as zeros (0000-00-00, 2012-05-00); only full dates are kept.
+const malCalendarDate = (value: string) => {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+    const date = new Date(`${value}T00:00:00Z`);
+    return !value.startsWith('0000') && !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value) ? value : null;
+};
+
+const userFields = (element: Element, timesTag: string) => ({
+    startedOn: malCalendarDate(text(element, 'my_start_date')),
+    finishedOn: malCalendarDate(text(element, 'my_finish_date')),
+    score: int(element, 'my_score'),
+    rewatchCount: int(element, timesTag),
+    notes: text(element, 'my_comments'),
+});
+
+export function parseMalXml(xml: string): MalEntry[] {
+    const doc = new DOMParser().parseFromString(xml, 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0 || !doc.getElementsByTagName('myanimelist').length) {
+        throw new Error('This is not a MyAnimeList XML export.');
+    }
+
+    const anime = Array.from(doc.getElementsByTagName('anime')).map((element): MalEntry => ({
+        malId: int(element, 'series_animedb_id'),
+        type: 'ANIME',
+        title: text(element, 'series_title'),
+        status: text(element, 'my_status'),
+        progress: int(element, 'my_watched_episodes'),
+        total: int(element, 'series_episodes'),
+        ...userFields(element, 'my_times_watched'),
+    }));
+    const manga = Array.from(doc.getElementsByTagName('manga')).map((element): MalEntry => ({
+        malId: int(element, 'manga_mangadb_id'),
+        type: 'MANGA',
+        title: text(element, 'manga_title'),
+        status: text(element, 'my_status'),
+        progress: int(element, 'my_read_chapters'),
+        total: int(element, 'manga_chapters'),
+        ...userFields(element, 'my_times_read'),
+    }));
+
+    return [...anime, ...manga].filter(entry => entry.malId > 0);
+}
+
+// Maps every entry to its AniList media. Entries AniList doesn't know are reported as unmatched.
+export async function resolveMalEntries(entries: MalEntry[], addLog?: (message: string, type?: LogEntry['type'], details?: any) => void): Promise<MalImportPlan> {
+    const idsOf = (type: MalMediaType) => entries.filter(entry => entry.type === type).map(entry => entry.malId);
+    const media = {
+        ANIME: await getMediaByMalIds(idsOf('ANIME'), 'ANIME', addLog),
+        MANGA: await getMediaByMalIds(idsOf('MANGA'), 'MANGA', addLog),
+    };
+
+    const plan: MalImportPlan = { matched: [], unmatched: [] };
+    entries.forEach(entry => {
+        const match = media[entry.type].get(entry.malId);
+        if (match) plan.matched.push({ entry, media: match });
+        else plan.unmatched.push(entry);
+    });
+    return plan;
+}
+
+// Our status for a MAL status, or null for one we don't know.
+function toMediaStatus(entry: MalEntry): MediaStatus | null {
+    const status = entry.status.toLowerCase();
+    if (status.startsWith('plan to')) return 'planning';
+    switch (status) {
+        case 'watching':
+        case 'reading': return 'current';
+        case 'completed': return 'completed';
+        case 'on-hold': return 'paused';
+        case 'dropped': return 'dropped';
+        default: return null;
+    }
+}
+
+function progressCount(entry: MalEntry): number {
+    // MAL exports completed entries with 0 progress when the user never updated the counter.
+    if (entry.status.toLowerCase() === 'completed' && entry.progress === 0) return entry.total;
+    return entry.progress;
+}
+
+// The entry to store for a MAL entry, or null when the user never scored or dated it.
+function toListEntry(entry: MalEntry): ListEntry | null {
+    if (!entry.score && !entry.startedOn && !entry.finishedOn && !entry.rewatchCount && !entry.notes) return null;
+    return {
+        score: entry.score > 0 ? Math.min(entry.score, 10) * 10 : null,
+        notes: entry.notes,
+        startedAt: entry.startedOn,
+        completedAt: entry.finishedOn,
+        rewatchCount: entry.rewatchCount,
+        updatedAt: new Date().toISOString(),
+    };
+}
+
+const range = (count: number) => Array.from({ length: count }, (_, i) => String(i + 1));
+
+// Merges the plan into the current list data. Existing progress is never reduced and existing
+// statuses and list entries are never overwritten. MAL doesn't say when each episode was
+// watched, so imported progress is undated.
+export function applyMalImportPlan(listData: ListData, plan: MalImportPlan): Partial<ListData> {
+    const statuses = { ...listData.statuses };
+    const watchedEpisodes = { ...listData.watchedEpisodes };
+    const readChapters = { ...listData.readChapters };
+    const listEntries = { ...listData.listEntries };
+
+    plan.matched.forEach(({ entry, media }) => {
+        const status = toMediaStatus(entry);
+        if (status && !statuses[media.id]) statuses[media.id] = { status, type: entry.type, updatedAt: new Date().toISOString() };
+        const listEntry = toListEntry(entry);
+        if (listEntry && !listEntries[media.id]) listEntries[media.id] = listEntry;
+
+        const count = progressCount(entry);
+        if (count <= 0) return;
+        const key = String(media.id);
+        if (entry.type === 'ANIME') {
+            watchedEpisodes[key] = withProgressUnits(watchedEpisodes[key], range(count), null);
+        } else {
+            readChapters[key] = withProgressUnits(readChapters[key], range(count), null);
+        }
+    });
+
+    return { statuses, watchedEpisodes, readChapters, listEntries };
+}
+
+// Counts what the import adds on top of the current data, for the dry-run preview.
+export function summarizeMalImportPlan(listData: ListData, plan: MalImportPlan): MalImportSummary {
+    const next = applyMalImportPlan(listData, plan);
+    const total = (record: Record<string, ProgressLog> | undefined) =>
+        Object.values(record || {}).reduce((sum, log) => sum + Object.keys(log).length, 0);
+
+    return {
+        lists: Object.fromEntries(STATUS_LIST_NAMES.map(list =>
+            [list, getListIds(next.statuses, list).length - getListIds(listData.statuses, list).length])) as Record<StatusListName, number>,
+        watchedEpisodes: total(next.watchedEpisodes) - total(listData.watchedEpisodes),
+        readChapters: total(next.readChapters) - total(listData.readChapters),
+    };
+}
+
+// Media that ends up on a list must be tracked (for update checks), like when added by hand.
+export function getMediaToTrack(plan: MalImportPlan): Anime[] {
+    return plan.matched
+        .filter(({ entry }) => toMediaStatus(entry) !== null)
+        .map(({ media }) => {
+            const { synopsis, ...mediaWithoutSynopsis } = media;
+            return mediaWithoutSynopsis as Anime;
+        });
+}
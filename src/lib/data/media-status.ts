@@ -0,0 +1,95 @@
+import type { Anime, MediaStatus, MediaStatuses } from '../types';
+
+// The status model of the user's lists. Every title on a list has exactly one status, and only
+// the changes in TRANSITIONS are allowed. Progress moves the status along on its own (see
+// statusAfterProgress): marking an episode of a planned title starts it, finishing the last one
+// completes it. A rewatch is marked apart from the first watch (see getProgressLog in progress.ts)
+// and counts in the entry once it completes.
+
+export type MediaKind = 'ANIME' | 'MANGA';
+
+export const MEDIA_STATUSES: MediaStatus[] = ['current', 'planning', 'completed', 'repeating', 'paused', 'dropped'];
+
+// Where each status can go next. 'none' is a title that isn't on any list; removing a title
+// from the lists is always allowed.
+const TRANSITIONS: Record<MediaStatus | 'none', MediaStatus[]> = {
+    none: ['planning', 'current', 'completed', 'paused', 'dropped'],
+    planning: ['current', 'completed', 'dropped'],
+    current: ['planning', 'paused', 'dropped', 'completed'],
+    paused: ['current', 'dropped', 'completed'],
+    dropped: ['planning', 'current', 'completed'],
+    completed: ['current', 'repeating'],
+    repeating: ['paused', 'dropped', 'completed'],
+};
+
+export const canTransition = (from: MediaStatus | undefined, to: MediaStatus | null) =>
+    to === null ? from !== undefined : TRANSITIONS[from || 'none'].includes(to);
+
+// The statuses the user can pick for a title that currently has `status`.
+export const getNextStatuses = (status: MediaStatus | undefined) => TRANSITIONS[status || 'none'];
+
+export const getMediaKind = (media: Pick<Anime, 'type'>): MediaKind =>
+    media.type === 'MANGA' || media.type === 'NOVEL' || media.type === 'ONE_SHOT' ? 'MANGA' : 'ANIME';
+
+// Number of episodes (chapters for manga) that completes the title, or null while it's unknown.
+export const getProgressTotal = (media: Pick<Anime, 'type' | 'episodes' | 'chapters'>) =>
+    (getMediaKind(media) === 'MANGA' ? media.chapters : media.episodes) || null;
+
+// The status a title should have after its progress changed to `progress` of `total` units.
+// Returns the given status when nothing changes. Progress only ever moves a title forward, along
+// TRANSITIONS: unmarking never takes it off a list or out of the completed one, and it only
+// completes once the total is known.
+export function statusAfterProgress(status: MediaStatus | undefined, progress: number, total: number | null): MediaStatus | undefined {
+    if (progress <= 0 || status === 'completed') return status;
+    const next = total && progress >= total ? 'completed' : status === 'repeating' ? status : 'current';
+    return next === status || canTransition(status, next) ? next : status;
+}
+
+// The list pages and which statuses each one shows.
+export type StatusListName = 'watching' | 'plan-to-watch' | 'completed' | 'reading' | 'plan-to-read' | 'read' | 'on-hold' | 'dropped';
+
+export const STATUS_LISTS: Record<StatusListName, { type?: MediaKind; statuses: MediaStatus[] }> = {
+    'watching': { type: 'ANIME', statuses: ['current', 'repeating'] },
+    'plan-to-watch': { type: 'ANIME', statuses: ['planning'] },
+    'completed': { type: 'ANIME', statuses: ['completed'] },
+    'reading': { type: 'MANGA', statuses: ['current', 'repeating'] },
+    'plan-to-read': { type: 'MANGA', statuses: ['planning'] },
+    'read': { type: 'MANGA', statuses: ['completed'] },
+    'on-hold': { statuses: ['paused'] },
+    'dropped': { statuses: ['dropped'] },
+};
+
+// Translation keys of the list names.
+export const STATUS_LIST_LABELS: Record<StatusListName, string> = {
+    'watching': 'watching',
+    'plan-to-watch': 'plan_to_watch',
+    'completed': 'completed',
+    'reading': 'currently_reading',
+    'plan-to-read': 'plan_to_read_manga',
+    'read': 'read',
+    'on-hold': 'status_on_hold',
+    'dropped': 'status_dropped',
+};
+
+export const STATUS_LIST_NAMES = Object.keys(STATUS_LISTS) as StatusListName[];
+
+// Ids of the titles on a list, in the order their status was set.
+export function getListIds(statuses: MediaStatuses | undefined, list: StatusListName): number[] {
+    const { type, statuses: included } = STATUS_LISTS[list];
+    return Object.entries(statuses || {})
+        .filter(([, entry]) => included.includes(entry.status) && (!type || entry.type === type))
+        .sort(([, a], [, b]) => a.updatedAt.localeCompare(b.updatedAt))
+        .map(([id]) => Number(id));
+}
+
+// Translation key of a status, worded for the kind of media.
+export function getStatusLabelKey(status: MediaStatus, kind: MediaKind): string {
+    switch (status) {
+        case 'planning': return kind === 'MANGA' ? 'plan_to_read_manga' : 'plan_to_watch';
+        case 'current': return kind === 'MANGA' ? 'currently_reading' : 'watching';
+        case 'completed': return kind === 'MANGA' ? 'read' : 'completed';
+        case 'repeating': return kind === 'MANGA' ? 'status_rereading' : 'status_rewatching';
+        case 'paused': return 'status_on_hold';
+        case 'dropped': return 'status_dropped';
+    }
+}
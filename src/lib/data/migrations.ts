@@ -0,0 +1,167 @@
+import type { Anime, LayoutConfigItem, ListData, MediaStatuses, ProgressLog } from '../types';
+import type { LocalProfile } from '@/hooks/auth/types';
+import { initialListData, DEFAULT_STORAGE_QUOTA, SENSITIVE_GENRES } from '../config';
+import { getProgressTotal } from './media-status';
+
+// Bump this whenever a new migration is appended below.
+export const CURRENT_SCHEMA_VERSION = 4;
+
+// Everything AnimeSync persists for a user, in the same shape as an export file.
+export interface DataBundle {
+    schemaVersion?: number;
+    profile?: LocalProfile | null;
+    lists?: ListData | null;
+    layout?: LayoutConfigItem[] | null;
+    tracked?: Anime[] | null;
+}
+
+interface Migration {
+    version: number;
+    description: string;
+    migrate: (bundle: DataBundle) => DataBundle;
+}
+
+export interface MigrationResult {
+    bundle: DataBundle;
+    fromVersion: number;
+    toVersion: number;
+    applied: string[];
+}
+
+// Ordered list of migrations. Each one upgrades a bundle from `version - 1` to `version`
+// and must be safe to run on partially filled bundles (e.g. a profile without lists).
+const migrations: Migration[] = [
+    {
+        version: 1,
+        description: 'Fill missing list fields, drop the removed "news" tab and strip synopses from tracked media',
+        migrate: (bundle) => {
+            let lists = bundle.lists;
+            if (lists) {
+                const notificationsLayout = (lists.notificationsLayout as string[] | undefined)?.filter(k => k !== 'news');
+                lists = {
+                    ...initialListData,
+                    ...lists,
+                    hiddenGenres: lists.hiddenGenres === undefined ? SENSITIVE_GENRES : lists.hiddenGenres,
+                    notificationsLayout: (notificationsLayout || initialListData.notificationsLayout) as ListData['notificationsLayout'],
+                    pinnedNotificationTab: (lists.pinnedNotificationTab as string) === 'news' ? 'updates' : (lists.pinnedNotificationTab || 'updates'),
+                    storageQuota: lists.storageQuota || DEFAULT_STORAGE_QUOTA,
+                    layoutConfig: lists.layoutConfig || bundle.layout || undefined,
+                };
+            }
+
+            const tracked = bundle.tracked?.map(item => {
+                if (!(item as Partial<Anime>).synopsis) return item;
+                const { synopsis, ...rest } = item;
+                return rest as Anime;
+            });
+
+            return { ...bundle, lists, tracked };
+        },
+    },
+    {
+        version: 2,
+        // The data itself is unchanged; bumping the version makes the stored bundle get
+        // rewritten through saveListData, which splits it into per-collection stores.
+        description: 'Move list data from the single keyval blob into per-collection stores',
+        migrate: (bundle) => bundle,
+    },
+    {
+        version: 3,
+        description: 'Replace the plan/current id lists with one status per title (adds on-hold and dropped)',
+        migrate: (bundle) => {
+            if (!bundle.lists) return bundle;
+            const { planToWatch, currentlyWatching, planToRead, currentlyReading, ...lists } = bundle.lists as ListData & Record<LegacyListField, number[] | undefined>;
+            const totals = new Map((bundle.tracked || []).map(item => [item.id, getProgressTotal(item)]));
+            const updatedAt = new Date().toISOString();
+            const { watchedEpisodes, readChapters } = lists as unknown as LegacyProgress;
+            const progressOf = (id: string) => watchedEpisodes?.[id]?.length || readChapters?.[id]?.read?.length || 0;
+            // Fully watched titles are completed; finished progress used to be the completed list.
+            const isFinished = (id: string) => {
+                const total = totals.get(Number(id));
+                return total ? progressOf(id) >= total : false;
+            };
+
+            const statuses: MediaStatuses = { ...lists.statuses };
+            const add = (ids: number[] | undefined, type: 'ANIME' | 'MANGA', status: 'planning' | 'current') =>
+                (ids || []).forEach(id => {
+                    statuses[id] = { status: isFinished(String(id)) ? 'completed' : status, type, updatedAt };
+                });
+            add(planToWatch, 'ANIME', 'planning');
+            add(planToRead, 'MANGA', 'planning');
+            add(currentlyWatching, 'ANIME', 'current');
+            add(currentlyReading, 'MANGA', 'current');
+
+            // Progress on a title that was on no list: finished titles become completed, unfinished
+            // ones are put on hold. Without a tracked copy the length is unknown; those were most
+            // likely taken off the watching list after finishing, so they count as completed.
+            const addProgressOnly = (record: Record<string, unknown> | undefined, type: 'ANIME' | 'MANGA') =>
+                Object.keys(record || {}).forEach(id => {
+                    if (statuses[id] || progressOf(id) === 0) return;
+                    const total = totals.get(Number(id));
+                    statuses[id] = { status: !total || isFinished(id) ? 'completed' : 'paused', type, updatedAt };
+                });
+            addProgressOnly(watchedEpisodes, 'ANIME');
+            addProgressOnly(readChapters, 'MANGA');
+
+            return { ...bundle, lists: { ...lists, statuses } };
+        },
+    },
+    {
+        version: 4,
+        description: 'Record when each episode and chapter was marked (existing progress stays undated)',
+        migrate: (bundle) => {
+            if (!bundle.lists) return bundle;
+            const { watchedEpisodes, readChapters } = bundle.lists as unknown as LegacyProgress;
+            const undated = (ids: string[] | undefined): ProgressLog => Object.fromEntries((ids || []).map(id => [String(id), null]));
+            const toLogs = <T>(record: Record<string, T> | undefined, ids: (entry: T) => string[] | undefined) =>
+                Object.fromEntries(Object.entries(record || {}).map(([key, entry]) => [key, undated(ids(entry))]));
+            return {
+                ...bundle,
+                lists: {
+                    ...bundle.lists,
+                    watchedEpisodes: toLogs(watchedEpisodes, entry => entry),
+                    readChapters: toLogs(readChapters, entry => entry?.read),
+                },
+            };
+        },
+    },
+];
+
+type LegacyListField = 'planToWatch' | 'currentlyWatching' | 'planToRead' | 'currentlyReading';
+// Progress before v4: plain id lists, and one date for the whole manga.
+type LegacyProgress = {
+    watchedEpisodes?: Record<string, string[]>;
+    readChapters?: Record<string, { read: string[]; lastRead?: string }>;
+};
+
+export function getBundleVersion(bundle: DataBundle): number {
+    return bundle.schemaVersion ?? bundle.lists?.schemaVersion ?? bundle.profile?.schemaVersion ?? 0;
+}
+
+// Runs every migration newer than the bundle's version, in order, and stamps the result.
+export function migrateBundle(input: DataBundle): MigrationResult {
+    const fromVersion = getBundleVersion(input);
+    if (fromVersion > CURRENT_SCHEMA_VERSION) {
+        throw new Error(`This data was created by a newer version of AnimeSync (schema v${fromVersion}). Please update the app first.`);
+    }
+
+    let bundle = { ...input };
+    const applied: string[] = [];
+    for (const migration of migrations) {
+        if (migration.version <= fromVersion) continue;
+        bundle = migration.migrate(bundle);
+        applied.push(`v${migration.version}: ${migration.description}`);
+    }
+
+    return {
+        bundle: {
+            ...bundle,
+            schemaVersion: CURRENT_SCHEMA_VERSION,
+            profile: bundle.profile ? { ...bundle.profile, schemaVersion: CURRENT_SCHEMA_VERSION } : bundle.profile,
+            lists: bundle.lists ? { ...bundle.lists, schemaVersion: CURRENT_SCHEMA_VERSION } : bundle.lists,
+        },
+        fromVersion,
+        toVersion: CURRENT_SCHEMA_VERSION,
+        applied,
+    };
+}
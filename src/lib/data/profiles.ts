@@ -0,0 +1,56 @@
+import type { LocalProfile, ProfileRegistry, ProfileSummary } from '@/hooks/auth/types';
+import { DEFAULT_DATABASE_NAME, setDatabaseName } from '../idb-keyval';
+
+// Every local profile keeps its lists, layout, tracked media and sync settings in its own
+// IndexedDB database. The registry of profiles is tiny and must be readable synchronously
+// before any database is opened, so it lives in localStorage.
+const PROFILE_REGISTRY_KEY = 'animesync-profiles';
+
+// The profile created before multi-profile support keeps the original database.
+export const DEFAULT_PROFILE_ID = 'default';
+
+const emptyRegistry: ProfileRegistry = { activeProfileId: null, profiles: [] };
+
+export function getProfileDatabaseName(profileId: string): string {
+    return profileId === DEFAULT_PROFILE_ID ? DEFAULT_DATABASE_NAME : `${DEFAULT_DATABASE_NAME}-${profileId}`;
+}
+
+export function loadProfileRegistry(): ProfileRegistry {
+    if (typeof window === 'undefined') return emptyRegistry;
+    try {
+        const stored = localStorage.getItem(PROFILE_REGISTRY_KEY);
+        return stored ? { ...emptyRegistry, ...JSON.parse(stored) } : emptyRegistry;
+    } catch {
+        return emptyRegistry;
+    }
+}
+
+export function saveProfileRegistry(registry: ProfileRegistry) {
+    localStorage.setItem(PROFILE_REGISTRY_KEY, JSON.stringify(registry));
+}
+
+export function toProfileSummary(id: string, profile: LocalProfile): ProfileSummary {
+    return { id, username: profile.username, avatar_url: profile.avatar_url, createdAt: new Date().toISOString() };
+}
+
+// Adds or updates a profile in the registry and optionally makes it the active one.
+export function registerProfile(summary: ProfileSummary, activate = true): ProfileRegistry {
+    const registry = loadProfileRegistry();
+    const existing = registry.profiles.find(p => p.id === summary.id);
+    const profiles = existing
+        ? registry.profiles.map(p => (p.id === summary.id ? { ...summary, createdAt: existing.createdAt } : p))
+        : [...registry.profiles, summary];
+    const updated = { activeProfileId: activate ? summary.id : registry.activeProfileId, profiles };
+    saveProfileRegistry(updated);
+    return updated;
+}
+
+// Points idb-keyval at the given profile's database (the default one while signed out).
+export function activateProfileDatabase(profileId: string | null) {
+    setDatabaseName(getProfileDatabaseName(profileId ?? DEFAULT_PROFILE_ID));
+}
+
+// Select the active profile's database as soon as this module loads, before anything reads from IndexedDB.
+if (typeof window !== 'undefined') {
+    activateProfileDatabase(loadProfileRegistry().activeProfileId);
+}
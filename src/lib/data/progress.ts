@@ -0,0 +1,100 @@
+import type { ListData, ProgressLog } from '../types';
+import type { MediaKind } from './media-status';
+
+// Per-title progress (ListData.watchedEpisodes, readChapters and readVolumes): the episodes,
+// chapters or volumes the user marked, each with the time it was marked. Progress recorded before
+// schema v4, or imported without dates, is undated (null).
+
+export type ProgressField = 'watchedEpisodes' | 'readChapters' | 'readVolumes';
+export const PROGRESS_FIELDS: ProgressField[] = ['watchedEpisodes', 'readChapters', 'readVolumes'];
+const FIELD_KINDS: Record<ProgressField, MediaKind> = { watchedEpisodes: 'ANIME', readChapters: 'MANGA', readVolumes: 'MANGA' };
+
+export const getProgressField = (kind: MediaKind): Exclude<ProgressField, 'readVolumes'> => (kind === 'MANGA' ? 'readChapters' : 'watchedEpisodes');
+
+// The log that progress of a title is marked in: its own, or during a rewatch (reread) the one
+// kept in its list entry, so the first watch and its dates stay as they were.
+export function getProgressLog(
+    listData: Pick<ListData, ProgressField | 'statuses' | 'listEntries'>,
+    field: ProgressField,
+    mediaId: number | string,
+): ProgressLog | undefined {
+    if (listData.statuses?.[mediaId]?.status === 'repeating') return listData.listEntries?.[mediaId]?.repeatProgress?.[field];
+    return listData[field]?.[mediaId];
+}
+
+export const progressUnitIds = (log: ProgressLog | undefined): string[] => Object.keys(log || {});
+export const progressCount = (log: ProgressLog | undefined) => Object.keys(log || {}).length;
+
+// The log with `ids` marked at `at`. Units that are already marked keep their date.
+export function withProgressUnits(log: ProgressLog | undefined, ids: string[], at: string | null = new Date().toISOString()): ProgressLog {
+    const next = { ...log };
+    ids.forEach(id => {
+        if (!(id in next)) next[id] = at;
+    });
+    return next;
+}
+
+export function withoutProgressUnits(log: ProgressLog | undefined, ids: string[]): ProgressLog {
+    const removed = new Set(ids);
+    return Object.fromEntries(Object.entries(log || {}).filter(([id]) => !removed.has(id)));
+}
+
+// Combines two logs of the same title. A unit marked on both sides keeps the earlier known date.
+export function unionProgress(a: ProgressLog | undefined, b: ProgressLog | undefined): ProgressLog {
+    const merged: ProgressLog = { ...a };
+    Object.entries(b || {}).forEach(([id, at]) => {
+        const existing = merged[id];
+        if (existing === undefined || (at && (!existing || at < existing))) merged[id] = at;
+    });
+    return merged;
+}
+
+// Date of the most recently marked unit, or null when none is dated.
+export const lastProgressAt = (log: ProgressLog | undefined): string | null =>
+    Object.values(log || {}).reduce<string | null>((latest, at) => (at && (!latest || at > latest) ? at : latest), null);
+
+// One watched episode or read chapter or volume, as shown on the history page.
+export interface HistoryEntry {
+    mediaId: number;
+    kind: MediaKind;
+    field: ProgressField;
+    unitId: string;
+    at: string | null;
+}
+
+// Every marked unit, newest first. Undated units come last, by title and unit.
+export function buildHistory(listData: Pick<ListData, ProgressField>, kind?: MediaKind): HistoryEntry[] {
+    const entries = PROGRESS_FIELDS
+        .filter(field => !kind || FIELD_KINDS[field] === kind)
+        .flatMap(field => Object.entries(listData[field] || {}).flatMap(([mediaId, log]) =>
+            Object.entries(log).map(([unitId, at]): HistoryEntry => ({ mediaId: Number(mediaId), kind: FIELD_KINDS[field], field, unitId, at }))));
+    return entries.sort((a, b) => {
+        if (a.at && b.at) return b.at.localeCompare(a.at);
+        if (a.at || b.at) return a.at ? -1 : 1;
+        return a.mediaId - b.mediaId || Number(a.unitId) - Number(b.unitId) || a.unitId.localeCompare(b.unitId);
+    });
+}
+
+export interface HistoryDay {
+    // Local calendar day (yyyy-MM-dd), or null for the undated entries.
+    day: string | null;
+    entries: HistoryEntry[];
+}
+
+// Local calendar day (yyyy-MM-dd) of an ISO date.
+export const localDay = (iso: string) => {
+    const date = new Date(iso);
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+// Groups entries sorted by buildHistory into consecutive days.
+export function groupHistoryByDay(entries: HistoryEntry[]): HistoryDay[] {
+    const days: HistoryDay[] = [];
+    entries.forEach(entry => {
+        const day = entry.at ? localDay(entry.at) : null;
+        const last = days[days.length - 1];
+        if (last && last.day === day) last.entries.push(entry);
+        else days.push({ day, entries: [entry] });
+    });
+    return days;
+}
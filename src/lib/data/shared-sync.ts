@@ -0,0 +1,111 @@
+import type { SharedPushConfig } from '@/hooks/auth/types';
+
+// Requests for two-way shared sync. Writes go straight from the browser to the push target, so the
+// access token never passes through our server: the gist API allows CORS, and a 'put' target has
+// to as well. A gist is also read through the API, since the raw file is cached by GitHub's CDN
+// for minutes and would hand back the copy from before the last write.
+//
+// Conflicts are detected with ETags: a 'put' target gets `If-Match` with the ETag of the copy the
+// changes are based on and is expected to answer 412 when it moved on. The gist API ignores
+// If-Match, so for gists a conditional read with that ETag right before the write stands in for
+// it, and a read after the write checks that what was pushed is what is there now.
+
+export const SHARED_BASE_KEY = 'animesync_shared_base';
+export const MAX_PUSH_ATTEMPTS = 3;
+
+const GIST_API = 'https://api.github.com/gists';
+const DEFAULT_GIST_FILENAME = 'animesync.json';
+
+export class PushConflictError extends Error {
+    constructor() {
+        super('The shared data changed while it was being written.');
+        this.name = 'PushConflictError';
+    }
+}
+
+export const toRawGistUrl = (url: string) => {
+    const match = url.match(/gist\.github\.com\/([a-zA-Z0-9_-]+)\/([a-f0-9]+)/);
+    return match ? `https://gist.githubusercontent.com/${match[1]}/${match[2]}/raw` : url;
+};
+
+// Accepts a gist URL (gist.github.com/<user>/<id>, the raw URL or the API URL) or a bare id.
+export function getGistId(url: string): string | null {
+    const match = url.match(/([a-f0-9]{20,})/i);
+    return match ? match[1] : null;
+}
+
+export const proxyUrl = (url: string) => `/api/proxy?url=${encodeURIComponent(url)}`;
+
+// What a read of the shared data returned. `text` is null when it didn't change since `etag`.
+export interface SharedRead {
+    text: string | null;
+    etag: string | null;
+    size: number;
+}
+
+function gistRequest(push: SharedPushConfig) {
+    const gistId = getGistId(push.url);
+    if (!gistId) throw new Error('The gist URL does not contain a gist id.');
+    const headers: Record<string, string> = { Accept: 'application/vnd.github+json' };
+    if (push.token) headers.Authorization = `Bearer ${push.token}`;
+    return { url: `${GIST_API}/${gistId}`, headers, filename: push.filename || DEFAULT_GIST_FILENAME };
+}
+
+async function readGist(push: SharedPushConfig, etag: string | null): Promise<SharedRead> {
+    const { url, headers, filename } = gistRequest(push);
+    const response = await fetch(url, { headers: etag ? { ...headers, 'If-None-Match': etag } : headers, cache: 'no-store' });
+    if (response.status === 304) return { text: null, etag, size: 0 };
+    if (!response.ok) throw new Error(`Fetch failed: ${response.statusText}`);
+    const gist = await response.json();
+    const file = gist.files?.[filename];
+    if (!file) throw new Error(`The gist has no file named ${filename}.`);
+    // Files over 1 MB come without their content; raw_url points at this exact revision, so the
+    // CDN can't serve an older one for it.
+    let text: string = file.content;
+    if (file.truncated) {
+        const raw = await fetch(file.raw_url, { cache: 'no-store' });
+        if (!raw.ok) throw new Error(`Fetch failed: ${raw.statusText}`);
+        text = await raw.text();
+    }
+    return { text, etag: response.headers.get('etag'), size: text.length };
+}
+
+// Reads the shared data, through the gist API when that is where it's pushed to. With an ETag
+// the read is conditional.
+export async function fetchShared(url: string, etag: string | null, push?: SharedPushConfig | null): Promise<SharedRead> {
+    if (push?.target === 'gist') return readGist(push, etag);
+    const response = await fetch(proxyUrl(toRawGistUrl(url)), { headers: etag ? { 'If-None-Match': etag } : {} });
+    if (response.status === 304) return { text: null, etag, size: 0 };
+    if (!response.ok) throw new Error(`Fetch failed: ${response.statusText}`);
+    return { text: await response.text(), etag: response.headers.get('etag'), size: Number(response.headers.get('content-length') || 0) };
+}
+
+// Writes `body` to the push target. Resolves with the ETag of what is stored now (null when a
+// 'put' target doesn't return one) and throws PushConflictError when someone else wrote first.
+export async function pushShared(push: SharedPushConfig, body: string, etag: string | null): Promise<string | null> {
+    if (push.target === 'gist') {
+        const { url, headers, filename } = gistRequest(push);
+        if (etag && (await readGist(push, etag)).text !== null) throw new PushConflictError();
+        const response = await fetch(url, {
+            method: 'PATCH',
+            headers: { ...headers, 'Content-Type': 'application/json' },
+            body: JSON.stringify({ files: { [filename]: { content: body } } }),
+        });
+        if (!response.ok) {
+            const error = await response.json().catch(() => null);
+            throw new Error(`Write failed: ${error?.message || response.statusText}`);
+        }
+        // Another write landing right after ours would otherwise be taken for ours.
+        const stored = await readGist(push, null);
+        if (stored.text !== body) throw new PushConflictError();
+        return stored.etag;
+    }
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (push.token) headers.Authorization = `Bearer ${push.token}`;
+    if (etag) headers['If-Match'] = etag;
+    const response = await fetch(push.url, { method: 'PUT', headers, body });
+    if (response.status === 412) throw new PushConflictError();
+    if (!response.ok) throw new Error(`Write failed: ${response.statusText}`);
+    return response.headers.get('etag');
+}
@@ -0,0 +1,153 @@
+import { v4 as uuidv4 } from 'uuid';
+import { get, set, del, update } from '../idb-keyval';
+import type { ListData, ProgressLog } from '../types';
+import { migrateBundle, type DataBundle } from './migrations';
+import { progressCount, progressUnitIds } from './progress';
+
+// Rotating local snapshots of a profile's data. They live in their own database, so they
+// survive resetting (deleting) the profile they were taken from. An index keeps the metadata,
+// so listing snapshots doesn't load their contents.
+
+export const SNAPSHOT_DATABASE_NAME = 'animesync-snapshots';
+const INDEX_KEY = 'snapshot-index';
+const RETENTION_KEY = 'snapshot-retention';
+const snapshotKey = (id: string) => `snapshot:${id}`;
+
+export const DEFAULT_SNAPSHOT_RETENTION = 10;
+export const SNAPSHOT_RETENTION_OPTIONS = [3, 5, 10, 20, 50];
+export const DAILY_SNAPSHOT_INTERVAL = 24 * 60 * 60 * 1000;
+
+export type SnapshotReason = 'daily' | 'manual' | 'reset' | 'clear-section' | 'import' | 'shared-sync' | 'restore';
+
+export interface SnapshotMeta {
+    id: string;
+    profileId: string;
+    username: string;
+    createdAt: string;
+    reason: SnapshotReason;
+    // Size of the serialized bundle in bytes.
+    size: number;
+    counts: SnapshotCounts;
+}
+
+export interface SnapshotCounts {
+    lists: number;
+    episodes: number;
+    chapters: number;
+    reminders: number;
+    tracked: number;
+}
+
+// Per-section difference between a snapshot and the current data ("+" = only in the current data).
+export interface SnapshotDiff {
+    section: 'statuses' | 'episodes' | 'chapters' | 'volumes' | 'reminders' | 'customLists' | 'tracked';
+    added: number;
+    removed: number;
+}
+
+const countUnits = (record: Record<string, ProgressLog> | undefined) =>
+    Object.values(record || {}).reduce((sum, log) => sum + progressCount(log), 0);
+
+export function countBundle(bundle: DataBundle): SnapshotCounts {
+    const lists = bundle.lists;
+    return {
+        lists: Object.keys(lists?.statuses || {}).length,
+        episodes: countUnits(lists?.watchedEpisodes),
+        chapters: countUnits(lists?.readChapters),
+        reminders: lists?.reminders?.length || 0,
+        tracked: bundle.tracked?.length || 0,
+    };
+}
+
+export async function listSnapshots(profileId: string): Promise<SnapshotMeta[]> {
+    const index = await get<SnapshotMeta[]>(INDEX_KEY, SNAPSHOT_DATABASE_NAME) || [];
+    return index.filter(meta => meta.profileId === profileId).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function getSnapshotRetention(): Promise<number> {
+    return await get<number>(RETENTION_KEY, SNAPSHOT_DATABASE_NAME) || DEFAULT_SNAPSHOT_RETENTION;
+}
+
+export async function setSnapshotRetention(retention: number, profileId: string): Promise<void> {
+    await set(RETENTION_KEY, retention, SNAPSHOT_DATABASE_NAME);
+    await pruneSnapshots(profileId, retention);
+}
+
+// Keeps the newest `retention` snapshots of the profile and deletes the rest.
+async function pruneSnapshots(profileId: string, retention: number) {
+    let removed: SnapshotMeta[] = [];
+    await update<SnapshotMeta[]>(INDEX_KEY, (index = []) => {
+        const own = index.filter(meta => meta.profileId === profileId).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+        removed = own.slice(retention);
+        return index.filter(meta => !removed.includes(meta));
+    }, SNAPSHOT_DATABASE_NAME);
+    await Promise.all(removed.map(meta => del(snapshotKey(meta.id), SNAPSHOT_DATABASE_NAME)));
+}
+
+export async function createSnapshot(profileId: string, bundle: DataBundle, reason: SnapshotReason): Promise<SnapshotMeta> {
+    const meta: SnapshotMeta = {
+        id: uuidv4(),
+        profileId,
+        username: bundle.profile?.username || '',
+        createdAt: new Date().toISOString(),
+        reason,
+        size: new TextEncoder().encode(JSON.stringify(bundle)).length,
+        counts: countBundle(bundle),
+    };
+    // The data is written before the index, so an index entry always has its data.
+    await set(snapshotKey(meta.id), bundle, SNAPSHOT_DATABASE_NAME);
+    await update<SnapshotMeta[]>(INDEX_KEY, (index = []) => [...index, meta], SNAPSHOT_DATABASE_NAME);
+    await pruneSnapshots(profileId, await getSnapshotRetention());
+    return meta;
+}
+
+export function loadSnapshot(id: string): Promise<DataBundle | undefined> {
+    return get<DataBundle>(snapshotKey(id), SNAPSHOT_DATABASE_NAME);
+}
+
+export async function deleteSnapshot(id: string): Promise<void> {
+    await update<SnapshotMeta[]>(INDEX_KEY, (index = []) => index.filter(meta => meta.id !== id), SNAPSHOT_DATABASE_NAME);
+    await del(snapshotKey(id), SNAPSHOT_DATABASE_NAME);
+}
+
+// True when the profile has no snapshot from the last 24 hours, whatever its reason.
+export async function isDailySnapshotDue(profileId: string): Promise<boolean> {
+    const [latest] = await listSnapshots(profileId);
+    return !latest || Date.now() - new Date(latest.createdAt).getTime() >= DAILY_SNAPSHOT_INTERVAL;
+}
+
+function setDiff<T>(current: T[], snapshot: T[]) {
+    const currentSet = new Set(current);
+    const snapshotSet = new Set(snapshot);
+    return {
+        added: current.filter(item => !snapshotSet.has(item)).length,
+        removed: snapshot.filter(item => !currentSet.has(item)).length,
+    };
+}
+
+const units = (record: Record<string, ProgressLog> | undefined) =>
+    Object.entries(record || {}).flatMap(([key, log]) => progressUnitIds(log).map(unit => `${key}:${unit}`));
+
+// A changed status counts as one removed and one added.
+const statuses = (lists: ListData | null | undefined) =>
+    Object.entries(lists?.statuses || {}).map(([key, entry]) => `${key}:${entry.status}`);
+
+// Every title of every custom list, so adding or removing one counts as a change.
+const customListItems = (lists: ListData | null | undefined) =>
+    (lists?.customLists || []).flatMap(list => [list.id, ...list.mediaIds.map(id => `${list.id}:${id}`)]);
+
+// What restoring the snapshot would change, section by section. Sections without changes are left out.
+// Snapshots taken before a schema change are migrated first, as restoring them would.
+export function diffSnapshot(snapshot: DataBundle, current: { lists: ListData; tracked: { id: number }[] }): SnapshotDiff[] {
+    const lists = migrateBundle(snapshot).bundle.lists;
+    const diffs: SnapshotDiff[] = [
+        { section: 'statuses', ...setDiff(statuses(current.lists), statuses(lists)) },
+        { section: 'episodes', ...setDiff(units(current.lists.watchedEpisodes), units(lists?.watchedEpisodes)) },
+        { section: 'chapters', ...setDiff(units(current.lists.readChapters), units(lists?.readChapters)) },
+        { section: 'volumes', ...setDiff(units(current.lists.readVolumes), units(lists?.readVolumes)) },
+        { section: 'reminders', ...setDiff((current.lists.reminders || []).map(item => item.id), (lists?.reminders || []).map(item => item.id)) },
+        { section: 'customLists', ...setDiff(customListItems(current.lists), customListItems(lists)) },
+        { section: 'tracked', ...setDiff(current.tracked.map(item => item.id), (snapshot.tracked || []).map(item => item.id)) },
+    ];
+    return diffs.filter(diff => diff.added > 0 || diff.removed > 0);
+}
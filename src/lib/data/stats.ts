@@ -0,0 +1,91 @@
+import type { Anime, ListData, MediaStatus } from '../types';
+import { MEDIA_STATUSES, type MediaKind } from './media-status';
+import { getProgressField, progressCount } from './progress';
+
+// Numbers for the statistics page, computed from the lists, the progress and the media details
+// (trackedMedia plus whatever had to be fetched). Titles whose details are missing still count
+// towards the totals but not towards the distributions.
+
+// Used for the estimated watch time when AniList doesn't know an episode's length.
+export const DEFAULT_EPISODE_MINUTES = 24;
+// Longer distributions keep their largest entries and fold the rest into "other".
+export const MAX_DISTRIBUTION_ENTRIES = 10;
+
+export const SEASONS = ['WINTER', 'SPRING', 'SUMMER', 'FALL'] as const;
+
+export interface DistributionEntry {
+    name: string;
+    count: number;
+}
+
+export interface MediaStats {
+    kind: MediaKind;
+    // Titles on any list.
+    titles: number;
+    byStatus: Record<MediaStatus, number>;
+    // Episodes watched or chapters read, across all titles with progress.
+    units: number;
+    // Volumes read (manga only).
+    volumes: number;
+    // Estimated minutes watched (anime only).
+    minutes: number;
+    // Completed titles out of the titles the user started (everything but planning), 0-1.
+    completionRate: number | null;
+    genres: DistributionEntry[];
+    formats: DistributionEntry[];
+    // Studios for anime, authors for manga.
+    creators: DistributionEntry[];
+    startYears: DistributionEntry[];
+    seasons: DistributionEntry[];
+}
+
+export function countBy(values: string[]): DistributionEntry[] {
+    const counts = new Map<string, number>();
+    values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+    return Array.from(counts, ([name, count]) => ({ name, count }));
+}
+
+const byCount = (entries: DistributionEntry[]) => entries.sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+
+// The largest entries, with the remainder summed into one `other` entry (or dropped when `other` is null).
+export function topEntries(entries: DistributionEntry[], limit = MAX_DISTRIBUTION_ENTRIES, other: string | null = 'other'): DistributionEntry[] {
+    const sorted = byCount([...entries]);
+    if (sorted.length <= limit) return sorted;
+    if (other === null) return sorted.slice(0, limit);
+    const rest = sorted.slice(limit - 1).reduce((sum, entry) => sum + entry.count, 0);
+    return [...sorted.slice(0, limit - 1), { name: other, count: rest }];
+}
+
+export function buildMediaStats(listData: Pick<ListData, 'statuses' | 'watchedEpisodes' | 'readChapters' | 'readVolumes'>, media: Map<number, Anime>, kind: MediaKind): MediaStats {
+    const ids = Object.entries(listData.statuses || {}).filter(([, entry]) => entry.type === kind).map(([id]) => Number(id));
+    const byStatus = Object.fromEntries(MEDIA_STATUSES.map(status => [status, 0])) as Record<MediaStatus, number>;
+    ids.forEach(id => byStatus[listData.statuses[id].status]++);
+
+    const progress = listData[getProgressField(kind)] || {};
+    const units = Object.values(progress).reduce((sum, log) => sum + progressCount(log), 0);
+    const volumes = kind === 'MANGA' ? Object.values(listData.readVolumes || {}).reduce((sum, log) => sum + progressCount(log), 0) : 0;
+    const minutes = kind === 'ANIME'
+        ? Object.entries(progress).reduce((sum, [id, log]) => sum + progressCount(log) * (media.get(Number(id))?.duration || DEFAULT_EPISODE_MINUTES), 0)
+        : 0;
+
+    const started = ids.length - byStatus.planning;
+    const finished = byStatus.completed + byStatus.repeating;
+    const details = ids.map(id => media.get(id)).filter((item): item is Anime => !!item);
+
+    return {
+        kind,
+        titles: ids.length,
+        byStatus,
+        units,
+        volumes,
+        minutes,
+        completionRate: started > 0 ? finished / started : null,
+        genres: byCount(countBy(details.flatMap(item => item.genres.filter(genre => genre.type === 'genre').map(genre => genre.name)))),
+        formats: byCount(countBy(details.map(item => item.format).filter((format): format is string => !!format))),
+        creators: byCount(countBy(details.flatMap(item => kind === 'ANIME' ? item.studios.map(studio => studio.name) : (item.authors || []).map(author => author.name)))),
+        // Chronological rather than by count, so the chart reads as a timeline.
+        startYears: countBy(details.map(item => item.year ?? item.startDate?.year).filter((year): year is number => !!year).map(String))
+            .sort((a, b) => Number(a.name) - Number(b.name)),
+        seasons: SEASONS.map(season => ({ name: season, count: details.filter(item => item.season === season).length })),
+    };
+}
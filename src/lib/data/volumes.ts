@@ -0,0 +1,78 @@
+import type { Anime, ListData, VolumeTracking } from '../types';
+import { getMediaKind, getProgressTotal } from './media-status';
+import { getProgressField, getProgressLog, progressCount, progressUnitIds } from './progress';
+
+// Volume progress for manga (ListData.readVolumes), for readers who follow the tankōbon rather
+// than the chapters. Each title is tracked by chapters (the default) or by volumes, which decides
+// the count that moves it through the statuses and stops its reminders. An optional mapping of
+// volumes to chapter ranges (ListData.volumeTracking) makes marking a volume mark its chapters.
+
+export const DEFAULT_VOLUME_TRACKING: VolumeTracking = { trackBy: 'chapters', ranges: {} };
+
+// Highest volume and chapter a mapping may name at all, and while AniList doesn't know the counts.
+// Every chapter of a range is marked one by one, so a range can't be allowed to run on forever.
+export const MAX_VOLUMES = 500;
+export const MAX_CHAPTERS = 10000;
+
+export const getVolumeTracking = (listData: Pick<ListData, 'volumeTracking'>, mediaId: number | string): VolumeTracking =>
+    listData.volumeTracking?.[mediaId] || DEFAULT_VOLUME_TRACKING;
+
+const unitRange = (first: number, last: number) => Array.from({ length: last - first + 1 }, (_, i) => String(first + i));
+
+// The chapters collected in `volumes`. Volumes without a range have none.
+export const chaptersOfVolumes = (tracking: VolumeTracking, volumes: string[]): string[] =>
+    Array.from(new Set(volumes.flatMap(volume => (tracking.ranges[volume] ? unitRange(...tracking.ranges[volume]) : []))));
+
+// Volumes to list for a title: as many as AniList knows of, or else up to the highest volume that
+// is mapped or marked, for titles still being published.
+export function getVolumeIds(listData: Pick<ListData, 'readVolumes' | 'volumeTracking'>, media: Pick<Anime, 'id' | 'volumes'>): string[] {
+    const known = [...Object.keys(getVolumeTracking(listData, media.id).ranges), ...progressUnitIds(listData.readVolumes?.[media.id])].map(Number);
+    return unitRange(1, Math.max(media.volumes || 0, ...known));
+}
+
+// A title's progress in the units it is tracked by: episodes, chapters or volumes, counting the
+// current rewatch while there is one. The total is null while it's unknown.
+export function getTrackedProgress(
+    listData: Pick<ListData, 'watchedEpisodes' | 'readChapters' | 'readVolumes' | 'volumeTracking' | 'statuses' | 'listEntries'>,
+    media: Pick<Anime, 'id' | 'type' | 'episodes' | 'chapters' | 'volumes'>,
+): { count: number; total: number | null } {
+    const kind = getMediaKind(media);
+    if (kind === 'MANGA' && getVolumeTracking(listData, media.id).trackBy === 'volumes') {
+        return { count: progressCount(getProgressLog(listData, 'readVolumes', media.id)), total: media.volumes || null };
+    }
+    return { count: progressCount(getProgressLog(listData, getProgressField(kind), media.id)), total: getProgressTotal(media) };
+}
+
+// The mapping as text for editing, one "volume: first-last" line per volume.
+export const formatVolumeRanges = (ranges: VolumeTracking['ranges']) =>
+    Object.entries(ranges)
+        .sort(([a], [b]) => Number(a) - Number(b))
+        .map(([volume, [first, last]]) => (first === last ? `${volume}: ${first}` : `${volume}: ${first}-${last}`))
+        .join('\n');
+
+// The highest volume and chapter a mapping of `media` may name.
+export const getRangeLimits = (media: Pick<Anime, 'volumes' | 'chapters'>) => ({
+    volumes: Math.min(media.volumes || MAX_VOLUMES, MAX_VOLUMES),
+    chapters: Math.min(media.chapters || MAX_CHAPTERS, MAX_CHAPTERS),
+});
+
+// Reads the text back. Blank lines are skipped; the lines that couldn't be read, or that go past
+// the title's volumes or chapters (see getRangeLimits), are returned (1-based) instead of guessed at.
+export function parseVolumeRanges(
+    text: string,
+    media: Pick<Anime, 'volumes' | 'chapters'>,
+): { ranges: VolumeTracking['ranges']; invalidLines: number[]; outOfRangeLines: number[] } {
+    const limits = getRangeLimits(media);
+    const ranges: VolumeTracking['ranges'] = {};
+    const invalidLines: number[] = [];
+    const outOfRangeLines: number[] = [];
+    text.split('\n').forEach((line, index) => {
+        if (!line.trim()) return;
+        const match = line.match(/^\s*(\d+)\s*:\s*(\d+)\s*(?:-\s*(\d+))?\s*$/);
+        const [volume, first, last] = match ? [Number(match[1]), Number(match[2]), Number(match[3] ?? match[2])] : [];
+        if (!volume || !first || !last || first > last || String(volume) in ranges) invalidLines.push(index + 1);
+        else if (volume > limits.volumes || last > limits.chapters) outOfRangeLines.push(index + 1);
+        else ranges[volume] = [first, last];
+    });
+    return { ranges, invalidLines, outOfRangeLines };
+}
@@ -0,0 +1,151 @@
+import type { ExportFile } from './list-export';
+
+// Shareable versions of the year in review, generated in the browser: a standalone HTML page and
+// a PNG drawn on a canvas. Both take the already translated text, so they don't know about i18n.
+
+export interface ShareableReport {
+    lang: string;
+    dir: 'ltr' | 'rtl';
+    title: string;
+    subtitle: string;
+    stats: { label: string; value: string }[];
+    lists: { label: string; items: string[] }[];
+    footer: string;
+}
+
+const escapeHtml = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export function formatReportHtml(report: ShareableReport, filename: string): ExportFile {
+    const stats = report.stats.map(stat => `<div class="stat"><div class="value">${escapeHtml(stat.value)}</div><div class="label">${escapeHtml(stat.label)}</div></div>`).join('\n');
+    const lists = report.lists.filter(list => list.items.length > 0).map(list => `<section>
+<h2>${escapeHtml(list.label)}</h2>
+<ol>${list.items.map(item => `<li>${escapeHtml(item)}</li>`).join('')}</ol>
+</section>`).join('\n');
+
+    const content = `<!DOCTYPE html>
+<html lang="${report.lang}" dir="${report.dir}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(report.title)}</title>
+<style>
+body { margin: 0; min-height: 100vh; font-family: system-ui, sans-serif; color: #f8fafc; background: linear-gradient(160deg, #312e81, #0f172a); }
+main { max-width: 760px; margin: 0 auto; padding: 48px 24px; }
+h1 { margin: 0; font-size: 44px; }
+.subtitle { margin: 8px 0 32px; color: #c4b5fd; font-size: 18px; }
+.stats { display: grid; grid-template-columns: repeat(auto-fit, minmax(200px, 1fr)); gap: 16px; }
+.stat { padding: 20px; border-radius: 16px; background: rgba(255, 255, 255, 0.08); }
+.value { font-size: 32px; font-weight: 700; }
+.label { margin-top: 4px; color: #cbd5e1; }
+section { margin-top: 32px; }
+h2 { margin: 0 0 12px; font-size: 20px; color: #c4b5fd; }
+ol { margin: 0; padding-inline-start: 24px; line-height: 1.8; }
+footer { margin-top: 48px; color: #94a3b8; font-size: 14px; }
+</style>
+</head>
+<body>
+<main>
+<h1>${escapeHtml(report.title)}</h1>
+<p class="subtitle">${escapeHtml(report.subtitle)}</p>
+<div class="stats">
+${stats}
+</div>
+${lists}
+<footer>${escapeHtml(report.footer)}</footer>
+</main>
+</body>
+</html>
+`;
+    return { content, filename, mimeType: 'text/html' };
+}
+
+const IMAGE_WIDTH = 1080;
+const PADDING = 72;
+const STAT_HEIGHT = 150;
+const LIST_ITEM_HEIGHT = 46;
+const FONT = 'system-ui, sans-serif';
+
+// Shortens text to fit `maxWidth`, ending it with an ellipsis.
+function fitText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number) {
+    if (ctx.measureText(text).width <= maxWidth) return text;
+    let fitted = text;
+    while (fitted.length > 1 && ctx.measureText(`${fitted}…`).width > maxWidth) fitted = fitted.slice(0, -1);
+    return `${fitted}…`;
+}
+
+export function renderReportImage(report: ShareableReport): Promise<Blob> {
+    const lists = report.lists.filter(list => list.items.length > 0);
+    const statRows = Math.ceil(report.stats.length / 2);
+    const height = PADDING + 170 + statRows * (STAT_HEIGHT + 24)
+        + lists.reduce((sum, list) => sum + 80 + list.items.length * LIST_ITEM_HEIGHT, 0) + 80 + PADDING;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = IMAGE_WIDTH;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return Promise.reject(new Error('Canvas is not supported in this browser.'));
+
+    const background = ctx.createLinearGradient(0, 0, IMAGE_WIDTH, height);
+    background.addColorStop(0, '#312e81');
+    background.addColorStop(1, '#0f172a');
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, IMAGE_WIDTH, height);
+
+    // With direction set, 'start' alignment anchors text at its right edge for RTL.
+    const isRtl = report.dir === 'rtl';
+    ctx.direction = report.dir;
+    ctx.textAlign = 'start';
+    ctx.textBaseline = 'top';
+    const contentWidth = IMAGE_WIDTH - PADDING * 2;
+    const lineX = isRtl ? IMAGE_WIDTH - PADDING : PADDING;
+
+    let y = PADDING;
+    ctx.fillStyle = '#f8fafc';
+    ctx.font = `bold 64px ${FONT}`;
+    ctx.fillText(fitText(ctx, report.title, contentWidth), lineX, y);
+    y += 90;
+    ctx.fillStyle = '#c4b5fd';
+    ctx.font = `28px ${FONT}`;
+    ctx.fillText(fitText(ctx, report.subtitle, contentWidth), lineX, y);
+    y += 80;
+
+    const columnWidth = (contentWidth - 24) / 2;
+    report.stats.forEach((stat, index) => {
+        const column = index % 2;
+        const top = y + Math.floor(index / 2) * (STAT_HEIGHT + 24);
+        const left = PADDING + (isRtl ? 1 - column : column) * (columnWidth + 24);
+        ctx.fillStyle = 'rgba(255, 255, 255, 0.08)';
+        ctx.beginPath();
+        ctx.roundRect(left, top, columnWidth, STAT_HEIGHT, 24);
+        ctx.fill();
+        const textX = isRtl ? left + columnWidth - 28 : left + 28;
+        ctx.fillStyle = '#f8fafc';
+        ctx.font = `bold 52px ${FONT}`;
+        ctx.fillText(fitText(ctx, stat.value, columnWidth - 56), textX, top + 24);
+        ctx.fillStyle = '#cbd5e1';
+        ctx.font = `24px ${FONT}`;
+        ctx.fillText(fitText(ctx, stat.label, columnWidth - 56), textX, top + 96);
+    });
+    y += statRows * (STAT_HEIGHT + 24);
+
+    lists.forEach(list => {
+        y += 24;
+        ctx.fillStyle = '#c4b5fd';
+        ctx.font = `bold 32px ${FONT}`;
+        ctx.fillText(fitText(ctx, list.label, contentWidth), lineX, y);
+        y += 56;
+        ctx.fillStyle = '#f8fafc';
+        ctx.font = `28px ${FONT}`;
+        list.items.forEach((item, index) => {
+            ctx.fillText(fitText(ctx, `${index + 1}. ${item}`, contentWidth), lineX, y);
+            y += LIST_ITEM_HEIGHT;
+        });
+    });
+
+    ctx.fillStyle = '#94a3b8';
+    ctx.font = `22px ${FONT}`;
+    ctx.fillText(fitText(ctx, report.footer, contentWidth), lineX, height - PADDING - 22);
+
+    return new Promise((resolve, reject) => canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not create the image.'))), 'image/png'));
+}
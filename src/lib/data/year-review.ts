@@ -0,0 +1,137 @@
+import type { Anime, ListData } from '../types';
+import { getMediaKind, type MediaKind } from './media-status';
+import { buildHistory, localDay, type HistoryEntry } from './progress';
+import { countBy, DEFAULT_EPISODE_MINUTES, topEntries, type DistributionEntry } from './stats';
+
+// The "year in review": what the user finished, watched and read in one calendar year. Only dated
+// progress counts, so years before progress had timestamps mostly show finished titles.
+
+export const YEAR_REVIEW_TOP_ENTRIES = 5;
+// A seasonal title counts as kept up with when this share of its episodes was watched before the
+// season ended (plus the grace period below).
+const KEPT_UP_SHARE = 0.75;
+const KEPT_UP_GRACE_DAYS = 14;
+const KEPT_UP_MIN_EPISODES = 3;
+// First month (0-based) of each AniList season.
+const SEASON_START_MONTH: Record<string, number> = { WINTER: 0, SPRING: 3, SUMMER: 6, FALL: 9 };
+
+export interface YearReviewTitle {
+    mediaId: number;
+    kind: MediaKind;
+    title: string;
+    imageUrl: string | null;
+}
+
+export interface YearReview {
+    year: number;
+    finished: YearReviewTitle[];
+    episodes: number;
+    chapters: number;
+    volumes: number;
+    // Estimated, from the episodes' lengths.
+    minutes: number;
+    // Of the titles watched, read or finished during the year.
+    topGenres: DistributionEntry[];
+    topStudios: DistributionEntry[];
+    // Longest run of consecutive days with something watched or read.
+    longestStreak: { days: number; start: string; end: string } | null;
+    // 0-based month with the most episodes, chapters and volumes.
+    busiestMonth: { month: number; units: number } | null;
+    // Seasonal anime from this year that were watched while they aired.
+    keptUp: YearReviewTitle[];
+}
+
+const inYear = (year: number) => (iso: string | null | undefined) => !!iso && new Date(iso).getFullYear() === year;
+
+const toTitle = (mediaId: number, kind: MediaKind, media: Map<number, Anime>): YearReviewTitle => {
+    const item = media.get(mediaId);
+    return {
+        mediaId,
+        kind,
+        title: item?.title || `#${mediaId}`,
+        imageUrl: item?.images.webp?.large_image_url || item?.images.jpg?.large_image_url || null,
+    };
+};
+
+// Years the user has dated progress or finished titles in, newest first. Always includes this year.
+export function getReviewYears(listData: ListData): number[] {
+    const years = new Set([new Date().getFullYear()]);
+    buildHistory(listData).forEach(entry => entry.at && years.add(new Date(entry.at).getFullYear()));
+    Object.values(listData.listEntries || {}).forEach(entry => entry.completedAt && years.add(Number(entry.completedAt.slice(0, 4))));
+    return Array.from(years).sort((a, b) => b - a);
+}
+
+// When a title was finished: the completion date the user entered, or else when it was last
+// moved to completed.
+function finishedAt(listData: ListData, id: string): string | null {
+    const completedAt = listData.listEntries?.[id]?.completedAt;
+    if (completedAt) return `${completedAt}T00:00`;
+    const status = listData.statuses?.[id];
+    return status && (status.status === 'completed' || status.status === 'repeating') ? status.updatedAt : null;
+}
+
+function longestStreak(days: string[]): YearReview['longestStreak'] {
+    const sorted = Array.from(new Set(days)).sort();
+    let best: YearReview['longestStreak'] = null;
+    let start = 0;
+    sorted.forEach((day, index) => {
+        const previous = sorted[index - 1];
+        const consecutive = previous && new Date(`${day}T12:00`).getTime() - new Date(`${previous}T12:00`).getTime() <= 36 * 60 * 60 * 1000;
+        if (!consecutive) start = index;
+        const length = index - start + 1;
+        if (!best || length > best.days) best = { days: length, start: sorted[start], end: day };
+    });
+    return best;
+}
+
+function keptUpWith(media: Anime | undefined, entries: HistoryEntry[], year: number): boolean {
+    if (!media?.season || media.year !== year || !(media.season in SEASON_START_MONTH)) return false;
+    const dated = entries.filter(entry => entry.at);
+    if (dated.length < KEPT_UP_MIN_EPISODES) return false;
+    const seasonStart = new Date(year, SEASON_START_MONTH[media.season], 1).getTime();
+    const seasonEnd = new Date(year, SEASON_START_MONTH[media.season] + 3, 1 + KEPT_UP_GRACE_DAYS).getTime();
+    const whileAiring = dated.filter(entry => {
+        const at = new Date(entry.at!).getTime();
+        return at >= seasonStart && at < seasonEnd;
+    });
+    return whileAiring.length / dated.length >= KEPT_UP_SHARE;
+}
+
+// `media` needs the details of the titles involved (see getMediaDetails); missing ones are
+// counted but left out of the genres and studios.
+export function buildYearReview(listData: ListData, media: Map<number, Anime>, year: number): YearReview {
+    const isInYear = inYear(year);
+    const entries = buildHistory(listData).filter(entry => isInYear(entry.at));
+
+    const finished = Object.keys(listData.statuses || {})
+        .filter(id => isInYear(finishedAt(listData, id)))
+        .sort((a, b) => finishedAt(listData, a)!.localeCompare(finishedAt(listData, b)!))
+        .map(id => toTitle(Number(id), listData.statuses[id].type, media));
+
+    const byMedia = new Map<number, HistoryEntry[]>();
+    entries.forEach(entry => byMedia.set(entry.mediaId, [...(byMedia.get(entry.mediaId) || []), entry]));
+    const activeIds = new Set([...Array.from(byMedia.keys()), ...finished.map(item => item.mediaId)]);
+    const details = Array.from(activeIds).map(id => media.get(id)).filter((item): item is Anime => !!item);
+    const top = (names: string[]) => topEntries(countBy(names), YEAR_REVIEW_TOP_ENTRIES, null);
+
+    const monthly = Array.from({ length: 12 }, () => 0);
+    entries.forEach(entry => monthly[new Date(entry.at!).getMonth()]++);
+    const busiest = monthly.reduce((best, units, month) => (units > monthly[best] ? month : best), 0);
+
+    const episodes = entries.filter(entry => entry.field === 'watchedEpisodes');
+    return {
+        year,
+        finished,
+        episodes: episodes.length,
+        chapters: entries.filter(entry => entry.field === 'readChapters').length,
+        volumes: entries.filter(entry => entry.field === 'readVolumes').length,
+        minutes: episodes.reduce((sum, entry) => sum + (media.get(entry.mediaId)?.duration || DEFAULT_EPISODE_MINUTES), 0),
+        topGenres: top(details.flatMap(item => item.genres.filter(genre => genre.type === 'genre').map(genre => genre.name))),
+        topStudios: top(details.filter(item => getMediaKind(item) === 'ANIME').flatMap(item => item.studios.map(studio => studio.name))),
+        longestStreak: longestStreak(entries.map(entry => localDay(entry.at!))),
+        busiestMonth: monthly[busiest] > 0 ? { month: busiest, units: monthly[busiest] } : null,
+        keptUp: Array.from(byMedia)
+            .filter(([id, mediaEntries]) => mediaEntries[0].kind === 'ANIME' && keptUpWith(media.get(id), mediaEntries, year))
+            .map(([id]) => toTitle(id, 'ANIME', media)),
+    };
+}
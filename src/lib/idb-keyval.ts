@@ -1,61 +1,136 @@
 // A simple key-value store using IndexedDB
 // Based on the 'idb-keyval' library by Jake Archibald
 
+export const DEFAULT_DATABASE_NAME = 'animesync-db';
+const DB_VERSION = 6;
+const DEFAULT_STORE = 'keyval';
+
+// Every object store in the app database. 'keyval' holds the generic key/value pairs,
+// the others hold one record per ListData entry (see lib/data/list-store.ts).
+export const OBJECT_STORES = [DEFAULT_STORE, 'lists', 'watchedEpisodes', 'readChapters', 'reminders', 'notifications', 'listSettings', 'listEntries', 'statuses', 'customLists', 'readVolumes'] as const;
+export type ObjectStoreName = typeof OBJECT_STORES[number];
+
+export type StoreOperation =
+  | { type: 'put'; store: ObjectStoreName; key: IDBValidKey; value: unknown }
+  | { type: 'delete'; store: ObjectStoreName; key: IDBValidKey };
+
+// Read-modify-write of a single record. `update` receives the stored value and returns the
+// value to write, or undefined to delete the record. It runs inside the batch transaction,
+// so no other tab can write the record between the read and the write.
+export type StoreUpdate = { type: 'update'; store: ObjectStoreName; key: IDBValidKey; update: (current: any) => unknown };
+
 function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
   return new Promise<T>((resolve, reject) => {
-    request.oncomplete = request.onsuccess = () => resolve(request.result);
+    request.onsuccess = () => resolve(request.result);
     request.onerror = () => reject(request.error);
   });
 }
 
-function createStore(dbName: string, storeName: string): (txMode: IDBTransactionMode, callback: (store: IDBObjectStore) => void) => Promise<void> {
-  const request = indexedDB.open(dbName, 1);
-  request.onupgradeneeded = () => request.result.createObjectStore(storeName);
-  const dbp = promisifyRequest(request);
-
-  return (txMode, callback) => dbp.then(db => {
-    const tx = db.transaction(storeName, txMode);
-    callback(tx.objectStore(storeName));
-    return promisifyRequest(tx as any); // Type assertion to handle transaction completion
+function promisifyTransaction(tx: IDBTransaction): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onabort = tx.onerror = () => reject(tx.error);
   });
 }
 
-let defaultGetStore: ReturnType<typeof createStore>;
-function getStore() {
-  if (!defaultGetStore) {
-    defaultGetStore = createStore('animesync-db', 'keyval');
+// Each local profile has its own database (see lib/data/profiles.ts). All helpers below use
+// the active one unless a database name is passed explicitly.
+let activeDatabaseName = DEFAULT_DATABASE_NAME;
+const connections = new Map<string, Promise<IDBDatabase>>();
+
+export function setDatabaseName(name: string) {
+  activeDatabaseName = name;
+}
+
+export function getDatabaseName(): string {
+  return activeDatabaseName;
+}
+
+function getDatabase(name: string = activeDatabaseName): Promise<IDBDatabase> {
+  let dbPromise = connections.get(name);
+  if (!dbPromise) {
+    const request = indexedDB.open(name, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      OBJECT_STORES.forEach(name => {
+        if (!db.objectStoreNames.contains(name)) db.createObjectStore(name);
+      });
+    };
+    dbPromise = promisifyRequest(request).then(db => {
+      // Another tab wants to delete or upgrade this database; let it.
+      db.onversionchange = () => {
+        db.close();
+        connections.delete(name);
+      };
+      return db;
+    });
+    connections.set(name, dbPromise);
   }
-  return defaultGetStore;
+  return dbPromise;
 }
 
-export function get<T>(key: IDBValidKey): Promise<T | undefined> {
-  let req: IDBRequest;
-  return getStore()('readonly', store => {
-    req = store.get(key);
-  }).then(() => req.result);
+// Closes our connection to a database and deletes it entirely.
+export async function deleteDatabase(name: string): Promise<void> {
+  const dbPromise = connections.get(name);
+  connections.delete(name);
+  if (dbPromise) (await dbPromise).close();
+  await promisifyRequest(indexedDB.deleteDatabase(name));
 }
 
-export function set(key: IDBValidKey, value: any): Promise<void> {
-  return getStore()('readwrite', store => {
-    store.put(value, key);
+function withStores(storeNames: ObjectStoreName[], txMode: IDBTransactionMode, callback: (tx: IDBTransaction) => void, databaseName?: string): Promise<void> {
+  return getDatabase(databaseName).then(db => {
+    const tx = db.transaction(storeNames, txMode);
+    callback(tx);
+    return promisifyTransaction(tx);
   });
 }
 
-export function del(key: IDBValidKey): Promise<void> {
-  return getStore()('readwrite', store => {
-    store.delete(key);
-  });
+function withStore(txMode: IDBTransactionMode, callback: (store: IDBObjectStore) => void, storeName: ObjectStoreName = DEFAULT_STORE): Promise<void> {
+  return withStores([storeName], txMode, tx => callback(tx.objectStore(storeName)));
 }
 
+export function get<T>(key: IDBValidKey, databaseName?: string): Promise<T | undefined> {
+  let req: IDBRequest;
+  return withStores([DEFAULT_STORE], 'readonly', tx => {
+    req = tx.objectStore(DEFAULT_STORE).get(key);
+  }, databaseName).then(() => req.result);
+}
+
+export function set(key: IDBValidKey, value: any, databaseName?: string): Promise<void> {
+  return withStores([DEFAULT_STORE], 'readwrite', tx => {
+    tx.objectStore(DEFAULT_STORE).put(value, key);
+  }, databaseName);
+}
+
+export function del(key: IDBValidKey, databaseName?: string): Promise<void> {
+  return withStores([DEFAULT_STORE], 'readwrite', tx => {
+    tx.objectStore(DEFAULT_STORE).delete(key);
+  }, databaseName);
+}
+
+// Read-modify-write of a single key in one transaction, so concurrent tabs can't lose updates.
+export function update<T>(key: IDBValidKey, updater: (current: T | undefined) => T, databaseName?: string): Promise<T> {
+  let result: T;
+  return withStores([DEFAULT_STORE], 'readwrite', tx => {
+    const store = tx.objectStore(DEFAULT_STORE);
+    const request = store.get(key);
+    request.onsuccess = () => {
+      result = updater(request.result);
+      store.put(result, key);
+    };
+  }, databaseName).then(() => result);
+}
+
+// Wipes every object store in the app database.
 export function clear(): Promise<void> {
-  return getStore()('readwrite', store => {
-    store.clear();
+  return withStores([...OBJECT_STORES], 'readwrite', tx => {
+    OBJECT_STORES.forEach(name => tx.objectStore(name).clear());
   });
 }
 
 export function keys(): Promise<IDBValidKey[]> {
   const keys: IDBValidKey[] = [];
-  return getStore()('readonly', store => {
+  return withStore('readonly', store => {
     // This would be more efficient with openKeyCursor, but this is fine for now
     (store.openCursor || store.openKeyCursor).call(store).onsuccess = function () {
       if (!this.result) return;
@@ -64,3 +139,49 @@ export function keys(): Promise<IDBValidKey[]> {
     };
   }).then(() => keys);
 }
+
+// Reads every record of the given stores in a single readonly transaction.
+export function entries(storeNames: ObjectStoreName[], databaseName?: string): Promise<Record<string, [IDBValidKey, any][]>> {
+  const result: Record<string, [IDBValidKey, any][]> = {};
+  return withStores(storeNames, 'readonly', tx => {
+    storeNames.forEach(name => {
+      result[name] = [];
+      tx.objectStore(name).openCursor().onsuccess = function () {
+        if (!this.result) return;
+        result[name].push([this.result.key, this.result.value]);
+        this.result.continue();
+      };
+    });
+  }, databaseName).then(() => result);
+}
+
+// Applies puts/deletes/updates across several stores atomically: either all of them land or none do.
+// Resolves with the plain puts/deletes that were actually written, updates included.
+export function batch(operations: (StoreOperation | StoreUpdate)[], clearFirst: ObjectStoreName[] = []): Promise<StoreOperation[]> {
+  const storeNames = Array.from(new Set<ObjectStoreName>([...clearFirst, ...operations.map(op => op.store)]));
+  if (storeNames.length === 0) return Promise.resolve([]);
+  const committed: StoreOperation[] = [];
+  return withStores(storeNames, 'readwrite', tx => {
+    clearFirst.forEach(name => tx.objectStore(name).clear());
+    operations.forEach(op => {
+      const store = tx.objectStore(op.store);
+      if (op.type === 'update') {
+        const request = store.get(op.key);
+        request.onsuccess = () => {
+          const value = op.update(request.result);
+          if (value === undefined) {
+            store.delete(op.key);
+            committed.push({ type: 'delete', store: op.store, key: op.key });
+          } else {
+            store.put(value, op.key);
+            committed.push({ type: 'put', store: op.store, key: op.key, value });
+          }
+        };
+        return;
+      }
+      if (op.type === 'put') store.put(op.value, op.key);
+      else store.delete(op.key);
+      committed.push(op);
+    });
+  }).then(() => committed);
+}
@@ -0,0 +1,15 @@
+import type { Anime } from './types';
+import { getMediaUrl } from './background-checks';
+
+// Asks the service worker (public/sw.js) to cache the details pages and covers of tracked titles,
+// so they open offline even if they were never visited. Their data comes from trackedMedia and
+// the query cache; the worker skips what it already has.
+export async function cacheTrackedMedia(trackedMedia: Anime[]) {
+    if (typeof window === 'undefined' || !('serviceWorker' in navigator) || trackedMedia.length === 0) return;
+    const registration = await navigator.serviceWorker.ready;
+    registration.active?.postMessage({
+        type: 'cache-media',
+        pages: trackedMedia.map(getMediaUrl),
+        images: trackedMedia.map(item => item.images.webp?.large_image_url || item.images.jpg?.large_image_url).filter(Boolean),
+    });
+}
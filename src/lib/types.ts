@@ -51,6 +51,8 @@ export interface Anime {
   rank: number | null;
   popularity: number | null;
   year: number | null;
+  season?: string | null; // WINTER, SPRING, SUMMER or FALL
+  duration?: number | null; // Minutes per episode
   isAdult?: boolean;
   startDate?: {
     year: number | null;
@@ -433,7 +435,9 @@ export interface AniListMedia {
     tags?: { id: number, name: string }[];
     type: string; // ANIME or MANGA
     format: string;
+    season?: string | null;
     seasonYear: number | null;
+    duration?: number | null; // Minutes per episode
     startDate?: {
         year: number | null;
         month: number | null;
@@ -577,6 +581,7 @@ export interface NewsNotification {
     title: string;
     thumbnail: string;
     message: string;
+    episode?: number; // The episode that aired, for notifications from the airing schedule
     timestamp: string;
     seen: boolean;
     seenAt?: string;
@@ -679,11 +684,60 @@ export interface MostTrackedItem {
     type: 'ANIME' | 'MANGA';
 }
 
-export type WatchedEpisodes = Record<string, string[]>;
-export type ReadChapters = Record<string, { read: string[]; lastRead: string }>;
+// When each episode (chapter) of a title was marked, keyed by episode (chapter) id.
+// null when the date is unknown (see lib/data/progress.ts).
+export type ProgressLog = Record<string, string | null>;
+export type WatchedEpisodes = Record<string, ProgressLog>; // media id -> watched episodes
+export type ReadChapters = Record<string, ProgressLog>; // media id -> read chapters
+export type ReadVolumes = Record<string, ProgressLog>; // media id -> read volumes
+// How a manga's progress is counted, and optionally which chapters each volume holds
+// (volume number -> first and last chapter), so marking a volume marks its chapters.
+export interface VolumeTracking {
+    trackBy: 'chapters' | 'volumes';
+    ranges: Record<string, [number, number]>;
+}
+export type VolumeTrackingSettings = Record<string, VolumeTracking>; // media id -> tracking
 export type CustomEpisodeLinks = Record<string, { template: string; ongoing: boolean }>;
 export type ExcludedItems = Record<number, number[]>; // root anilistId -> excluded mal_id array
 
+// AniList's score scales. Scores are always stored on the 0-100 scale, so switching the
+// scale only changes how they are shown and entered.
+export type ScoreFormat = 'POINT_100' | 'POINT_10_DECIMAL' | 'POINT_10' | 'POINT_5';
+
+// The user's own data about one title on their lists.
+export interface ListEntry {
+    score: number | null; // 0-100, null when not scored
+    notes: string;
+    startedAt: string | null; // yyyy-MM-dd
+    completedAt: string | null; // yyyy-MM-dd
+    rewatchCount: number;
+    // What has been marked during the current rewatch (reread), while the status is 'repeating'.
+    // The first watch's progress stays in watchedEpisodes/readChapters/readVolumes.
+    repeatProgress?: Partial<Record<'watchedEpisodes' | 'readChapters' | 'readVolumes', ProgressLog>>;
+    updatedAt: string; // ISO string
+}
+export type ListEntries = Record<string, ListEntry>; // media id -> entry
+
+// Where a title stands on the user's lists. Allowed changes are in lib/data/media-status.ts.
+export type MediaStatus = 'planning' | 'current' | 'paused' | 'dropped' | 'completed' | 'repeating';
+
+export interface MediaStatusEntry {
+    status: MediaStatus;
+    type: 'ANIME' | 'MANGA';
+    updatedAt: string; // ISO string, when the status last changed
+}
+export type MediaStatuses = Record<string, MediaStatusEntry>; // media id -> status
+
+// A named collection made by the user. Holds anime and manga, in the order the user arranged them.
+export interface CustomList {
+    id: string;
+    name: string;
+    description: string;
+    mediaIds: number[];
+    createdAt: string; // ISO string
+    updatedAt: string; // ISO string
+}
+
 export interface Reminder {
     id: string;
     mediaId: number;
@@ -705,13 +759,15 @@ export interface Reminder {
 export type NotificationsLayoutKey = 'updates' | 'reminders' | 'logs';
 
 export interface ListData {
-  planToWatch: number[];
-  currentlyWatching: number[];
+  statuses: MediaStatuses;
   watchedEpisodes: WatchedEpisodes;
-  planToRead: number[];
-  currentlyReading: number[];
   readChapters: ReadChapters;
+  readVolumes: ReadVolumes;
+  volumeTracking: VolumeTrackingSettings;
   customEpisodeLinks: CustomEpisodeLinks;
+  listEntries: ListEntries;
+  customLists: CustomList[];
+  scoreFormat?: ScoreFormat;
   comments: Record<string, Comment[]>;
   notifications: UserNotification[];
   notificationsLayout: NotificationsLayoutKey[];
@@ -723,6 +779,8 @@ export interface ListData {
   sensitiveContentUnlocked: boolean;
   broadcastMessage?: string;
   storageQuota: number; // in bytes
+  layoutConfig?: LayoutConfigItem[];
+  schemaVersion?: number;
 }
 
 export interface LayoutConfigItem {
@@ -14,7 +14,7 @@ import { Button } from '@/components/ui/button';
 import { BackButton } from '@/components/ui/back-button';
 import { useTranslation } from '@/hooks/use-translation';
 import { translations } from '@/i18n';
-import { Languages, Undo2, Loader2, Info, Star, BookOpen, Layers, User, GitMerge, Bookmark, Users, UserCog, MessageSquare, Heart, BookUser, Check, ListVideo, Trash2, CheckCheck, PlusCircle, ArrowUp, ArrowDown, Bell, Search } from 'lucide-react';
+import { Languages, Undo2, Loader2, Info, Star, BookOpen, Layers, User, GitMerge, Users, UserCog, MessageSquare, Heart, Check, ListVideo, Trash2, CheckCheck, PlusCircle, ArrowUp, ArrowDown, Bell, Search } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { translateTextServer } from '@/lib/translation';
 import { useToast } from '@/hooks/use-toast';
@@ -27,6 +27,8 @@ import { ScrollArea } from '@/components/ui/scroll-area';
 import { CustomLinksDialog } from '@/components/anime/details/tabs/CustomLinksDialog';
 import { SceneSearchDialog } from '@/components/anime/details/scene-search-dialog';
 import { ReminderDialog } from '@/components/notifications/reminder-dialog';
+import { MediaStatusMenu } from '@/components/anime/media-status-menu';
+import { CustomListMenu } from '@/components/anime/list/custom-list-menu';
 
 
 function TabLoading() {
@@ -281,8 +283,7 @@ function ChaptersTab({ manga, listData }: { manga: Anime; listData: any }) {
 
     useEffect(() => {
         if (listData?.readChapters?.[mangaIdStr]) {
-            const chapterIds = listData.readChapters[mangaIdStr].read || [];
-            setReadSet(new Set(chapterIds.map(String)));
+            setReadSet(new Set(Object.keys(listData.readChapters[mangaIdStr])));
         } else {
             setReadSet(new Set());
         }
@@ -436,8 +437,6 @@ export default function MangaPage() {
     const { 
         authMode, 
         listData,
-        isPlannedToRead, togglePlanToRead,
-        isCurrentlyReading, toggleCurrentlyReading
     } = useAuth();
     const { toast } = useToast();
     
@@ -447,9 +446,6 @@ export default function MangaPage() {
     const [activeTab, setActiveTab] = useState('about');
 
     
-    const planned = media ? isPlannedToRead(media.id) : false;
-    const reading = media ? isCurrentlyReading(media.id) : false;
-    
     const [additionalData, setAdditionalData] = useState({
       staff: null as JikanStaff[] | null,
       reviews: null as JikanReview[] | null,
@@ -553,22 +549,8 @@ export default function MangaPage() {
                              <div className="flex flex-col gap-2 pt-2">
                                 {authMode !== 'none' && (
                                     <>
-                                        <Button 
-                                          className="w-full flex-wrap"
-                                          variant={reading ? "secondary" : "outline"}
-                                          onClick={() => toggleCurrentlyReading(media)}
-                                        >
-                                          <BookUser className={cn("w-4 h-4 mr-2", reading ? "text-green-400" : "text-muted-foreground")} />
-                                          {t('currently_reading')}
-                                        </Button>
-                                        <Button 
-                                          className="w-full flex-wrap"
-                                          variant={planned ? "secondary" : "outline"}
-                                          onClick={() => togglePlanToRead(media)}
-                                        >
-                                          <Bookmark className={cn("w-4 h-4 mr-2", planned ? "text-yellow-400" : "text-muted-foreground")} />
-                                          {t('plan_to_read_manga')}
-                                        </Button>
+                                        <MediaStatusMenu media={media} />
+                                        <CustomListMenu media={media} />
                                         
                                         <SceneSearchDialog 
                                             animeId={media.id} 